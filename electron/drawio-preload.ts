@@ -9,6 +9,7 @@
  * - electron.request API for Draw.io native integration
  * - Ready detection (notifies when Draw.io editor is loaded)
  * - Export to PNG (returns base64-encoded image data)
+ * - Loading diagram XML generated by the host (e.g. the registry view)
  *
  * @see https://www.electronjs.org/docs/latest/api/webview-tag#preload
  * @see assets/drawio/src/main/webapp/js/diagramly/ElectronApp.js
@@ -49,6 +50,10 @@ declare class XMLSerializer {
   serializeToString(node: any): string;
 }
 
+declare class DOMParser {
+  parseFromString(text: string, type: string): any;
+}
+
 declare class Blob {
   constructor(parts: any[], options: { type: string });
 }
@@ -204,6 +209,25 @@ function openExportDialog(): void {
   }
 }
 
+/**
+ * Replace the current diagram with the given Draw.io XML.
+ * Accepts a full <mxfile> document or a bare <mxGraphModel>.
+ */
+function loadDiagramXml(xml: string): void {
+  if (!window.editorUi) {
+    throw new Error('EditorUi not available');
+  }
+
+  const doc = new DOMParser().parseFromString(xml, 'text/xml');
+  const model = doc.getElementsByTagName('mxGraphModel')[0];
+  if (!model) {
+    throw new Error('Diagram XML has no mxGraphModel');
+  }
+
+  window.editorUi.editor.setGraphXml(model);
+  window.editorUi.editor.setModified(false);
+}
+
 /**
  * Send an electron.request to the host renderer via IPC.
  */
@@ -309,6 +333,11 @@ function setupIpcHandlers(): void {
             JSON.stringify({ event: 'exportDialogOpened' })
           );
           break;
+
+        case 'load':
+          loadDiagramXml(data.xml);
+          ipcRenderer.sendToHost(DRAWIO_CHANNEL, JSON.stringify({ event: 'loaded' }));
+          break;
       }
     } catch (error) {
       console.error('[DrawioPreload] Error handling message:', error);
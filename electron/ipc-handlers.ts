@@ -6,6 +6,8 @@
  *
  * Pattern: Each handler simply delegates to the facade method,
  * making migration to REST API trivial (just add Express routes).
+ * Handlers that edit the registry run through `facade.edits.track` so
+ * they can be undone.
  */
 
 import { ipcMain, dialog, BrowserWindow, app, shell } from 'electron';
@@ -19,6 +21,24 @@ import type {
   GenerateBatchRequest,
   PreviewRequest,
   RegisterSymbolRequest,
+  UpdateSymbolRequest,
+  EditAttribution,
+  RegistryExportRequest,
+  RegistryImportRequest,
+  RevisionDiffRequest,
+  RevisionRestoreRequest,
+  DiagramImportRequest,
+  MermaidImportRequest,
+  DiagramExportRequest,
+  DiagramDriftRequest,
+  DiagramDriftResolveRequest,
+  ImpactAnalysisRequest,
+  SourceVerificationRequest,
+  StaticAnalysisRequest,
+  ProjectScanRequest,
+  CoverageImportRequest,
+  TraceImportRequest,
+  DeadCodeOptionsDTO,
 } from '../src/api/types.js';
 import type { GenerationOptions } from '../src/services/code-generation/index.js';
 import { createHelpContentService } from '../src/services/help-content/index.js';
@@ -51,8 +71,8 @@ export function registerIpcHandlers(facade: Architecture): void {
     return facade.symbols.getSymbol(id);
   });
 
-  ipcMain.handle('symbols:search', async (_event, query: string) => {
-    return facade.symbols.searchSymbols(query);
+  ipcMain.handle('symbols:search', async (_event, query: string, limit?: number) => {
+    return facade.symbols.searchSymbols(query, limit);
   });
 
   ipcMain.handle(
@@ -69,15 +89,44 @@ export function registerIpcHandlers(facade: Architecture): void {
     }
   );
 
+  ipcMain.handle('symbols:resolveReference', async (_event, ref: string) => {
+    return facade.symbols.resolveReference(ref);
+  });
+
+  ipcMain.handle('symbols:listVersionLocks', async () => {
+    return facade.symbols.listVersionLocks();
+  });
+
+  ipcMain.handle('symbols:updateVersionLocks', async () => {
+    return facade.symbols.updateVersionLocks();
+  });
+
   ipcMain.handle(
     'symbols:register',
     async (_event, request: RegisterSymbolRequest) => {
-      return facade.symbols.registerSymbol(request);
+      const { namespace, name } = request.symbol;
+      return facade.edits.track(`Register ${namespace}/${name}`, () =>
+        facade.symbols.registerSymbol(request)
+      );
     }
   );
 
-  ipcMain.handle('symbols:remove', async (_event, id: string) => {
-    return facade.symbols.removeSymbol(id);
+  ipcMain.handle('symbols:update', async (_event, request: UpdateSymbolRequest) => {
+    return facade.edits.track(`Update ${request.id}`, () => facade.symbols.updateSymbol(request));
+  });
+
+  ipcMain.handle('symbols:remove', async (_event, id: string, attribution?: EditAttribution) => {
+    return facade.edits.track(`Remove ${id}`, () => facade.symbols.removeSymbol(id, attribution));
+  });
+
+  ipcMain.handle('symbols:exportRegistry', async (_event, request: RegistryExportRequest) => {
+    return facade.symbols.exportRegistry(request);
+  });
+
+  ipcMain.handle('symbols:importRegistry', async (_event, request: RegistryImportRequest) => {
+    return facade.edits.track(`Import registry from ${request.sourcePath}`, () =>
+      facade.symbols.importRegistry(request)
+    );
   });
 
   // ==========================================================================
@@ -134,22 +183,40 @@ export function registerIpcHandlers(facade: Architecture): void {
     return { success: true, data: service.getStats() };
   });
 
+  ipcMain.handle('graph:analyzeImpact', async (_event, request: ImpactAnalysisRequest) => {
+    return facade.graph.analyzeImpact(request);
+  });
+
   // ==========================================================================
   // Validation Operations
   // ==========================================================================
 
-  ipcMain.handle('validation:validate', async () => {
-    return facade.validation.validateAll();
+  ipcMain.handle('validation:validate', async (_event, projectRoot?: string) => {
+    return facade.validation.validateAll(projectRoot);
   });
 
-  ipcMain.handle('validation:validateSymbol', async (_event, id: string) => {
-    return facade.validation.validateSymbol(id);
+  ipcMain.handle('validation:validateSymbol', async (_event, id: string, projectRoot?: string) => {
+    return facade.validation.validateSymbol(id, projectRoot);
   });
 
+  ipcMain.handle(
+    'validation:verifySources',
+    async (_event, request?: SourceVerificationRequest) => {
+      return facade.validation.verifySources(request);
+    }
+  );
+
   ipcMain.handle('validation:checkCircular', async () => {
     return facade.validation.checkCircular();
   });
 
+  ipcMain.handle(
+    'validation:compareVersions',
+    async (_event, fromId: string, toId: string) => {
+      return facade.validation.compareVersions(fromId, toId);
+    }
+  );
+
   // ==========================================================================
   // Status Operations
   // ==========================================================================
@@ -162,25 +229,103 @@ export function registerIpcHandlers(facade: Architecture): void {
     return facade.symbols.findUntested();
   });
 
+  ipcMain.handle('status:analyze', async (_event, request: StaticAnalysisRequest) => {
+    return facade.edits.track(`Analyze ${request.projectRoot}`, () =>
+      facade.analysis.analyzeProject(request)
+    );
+  });
+
+  ipcMain.handle('status:scanProject', async (_event, request: ProjectScanRequest) => {
+    return facade.edits.track(`Scan ${request.projectRoot}`, () =>
+      facade.analysis.scanProject(request)
+    );
+  });
+
+  ipcMain.handle('status:importCoverage', async (_event, request: CoverageImportRequest) => {
+    return facade.edits.track(`Import coverage from ${request.reportPath}`, () =>
+      facade.analysis.importCoverage(request)
+    );
+  });
+
+  ipcMain.handle('status:importTrace', async (_event, request: TraceImportRequest) => {
+    return facade.edits.track(`Import trace from ${request.tracePath}`, () =>
+      facade.analysis.importTrace(request)
+    );
+  });
+
+  ipcMain.handle('status:findDeadCode', async (_event, options?: DeadCodeOptionsDTO) => {
+    return facade.analysis.findDeadCode(options);
+  });
+
+  ipcMain.handle('status:removeDeadCode', async (_event, symbolIds: string[]) => {
+    return facade.edits.track(`Remove ${symbolIds.length} dead code symbol(s)`, () =>
+      facade.analysis.removeDeadCode(symbolIds)
+    );
+  });
+
+  // ==========================================================================
+  // History Operations
+  // ==========================================================================
+
+  ipcMain.handle('history:list', async (_event, symbolId: string) => {
+    return facade.history.listRevisions(symbolId);
+  });
+
+  ipcMain.handle('history:diff', async (_event, request: RevisionDiffRequest) => {
+    return facade.history.diffRevisions(request);
+  });
+
+  ipcMain.handle('history:restore', async (_event, request: RevisionRestoreRequest) => {
+    return facade.edits.track(`Restore revision ${request.revision}`, () =>
+      facade.history.restoreRevision(request)
+    );
+  });
+
+  ipcMain.handle('history:asOf', async (_event, timestamp: string) => {
+    return facade.history.getRegistryAsOf(timestamp);
+  });
+
+  // ==========================================================================
+  // Undo/Redo Operations
+  // ==========================================================================
+
+  ipcMain.handle('registry:undo', async () => {
+    return facade.edits.undo();
+  });
+
+  ipcMain.handle('registry:redo', async () => {
+    return facade.edits.redo();
+  });
+
+  ipcMain.handle('registry:history', async () => {
+    return facade.edits.getHistory();
+  });
+
   // ==========================================================================
   // Synthesizer Operations (Code Generation)
   // ==========================================================================
 
   ipcMain.handle('synthesizer:generate', async (_event, request: GenerateRequest) => {
-    return facade.generation.generate(request);
+    return facade.edits.track(`Generate ${request.symbolId}`, () =>
+      facade.generation.generate(request)
+    );
   });
 
   ipcMain.handle(
     'synthesizer:generateMultiple',
     async (_event, request: GenerateBatchRequest) => {
-      return facade.generation.generateMultiple(request);
+      return facade.edits.track(`Generate ${request.symbolIds.length} symbol(s)`, () =>
+        facade.generation.generateMultiple(request)
+      );
     }
   );
 
   ipcMain.handle(
     'synthesizer:generateAll',
     async (_event, options: GenerationOptions) => {
-      return facade.generation.generateAll(options);
+      return facade.edits.track('Generate all symbols', () =>
+        facade.generation.generateAll(options)
+      );
     }
   );
 
@@ -590,6 +735,36 @@ export function registerIpcHandlers(facade: Architecture): void {
     }
   });
 
+  ipcMain.handle('diagram:previewImport', async (_event, request: DiagramImportRequest) => {
+    return facade.diagrams.previewImport(request);
+  });
+
+  ipcMain.handle('diagram:import', async (_event, request: DiagramImportRequest) => {
+    return facade.edits.track('Import diagram', () => facade.diagrams.importDiagram(request));
+  });
+
+  ipcMain.handle('diagram:previewMermaidImport', async (_event, request: MermaidImportRequest) => {
+    return facade.diagrams.previewMermaidImport(request);
+  });
+
+  ipcMain.handle('diagram:importMermaid', async (_event, request: MermaidImportRequest) => {
+    return facade.edits.track('Import Mermaid diagram', () =>
+      facade.diagrams.importMermaid(request)
+    );
+  });
+
+  ipcMain.handle('diagram:exportDrawio', async (_event, request?: DiagramExportRequest) => {
+    return facade.diagrams.exportDrawio(request);
+  });
+
+  ipcMain.handle('diagram:driftReport', async (_event, request: DiagramDriftRequest) => {
+    return facade.diagrams.driftReport(request);
+  });
+
+  ipcMain.handle('diagram:resolveDrift', async (_event, request: DiagramDriftResolveRequest) => {
+    return facade.edits.track('Resolve diagram drift', () => facade.diagrams.resolveDrift(request));
+  });
+
   // ==========================================================================
   // Test Suite Operations
   // ==========================================================================
@@ -2,7 +2,9 @@
  * Electron Application Menu
  *
  * Defines the application menu including the Help menu with topic shortcuts.
- * Supports dynamic Recent Exports submenu populated from export history.
+ * Supports dynamic Recent Exports submenu populated from export history,
+ * registry export/import to and from a directory, and undo/redo of registry
+ * edits (the renderer falls back to native undo while a text field has focus).
  */
 
 import { Menu, shell, app, BrowserWindow, dialog } from 'electron';
@@ -11,6 +13,7 @@ import {
   SqliteExportHistoryRepository,
   getDatabase,
 } from '../src/repositories/index.js';
+import type { RegistryFormat } from '../src/api/types.js';
 
 /**
  * Format file size for display (e.g., "12.5 KB")
@@ -76,6 +79,24 @@ function buildRecentExportsSubmenu(
   }
 }
 
+/**
+ * Ask for the directory to export the registry into; the renderer runs the
+ * export so it can show the result.
+ */
+async function chooseRegistryExportDir(
+  mainWindow: BrowserWindow | null,
+  format: RegistryFormat
+): Promise<void> {
+  const result = await dialog.showOpenDialog(mainWindow ?? undefined as never, {
+    properties: ['openDirectory', 'createDirectory'],
+    title: 'Export Registry',
+    buttonLabel: 'Export',
+  });
+  if (!result.canceled && result.filePaths.length > 0) {
+    mainWindow?.webContents.send('registry:export', result.filePaths[0], format);
+  }
+}
+
 /**
  * Create the application menu.
  * @param mainWindow - The main browser window for sending IPC messages
@@ -147,6 +168,32 @@ export function createApplicationMenu(mainWindow: BrowserWindow | null): Menu {
           submenu: buildRecentExportsSubmenu(mainWindow),
         },
         { type: 'separator' },
+        {
+          label: 'Export Registry',
+          submenu: [
+            {
+              label: 'As JSON...',
+              click: () => chooseRegistryExportDir(mainWindow, 'json'),
+            },
+            {
+              label: 'As YAML...',
+              click: () => chooseRegistryExportDir(mainWindow, 'yaml'),
+            },
+          ],
+        },
+        {
+          label: 'Import Registry...',
+          click: async () => {
+            const result = await dialog.showOpenDialog(mainWindow ?? undefined as never, {
+              properties: ['openDirectory'],
+              title: 'Import Registry',
+            });
+            if (!result.canceled && result.filePaths.length > 0) {
+              mainWindow?.webContents.send('registry:import', result.filePaths[0]);
+            }
+          },
+        },
+        { type: 'separator' },
         isMac ? { role: 'close' } : { role: 'quit' },
       ],
     },
@@ -155,8 +202,20 @@ export function createApplicationMenu(mainWindow: BrowserWindow | null): Menu {
     {
       label: 'Edit',
       submenu: [
-        { role: 'undo' },
-        { role: 'redo' },
+        {
+          label: 'Undo',
+          accelerator: isMac ? 'Cmd+Z' : 'Ctrl+Z',
+          click: () => {
+            mainWindow?.webContents.send('edit:undo');
+          },
+        },
+        {
+          label: 'Redo',
+          accelerator: isMac ? 'Cmd+Shift+Z' : 'Ctrl+Y',
+          click: () => {
+            mainWindow?.webContents.send('edit:redo');
+          },
+        },
         { type: 'separator' },
         { role: 'cut' },
         { role: 'copy' },
@@ -172,6 +231,14 @@ export function createApplicationMenu(mainWindow: BrowserWindow | null): Menu {
               { type: 'separator' as const },
               { role: 'selectAll' as const },
             ]),
+        { type: 'separator' },
+        {
+          label: 'Edit History...',
+          accelerator: isMac ? 'Cmd+Shift+H' : 'Ctrl+Shift+H',
+          click: () => {
+            mainWindow?.webContents.send('edit:history');
+          },
+        },
       ],
     },
 
@@ -26,6 +26,46 @@ import type {
   GenerationBatchResultDTO,
   PreviewResultDTO,
   RegisterSymbolRequest,
+  UpdateSymbolRequest,
+  EditAttribution,
+  RegistryFormat,
+  RegistryExportRequest,
+  RegistryExportResultDTO,
+  RegistryImportRequest,
+  RegistryImportResultDTO,
+  RevisionDiffDTO,
+  RevisionDiffRequest,
+  RevisionRestoreRequest,
+  SymbolRevisionDTO,
+  SymbolSearchHitDTO,
+  CommandSummaryDTO,
+  CommandStackStateDTO,
+  DiagramImportRequest,
+  MermaidImportRequest,
+  DiagramExportRequest,
+  DiagramDriftRequest,
+  DiagramDriftResolveRequest,
+  DiagramSyncPreviewDTO,
+  DiagramSyncResultDTO,
+  DiagramDriftReportDTO,
+  DiagramDriftResolutionDTO,
+  VersionLockDTO,
+  CompatibilityReportDTO,
+  SourceVerificationRequest,
+  SourceVerificationReportDTO,
+  ImpactAnalysisRequest,
+  ImpactReportDTO,
+  StaticAnalysisRequest,
+  StaticAnalysisResultDTO,
+  ProjectScanRequest,
+  ProjectScanResultDTO,
+  CoverageImportRequest,
+  CoverageImportResultDTO,
+  TraceImportRequest,
+  TraceImportResultDTO,
+  DeadCodeOptionsDTO,
+  DeadCodeReportDTO,
+  DeadCodeRemovalResultDTO,
 } from '../src/api/types.js';
 import type {
   HelpCategory,
@@ -56,11 +96,19 @@ export interface CyrusAPI {
   symbols: {
     list: (query?: SymbolQuery) => Promise<ApiResponse<PaginatedResponse<ComponentSymbolDTO>>>;
     get: (id: string) => Promise<ApiResponse<ComponentSymbolDTO>>;
-    search: (query: string) => Promise<ApiResponse<ComponentSymbolDTO[]>>;
+    search: (query: string, limit?: number) => Promise<ApiResponse<SymbolSearchHitDTO[]>>;
     resolve: (namespace: string, name: string, constraint?: string) => Promise<ApiResponse<ComponentSymbolDTO>>;
     getVersions: (namespace: string, name: string) => Promise<ApiResponse<ComponentSymbolDTO[]>>;
+    resolveReference: (ref: string) => Promise<ApiResponse<ComponentSymbolDTO>>;
+    listVersionLocks: () => Promise<ApiResponse<VersionLockDTO[]>>;
+    updateVersionLocks: () => Promise<ApiResponse<VersionLockDTO[]>>;
     register: (request: RegisterSymbolRequest) => Promise<ApiResponse<ComponentSymbolDTO>>;
-    remove: (id: string) => Promise<ApiResponse<void>>;
+    update: (request: UpdateSymbolRequest) => Promise<ApiResponse<ComponentSymbolDTO>>;
+    remove: (id: string, attribution?: EditAttribution) => Promise<ApiResponse<void>>;
+    exportRegistry: (request: RegistryExportRequest) => Promise<ApiResponse<RegistryExportResultDTO>>;
+    importRegistry: (request: RegistryImportRequest) => Promise<ApiResponse<RegistryImportResultDTO>>;
+    onExportRegistry: (callback: (outputDir: string, format: RegistryFormat) => void) => void;
+    onImportRegistry: (callback: (sourcePath: string) => void) => void;
   };
   // Relationship operations
   relationships: {
@@ -74,17 +122,45 @@ export interface CyrusAPI {
     build: (symbolId?: string) => Promise<ApiResponse<DependencyGraphDTO>>;
     detectCycles: () => Promise<ApiResponse<string[][]>>;
     getStats: () => Promise<ApiResponse<GraphStatsDTO>>;
+    analyzeImpact: (request: ImpactAnalysisRequest) => Promise<ApiResponse<ImpactReportDTO>>;
   };
   // Validation operations
   validation: {
-    validate: () => Promise<ApiResponse<ValidationResultDTO>>;
-    validateSymbol: (id: string) => Promise<ApiResponse<ValidationResultDTO>>;
+    validate: (projectRoot?: string) => Promise<ApiResponse<ValidationResultDTO>>;
+    validateSymbol: (id: string, projectRoot?: string) => Promise<ApiResponse<ValidationResultDTO>>;
+    verifySources: (
+      request?: SourceVerificationRequest
+    ) => Promise<ApiResponse<SourceVerificationReportDTO>>;
     checkCircular: () => Promise<ApiResponse<string[][]>>;
+    compareVersions: (fromId: string, toId: string) => Promise<ApiResponse<CompatibilityReportDTO>>;
   };
   // Status operations
   status: {
     findUnreachable: () => Promise<ApiResponse<ComponentSymbolDTO[]>>;
     findUntested: () => Promise<ApiResponse<ComponentSymbolDTO[]>>;
+    analyze: (request: StaticAnalysisRequest) => Promise<ApiResponse<StaticAnalysisResultDTO>>;
+    scanProject: (request: ProjectScanRequest) => Promise<ApiResponse<ProjectScanResultDTO>>;
+    importCoverage: (request: CoverageImportRequest) => Promise<ApiResponse<CoverageImportResultDTO>>;
+    importTrace: (request: TraceImportRequest) => Promise<ApiResponse<TraceImportResultDTO>>;
+    findDeadCode: (options?: DeadCodeOptionsDTO) => Promise<ApiResponse<DeadCodeReportDTO>>;
+    removeDeadCode: (symbolIds: string[]) => Promise<ApiResponse<DeadCodeRemovalResultDTO>>;
+  };
+  // Change history operations
+  history: {
+    list: (symbolId: string) => Promise<ApiResponse<SymbolRevisionDTO[]>>;
+    diff: (request: RevisionDiffRequest) => Promise<ApiResponse<RevisionDiffDTO>>;
+    restore: (request: RevisionRestoreRequest) => Promise<ApiResponse<SymbolRevisionDTO>>;
+    asOf: (timestamp: string) => Promise<ApiResponse<ComponentSymbolDTO[]>>;
+  };
+  // Undo/redo of registry edits
+  registry: {
+    undo: () => Promise<ApiResponse<CommandSummaryDTO | null>>;
+    redo: () => Promise<ApiResponse<CommandSummaryDTO | null>>;
+    getHistory: () => Promise<ApiResponse<CommandStackStateDTO>>;
+    /** Listeners return a function that removes them */
+    onUndo: (callback: () => void) => () => void;
+    onRedo: (callback: () => void) => () => void;
+    onShowHistory: (callback: () => void) => () => void;
   };
   // Synthesizer operations (code generation)
   synthesizer: {
@@ -150,6 +226,13 @@ export interface CyrusAPI {
     open: () => Promise<ApiResponse<{ path: string; xml: string } | null>>;
     save: (path: string, xml: string) => Promise<ApiResponse<string>>;
     saveAs: (xml: string) => Promise<ApiResponse<string | null>>;
+    previewImport: (request: DiagramImportRequest) => Promise<ApiResponse<DiagramSyncPreviewDTO>>;
+    import: (request: DiagramImportRequest) => Promise<ApiResponse<DiagramSyncResultDTO>>;
+    previewMermaidImport: (request: MermaidImportRequest) => Promise<ApiResponse<DiagramSyncPreviewDTO>>;
+    importMermaid: (request: MermaidImportRequest) => Promise<ApiResponse<DiagramSyncResultDTO>>;
+    exportDrawio: (request?: DiagramExportRequest) => Promise<ApiResponse<string>>;
+    driftReport: (request: DiagramDriftRequest) => Promise<ApiResponse<DiagramDriftReportDTO>>;
+    resolveDrift: (request: DiagramDriftResolveRequest) => Promise<ApiResponse<DiagramDriftResolutionDTO>>;
     onNew: (callback: () => void) => void;
     onOpen: (callback: (path: string, xml: string) => void) => void;
     onExportPng: (callback: () => void) => void;
@@ -177,18 +260,44 @@ export interface CyrusAPI {
   };
 }
 
+/**
+ * Listen for a menu event; the returned function removes the listener.
+ */
+function listen(channel: string, callback: () => void): () => void {
+  const listener = (): void => callback();
+  ipcRenderer.on(channel, listener);
+  return () => {
+    ipcRenderer.removeListener(channel, listener);
+  };
+}
+
 // Expose the API to the renderer
 const cyrusAPI: CyrusAPI = {
   symbols: {
     list: (query) => ipcRenderer.invoke('symbols:list', query),
     get: (id) => ipcRenderer.invoke('symbols:get', id),
-    search: (query) => ipcRenderer.invoke('symbols:search', query),
+    search: (query, limit) => ipcRenderer.invoke('symbols:search', query, limit),
     resolve: (namespace, name, constraint) =>
       ipcRenderer.invoke('symbols:resolve', namespace, name, constraint),
     getVersions: (namespace, name) =>
       ipcRenderer.invoke('symbols:getVersions', namespace, name),
+    resolveReference: (ref) => ipcRenderer.invoke('symbols:resolveReference', ref),
+    listVersionLocks: () => ipcRenderer.invoke('symbols:listVersionLocks'),
+    updateVersionLocks: () => ipcRenderer.invoke('symbols:updateVersionLocks'),
     register: (request) => ipcRenderer.invoke('symbols:register', request),
-    remove: (id) => ipcRenderer.invoke('symbols:remove', id),
+    update: (request) => ipcRenderer.invoke('symbols:update', request),
+    remove: (id, attribution) => ipcRenderer.invoke('symbols:remove', id, attribution),
+    exportRegistry: (request) => ipcRenderer.invoke('symbols:exportRegistry', request),
+    importRegistry: (request) => ipcRenderer.invoke('symbols:importRegistry', request),
+    // Event listeners for menu actions
+    onExportRegistry: (callback) => {
+      ipcRenderer.on('registry:export', (_event, outputDir: string, format: RegistryFormat) =>
+        callback(outputDir, format)
+      );
+    },
+    onImportRegistry: (callback) => {
+      ipcRenderer.on('registry:import', (_event, sourcePath: string) => callback(sourcePath));
+    },
   },
   relationships: {
     findContains: (id) => ipcRenderer.invoke('relationships:findContains', id),
@@ -200,15 +309,40 @@ const cyrusAPI: CyrusAPI = {
     build: (symbolId) => ipcRenderer.invoke('graph:build', symbolId),
     detectCycles: () => ipcRenderer.invoke('graph:detectCycles'),
     getStats: () => ipcRenderer.invoke('graph:getStats'),
+    analyzeImpact: (request) => ipcRenderer.invoke('graph:analyzeImpact', request),
   },
   validation: {
-    validate: () => ipcRenderer.invoke('validation:validate'),
-    validateSymbol: (id) => ipcRenderer.invoke('validation:validateSymbol', id),
+    validate: (projectRoot) => ipcRenderer.invoke('validation:validate', projectRoot),
+    validateSymbol: (id, projectRoot) =>
+      ipcRenderer.invoke('validation:validateSymbol', id, projectRoot),
+    verifySources: (request) => ipcRenderer.invoke('validation:verifySources', request),
     checkCircular: () => ipcRenderer.invoke('validation:checkCircular'),
+    compareVersions: (fromId, toId) =>
+      ipcRenderer.invoke('validation:compareVersions', fromId, toId),
   },
   status: {
     findUnreachable: () => ipcRenderer.invoke('status:findUnreachable'),
     findUntested: () => ipcRenderer.invoke('status:findUntested'),
+    analyze: (request) => ipcRenderer.invoke('status:analyze', request),
+    scanProject: (request) => ipcRenderer.invoke('status:scanProject', request),
+    importCoverage: (request) => ipcRenderer.invoke('status:importCoverage', request),
+    importTrace: (request) => ipcRenderer.invoke('status:importTrace', request),
+    findDeadCode: (options) => ipcRenderer.invoke('status:findDeadCode', options),
+    removeDeadCode: (symbolIds) => ipcRenderer.invoke('status:removeDeadCode', symbolIds),
+  },
+  history: {
+    list: (symbolId) => ipcRenderer.invoke('history:list', symbolId),
+    diff: (request) => ipcRenderer.invoke('history:diff', request),
+    restore: (request) => ipcRenderer.invoke('history:restore', request),
+    asOf: (timestamp) => ipcRenderer.invoke('history:asOf', timestamp),
+  },
+  registry: {
+    undo: () => ipcRenderer.invoke('registry:undo'),
+    redo: () => ipcRenderer.invoke('registry:redo'),
+    getHistory: () => ipcRenderer.invoke('registry:history'),
+    onUndo: (callback) => listen('edit:undo', callback),
+    onRedo: (callback) => listen('edit:redo', callback),
+    onShowHistory: (callback) => listen('edit:history', callback),
   },
   synthesizer: {
     generate: (request) => ipcRenderer.invoke('synthesizer:generate', request),
@@ -262,6 +396,13 @@ const cyrusAPI: CyrusAPI = {
     open: () => ipcRenderer.invoke('diagram:open'),
     save: (path, xml) => ipcRenderer.invoke('diagram:save', path, xml),
     saveAs: (xml) => ipcRenderer.invoke('diagram:saveAs', xml),
+    previewImport: (request) => ipcRenderer.invoke('diagram:previewImport', request),
+    import: (request) => ipcRenderer.invoke('diagram:import', request),
+    previewMermaidImport: (request) => ipcRenderer.invoke('diagram:previewMermaidImport', request),
+    importMermaid: (request) => ipcRenderer.invoke('diagram:importMermaid', request),
+    exportDrawio: (request) => ipcRenderer.invoke('diagram:exportDrawio', request),
+    driftReport: (request) => ipcRenderer.invoke('diagram:driftReport', request),
+    resolveDrift: (request) => ipcRenderer.invoke('diagram:resolveDrift', request),
     onNew: (callback) => {
       ipcRenderer.on('diagram:new', callback);
     },
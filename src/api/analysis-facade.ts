@@ -0,0 +1,121 @@
+/**
+ * Analysis Facade
+ *
+ * Focused API for deriving symbol status from project sources, coverage
+ * reports and runtime traces, and for finding and removing dead code
+ * (ADR-005). Also reverse-engineers symbols from existing sources.
+ */
+
+import type { SymbolRepository, VersionLockRepository } from '../domain/symbol/index.js';
+import { createStaticAnalyzer } from '../services/static-analysis/index.js';
+import { createProjectScanService } from '../services/project-scan/index.js';
+import { CoverageImportService } from '../services/coverage-import/index.js';
+import { TraceImportService } from '../services/trace-import/index.js';
+import { DeadCodeService } from '../services/dead-code/index.js';
+import { apiCall } from './utils/index.js';
+import type {
+  ApiResponse,
+  CoverageImportRequest,
+  CoverageImportResultDTO,
+  DeadCodeOptionsDTO,
+  DeadCodeRemovalResultDTO,
+  DeadCodeReportDTO,
+  ProjectScanRequest,
+  ProjectScanResultDTO,
+  StaticAnalysisRequest,
+  StaticAnalysisResultDTO,
+  TraceImportRequest,
+  TraceImportResultDTO,
+} from './types.js';
+
+export class AnalysisFacade {
+  private readonly repo: SymbolRepository;
+  private readonly coverageService: CoverageImportService;
+  private readonly traceService: TraceImportService;
+  private readonly deadCodeService: DeadCodeService;
+
+  /**
+   * @param repo - Symbol repository to analyze
+   * @param locks - Version locks, so range references resolve as they would at generate time
+   */
+  constructor(repo: SymbolRepository, locks?: VersionLockRepository) {
+    this.repo = repo;
+    this.coverageService = new CoverageImportService(repo);
+    this.traceService = new TraceImportService(repo);
+    this.deadCodeService = new DeadCodeService(repo, locks);
+  }
+
+  // ==========================================================================
+  // Static Analysis
+  // ==========================================================================
+
+  /**
+   * Scan a project and update symbol statuses from its sources.
+   * A fresh analyzer per run, so files changed since the last run are reparsed.
+   */
+  analyzeProject(request: StaticAnalysisRequest): ApiResponse<StaticAnalysisResultDTO> {
+    return apiCall(() => {
+      const analyzer = createStaticAnalyzer(this.repo, request.projectRoot);
+      return analyzer.analyze(request.options);
+    }, 'ANALYSIS_FAILED');
+  }
+
+  // ==========================================================================
+  // Project Scan
+  // ==========================================================================
+
+  /**
+   * Register exported declarations of an existing codebase as symbols and
+   * update those whose source changed since the last scan.
+   */
+  scanProject(request: ProjectScanRequest): ApiResponse<ProjectScanResultDTO> {
+    return apiCall(() => {
+      const scanner = createProjectScanService(this.repo, request.projectRoot);
+      return scanner.scan(request.options);
+    }, 'PROJECT_SCAN_FAILED');
+  }
+
+  // ==========================================================================
+  // Coverage Import
+  // ==========================================================================
+
+  /**
+   * Mark symbols covered by a test coverage report as tested.
+   */
+  importCoverage(request: CoverageImportRequest): ApiResponse<CoverageImportResultDTO> {
+    return apiCall(() => {
+      return this.coverageService.importFile(request.reportPath, request.options);
+    }, 'COVERAGE_IMPORT_FAILED');
+  }
+
+  // ==========================================================================
+  // Runtime Trace Import
+  // ==========================================================================
+
+  /**
+   * Merge a runtime tracer file into execution info and mark traced symbols executed.
+   */
+  importTrace(request: TraceImportRequest): ApiResponse<TraceImportResultDTO> {
+    return apiCall(() => {
+      return this.traceService.importFile(request.tracePath, request.options);
+    }, 'TRACE_IMPORT_FAILED');
+  }
+
+  // ==========================================================================
+  // Dead Code
+  // ==========================================================================
+
+  /**
+   * Rank symbols unreachable from entry points and order them for removal.
+   */
+  findDeadCode(options?: DeadCodeOptionsDTO): ApiResponse<DeadCodeReportDTO> {
+    return apiCall(() => this.deadCodeService.analyze(options), 'DEAD_CODE_FAILED');
+  }
+
+  /**
+   * Remove symbols in one transaction, refusing if anything that stays refers to them.
+   */
+  removeDeadCode(symbolIds: string[]): ApiResponse<DeadCodeRemovalResultDTO> {
+    return apiCall(() => this.deadCodeService.remove(symbolIds), 'DEAD_CODE_REMOVAL_FAILED');
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Diagram Facade
+ *
+ * Focused API for synchronizing diagrams with the symbol table.
+ */
+
+import type { SymbolRepository } from '../domain/symbol/index.js';
+import { parseDrawioXml, writeDrawioXml } from '../infrastructure/drawio/index.js';
+import { DependencyGraphService } from '../services/dependency-graph/service.js';
+import { DiagramSyncService, graphToDiagram } from '../services/diagram-sync/index.js';
+import { DiagramDriftService } from '../services/diagram-drift/index.js';
+import { MermaidImportService } from '../services/mermaid-import/index.js';
+import { apiCall } from './utils/index.js';
+import type {
+  ApiResponse,
+  DiagramImportRequest,
+  DiagramExportRequest,
+  DiagramDriftRequest,
+  DiagramDriftResolveRequest,
+  DiagramDriftReportDTO,
+  DiagramDriftResolutionDTO,
+  MermaidImportRequest,
+  DiagramSyncPreviewDTO,
+  DiagramSyncResultDTO,
+} from './types.js';
+
+export class DiagramFacade {
+  private readonly syncService: DiagramSyncService;
+  private readonly mermaidService: MermaidImportService;
+  private readonly graphService: DependencyGraphService;
+  private readonly driftService: DiagramDriftService;
+
+  constructor(repo: SymbolRepository) {
+    this.syncService = new DiagramSyncService(repo);
+    this.mermaidService = new MermaidImportService(repo);
+    this.graphService = new DependencyGraphService(repo);
+    this.driftService = new DiagramDriftService(repo);
+  }
+
+  // ==========================================================================
+  // Draw.io Import
+  // ==========================================================================
+
+  previewImport(request: DiagramImportRequest): ApiResponse<DiagramSyncPreviewDTO> {
+    return apiCall(() => {
+      const diagram = parseDrawioXml(request.xml);
+      return this.syncService.preview(diagram, request.options);
+    }, 'DIAGRAM_PREVIEW_FAILED');
+  }
+
+  importDiagram(request: DiagramImportRequest): ApiResponse<DiagramSyncResultDTO> {
+    return apiCall(() => {
+      const diagram = parseDrawioXml(request.xml);
+      return this.syncService.apply(diagram, request.options);
+    }, 'DIAGRAM_IMPORT_FAILED');
+  }
+
+  // ==========================================================================
+  // Draw.io Export
+  // ==========================================================================
+
+  exportDrawio(request: DiagramExportRequest = {}): ApiResponse<string> {
+    return apiCall(() => {
+      const graph = request.symbolId
+        ? this.graphService.buildSubgraph(request.symbolId)
+        : this.graphService.buildGraph();
+      const diagram = graphToDiagram(graph, request.name ? { name: request.name } : {});
+      return writeDrawioXml(diagram);
+    }, 'DIAGRAM_EXPORT_FAILED');
+  }
+
+  // ==========================================================================
+  // Drift Detection
+  // ==========================================================================
+
+  driftReport(request: DiagramDriftRequest): ApiResponse<DiagramDriftReportDTO> {
+    return apiCall(() => {
+      const diagram = parseDrawioXml(request.xml);
+      return this.driftService.report(diagram, request.options);
+    }, 'DIAGRAM_DRIFT_FAILED');
+  }
+
+  resolveDrift(request: DiagramDriftResolveRequest): ApiResponse<DiagramDriftResolutionDTO> {
+    return apiCall(() => {
+      const diagram = parseDrawioXml(request.xml);
+      const result = this.driftService.resolve(
+        diagram,
+        request.itemId,
+        request.resolution,
+        request.options
+      );
+      return {
+        xml: result.diagramChanged ? writeDrawioXml(result.diagram) : request.xml,
+        diagramChanged: result.diagramChanged,
+        report: result.report,
+      };
+    }, 'DIAGRAM_DRIFT_RESOLVE_FAILED');
+  }
+
+  // ==========================================================================
+  // Mermaid Import
+  // ==========================================================================
+
+  previewMermaidImport(request: MermaidImportRequest): ApiResponse<DiagramSyncPreviewDTO> {
+    return apiCall(() => {
+      return this.mermaidService.preview(request.text, request.options);
+    }, 'MERMAID_PREVIEW_FAILED');
+  }
+
+  importMermaid(request: MermaidImportRequest): ApiResponse<DiagramSyncResultDTO> {
+    return apiCall(() => {
+      return this.mermaidService.import(request.text, request.options);
+    }, 'MERMAID_IMPORT_FAILED');
+  }
+}
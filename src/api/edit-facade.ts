@@ -0,0 +1,64 @@
+/**
+ * Edit Facade
+ *
+ * Focused API for undoing and redoing registry edits. Mutating IPC calls
+ * run through `track`, which records the revisions they wrote as one
+ * undoable command.
+ */
+
+import type {
+  SymbolHistoryRepository,
+  SymbolRepository,
+} from '../domain/symbol/index.js';
+import { CommandStackService } from '../services/command-stack/index.js';
+import { apiCall, serialize } from './utils/index.js';
+import type {
+  ApiResponse,
+  CommandStackStateDTO,
+  CommandSummaryDTO,
+} from './types.js';
+
+export class EditFacade {
+  private readonly commands: CommandStackService;
+
+  constructor(repo: SymbolRepository, history: SymbolHistoryRepository) {
+    this.commands = new CommandStackService(repo, history);
+  }
+
+  // ==========================================================================
+  // Recording
+  // ==========================================================================
+
+  /**
+   * Run a facade call as an undoable command. Calls that fail or write
+   * nothing are not recorded.
+   */
+  track<T>(label: string, fn: () => ApiResponse<T>): ApiResponse<T> {
+    return this.commands.record(label, fn);
+  }
+
+  // ==========================================================================
+  // Undo/Redo
+  // ==========================================================================
+
+  /**
+   * Revert the most recent registry edit; null if there is nothing to undo.
+   */
+  undo(): ApiResponse<CommandSummaryDTO | null> {
+    return apiCall(() => serialize(this.commands.undo() ?? null), 'UNDO_FAILED');
+  }
+
+  /**
+   * Apply the most recently undone edit again; null if there is nothing to redo.
+   */
+  redo(): ApiResponse<CommandSummaryDTO | null> {
+    return apiCall(() => serialize(this.commands.redo() ?? null), 'REDO_FAILED');
+  }
+
+  /**
+   * List the edits that can be undone and redone, next first.
+   */
+  getHistory(): ApiResponse<CommandStackStateDTO> {
+    return apiCall(() => serialize(this.commands.getState()), 'QUERY_FAILED');
+  }
+}
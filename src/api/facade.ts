@@ -9,6 +9,10 @@
  *   arch.symbols.getSymbol('my-symbol-id');
  *   arch.generation.generate({ symbolId, options });
  *   arch.validation.validateAll();
+ *   arch.diagrams.importDiagram({ xml, options: { namespace: 'app' } });
+ *   arch.analysis.analyzeProject({ projectRoot: '/path/to/project' });
+ *   arch.history.listRevisions('my-symbol-id');
+ *   arch.edits.undo();
  */
 
 import {
@@ -17,24 +21,44 @@ import {
   closeDatabase,
 } from '../repositories/persistence.js';
 import { SqliteSymbolRepository } from '../repositories/symbol-repository.js';
-import type { SymbolRepository } from '../domain/symbol/index.js';
+import { SqliteVersionLockRepository } from '../repositories/version-lock-repository.js';
+import { SqliteSymbolHistoryRepository } from '../repositories/symbol-history-repository.js';
+import type {
+  SymbolHistoryRepository,
+  SymbolRepository,
+  VersionLockRepository,
+} from '../domain/symbol/index.js';
 import { SymbolFacade } from './symbol-facade.js';
 import { GenerationFacade } from './generation-facade.js';
 import { ValidationFacade } from './validation-facade.js';
 import { GraphFacade } from './graph-facade.js';
+import { DiagramFacade } from './diagram-facade.js';
+import { AnalysisFacade } from './analysis-facade.js';
+import { HistoryFacade } from './history-facade.js';
+import { EditFacade } from './edit-facade.js';
 
 export class Architecture {
   readonly symbols: SymbolFacade;
   readonly generation: GenerationFacade;
   readonly validation: ValidationFacade;
   readonly graph: GraphFacade;
+  readonly diagrams: DiagramFacade;
+  readonly analysis: AnalysisFacade;
+  readonly history: HistoryFacade;
+  readonly edits: EditFacade;
 
   constructor(db: DatabaseType) {
     const repo: SymbolRepository = new SqliteSymbolRepository(db);
-    this.symbols = new SymbolFacade(repo);
-    this.generation = new GenerationFacade(repo);
-    this.validation = new ValidationFacade(repo);
-    this.graph = new GraphFacade(repo);
+    const locks: VersionLockRepository = new SqliteVersionLockRepository(db);
+    const history: SymbolHistoryRepository = new SqliteSymbolHistoryRepository(db);
+    this.symbols = new SymbolFacade(repo, locks);
+    this.generation = new GenerationFacade(repo, locks);
+    this.validation = new ValidationFacade(repo, locks);
+    this.graph = new GraphFacade(repo, locks);
+    this.diagrams = new DiagramFacade(repo);
+    this.analysis = new AnalysisFacade(repo, locks);
+    this.history = new HistoryFacade(repo, history);
+    this.edits = new EditFacade(repo, history);
   }
 
   // ==========================================================================
@@ -4,7 +4,11 @@
  * Focused API for code generation operations.
  */
 
-import type { SymbolRepository, ComponentSymbol } from '../domain/symbol/index.js';
+import type {
+  SymbolRepository,
+  ComponentSymbol,
+  VersionLockRepository,
+} from '../domain/symbol/index.js';
 import { CodeGenerationService } from '../services/code-generation/index.js';
 import { apiCall, apiCallOrNotFound, serialize, type Serialized } from './utils/index.js';
 import type {
@@ -23,8 +27,8 @@ import type {
 export class GenerationFacade {
   private readonly codeGenService: CodeGenerationService;
 
-  constructor(repo: SymbolRepository) {
-    this.codeGenService = new CodeGenerationService(repo);
+  constructor(repo: SymbolRepository, locks?: VersionLockRepository) {
+    this.codeGenService = new CodeGenerationService(repo, locks);
   }
 
   // ==========================================================================
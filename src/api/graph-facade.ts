@@ -4,11 +4,23 @@
  * Focused API for dependency graph building and analysis.
  */
 
-import type { SymbolRepository } from '../domain/symbol/index.js';
+import type {
+  ComponentSymbol,
+  SymbolRepository,
+  VersionLockRepository,
+} from '../domain/symbol/index.js';
 import { DependencyGraphService } from '../services/dependency-graph/service.js';
 import type { DependencyGraph } from '../services/dependency-graph/schema.js';
-import { apiCall } from './utils/index.js';
-import type { ApiResponse, DependencyGraphDTO, GraphStatsDTO } from './types.js';
+import { ImpactAnalysisService } from '../services/impact-analysis/index.js';
+import type { ProposedChange } from '../services/impact-analysis/index.js';
+import { apiCall, deserialize } from './utils/index.js';
+import type {
+  ApiResponse,
+  DependencyGraphDTO,
+  GraphStatsDTO,
+  ImpactAnalysisRequest,
+  ImpactReportDTO,
+} from './types.js';
 
 /**
  * Convert internal graph (with Maps) to wire-format DTO (with arrays).
@@ -24,9 +36,11 @@ function toGraphDTO(graph: DependencyGraph): DependencyGraphDTO {
 
 export class GraphFacade {
   private readonly graphService: DependencyGraphService;
+  private readonly impactService: ImpactAnalysisService;
 
-  constructor(repo: SymbolRepository) {
+  constructor(repo: SymbolRepository, locks?: VersionLockRepository) {
     this.graphService = new DependencyGraphService(repo);
+    this.impactService = new ImpactAnalysisService(repo, locks);
   }
 
   // ==========================================================================
@@ -66,4 +80,21 @@ export class GraphFacade {
       return this.graphService.getStats();
     }, 'GET_STATS_FAILED');
   }
+
+  // ==========================================================================
+  // Impact Analysis
+  // ==========================================================================
+
+  analyzeImpact(request: ImpactAnalysisRequest): ApiResponse<ImpactReportDTO> {
+    return apiCall(() => {
+      const change: ProposedChange =
+        request.change.type === 'update'
+          ? {
+              type: 'update',
+              updates: deserialize<unknown>(request.change.updates) as Partial<ComponentSymbol>,
+            }
+          : { type: 'remove' };
+      return this.impactService.analyze(request.symbolId, change);
+    }, 'IMPACT_ANALYSIS_FAILED');
+  }
 }
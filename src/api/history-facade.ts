@@ -0,0 +1,82 @@
+/**
+ * History Facade
+ *
+ * Focused API for the symbol change history: per-symbol revisions, revision
+ * diffs, restores and the registry as of a past point in time.
+ */
+
+import type {
+  ComponentSymbol,
+  SymbolHistoryRepository,
+  SymbolRepository,
+  SymbolRevision,
+} from '../domain/symbol/index.js';
+import { SymbolHistoryService } from '../services/symbol-history/index.js';
+import { apiCall, serialize, type Serialized } from './utils/index.js';
+import type {
+  ApiResponse,
+  RevisionDiffDTO,
+  RevisionDiffRequest,
+  RevisionRestoreRequest,
+} from './types.js';
+
+export class HistoryFacade {
+  private readonly historyService: SymbolHistoryService;
+
+  constructor(repo: SymbolRepository, history: SymbolHistoryRepository) {
+    this.historyService = new SymbolHistoryService(repo, history);
+  }
+
+  // ==========================================================================
+  // Revisions
+  // ==========================================================================
+
+  /**
+   * List a symbol's revisions, oldest first.
+   */
+  listRevisions(symbolId: string): ApiResponse<Serialized<SymbolRevision>[]> {
+    return apiCall(() => {
+      return this.historyService.list(symbolId).map((r) => serialize(r));
+    }, 'QUERY_FAILED');
+  }
+
+  /**
+   * Compare two revisions, or a revision with the registered symbol.
+   */
+  diffRevisions(request: RevisionDiffRequest): ApiResponse<RevisionDiffDTO> {
+    return apiCall(
+      () => this.historyService.diff(request.fromRevision, request.toRevision),
+      'HISTORY_DIFF_FAILED'
+    );
+  }
+
+  /**
+   * Put a symbol back in the state it had after a revision.
+   */
+  restoreRevision(request: RevisionRestoreRequest): ApiResponse<Serialized<SymbolRevision>> {
+    return apiCall(() => {
+      const attribution = {
+        ...(request.author !== undefined && { author: request.author }),
+        ...(request.reason !== undefined && { reason: request.reason }),
+      };
+      return serialize(this.historyService.restore(request.revision, attribution));
+    }, 'HISTORY_RESTORE_FAILED');
+  }
+
+  // ==========================================================================
+  // Point in Time
+  // ==========================================================================
+
+  /**
+   * Reconstruct the registry as it was at an ISO 8601 timestamp.
+   */
+  getRegistryAsOf(timestamp: string): ApiResponse<Serialized<ComponentSymbol>[]> {
+    return apiCall(() => {
+      const date = new Date(timestamp);
+      if (Number.isNaN(date.getTime())) {
+        throw new Error(`Invalid timestamp: '${timestamp}'`);
+      }
+      return this.historyService.asOf(date).map((s) => serialize(s));
+    }, 'QUERY_FAILED');
+  }
+}
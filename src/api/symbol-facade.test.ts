@@ -0,0 +1,69 @@
+/**
+ * Symbol Facade Tests
+ *
+ * Tests for attributing symbol edits in the recorded history.
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import { initMemoryDatabase, closeDatabase } from '../repositories/persistence.js';
+import { SqliteSymbolRepository } from '../repositories/symbol-repository.js';
+import { SqliteSymbolHistoryRepository } from '../repositories/symbol-history-repository.js';
+import type { SymbolHistoryRepository } from '../domain/symbol/index.js';
+import { createSymbol } from '../testing/fixtures.js';
+import { serialize } from './utils/index.js';
+import { SymbolFacade } from './symbol-facade.js';
+
+const LOGGER = 'core/Logger@1.0.0';
+
+describe('SymbolFacade', () => {
+  let facade: SymbolFacade;
+  let history: SymbolHistoryRepository;
+
+  const logger = serialize(createSymbol({ id: LOGGER, name: 'Logger', namespace: 'core' }));
+
+  beforeEach(() => {
+    const db = initMemoryDatabase();
+    facade = new SymbolFacade(new SqliteSymbolRepository(db));
+    history = new SqliteSymbolHistoryRepository(db);
+  });
+
+  afterEach(() => {
+    closeDatabase();
+  });
+
+  it('should record the author and reason of register, update and remove', () => {
+    assert.ok(facade.registerSymbol({ symbol: logger, author: 'ana', reason: 'new' }).success);
+    assert.ok(
+      facade.updateSymbol({
+        id: LOGGER,
+        updates: { description: 'Writes log lines' },
+        author: 'ben',
+        reason: 'clarify',
+      }).success
+    );
+    assert.ok(facade.removeSymbol(LOGGER, { author: 'ana', reason: 'unused' }).success);
+
+    assert.deepStrictEqual(
+      history.listForSymbol(LOGGER).map((r) => [r.operation, r.author, r.reason]),
+      [
+        ['insert', 'ana', 'new'],
+        ['update', 'ben', 'clarify'],
+        ['delete', 'ana', 'unused'],
+      ]
+    );
+  });
+
+  it('should leave edits without attribution unattributed', () => {
+    facade.registerSymbol({ symbol: logger });
+    facade.removeSymbol(LOGGER);
+
+    assert.deepStrictEqual(
+      history.listForSymbol(LOGGER).map((r) => [r.author, r.reason]),
+      [
+        [undefined, undefined],
+        [undefined, undefined],
+      ]
+    );
+  });
+});
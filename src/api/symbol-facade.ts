@@ -4,21 +4,46 @@
  * Focused API for symbol CRUD, queries, relationships, and status operations.
  */
 
-import type { SymbolRepository, ComponentSymbol } from '../domain/symbol/index.js';
-import { SymbolTableService, type ComponentQuery, type ResolveOptions } from '../services/symbol-table/index.js';
+import type {
+  SymbolRepository,
+  ChangeAttribution,
+  ComponentSymbol,
+  VersionLock,
+  VersionLockRepository,
+} from '../domain/symbol/index.js';
+import {
+  SymbolTableService,
+  ReferenceResolver,
+  type ComponentQuery,
+  type ResolveOptions,
+} from '../services/symbol-table/index.js';
+import { RegistryIoService } from '../services/registry-io/index.js';
 import { apiCall, apiCallOrNotFound, serialize, deserialize, type Serialized } from './utils/index.js';
 import type {
   ApiResponse,
   PaginatedResponse,
   SymbolQuery,
+  EditAttribution,
   RegisterSymbolRequest,
+  UpdateSymbolRequest,
+  RegistryExportRequest,
+  RegistryExportResultDTO,
+  RegistryImportRequest,
+  RegistryImportResultDTO,
+  SymbolSearchHitDTO,
 } from './types.js';
 
 export class SymbolFacade {
+  private readonly repo: SymbolRepository;
   private readonly symbolTable: SymbolTableService;
+  private readonly resolver: ReferenceResolver;
+  private readonly registryIo: RegistryIoService;
 
-  constructor(repo: SymbolRepository) {
+  constructor(repo: SymbolRepository, locks?: VersionLockRepository) {
+    this.repo = repo;
     this.symbolTable = new SymbolTableService(repo);
+    this.resolver = new ReferenceResolver(repo, locks);
+    this.registryIo = new RegistryIoService(repo);
   }
 
   // ==========================================================================
@@ -28,7 +53,9 @@ export class SymbolFacade {
   registerSymbol(request: RegisterSymbolRequest): ApiResponse<Serialized<ComponentSymbol>> {
     return apiCall(() => {
       const symbol = deserialize(request.symbol) as ComponentSymbol;
-      const registered = this.symbolTable.registerWithAutoId(symbol);
+      const registered = this.repo.withAttribution(toAttribution(request), () =>
+        this.symbolTable.registerWithAutoId(symbol)
+      );
       return serialize(registered);
     }, 'REGISTRATION_FAILED');
   }
@@ -43,9 +70,19 @@ export class SymbolFacade {
     );
   }
 
-  removeSymbol(id: string): ApiResponse<void> {
+  updateSymbol(request: UpdateSymbolRequest): ApiResponse<Serialized<ComponentSymbol>> {
     return apiCall(() => {
-      this.symbolTable.remove(id);
+      const updates = deserialize(request.updates) as Partial<ComponentSymbol>;
+      this.repo.withAttribution(toAttribution(request), () =>
+        this.symbolTable.update(request.id, updates)
+      );
+      return serialize(this.symbolTable.get(request.id)!);
+    }, 'UPDATE_FAILED');
+  }
+
+  removeSymbol(id: string, attribution: EditAttribution = {}): ApiResponse<void> {
+    return apiCall(() => {
+      this.repo.withAttribution(toAttribution(attribution), () => this.symbolTable.remove(id));
     }, 'REMOVE_FAILED');
   }
 
@@ -79,10 +116,10 @@ export class SymbolFacade {
     }, 'QUERY_FAILED');
   }
 
-  searchSymbols(query: string): ApiResponse<Serialized<ComponentSymbol>[]> {
+  searchSymbols(query: string, limit?: number): ApiResponse<SymbolSearchHitDTO[]> {
     return apiCall(() => {
-      const results = this.symbolTable.search(query);
-      return results.map((s) => serialize(s));
+      const hits = this.symbolTable.searchRanked(query, limit);
+      return hits.map((hit) => serialize(hit));
     }, 'SEARCH_FAILED');
   }
 
@@ -108,6 +145,38 @@ export class SymbolFacade {
     }, 'QUERY_FAILED');
   }
 
+  // ==========================================================================
+  // Version Locks
+  // ==========================================================================
+
+  /**
+   * Resolve a pinned ID or version-range reference ("core/Logger@^1.2.0").
+   */
+  resolveReference(ref: string): ApiResponse<Serialized<ComponentSymbol>> {
+    return apiCallOrNotFound(
+      () => {
+        const symbol = this.resolver.resolve(ref);
+        return symbol ? serialize(symbol) : null;
+      },
+      `No registered symbol matches '${ref}'`
+    );
+  }
+
+  listVersionLocks(): ApiResponse<Serialized<VersionLock>[]> {
+    return apiCall(() => {
+      return this.resolver.listLocks().map((lock) => serialize(lock));
+    }, 'QUERY_FAILED');
+  }
+
+  /**
+   * Move every locked range reference to the newest matching version.
+   */
+  updateVersionLocks(): ApiResponse<Serialized<VersionLock>[]> {
+    return apiCall(() => {
+      return this.resolver.updateLocks().map((lock) => serialize(lock));
+    }, 'LOCK_UPDATE_FAILED');
+  }
+
   // ==========================================================================
   // Symbol Relationships
   // ==========================================================================
@@ -157,4 +226,39 @@ export class SymbolFacade {
       return symbols.map((s) => serialize(s));
     }, 'QUERY_FAILED');
   }
+
+  // ==========================================================================
+  // Registry Files
+  // ==========================================================================
+
+  /**
+   * Write the registry as one canonical file per namespace.
+   */
+  exportRegistry(request: RegistryExportRequest): ApiResponse<RegistryExportResultDTO> {
+    return apiCall(
+      () => this.registryIo.exportRegistry(request.outputDir, request.options),
+      'REGISTRY_EXPORT_FAILED'
+    );
+  }
+
+  /**
+   * Merge registry files into the symbol table. With the default `fail`
+   * policy, any conflict aborts the import unless it is a dry run.
+   */
+  importRegistry(request: RegistryImportRequest): ApiResponse<RegistryImportResultDTO> {
+    return apiCall(
+      () => this.registryIo.importRegistry(request.sourcePath, request.options),
+      'REGISTRY_IMPORT_FAILED'
+    );
+  }
+}
+
+/**
+ * Drop unset fields, so they do not override an enclosing attribution.
+ */
+function toAttribution(request: EditAttribution): ChangeAttribution {
+  return {
+    ...(request.author !== undefined && { author: request.author }),
+    ...(request.reason !== undefined && { reason: request.reason }),
+  };
 }
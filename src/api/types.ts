@@ -19,6 +19,9 @@ import type {
   ExecutionInfo,
   StatusInfo,
   GenerationMetadata,
+  VersionLock,
+  SymbolRevision,
+  SymbolSearchHit,
 } from '../domain/symbol/index.js';
 
 // ============================================================================
@@ -34,6 +37,8 @@ export type {
   AggregationRef as AggregationRefDTO,
   ValidationError as ValidationErrorDTO,
   ValidationResult as ValidationResultDTO,
+  SymbolChange as SymbolChangeDTO,
+  CompatibilityReport as CompatibilityReportDTO,
 } from '../domain/symbol/index.js';
 
 // ============================================================================
@@ -66,6 +71,14 @@ export type GenerationMetadataDTO = Omit<GenerationMetadata, 'generatedAt'> & {
   generatedAt: string;
 };
 
+/**
+ * Wire-format version of VersionLock.
+ * Dates are serialized as ISO strings.
+ */
+export type VersionLockDTO = Omit<VersionLock, 'lockedAt'> & {
+  lockedAt: string;
+};
+
 /**
  * Wire-format version of ComponentSymbol.
  * Dates are serialized as ISO strings.
@@ -80,6 +93,29 @@ export type ComponentSymbolDTO = Omit<
   generationMeta?: GenerationMetadataDTO | undefined;
 };
 
+/**
+ * Wire-format version of SymbolRevision.
+ * Dates are serialized as ISO strings.
+ */
+export type SymbolRevisionDTO = Omit<SymbolRevision, 'before' | 'after' | 'changedAt'> & {
+  before?: ComponentSymbolDTO | undefined;
+  after?: ComponentSymbolDTO | undefined;
+  changedAt: string;
+};
+
+/**
+ * Wire-format version of SymbolSearchHit.
+ */
+export type SymbolSearchHitDTO = Omit<SymbolSearchHit, 'symbol'> & {
+  symbol: ComponentSymbolDTO;
+};
+
+export type {
+  SearchField,
+  HighlightSegment as HighlightSegmentDTO,
+  SearchHighlight as SearchHighlightDTO,
+} from '../domain/symbol/index.js';
+
 // ============================================================================
 // Query Types
 // ============================================================================
@@ -121,12 +157,110 @@ export interface PaginatedResponse<T> {
 // API Operation Types
 // ============================================================================
 
-export interface RegisterSymbolRequest {
+/**
+ * Who made an edit and why, recorded with the revisions it produces.
+ */
+export interface EditAttribution {
+  author?: string | undefined;
+  reason?: string | undefined;
+}
+
+export interface RegisterSymbolRequest extends EditAttribution {
   symbol: Omit<ComponentSymbolDTO, 'id' | 'createdAt' | 'updatedAt'> & {
     id?: string | undefined; // Optional, will be generated if not provided
   };
 }
 
+export interface UpdateSymbolRequest extends EditAttribution {
+  id: string;
+  updates: Partial<Omit<ComponentSymbolDTO, 'id' | 'createdAt' | 'updatedAt'>>;
+}
+
+// ============================================================================
+// Registry Files (re-exported from service - dates are ISO strings on disk)
+// ============================================================================
+
+import type {
+  RegistryExportOptions,
+  RegistryImportOptions,
+} from '../services/registry-io/schema.js';
+
+export type {
+  ImportConflictPolicy,
+  RegistryFormat,
+  RegistryExportOptions as RegistryExportOptionsDTO,
+  RegistryExportResult as RegistryExportResultDTO,
+  RegistryImportOptions as RegistryImportOptionsDTO,
+  RegistryImportResult as RegistryImportResultDTO,
+} from '../services/registry-io/schema.js';
+
+/**
+ * Request to write the registry as one file per namespace.
+ */
+export interface RegistryExportRequest {
+  /** Directory to write into, e.g. a `registry/` folder of the project */
+  outputDir: string;
+  options?: RegistryExportOptions | undefined;
+}
+
+/**
+ * Request to merge registry files into the symbol table.
+ */
+export interface RegistryImportRequest {
+  /** A registry file, or a directory searched for registry files */
+  sourcePath: string;
+  options?: RegistryImportOptions | undefined;
+}
+
+// ============================================================================
+// Change History
+// ============================================================================
+
+export type {
+  FieldChange as FieldChangeDTO,
+  RevisionDiff as RevisionDiffDTO,
+} from '../services/symbol-history/schema.js';
+
+/**
+ * Request to compare the symbol after two revisions.
+ */
+export interface RevisionDiffRequest {
+  fromRevision: number;
+  /** Omit to compare with the symbol as currently registered */
+  toRevision?: number | undefined;
+}
+
+/**
+ * Request to restore a symbol to its state after a revision.
+ */
+export interface RevisionRestoreRequest {
+  revision: number;
+  author?: string | undefined;
+  reason?: string | undefined;
+}
+
+// ============================================================================
+// Undo/Redo
+// ============================================================================
+
+import type { CommandSummary } from '../services/command-stack/schema.js';
+
+/**
+ * Wire-format version of CommandSummary.
+ * Dates are serialized as ISO strings.
+ */
+export type CommandSummaryDTO = Omit<CommandSummary, 'executedAt'> & {
+  executedAt: string;
+};
+
+/**
+ * Registry edits that can be undone and redone, next first.
+ */
+export interface CommandStackStateDTO {
+  undo: CommandSummaryDTO[];
+  redo: CommandSummaryDTO[];
+}
+
 // ============================================================================
 // Graph DTOs (re-exported from service - no Date transformation needed)
 // ============================================================================
@@ -155,6 +289,129 @@ export interface DependencyGraphDTO {
   cycles: string[][];
 }
 
+// ============================================================================
+// Impact Analysis DTOs (re-exported from service - no Date transformation needed)
+// ============================================================================
+
+export type {
+  ImpactEffect as ImpactEffectDTO,
+  ImpactedSymbol as ImpactedSymbolDTO,
+  ImpactReport as ImpactReportDTO,
+} from '../services/impact-analysis/schema.js';
+
+/**
+ * Wire-format version of ProposedChange.
+ */
+export type ProposedChangeDTO =
+  | { type: 'update'; updates: Partial<ComponentSymbolDTO> }
+  | { type: 'remove' };
+
+/**
+ * Request to preview the impact of a symbol change before committing it.
+ */
+export interface ImpactAnalysisRequest {
+  symbolId: string;
+  change: ProposedChangeDTO;
+}
+
+// ============================================================================
+// Analysis DTOs (re-exported from service - no Date transformation needed)
+// ============================================================================
+
+import type { StaticAnalysisOptions } from '../services/static-analysis/schema.js';
+
+export type {
+  StaticAnalysisOptions as StaticAnalysisOptionsDTO,
+  StaticAnalysisResult as StaticAnalysisResultDTO,
+  SymbolAnalysis as SymbolAnalysisDTO,
+} from '../services/static-analysis/schema.js';
+
+/**
+ * Request to derive symbol status from a project's sources.
+ */
+export interface StaticAnalysisRequest {
+  /** Project directory to scan; relative source locations resolve against it */
+  projectRoot: string;
+  options?: StaticAnalysisOptions | undefined;
+}
+
+import type { ProjectScanOptions } from '../services/project-scan/schema.js';
+
+export type {
+  ProjectScanOptions as ProjectScanOptionsDTO,
+  ProjectScanResult as ProjectScanResultDTO,
+} from '../services/project-scan/schema.js';
+
+/**
+ * Request to reverse-engineer symbols from an existing TypeScript project.
+ */
+export interface ProjectScanRequest {
+  /** Project directory to scan; source locations are recorded relative to it */
+  projectRoot: string;
+  options?: ProjectScanOptions | undefined;
+}
+
+import type { CoverageImportOptions } from '../services/coverage-import/schema.js';
+
+export type {
+  CoverageImportOptions as CoverageImportOptionsDTO,
+  CoverageImportResult as CoverageImportResultDTO,
+} from '../services/coverage-import/schema.js';
+
+/**
+ * Request to import a test coverage report (Istanbul JSON, lcov or Node text).
+ */
+export interface CoverageImportRequest {
+  /** Report path, absolute or relative to `options.projectRoot` */
+  reportPath: string;
+  options: CoverageImportOptions;
+}
+
+import type { TraceImportOptions } from '../services/trace-import/schema.js';
+
+export type {
+  TraceImportOptions as TraceImportOptionsDTO,
+  TraceImportResult as TraceImportResultDTO,
+} from '../services/trace-import/schema.js';
+
+/**
+ * Request to import a trace file written by the runtime tracer.
+ */
+export interface TraceImportRequest {
+  tracePath: string;
+  options?: TraceImportOptions | undefined;
+}
+
+export type {
+  DeadCodeOptions as DeadCodeOptionsDTO,
+  DeadCodeCandidate as DeadCodeCandidateDTO,
+  DeadCodeConfidence,
+  DeadCodeReport as DeadCodeReportDTO,
+  DeadCodeRemovalResult as DeadCodeRemovalResultDTO,
+} from '../services/dead-code/schema.js';
+
+// ============================================================================
+// Source Verification DTOs (re-exported from service - no Date transformation needed)
+// ============================================================================
+
+import type { SourceVerificationOptions } from '../services/source-verification/schema.js';
+
+export type {
+  SourceVerificationOptions as SourceVerificationOptionsDTO,
+  SourceState,
+  SourceCheck as SourceCheckDTO,
+  SourceVerificationReport as SourceVerificationReportDTO,
+} from '../services/source-verification/schema.js';
+
+/**
+ * Request to check recorded source locations against the files on disk.
+ */
+export interface SourceVerificationRequest {
+  /** Project directory that source locations resolve against (default: the working directory) */
+  projectRoot?: string | undefined;
+  options?: SourceVerificationOptions | undefined;
+}
+
 // ============================================================================
 // Synthesizer DTOs (Code Generation)
 // ============================================================================
@@ -210,3 +467,95 @@ export interface PreviewRequest {
   symbolId: string;
   outputDir: string;
 }
+
+// ============================================================================
+// Diagram Sync DTOs (re-exported from service - no Date transformation needed)
+// ============================================================================
+
+import type { DiagramSyncOptions } from '../services/diagram-sync/schema.js';
+
+export type {
+  DiagramSyncOptions as DiagramSyncOptionsDTO,
+  DiagramSyncChange as DiagramSyncChangeDTO,
+  DiagramSyncConflict as DiagramSyncConflictDTO,
+  DiagramSyncSkip as DiagramSyncSkipDTO,
+  DiagramSyncPreview as DiagramSyncPreviewDTO,
+  DiagramSyncResult as DiagramSyncResultDTO,
+} from '../services/diagram-sync/schema.js';
+
+/**
+ * Request to import a Draw.io diagram into the symbol table.
+ */
+export interface DiagramImportRequest {
+  /** Raw Draw.io XML */
+  xml: string;
+  options: DiagramSyncOptions;
+}
+
+// Import for MermaidImportRequest
+import type { MermaidImportOptions } from '../services/mermaid-import/schema.js';
+
+export type { MermaidImportOptions as MermaidImportOptionsDTO };
+
+/**
+ * Request to import Mermaid text (flowchart, classDiagram or C4) into the symbol table.
+ */
+export interface MermaidImportRequest {
+  /** Raw Mermaid text, optionally with `%% cyrus:` directives */
+  text: string;
+  options?: MermaidImportOptions | undefined;
+}
+
+/**
+ * Request to render the symbol table as Draw.io XML.
+ */
+export interface DiagramExportRequest {
+  /** Limit the diagram to symbols connected to this one (default: whole registry) */
+  symbolId?: string | undefined;
+  /** Diagram (page) name */
+  name?: string | undefined;
+}
+
+// Diagram Drift DTOs (re-exported from service - no Date transformation needed)
+import type {
+  DiagramDriftOptions,
+  DiagramDriftReport,
+  DriftResolution,
+} from '../services/diagram-drift/schema.js';
+
+export type {
+  DiagramDriftOptions as DiagramDriftOptionsDTO,
+  DiagramDriftReport as DiagramDriftReportDTO,
+  DriftItem as DriftItemDTO,
+  DriftKind as DriftKindDTO,
+  DriftResolution as DriftResolutionDTO,
+} from '../services/diagram-drift/schema.js';
+
+/**
+ * Request to compare a Draw.io diagram with the symbol table.
+ */
+export interface DiagramDriftRequest {
+  /** Raw Draw.io XML */
+  xml: string;
+  options?: DiagramDriftOptions | undefined;
+}
+
+/**
+ * Request to resolve one drift item.
+ */
+export interface DiagramDriftResolveRequest extends DiagramDriftRequest {
+  /** Drift item ID from the report */
+  itemId: string;
+  resolution: DriftResolution;
+}
+
+/**
+ * Outcome of resolving a drift item.
+ */
+export interface DiagramDriftResolutionDTO {
+  /** Diagram XML after resolution */
+  xml: string;
+  /** Whether the diagram changed and must be reloaded in the editor */
+  diagramChanged: boolean;
+  report: DiagramDriftReport;
+}
@@ -2,40 +2,85 @@
  * Validation Facade
  *
  * Focused API for symbol table and connection validation operations.
+ *
+ * Source locations are checked against the project on disk; relative paths
+ * resolve against `projectRoot`, which defaults to the working directory.
  */
 
-import type { SymbolRepository } from '../domain/symbol/index.js';
+import type { SymbolRepository, VersionLockRepository } from '../domain/symbol/index.js';
+import { checkCompatibility } from '../domain/symbol/index.js';
 import {
   validateSymbolTable,
   validateSymbolById,
   checkCircularContainment,
 } from '../services/symbol-table/index.js';
-import { apiCall } from './utils/index.js';
-import type { ApiResponse, ValidationResultDTO } from './types.js';
+import {
+  createSourceVerifier,
+  type SourceVerifier,
+} from '../services/source-verification/index.js';
+import { apiCall, apiCallOrNotFound } from './utils/index.js';
+import type {
+  ApiResponse,
+  CompatibilityReportDTO,
+  SourceVerificationReportDTO,
+  SourceVerificationRequest,
+  ValidationResultDTO,
+} from './types.js';
 
 export class ValidationFacade {
   private readonly repo: SymbolRepository;
+  private readonly locks: VersionLockRepository | undefined;
 
-  constructor(repo: SymbolRepository) {
+  constructor(repo: SymbolRepository, locks?: VersionLockRepository) {
     this.repo = repo;
+    this.locks = locks;
   }
 
   // ==========================================================================
   // Symbol Table Validation
   // ==========================================================================
 
-  validateAll(): ApiResponse<ValidationResultDTO> {
+  validateAll(projectRoot?: string): ApiResponse<ValidationResultDTO> {
     return apiCall(() => {
-      return validateSymbolTable(this.repo);
+      return validateSymbolTable(this.repo, this.createVerifier(projectRoot), this.locks);
     }, 'VALIDATION_FAILED');
   }
 
-  validateSymbol(id: string): ApiResponse<ValidationResultDTO> {
+  validateSymbol(id: string, projectRoot?: string): ApiResponse<ValidationResultDTO> {
     return apiCall(() => {
-      return validateSymbolById(id, this.repo);
+      return validateSymbolById(id, this.repo, this.createVerifier(projectRoot), this.locks);
     }, 'VALIDATION_FAILED');
   }
 
+  // ==========================================================================
+  // Source Verification
+  // ==========================================================================
+
+  /**
+   * Report symbols whose source moved, changed or disappeared, optionally
+   * recording the new location of moved declarations.
+   */
+  verifySources(request: SourceVerificationRequest = {}): ApiResponse<SourceVerificationReportDTO> {
+    return apiCall(() => {
+      return this.createVerifier(request.projectRoot).verify(request.options);
+    }, 'SOURCE_VERIFICATION_FAILED');
+  }
+
+  // ==========================================================================
+  // Version Compatibility
+  // ==========================================================================
+
+  /**
+   * Compare two versions of a symbol and check the bump covers the changes.
+   */
+  compareVersions(fromId: string, toId: string): ApiResponse<CompatibilityReportDTO> {
+    return apiCallOrNotFound(() => {
+      const from = this.repo.find(fromId);
+      const to = this.repo.find(toId);
+      return from && to ? checkCompatibility(from, to) : undefined;
+    }, `Symbol '${fromId}' or '${toId}' not found`);
+  }
+
   // ==========================================================================
   // Containment Validation
   // ==========================================================================
@@ -45,4 +90,11 @@ export class ValidationFacade {
       return checkCircularContainment(this.repo);
     }, 'CHECK_FAILED');
   }
+
+  /**
+   * A fresh verifier per call, so files changed since the last call are reparsed.
+   */
+  private createVerifier(projectRoot = process.cwd()): SourceVerifier {
+    return createSourceVerifier(this.repo, projectRoot);
+  }
 }
@@ -5,6 +5,8 @@
  * Single source of truth for type-mapper and validation.
  */
 
+import type { Language } from './schema.js';
+
 /**
  * Built-in type definition with language-specific mappings.
  */
@@ -15,6 +17,8 @@ export interface BuiltinTypeDefinition {
   name: string;
   /** TypeScript type representation */
   typescript: string;
+  /** Python type representation (annotation name) */
+  python: string;
   /** Category for grouping */
   category: 'primitive' | 'numeric' | 'binary' | 'temporal' | 'collection' | 'json';
 }
@@ -25,40 +29,40 @@ export interface BuiltinTypeDefinition {
  */
 export const BUILTIN_TYPES: readonly BuiltinTypeDefinition[] = [
   // Core primitives
-  { id: 'core/string@1.0.0', name: 'string', typescript: 'string', category: 'primitive' },
-  { id: 'core/number@1.0.0', name: 'number', typescript: 'number', category: 'primitive' },
-  { id: 'core/boolean@1.0.0', name: 'boolean', typescript: 'boolean', category: 'primitive' },
-  { id: 'core/void@1.0.0', name: 'void', typescript: 'void', category: 'primitive' },
-  { id: 'core/null@1.0.0', name: 'null', typescript: 'null', category: 'primitive' },
-  { id: 'core/undefined@1.0.0', name: 'undefined', typescript: 'undefined', category: 'primitive' },
-  { id: 'core/any@1.0.0', name: 'any', typescript: 'unknown', category: 'primitive' },
-  { id: 'core/unknown@1.0.0', name: 'unknown', typescript: 'unknown', category: 'primitive' },
-  { id: 'core/never@1.0.0', name: 'never', typescript: 'never', category: 'primitive' },
+  { id: 'core/string@1.0.0', name: 'string', typescript: 'string', python: 'str', category: 'primitive' },
+  { id: 'core/number@1.0.0', name: 'number', typescript: 'number', python: 'float', category: 'primitive' },
+  { id: 'core/boolean@1.0.0', name: 'boolean', typescript: 'boolean', python: 'bool', category: 'primitive' },
+  { id: 'core/void@1.0.0', name: 'void', typescript: 'void', python: 'None', category: 'primitive' },
+  { id: 'core/null@1.0.0', name: 'null', typescript: 'null', python: 'None', category: 'primitive' },
+  { id: 'core/undefined@1.0.0', name: 'undefined', typescript: 'undefined', python: 'None', category: 'primitive' },
+  { id: 'core/any@1.0.0', name: 'any', typescript: 'unknown', python: 'Any', category: 'primitive' },
+  { id: 'core/unknown@1.0.0', name: 'unknown', typescript: 'unknown', python: 'object', category: 'primitive' },
+  { id: 'core/never@1.0.0', name: 'never', typescript: 'never', python: 'NoReturn', category: 'primitive' },
 
   // Numeric types
-  { id: 'core/int32@1.0.0', name: 'int32', typescript: 'number', category: 'numeric' },
-  { id: 'core/int64@1.0.0', name: 'int64', typescript: 'bigint', category: 'numeric' },
-  { id: 'core/float32@1.0.0', name: 'float32', typescript: 'number', category: 'numeric' },
-  { id: 'core/float64@1.0.0', name: 'float64', typescript: 'number', category: 'numeric' },
+  { id: 'core/int32@1.0.0', name: 'int32', typescript: 'number', python: 'int', category: 'numeric' },
+  { id: 'core/int64@1.0.0', name: 'int64', typescript: 'bigint', python: 'int', category: 'numeric' },
+  { id: 'core/float32@1.0.0', name: 'float32', typescript: 'number', python: 'float', category: 'numeric' },
+  { id: 'core/float64@1.0.0', name: 'float64', typescript: 'number', python: 'float', category: 'numeric' },
 
   // Binary
-  { id: 'core/bytes@1.0.0', name: 'bytes', typescript: 'Uint8Array', category: 'binary' },
-  { id: 'core/buffer@1.0.0', name: 'buffer', typescript: 'Buffer', category: 'binary' },
+  { id: 'core/bytes@1.0.0', name: 'bytes', typescript: 'Uint8Array', python: 'bytes', category: 'binary' },
+  { id: 'core/buffer@1.0.0', name: 'buffer', typescript: 'Buffer', python: 'bytearray', category: 'binary' },
 
   // Temporal
-  { id: 'core/timestamp@1.0.0', name: 'timestamp', typescript: 'Date', category: 'temporal' },
-  { id: 'core/date@1.0.0', name: 'date', typescript: 'Date', category: 'temporal' },
-  { id: 'core/duration@1.0.0', name: 'duration', typescript: 'number', category: 'temporal' },
+  { id: 'core/timestamp@1.0.0', name: 'timestamp', typescript: 'Date', python: 'datetime', category: 'temporal' },
+  { id: 'core/date@1.0.0', name: 'date', typescript: 'Date', python: 'date', category: 'temporal' },
+  { id: 'core/duration@1.0.0', name: 'duration', typescript: 'number', python: 'timedelta', category: 'temporal' },
 
   // Collections
-  { id: 'core/array@1.0.0', name: 'array', typescript: 'Array', category: 'collection' },
-  { id: 'core/map@1.0.0', name: 'map', typescript: 'Map', category: 'collection' },
-  { id: 'core/set@1.0.0', name: 'set', typescript: 'Set', category: 'collection' },
-  { id: 'core/record@1.0.0', name: 'record', typescript: 'Record', category: 'collection' },
+  { id: 'core/array@1.0.0', name: 'array', typescript: 'Array', python: 'list', category: 'collection' },
+  { id: 'core/map@1.0.0', name: 'map', typescript: 'Map', python: 'dict', category: 'collection' },
+  { id: 'core/set@1.0.0', name: 'set', typescript: 'Set', python: 'set', category: 'collection' },
+  { id: 'core/record@1.0.0', name: 'record', typescript: 'Record', python: 'dict', category: 'collection' },
 
   // JSON
-  { id: 'core/json@1.0.0', name: 'json', typescript: 'unknown', category: 'json' },
-  { id: 'core/object@1.0.0', name: 'object', typescript: 'object', category: 'json' },
+  { id: 'core/json@1.0.0', name: 'json', typescript: 'unknown', python: 'Any', category: 'json' },
+  { id: 'core/object@1.0.0', name: 'object', typescript: 'object', python: 'object', category: 'json' },
 ] as const;
 
 /**
@@ -69,6 +73,13 @@ export const BUILTIN_TYPE_MAP: ReadonlyMap<string, string> = new Map(
   BUILTIN_TYPES.map((t) => [t.id, t.typescript])
 );
 
+/**
+ * Map of symbol ID to its full definition, for per-language lookup.
+ */
+const BUILTIN_TYPES_BY_ID: ReadonlyMap<string, BuiltinTypeDefinition> = new Map(
+  BUILTIN_TYPES.map((t) => [t.id, t])
+);
+
 /**
  * Set of all built-in type IDs for validation.
  */
@@ -90,3 +101,11 @@ export function isBuiltinType(symbolId: string): boolean {
 export function getBuiltinTypescript(symbolId: string): string | undefined {
   return BUILTIN_TYPE_MAP.get(symbolId);
 }
+
+/**
+ * Get the type a built-in symbol ID maps to in a target language.
+ * Returns undefined if not a built-in type.
+ */
+export function getBuiltinTypeName(symbolId: string, language: Language): string | undefined {
+  return BUILTIN_TYPES_BY_ID.get(symbolId)?.[language];
+}
@@ -0,0 +1,195 @@
+/**
+ * Compatibility Checker Tests
+ *
+ * Tests for classifying changes between symbol versions.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { checkCompatibility, diffSymbols, getVersionBump } from './compatibility.js';
+import type { ComponentSymbol } from './schema.js';
+import { createSymbol, createDependency } from '../../testing/fixtures.js';
+
+function version(
+  versionString: string,
+  overrides: Partial<ComponentSymbol> = {}
+): ComponentSymbol {
+  const [major = 0, minor = 0, patch = 0] = versionString.split('.').map(Number);
+  return createSymbol({
+    id: `auth/AuthService@${versionString}`,
+    name: 'AuthService',
+    namespace: 'auth',
+    version: { major, minor, patch },
+    implements: ['auth/Authenticator@1.0.0'],
+    dependencies: [
+      createDependency({ symbolId: 'core/Logger@1.0.0', name: 'logger', kind: 'constructor' }),
+    ],
+    ...overrides,
+  });
+}
+
+describe('getVersionBump', () => {
+  it('should classify bumps', () => {
+    const base = { major: 1, minor: 2, patch: 3 };
+    assert.strictEqual(getVersionBump(base, { major: 2, minor: 0, patch: 0 }), 'major');
+    assert.strictEqual(getVersionBump(base, { major: 1, minor: 3, patch: 0 }), 'minor');
+    assert.strictEqual(getVersionBump(base, { major: 1, minor: 2, patch: 4 }), 'patch');
+    assert.strictEqual(getVersionBump(base, base), 'none');
+  });
+
+  it('should treat minor bumps below 1.0.0 as major', () => {
+    assert.strictEqual(
+      getVersionBump({ major: 0, minor: 1, patch: 0 }, { major: 0, minor: 2, patch: 0 }),
+      'major'
+    );
+  });
+});
+
+describe('diffSymbols', () => {
+  it('should report no changes for identical definitions', () => {
+    assert.deepStrictEqual(diffSymbols(version('1.0.0'), version('1.0.1')), []);
+  });
+
+  it('should classify removals and structural changes as major', () => {
+    const changes = diffSymbols(
+      version('1.0.0'),
+      version('1.1.0', {
+        kind: 'class',
+        extends: 'core/Base@1.0.0',
+        implements: [],
+        dependencies: [],
+        operations: [{ name: 'login', parameters: [], visibility: 'public' }],
+      })
+    );
+
+    assert.deepStrictEqual(
+      changes.map((c) => [c.field, c.severity]),
+      [
+        ['kind', 'major'],
+        ['extends', 'major'],
+        ['implements', 'major'],
+        ['dependencies', 'major'],
+        ['operations', 'major'],
+      ]
+    );
+    assert.ok(changes.some((c) => c.description === "Removed dependency 'logger'"));
+  });
+
+  it('should classify additions dependents can ignore as minor', () => {
+    const changes = diffSymbols(
+      version('1.0.0'),
+      version('1.1.0', {
+        implements: ['auth/Authenticator@1.0.0', 'auth/Auditable@1.0.0'],
+        dependencies: [
+          createDependency({ symbolId: 'core/Logger@1.0.0', name: 'logger', kind: 'constructor' }),
+          createDependency({
+            symbolId: 'core/Cache@1.0.0',
+            name: 'cache',
+            kind: 'property',
+            optional: true,
+          }),
+        ],
+      })
+    );
+
+    assert.strictEqual(changes.length, 2);
+    assert.ok(changes.every((c) => c.severity === 'minor'));
+  });
+
+  it('should grade another version of a relationship target by its bump', () => {
+    const changes = diffSymbols(
+      version('1.0.0', { extends: 'core/Base@1.0.0' }),
+      version('1.0.1', {
+        extends: 'core/Base@1.0.1',
+        implements: ['auth/Authenticator@1.1.0'],
+        dependencies: [
+          createDependency({ symbolId: 'core/Logger@^2.0.0', name: 'logger', kind: 'constructor' }),
+        ],
+      })
+    );
+
+    assert.deepStrictEqual(changes, [
+      {
+        field: 'extends',
+        description: "Changed extends from 'core/Base@1.0.0' to 'core/Base@1.0.1'",
+        severity: 'patch',
+      },
+      {
+        field: 'implements',
+        description: "Changed interface from 'auth/Authenticator@1.0.0' to 'auth/Authenticator@1.1.0'",
+        severity: 'minor',
+      },
+      {
+        field: 'dependencies',
+        description: "Changed dependency 'logger' from 'core/Logger@1.0.0' to 'core/Logger@^2.0.0'",
+        severity: 'major',
+      },
+    ]);
+  });
+
+  it('should grade another target or an older version as major', () => {
+    const changes = diffSymbols(
+      version('1.0.0', { extends: 'core/Base@1.2.0' }),
+      version('1.0.1', {
+        extends: 'core/Base@1.1.0',
+        dependencies: [
+          createDependency({ symbolId: 'core/Clock@1.0.0', name: 'logger', kind: 'constructor' }),
+        ],
+      })
+    );
+
+    assert.deepStrictEqual(
+      changes.map((c) => [c.field, c.severity]),
+      [
+        ['extends', 'major'],
+        ['dependencies', 'major'],
+      ]
+    );
+  });
+
+  it('should classify documentation changes as patch', () => {
+    const changes = diffSymbols(
+      version('1.0.0'),
+      version('1.0.1', { description: 'Authenticates users', tags: ['auth'] })
+    );
+
+    assert.deepStrictEqual(
+      changes.map((c) => c.severity),
+      ['patch', 'patch']
+    );
+  });
+
+  it('should detect changed operation signatures', () => {
+    const login = { name: 'login', parameters: [], visibility: 'public' as const };
+    const changes = diffSymbols(
+      version('1.0.0', { operations: [login] }),
+      version('1.0.1', { operations: [{ ...login, async: true }] })
+    );
+
+    assert.deepStrictEqual(changes, [
+      {
+        field: 'operations',
+        description: "Changed signature of operation 'login'",
+        severity: 'major',
+      },
+    ]);
+  });
+});
+
+describe('checkCompatibility', () => {
+  it('should flag a bump smaller than the changes require', () => {
+    const report = checkCompatibility(version('1.0.0'), version('1.0.1', { dependencies: [] }));
+
+    assert.strictEqual(report.requiredBump, 'major');
+    assert.strictEqual(report.actualBump, 'patch');
+    assert.strictEqual(report.compatible, false);
+  });
+
+  it('should accept a sufficient bump', () => {
+    const report = checkCompatibility(version('1.0.0'), version('2.0.0', { dependencies: [] }));
+
+    assert.strictEqual(report.compatible, true);
+    assert.strictEqual(report.fromId, 'auth/AuthService@1.0.0');
+    assert.strictEqual(report.toId, 'auth/AuthService@2.0.0');
+  });
+});
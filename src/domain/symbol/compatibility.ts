@@ -0,0 +1,352 @@
+/**
+ * Compatibility Checker
+ *
+ * Diffs two versions of a symbol and classifies each change by the SemVer
+ * bump it requires. Pure functions: a version is compatible with its
+ * predecessor when its actual bump is at least the required one.
+ */
+
+import type { ComponentSymbol, SemVer, TypeRef, Operation } from './schema.js';
+import { compareSemVer, parseSemVer, parseSymbolId } from './schema.js';
+import { parseVersionReference } from './version.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ChangeSeverity = 'major' | 'minor' | 'patch';
+export type VersionBump = ChangeSeverity | 'none';
+
+/**
+ * A single difference between two versions of a symbol.
+ */
+export interface SymbolChange {
+  /** Changed field, e.g., "dependencies" */
+  field: string;
+  /** Human-readable summary, e.g., "Removed dependency 'logger'" */
+  description: string;
+  /** Smallest version bump that honors SemVer for this change */
+  severity: ChangeSeverity;
+}
+
+/**
+ * Result of comparing a symbol version with its predecessor.
+ */
+export interface CompatibilityReport {
+  fromId: string;
+  toId: string;
+  changes: SymbolChange[];
+  /** Largest severity among the changes ('none' if nothing changed) */
+  requiredBump: VersionBump;
+  /** Bump between the two version numbers */
+  actualBump: VersionBump;
+  /** The actual bump is at least the required bump */
+  compatible: boolean;
+}
+
+const BUMP_RANK: Record<VersionBump, number> = { none: 0, patch: 1, minor: 2, major: 3 };
+
+// ============================================================================
+// Version Bumps
+// ============================================================================
+
+/**
+ * Classify the bump between two versions (`to` is expected to be newer).
+ * Below 1.0.0 a minor bump may carry breaking changes, so it counts as major.
+ */
+export function getVersionBump(from: SemVer, to: SemVer): VersionBump {
+  if (to.major !== from.major) return 'major';
+  if (to.minor !== from.minor) return to.major === 0 ? 'major' : 'minor';
+  if (to.patch !== from.patch) return 'patch';
+  return 'none';
+}
+
+/**
+ * Get the largest bump required by a set of changes.
+ */
+export function getRequiredBump(changes: SymbolChange[]): VersionBump {
+  return changes.reduce<VersionBump>(
+    (max, change) => (BUMP_RANK[change.severity] > BUMP_RANK[max] ? change.severity : max),
+    'none'
+  );
+}
+
+/**
+ * Compare a symbol version with its predecessor.
+ */
+export function checkCompatibility(
+  from: ComponentSymbol,
+  to: ComponentSymbol
+): CompatibilityReport {
+  const changes = diffSymbols(from, to);
+  const requiredBump = getRequiredBump(changes);
+  const actualBump = getVersionBump(from.version, to.version);
+
+  return {
+    fromId: from.id,
+    toId: to.id,
+    changes,
+    requiredBump,
+    actualBump,
+    compatible: BUMP_RANK[actualBump] >= BUMP_RANK[requiredBump],
+  };
+}
+
+// ============================================================================
+// Symbol Diff
+// ============================================================================
+
+/**
+ * List the changes between two versions of a symbol.
+ *
+ * Anything dependents rely on that is removed or altered is major; additions
+ * that existing dependents can ignore are minor; documentation is patch.
+ * Relationships match their targets by namespace/name, so pointing at another
+ * version of the same target is graded by that target's own bump.
+ */
+export function diffSymbols(from: ComponentSymbol, to: ComponentSymbol): SymbolChange[] {
+  const changes: SymbolChange[] = [];
+  const change = (field: string, description: string, severity: ChangeSeverity): void => {
+    changes.push({ field, description, severity });
+  };
+
+  // Classification
+  for (const field of ['kind', 'level', 'language'] as const) {
+    if (from[field] !== to[field]) {
+      change(field, `Changed ${field} from '${from[field]}' to '${to[field]}'`, 'major');
+    }
+  }
+
+  // Generalization
+  if (from.extends && to.extends && targetKey(from.extends) === targetKey(to.extends)) {
+    if (from.extends !== to.extends) {
+      change(
+        'extends',
+        `Changed extends from '${from.extends}' to '${to.extends}'`,
+        getTargetSeverity(from.extends, to.extends)
+      );
+    }
+  } else if (from.extends !== to.extends) {
+    const description = !to.extends
+      ? `Removed extends '${from.extends}'`
+      : !from.extends
+        ? `Added extends '${to.extends}'`
+        : `Changed extends from '${from.extends}' to '${to.extends}'`;
+    change('extends', description, 'major');
+  }
+
+  // Realization and containment: removing narrows, adding widens
+  diffKeyed(from.implements, to.implements, targetKey, {
+    removed: (id) => change('implements', `Removed interface '${id}'`, 'major'),
+    added: (id) => change('implements', `Added interface '${id}'`, 'minor'),
+    changed: (a, b) => {
+      if (a !== b) {
+        change('implements', `Changed interface from '${a}' to '${b}'`, getTargetSeverity(a, b));
+      }
+    },
+  });
+  diffKeyed(from.contains, to.contains, targetKey, {
+    removed: (id) => change('contains', `Removed contained symbol '${id}'`, 'major'),
+    added: (id) => change('contains', `Added contained symbol '${id}'`, 'minor'),
+    changed: (a, b) => {
+      if (a !== b) {
+        change(
+          'contains',
+          `Changed contained symbol from '${a}' to '${b}'`,
+          getTargetSeverity(a, b)
+        );
+      }
+    },
+  });
+
+  // Dependencies (keyed by injection name)
+  diffKeyed(from.dependencies, to.dependencies, (dep) => dep.name, {
+    removed: (dep) => change('dependencies', `Removed dependency '${dep.name}'`, 'major'),
+    added: (dep) =>
+      dep.optional
+        ? change('dependencies', `Added optional dependency '${dep.name}'`, 'minor')
+        : change('dependencies', `Added required dependency '${dep.name}'`, 'major'),
+    changed: (a, b) => {
+      if (a.symbolId !== b.symbolId) {
+        change(
+          'dependencies',
+          `Changed dependency '${a.name}' from '${a.symbolId}' to '${b.symbolId}'`,
+          getTargetSeverity(a.symbolId, b.symbolId)
+        );
+      }
+      if (a.kind !== b.kind) {
+        change(
+          'dependencies',
+          `Changed injection of '${a.name}' from ${a.kind} to ${b.kind}`,
+          'major'
+        );
+      }
+      if (a.optional && !b.optional) {
+        change('dependencies', `Made dependency '${a.name}' required`, 'major');
+      } else if (!a.optional && b.optional) {
+        change('dependencies', `Made dependency '${a.name}' optional`, 'minor');
+      }
+    },
+  });
+
+  // Composition and aggregation (keyed by field name)
+  for (const field of ['composes', 'aggregates'] as const) {
+    diffKeyed(from[field], to[field], (ref) => ref.fieldName, {
+      removed: (ref) => change(field, `Removed ${field} field '${ref.fieldName}'`, 'major'),
+      added: (ref) => change(field, `Added ${field} field '${ref.fieldName}'`, 'minor'),
+      changed: (a, b) => {
+        if (a.multiplicity !== b.multiplicity) {
+          change(field, `Changed ${field} field '${a.fieldName}'`, 'major');
+        } else if (a.symbolId !== b.symbolId) {
+          change(
+            field,
+            `Changed ${field} field '${a.fieldName}' from '${a.symbolId}' to '${b.symbolId}'`,
+            getTargetSeverity(a.symbolId, b.symbolId)
+          );
+        }
+      },
+    });
+  }
+
+  // L0 definitions
+  diffKeyed(from.members, to.members, (member) => member.name, {
+    removed: (member) => change('members', `Removed member '${member.name}'`, 'major'),
+    added: (member) =>
+      member.optional
+        ? change('members', `Added optional member '${member.name}'`, 'minor')
+        : change('members', `Added required member '${member.name}'`, 'major'),
+    changed: (a, b) => {
+      if (
+        formatTypeRef(a.type) !== formatTypeRef(b.type) ||
+        Boolean(a.optional) !== Boolean(b.optional) ||
+        Boolean(a.readonly) !== Boolean(b.readonly)
+      ) {
+        change('members', `Changed member '${a.name}'`, 'major');
+      }
+    },
+  });
+  diffKeyed(from.aliasOf, to.aliasOf, formatTypeRef, {
+    removed: (ref) => change('aliasOf', `Removed alias variant '${formatTypeRef(ref)}'`, 'major'),
+    added: (ref) => change('aliasOf', `Added alias variant '${formatTypeRef(ref)}'`, 'minor'),
+  });
+  diffKeyed(from.enumMembers, to.enumMembers, (member) => member.name, {
+    removed: (member) => change('enumMembers', `Removed enum member '${member.name}'`, 'major'),
+    added: (member) => change('enumMembers', `Added enum member '${member.name}'`, 'minor'),
+    changed: (a, b) => {
+      if (a.value !== b.value) {
+        change('enumMembers', `Changed value of enum member '${a.name}'`, 'major');
+      }
+    },
+  });
+  if (from.constant && to.constant) {
+    if (formatTypeRef(from.constant.type) !== formatTypeRef(to.constant.type)) {
+      change('constant', 'Changed constant type', 'major');
+    } else if (JSON.stringify(from.constant.value) !== JSON.stringify(to.constant.value)) {
+      change('constant', 'Changed constant value', 'minor');
+    }
+  } else if (from.constant || to.constant) {
+    change('constant', to.constant ? 'Added constant value' : 'Removed constant value', 'major');
+  }
+
+  // Operations (keyed by name). They are abstract on the generated base class,
+  // so an added operation breaks every existing implementation.
+  diffKeyed(from.operations, to.operations, (op) => op.name, {
+    removed: (op) => change('operations', `Removed operation '${op.name}'`, 'major'),
+    added: (op) => change('operations', `Added operation '${op.name}'`, 'major'),
+    changed: (a, b) => {
+      if (formatSignature(a) !== formatSignature(b)) {
+        change('operations', `Changed signature of operation '${a.name}'`, 'major');
+      }
+    },
+  });
+
+  // Documentation
+  if (from.description !== to.description) {
+    change('description', 'Changed description', 'patch');
+  }
+  if ([...from.tags].sort().join(',') !== [...to.tags].sort().join(',')) {
+    change('tags', 'Changed tags', 'patch');
+  }
+
+  return changes;
+}
+
+// ============================================================================
+// Internal Helpers
+// ============================================================================
+
+/**
+ * Match two lists by key and report removed, added and changed items.
+ */
+function diffKeyed<T>(
+  before: T[] | undefined,
+  after: T[] | undefined,
+  key: (item: T) => string,
+  handlers: {
+    removed: (item: T) => void;
+    added: (item: T) => void;
+    changed?: (before: T, after: T) => void;
+  }
+): void {
+  const afterByKey = new Map((after ?? []).map((item) => [key(item), item]));
+  const beforeKeys = new Set<string>();
+
+  for (const item of before ?? []) {
+    const itemKey = key(item);
+    beforeKeys.add(itemKey);
+    const match = afterByKey.get(itemKey);
+    if (match === undefined) {
+      handlers.removed(item);
+    } else {
+      handlers.changed?.(item, match);
+    }
+  }
+
+  for (const item of after ?? []) {
+    if (!beforeKeys.has(key(item))) {
+      handlers.added(item);
+    }
+  }
+}
+
+/**
+ * Key a relationship target by namespace/name, ignoring its version.
+ */
+function targetKey(id: string): string {
+  const parsed = parseSymbolId(id);
+  return parsed ? `${parsed.namespace}/${parsed.name}` : id;
+}
+
+/**
+ * Grade retargeting a relationship. Another symbol or an older version is
+ * major; a newer version of the same symbol takes that version's bump (a range
+ * by its lower bound), and a rewritten reference to the same version is a patch.
+ */
+function getTargetSeverity(before: string, after: string): ChangeSeverity {
+  if (targetKey(before) !== targetKey(after)) return 'major';
+
+  const from = targetVersion(before);
+  const to = targetVersion(after);
+  if (!from || !to || compareSemVer(to, from) < 0) return 'major';
+
+  const bump = getVersionBump(from, to);
+  return bump === 'none' ? 'patch' : bump;
+}
+
+function targetVersion(id: string): SemVer | undefined {
+  const parsed = parseSymbolId(id);
+  if (!parsed) return undefined;
+  return parseSemVer(parsed.version) ?? parseVersionReference(id)?.range.min;
+}
+
+function formatTypeRef(ref: TypeRef): string {
+  return ref.array ? `${ref.symbolId}[]` : ref.symbolId;
+}
+
+function formatSignature(op: Operation): string {
+  const params = op.parameters
+    .map((p) => `${p.name}${p.optional ? '?' : ''}: ${formatTypeRef(p.type)}`)
+    .join(', ');
+  const returns = op.returnType ? formatTypeRef(op.returnType) : 'void';
+  return `${op.visibility} ${op.async ? 'async ' : ''}(${params}) => ${returns}`;
+}
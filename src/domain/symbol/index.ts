@@ -24,11 +24,24 @@ export type {
   ExecutionInfo,
   StatusInfo,
   GenerationMetadata,
+  VersionLock,
+  SymbolChangeOperation,
+  ChangeAttribution,
+  SymbolRevision,
   // UML Relationship Types
   DependencyKind,
   DependencyRef,
   CompositionRef,
   AggregationRef,
+  // L0 Definition Types
+  TypeRef,
+  TypeMember,
+  EnumMember,
+  ConstantValue,
+  // Operation Types
+  OperationVisibility,
+  OperationParameter,
+  Operation,
 } from './schema.js';
 
 // ============================================================================
@@ -50,11 +63,24 @@ export {
   ExecutionInfoSchema,
   StatusInfoSchema,
   GenerationMetadataSchema,
+  VersionLockSchema,
+  SymbolChangeOperationSchema,
+  ChangeAttributionSchema,
+  SymbolRevisionSchema,
   // UML Relationship Schemas
   DependencyKindSchema,
   DependencyRefSchema,
   CompositionRefSchema,
   AggregationRefSchema,
+  // L0 Definition Schemas
+  TypeRefSchema,
+  TypeMemberSchema,
+  EnumMemberSchema,
+  ConstantValueSchema,
+  // Operation Schemas
+  OperationVisibilitySchema,
+  OperationParameterSchema,
+  OperationSchema,
   KIND_TO_LEVEL,
 } from './schema.js';
 
@@ -76,7 +102,51 @@ export {
 // Pure Functions (Version)
 // ============================================================================
 
-export { parseConstraint, findBestMatch } from './version.js';
+export type { VersionReference } from './version.js';
+export {
+  parseConstraint,
+  findBestMatch,
+  parseVersionReference,
+  satisfiesReference,
+} from './version.js';
+
+// ============================================================================
+// Pure Functions (Compatibility)
+// ============================================================================
+
+export type {
+  ChangeSeverity,
+  VersionBump,
+  SymbolChange,
+  CompatibilityReport,
+} from './compatibility.js';
+export {
+  checkCompatibility,
+  diffSymbols,
+  getVersionBump,
+  getRequiredBump,
+} from './compatibility.js';
+
+// ============================================================================
+// Pure Functions (Search)
+// ============================================================================
+
+export type {
+  SearchField,
+  SearchTerm,
+  SymbolSearchQuery,
+  HighlightSegment,
+  SearchHighlight,
+  SymbolSearchHit,
+} from './search.js';
+export { parseSearchQuery } from './search.js';
+
+// ============================================================================
+// Pure Functions (Relations)
+// ============================================================================
+
+export type { ExtendsRef } from './relations.js';
+export { orderByExtends, unique } from './relations.js';
 
 // ============================================================================
 // Built-in Types
@@ -89,10 +159,15 @@ export {
   BUILTIN_TYPE_IDS,
   isBuiltinType,
   getBuiltinTypescript,
+  getBuiltinTypeName,
 } from './builtins.js';
 
 // ============================================================================
 // Repository Interface (Domain Contract)
 // ============================================================================
 
-export type { SymbolRepository } from './schema.js';
+export type {
+  SymbolRepository,
+  VersionLockRepository,
+  SymbolHistoryRepository,
+} from './schema.js';
@@ -0,0 +1,41 @@
+/**
+ * Relationship Helper Tests
+ *
+ * Tests for ordering symbols by their bases.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { orderByExtends, unique } from './relations.js';
+
+describe('orderByExtends', () => {
+  it('should place bases before the symbols extending them', () => {
+    const items = [
+      { id: 'C', extends: 'B' },
+      { id: 'B', extends: 'A' },
+      { id: 'A' },
+      { id: 'D', extends: 'External' },
+    ];
+
+    const ordered = orderByExtends(items, (item) => item).map((item) => item.id);
+
+    assert.deepStrictEqual(ordered, ['A', 'D', 'B', 'C']);
+  });
+
+  it('should keep every item of an extends cycle', () => {
+    const items = [
+      { name: 'X', base: 'Y' },
+      { name: 'Y', base: 'X' },
+    ];
+
+    const ordered = orderByExtends(items, (item) => ({ id: item.name, extends: item.base }));
+
+    assert.deepStrictEqual(ordered.map((item) => item.name), ['X', 'Y']);
+  });
+});
+
+describe('unique', () => {
+  it('should keep the first of repeated entries', () => {
+    assert.deepStrictEqual(unique(['b', 'a', 'b', 'c', 'a']), ['b', 'a', 'c']);
+  });
+});
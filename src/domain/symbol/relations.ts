@@ -0,0 +1,53 @@
+/**
+ * Relationship Helpers
+ *
+ * Pure functions for working with symbol relationships across services.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * The identity and base of an item to order by `extends`.
+ */
+export interface ExtendsRef {
+  id: string;
+  extends?: string | undefined;
+}
+
+// ============================================================================
+// Ordering
+// ============================================================================
+
+/**
+ * Order items so that base symbols come before the symbols extending them
+ * (the repository enforces `extends` as a foreign key). Bases outside the
+ * list are assumed to exist already.
+ */
+export function orderByExtends<T>(items: T[], ref: (item: T) => ExtendsRef): T[] {
+  const pending = new Map(items.map((item) => [ref(item).id, item]));
+  const ordered: T[] = [];
+
+  while (pending.size > 0) {
+    const ready = [...pending.values()].filter((item) => {
+      const base = ref(item).extends;
+      return !base || !pending.has(base);
+    });
+    // An extends cycle cannot be ordered; let the repository report it
+    const batch = ready.length > 0 ? ready : [...pending.values()];
+    for (const item of batch) {
+      ordered.push(item);
+      pending.delete(ref(item).id);
+    }
+  }
+
+  return ordered;
+}
+
+/**
+ * Drop repeated entries from a relationship list, keeping the first.
+ */
+export function unique<T>(values: T[]): T[] {
+  return [...new Set(values)];
+}
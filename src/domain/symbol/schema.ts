@@ -15,6 +15,7 @@
  */
 
 import { z } from 'zod';
+import type { SymbolSearchHit, SymbolSearchQuery } from './search.js';
 
 // ============================================================================
 // Abstraction Levels
@@ -56,7 +57,7 @@ export const KIND_TO_LEVEL: Record<ComponentKind, AbstractionLevel> = {
 // Languages
 // ============================================================================
 
-export const LanguageSchema = z.enum(['typescript']);
+export const LanguageSchema = z.enum(['typescript', 'python']);
 export type Language = z.infer<typeof LanguageSchema>;
 
 // ============================================================================
@@ -170,6 +171,74 @@ export const AggregationRefSchema = z.object({
 });
 export type AggregationRef = z.infer<typeof AggregationRefSchema>;
 
+// ============================================================================
+// L0 Definitions (types, enums, constants)
+// ============================================================================
+
+// Reference to a built-in (core/string@1.0.0) or registered type
+export const TypeRefSchema = z.object({
+  symbolId: z.string().min(1),
+  array: z.boolean().optional(),
+});
+export type TypeRef = z.infer<typeof TypeRefSchema>;
+
+// Interface property of a 'type' symbol
+export const TypeMemberSchema = z.object({
+  name: z.string().min(1),
+  type: TypeRefSchema,
+  optional: z.boolean().optional(),
+  readonly: z.boolean().optional(),
+  description: z.string().optional(),
+});
+export type TypeMember = z.infer<typeof TypeMemberSchema>;
+
+// Enum member (omitted values count up from the previous number, or are
+// numbered by position after a string value)
+export const EnumMemberSchema = z.object({
+  name: z.string().min(1),
+  value: z.union([z.string(), z.number()]).optional(),
+});
+export type EnumMember = z.infer<typeof EnumMemberSchema>;
+
+// Typed literal value of a 'constant' symbol
+export const ConstantValueSchema = z.object({
+  type: TypeRefSchema,
+  value: z.union([
+    z.string(),
+    z.number(),
+    z.boolean(),
+    z.null(),
+    z.array(z.unknown()),
+    z.record(z.unknown()),
+  ]),
+});
+export type ConstantValue = z.infer<typeof ConstantValueSchema>;
+
+// ============================================================================
+// Operations (L1 typed ports)
+// ============================================================================
+
+export const OperationVisibilitySchema = z.enum(['public', 'protected']);
+export type OperationVisibility = z.infer<typeof OperationVisibilitySchema>;
+
+export const OperationParameterSchema = z.object({
+  name: z.string().min(1),
+  type: TypeRefSchema,
+  optional: z.boolean().optional(),
+});
+export type OperationParameter = z.infer<typeof OperationParameterSchema>;
+
+// Method a component must implement (return type defaults to void)
+export const OperationSchema = z.object({
+  name: z.string().min(1),
+  parameters: z.array(OperationParameterSchema),
+  returnType: TypeRefSchema.optional(),
+  async: z.boolean().optional(),
+  visibility: OperationVisibilitySchema.default('public'),
+  description: z.string().optional(),
+});
+export type Operation = z.infer<typeof OperationSchema>;
+
 // ============================================================================
 // Core Component Symbol
 // ============================================================================
@@ -195,6 +264,15 @@ export const ComponentSymbolSchema = z.object({
   // C4 Containment (higher levels contain lower)
   contains: z.array(z.string()).optional(),
 
+  // L0 Definitions
+  members: z.array(TypeMemberSchema).optional(),            // type: interface properties
+  aliasOf: z.array(TypeRefSchema).optional(),               // type: alias (union of refs)
+  enumMembers: z.array(EnumMemberSchema).optional(),        // enum
+  constant: ConstantValueSchema.optional(),                 // constant
+
+  // Operations (abstract methods on generated L1 base classes)
+  operations: z.array(OperationSchema).optional(),
+
   // Versioning
   version: SemVerSchema,
 
@@ -217,6 +295,45 @@ export const ComponentSymbolSchema = z.object({
 });
 export type ComponentSymbol = z.infer<typeof ComponentSymbolSchema>;
 
+// ============================================================================
+// Version Locks
+// ============================================================================
+
+// Snapshot of the version a range reference resolved to (lockfile entry)
+export const VersionLockSchema = z.object({
+  reference: z.string().min(1),     // e.g., "core/Logger@^1.2.0"
+  resolvedId: z.string().min(1),    // e.g., "core/Logger@1.2.3"
+  lockedAt: z.date(),
+});
+export type VersionLock = z.infer<typeof VersionLockSchema>;
+
+// ============================================================================
+// Change History
+// ============================================================================
+
+export const SymbolChangeOperationSchema = z.enum(['insert', 'update', 'delete']);
+export type SymbolChangeOperation = z.infer<typeof SymbolChangeOperationSchema>;
+
+// Who made a change and why (recorded with every revision it produces)
+export const ChangeAttributionSchema = z.object({
+  author: z.string().optional(),
+  reason: z.string().optional(),
+});
+export type ChangeAttribution = z.infer<typeof ChangeAttributionSchema>;
+
+// One recorded write to a symbol, with its state before and after
+export const SymbolRevisionSchema = z.object({
+  revision: z.number().int().positive(),       // increases across the whole registry
+  symbolId: z.string().min(1),
+  operation: SymbolChangeOperationSchema,
+  before: ComponentSymbolSchema.optional(),   // absent for insert
+  after: ComponentSymbolSchema.optional(),    // absent for delete
+  changedAt: z.date(),
+  author: z.string().optional(),
+  reason: z.string().optional(),
+});
+export type SymbolRevision = z.infer<typeof SymbolRevisionSchema>;
+
 // ============================================================================
 // Validation Results
 // ============================================================================
@@ -393,7 +510,10 @@ export interface SymbolRepository {
   findByTag(tag: string): ComponentSymbol[];
   findByStatus(status: SymbolStatus): ComponentSymbol[];
   findByOrigin(origin: SymbolOrigin): ComponentSymbol[];
+  /** Full-text search; `query` uses the syntax of parseSearchQuery */
   search(query: string): ComponentSymbol[];
+  /** Ranked full-text search with highlighted matches, best first */
+  searchRanked(query: SymbolSearchQuery, limit?: number): SymbolSearchHit[];
 
   // Containment Queries
   findContains(id: string): string[];
@@ -403,4 +523,41 @@ export interface SymbolRepository {
   findExtends(id: string): ComponentSymbol | undefined;
   findImplementors(interfaceId: string): ComponentSymbol[];
   findDependents(id: string): ComponentSymbol[];
+
+  // Transactions
+  transaction<T>(fn: () => T): T;
+
+  // Change History: run writes atomically, attributing their revisions
+  withAttribution<T>(attribution: ChangeAttribution, fn: () => T): T;
+}
+
+/**
+ * Version Lock Repository Interface
+ *
+ * Per-project snapshot of resolved version-range references, so repeated
+ * validation and generation keep using the same versions until updated.
+ */
+export interface VersionLockRepository {
+  find(reference: string): VersionLock | undefined;
+  save(reference: string, resolvedId: string): VersionLock;
+  delete(reference: string): boolean;
+  list(): VersionLock[];
+}
+
+/**
+ * Symbol History Repository Interface
+ *
+ * Read access to the revisions the symbol repository records on every
+ * insert, update and delete.
+ */
+export interface SymbolHistoryRepository {
+  /** Revisions of one symbol, oldest first */
+  listForSymbol(symbolId: string): SymbolRevision[];
+  find(revision: number): SymbolRevision | undefined;
+  /** Latest revision of every symbol made at or before the timestamp */
+  findLatestAsOf(timestamp: Date): SymbolRevision[];
+  /** Number of the most recent revision, 0 if none was recorded */
+  latestRevision(): number;
+  /** Revisions recorded after the given revision, oldest first */
+  listAfter(revision: number): SymbolRevision[];
 }
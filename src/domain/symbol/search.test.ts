@@ -0,0 +1,61 @@
+/**
+ * Symbol Search Tests
+ *
+ * Tests for search query parsing.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { parseSearchQuery } from './search.js';
+
+describe('parseSearchQuery', () => {
+  it('should parse filters and terms', () => {
+    const query = parseSearchQuery('kind:service tag:auth level:l1 jwt* token');
+
+    assert.deepStrictEqual(query, {
+      kind: 'service',
+      level: 'L1',
+      tags: ['auth'],
+      terms: [
+        { text: 'jwt', prefix: true },
+        { text: 'token', prefix: false },
+      ],
+    });
+  });
+
+  it('should keep quoted phrases together', () => {
+    const query = parseSearchQuery('"handles jwt"* "kind:service"');
+
+    assert.deepStrictEqual(query.terms, [
+      { text: 'handles jwt', prefix: true },
+      { text: 'kind:service', prefix: false },
+    ]);
+    assert.strictEqual(query.kind, undefined);
+  });
+
+  it('should collect tags and normalize namespaces', () => {
+    const query = parseSearchQuery('tag:auth tag:io ns:core/auth/ status:tested');
+
+    assert.deepStrictEqual(query.tags, ['auth', 'io']);
+    assert.strictEqual(query.namespace, 'core/auth');
+    assert.strictEqual(query.status, 'tested');
+  });
+
+  it('should search unknown fields as text and drop empty terms', () => {
+    const query = parseSearchQuery('  owner:ana  *  ""  ');
+
+    assert.deepStrictEqual(query.terms, [{ text: 'owner:ana', prefix: false }]);
+  });
+
+  it('should search invalid filter values as text', () => {
+    const query = parseSearchQuery('kind:serv level:L9 status:tested');
+
+    assert.deepStrictEqual(query.terms, [
+      { text: 'kind:serv', prefix: false },
+      { text: 'level:L9', prefix: false },
+    ]);
+    assert.strictEqual(query.kind, undefined);
+    assert.strictEqual(query.level, undefined);
+    assert.strictEqual(query.status, 'tested');
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Symbol Search
+ *
+ * Query syntax and result types for full-text symbol search.
+ * Pure functions; the repository evaluates parsed queries against its index.
+ *
+ * Syntax: words match whole words (with stemming, so "token" finds
+ * "tokens"), `jwt*` matches word beginnings, `"exact phrase"` matches
+ * consecutive words, and `field:value` filters narrow the results:
+ * kind, level, status, origin, language, namespace (or ns) and tag.
+ * Everything is combined with AND.
+ */
+
+import type {
+  AbstractionLevel,
+  ComponentKind,
+  ComponentSymbol,
+  Language,
+  SymbolOrigin,
+  SymbolStatus,
+} from './schema.js';
+import {
+  AbstractionLevelSchema,
+  ComponentKindSchema,
+  LanguageSchema,
+  SymbolOriginSchema,
+  SymbolStatusSchema,
+} from './schema.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Indexed text fields, as reported in highlights */
+export type SearchField = 'name' | 'namespace' | 'description' | 'tags';
+
+/**
+ * A word or quoted phrase to match.
+ */
+export interface SearchTerm {
+  text: string;
+  /** Match word beginnings (`jwt*`) instead of whole words */
+  prefix: boolean;
+}
+
+/**
+ * A parsed search query. Terms are matched against the full-text index;
+ * filters must all hold.
+ */
+export interface SymbolSearchQuery {
+  terms: SearchTerm[];
+  kind?: ComponentKind;
+  level?: AbstractionLevel;
+  status?: SymbolStatus;
+  origin?: SymbolOrigin;
+  language?: Language;
+  /** Namespace, including its child namespaces */
+  namespace?: string;
+  /** Tags the symbol must all have */
+  tags: string[];
+}
+
+/**
+ * A run of field text, marked if it matched a search term.
+ */
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Matched text of one field. Descriptions are cut to the part around the match.
+ */
+export interface SearchHighlight {
+  field: SearchField;
+  segments: HighlightSegment[];
+}
+
+/**
+ * A search result. Higher scores rank first; filter-only queries score 0.
+ */
+export interface SymbolSearchHit {
+  symbol: ComponentSymbol;
+  score: number;
+  highlights: SearchHighlight[];
+}
+
+// ============================================================================
+// Query Parsing
+// ============================================================================
+
+/** Quoted phrase (optionally followed by *) or a whitespace-separated word */
+const TOKEN_PATTERN = /"([^"]*)"(\*?)|(\S+)/g;
+
+const FILTER_PATTERN = /^(kind|level|status|origin|language|namespace|ns|tag):(.+)$/i;
+
+/** Terms without letters or digits match nothing in the index */
+const WORD_CHARACTER = /[\p{L}\p{N}]/u;
+
+/**
+ * Parse a search query, e.g. `kind:service tag:auth level:L1 jwt*`.
+ * Unknown `field:` prefixes and invalid filter values (such as a
+ * half-typed `kind:serv`) are searched as text, so any input parses.
+ */
+export function parseSearchQuery(input: string): SymbolSearchQuery {
+  const query: SymbolSearchQuery = { terms: [], tags: [] };
+
+  for (const [, phrase, phrasePrefix, word] of input.matchAll(TOKEN_PATTERN)) {
+    if (phrase !== undefined) {
+      addTerm(query, phrase.trim(), phrasePrefix === '*');
+      continue;
+    }
+    if (word === undefined) continue;
+
+    const filter = FILTER_PATTERN.exec(word);
+    if (!filter || !applyFilter(query, filter[1]!.toLowerCase(), filter[2]!)) {
+      addTerm(query, word.replace(/\*+$/, ''), word.endsWith('*'));
+    }
+  }
+
+  return query;
+}
+
+function addTerm(query: SymbolSearchQuery, text: string, prefix: boolean): void {
+  if (WORD_CHARACTER.test(text)) {
+    query.terms.push({ text, prefix });
+  }
+}
+
+/**
+ * Apply a filter to the query.
+ *
+ * @returns false if the value is not valid for the field
+ */
+function applyFilter(query: SymbolSearchQuery, field: string, value: string): boolean {
+  switch (field) {
+    case 'kind':
+      return assign(query, 'kind', parseFilterValue(value, ComponentKindSchema.options));
+    case 'level':
+      return assign(
+        query,
+        'level',
+        parseFilterValue(value.toUpperCase(), AbstractionLevelSchema.options)
+      );
+    case 'status':
+      return assign(query, 'status', parseFilterValue(value, SymbolStatusSchema.options));
+    case 'origin':
+      return assign(query, 'origin', parseFilterValue(value, SymbolOriginSchema.options));
+    case 'language':
+      return assign(query, 'language', parseFilterValue(value, LanguageSchema.options));
+    case 'namespace':
+    case 'ns':
+      query.namespace = value.replace(/\/+$/, '');
+      return true;
+    case 'tag':
+      query.tags.push(value);
+      return true;
+    default:
+      return false;
+  }
+}
+
+function assign<K extends 'kind' | 'level' | 'status' | 'origin' | 'language'>(
+  query: SymbolSearchQuery,
+  field: K,
+  value: SymbolSearchQuery[K] | undefined
+): boolean {
+  if (value === undefined) return false;
+  query[field] = value;
+  return true;
+}
+
+function parseFilterValue<T extends string>(value: string, allowed: readonly T[]): T | undefined {
+  return allowed.find((option) => option === value.toLowerCase() || option === value);
+}
@@ -6,7 +6,12 @@
 
 import { describe, it } from 'node:test';
 import assert from 'node:assert';
-import { parseConstraint, findBestMatch } from './version.js';
+import {
+  parseConstraint,
+  findBestMatch,
+  parseVersionReference,
+  satisfiesReference,
+} from './version.js';
 
 describe('parseConstraint', () => {
   it('should parse exact version', () => {
@@ -78,3 +83,29 @@ describe('findBestMatch', () => {
     assert.deepStrictEqual(match, { major: 2, minor: 0, patch: 0 });
   });
 });
+
+describe('parseVersionReference', () => {
+  it('should parse a range reference', () => {
+    const ref = parseVersionReference('core/Logger@^1.2.0');
+    assert.strictEqual(ref?.namespace, 'core');
+    assert.strictEqual(ref?.name, 'Logger');
+    assert.strictEqual(ref?.range.constraint, '^1.2.0');
+  });
+
+  it('should return null for pinned IDs', () => {
+    assert.strictEqual(parseVersionReference('core/Logger@1.2.0'), null);
+    assert.strictEqual(parseVersionReference('core/Logger@1.2.0-beta'), null);
+  });
+
+  it('should return null for malformed references', () => {
+    assert.strictEqual(parseVersionReference('core/Logger'), null);
+    assert.strictEqual(parseVersionReference('core/Logger@latest'), null);
+  });
+
+  it('should check versions against the reference range', () => {
+    const ref = parseVersionReference('core/Logger@~1.2.0');
+    assert.ok(ref);
+    assert.strictEqual(satisfiesReference({ major: 1, minor: 2, patch: 9 }, ref), true);
+    assert.strictEqual(satisfiesReference({ major: 1, minor: 3, patch: 0 }, ref), false);
+  });
+});
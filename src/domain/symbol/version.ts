@@ -6,7 +6,7 @@
  */
 
 import type { SemVer, VersionRange } from './schema.js';
-import { parseSemVer, compareSemVer } from './schema.js';
+import { parseSemVer, compareSemVer, parseSymbolId } from './schema.js';
 
 // ============================================================================
 // Version Constraint Parsing
@@ -124,7 +124,7 @@ function nextPatch(version: SemVer): SemVer {
 
 /**
  * Check if a version satisfies a constraint.
- * Internal helper for findBestMatch().
+ * Internal helper for findBestMatch() and satisfiesReference().
  */
 function satisfies(version: SemVer, range: VersionRange): boolean {
   // If constraint is wildcard, any version matches
@@ -162,3 +162,42 @@ export function findBestMatch(
   return matching[0];
 }
 
+// ============================================================================
+// Version References
+// ============================================================================
+
+/**
+ * A symbol reference declaring a version constraint instead of a pinned ID.
+ * e.g., "core/Logger@^1.2.0" -> any registered core/Logger in [1.2.0, 2.0.0)
+ */
+export interface VersionReference {
+  namespace: string;
+  name: string;
+  range: VersionRange;
+}
+
+/**
+ * Parse a version-range reference.
+ * Returns null for pinned IDs ("core/Logger@1.2.0") and malformed references.
+ */
+export function parseVersionReference(ref: string): VersionReference | null {
+  const parsed = parseSymbolId(ref);
+  if (!parsed || parseSemVer(parsed.version)) return null;
+
+  try {
+    return {
+      namespace: parsed.namespace,
+      name: parsed.name,
+      range: parseConstraint(parsed.version),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check if a version satisfies the range of a reference.
+ */
+export function satisfiesReference(version: SemVer, ref: VersionReference): boolean {
+  return satisfies(version, ref.range);
+}
@@ -12,8 +12,13 @@ import { ComponentDetail } from './components/ComponentDetail';
 import { DependencyGraph } from './components/DependencyGraph';
 import { GraphStats } from './components/GraphStats';
 import { ValidationOverlay } from './components/ValidationOverlay';
+import { DeadCodeView } from './components/DeadCodeView';
 import { Canvas } from './components/Canvas';
 import { ExportDialog } from './components/ExportDialog';
+import { DiagramImportDialog } from './components/DiagramImportDialog';
+import { DiagramDriftPanel } from './components/DiagramDriftPanel';
+import { RegistryDialog, type RegistryRequest } from './components/RegistryDialog';
+import { EditHistoryDialog } from './components/EditHistoryDialog';
 import { GenerateButton } from './components/GenerateButton';
 import { HelpDialog } from './components/help/HelpDialog';
 import { AboutDialog } from './components/AboutDialog';
@@ -25,10 +30,11 @@ import { MacroSessionProvider, useMacroSession } from './stores/MacroSessionCont
 import { PanelLayout, Panel, ResizeHandle, Card } from './components/layout';
 import type { ComponentSymbolDTO } from '../api/types';
 import { apiClient } from './api-client';
+import { applyNativeEdit, type EditCommand } from './utils/native-edit';
 import type { Macro } from '../macro';
 
 type ViewMode = 'symbols' | 'diagram' | 'macros';
-type SymbolSubView = 'list' | 'graph' | 'canvas';
+type SymbolSubView = 'list' | 'graph' | 'canvas' | 'dead-code';
 
 /** Selected macro (UI selection state, not session state) */
 interface SelectedMacro {
@@ -77,6 +83,13 @@ function AppContent(): React.ReactElement {
   const [helpTopic, setHelpTopic] = useState<string | undefined>();
   const [helpSearch, setHelpSearch] = useState<string | undefined>();
   const [currentDiagramPath, setCurrentDiagramPath] = useState<string | undefined>();
+  const [currentDiagramXml, setCurrentDiagramXml] = useState<string | null>(null);
+  const [showDiagramImportDialog, setShowDiagramImportDialog] = useState(false);
+  const [showDriftPanel, setShowDriftPanel] = useState(false);
+  const [registryRequest, setRegistryRequest] = useState<RegistryRequest | null>(null);
+  const [showEditHistory, setShowEditHistory] = useState(false);
+  // Incremented after undo/redo so views reload registry data
+  const [registryVersion, setRegistryVersion] = useState(0);
 
   const drawioEditorRef = useRef<DrawioEditorRef>(null);
 
@@ -169,11 +182,13 @@ function AppContent(): React.ReactElement {
 
     window.cyrus.diagram.onNew(() => {
       setCurrentDiagramPath(undefined);
+      setCurrentDiagramXml(null);
       setViewMode('diagram');
     });
 
-    window.cyrus.diagram.onOpen((path: string, _xml: string) => {
+    window.cyrus.diagram.onOpen((path: string, xml: string) => {
       setCurrentDiagramPath(path);
+      setCurrentDiagramXml(xml);
       setViewMode('diagram');
     });
 
@@ -196,6 +211,64 @@ function AppContent(): React.ReactElement {
 
   }, [viewMode]);
 
+  // Listen for registry menu events from Electron
+  useEffect(() => {
+    if (typeof window.cyrus?.symbols?.onExportRegistry !== 'function') return;
+
+    window.cyrus.symbols.onExportRegistry((outputDir, format) => {
+      setRegistryRequest({ mode: 'export', outputDir, format });
+    });
+
+    window.cyrus.symbols.onImportRegistry((sourcePath) => {
+      setRegistryRequest({ mode: 'import', sourcePath });
+    });
+  }, []);
+
+  // Undo or redo a registry edit; resolves to an error message if it failed
+  const runRegistryEdit = useCallback(async (command: EditCommand): Promise<string | null> => {
+    const result =
+      command === 'undo' ? await apiClient.registry.undo() : await apiClient.registry.redo();
+    if (!result.success) {
+      return result.error?.message ?? `Failed to ${command}`;
+    }
+    if (result.data) {
+      setRegistryVersion((version) => version + 1);
+    }
+    return null;
+  }, []);
+
+  // Listen for Edit menu events from Electron; text fields keep their own undo
+  useEffect(() => {
+    if (typeof window.cyrus?.registry?.onUndo !== 'function') return;
+
+    const handleEdit = async (command: EditCommand) => {
+      if (applyNativeEdit(command)) return;
+      const error = await runRegistryEdit(command);
+      if (error) {
+        console.error(`[App] Failed to ${command} registry edit:`, error);
+      }
+    };
+
+    const unsubscribe = [
+      window.cyrus.registry.onUndo(() => handleEdit('undo')),
+      window.cyrus.registry.onRedo(() => handleEdit('redo')),
+      window.cyrus.registry.onShowHistory(() => setShowEditHistory(true)),
+    ];
+    return () => unsubscribe.forEach((remove) => remove());
+  }, [runRegistryEdit]);
+
+  // Reload the selected component after undo/redo; it may have changed or be gone
+  const selectedIdRef = useRef<string | null>(null);
+  selectedIdRef.current = selectedComponent?.id ?? null;
+  useEffect(() => {
+    const selectedId = selectedIdRef.current;
+    if (registryVersion === 0 || !selectedId) return;
+
+    apiClient.symbols.get(selectedId).then((result) => {
+      setSelectedComponent(result.success && result.data ? result.data : null);
+    });
+  }, [registryVersion]);
+
   // Handle node click from graph view - fetch full component data
   const handleGraphNodeClick = useCallback(async (symbolId: string) => {
     const result = await apiClient.symbols.get(symbolId);
@@ -204,6 +277,11 @@ function AppContent(): React.ReactElement {
     }
   }, []);
 
+  // Clear the detail panel if its component was removed
+  const handleSymbolsRemoved = useCallback((symbolIds: string[]) => {
+    setSelectedComponent((current) => (current && symbolIds.includes(current.id) ? null : current));
+  }, []);
+
   // Handle diagram export - opens Draw.io's native export dialog
   const handleDiagramExport = useCallback(async () => {
     if (!drawioEditorRef.current?.isReady()) {
@@ -217,6 +295,41 @@ function AppContent(): React.ReactElement {
     }
   }, []);
 
+  // Handle registry view - renders the symbol table into the Draw.io editor
+  const handleShowRegistry = useCallback(async () => {
+    if (!drawioEditorRef.current?.isReady()) {
+      return;
+    }
+
+    const result = await apiClient.diagram.exportDrawio();
+    if (!result.success || !result.data) {
+      console.error('[App] Failed to render registry diagram:', result.error?.message);
+      return;
+    }
+
+    // The registry view is not backed by a file
+    setCurrentDiagramPath(undefined);
+    setCurrentDiagramXml(result.data);
+    try {
+      await drawioEditorRef.current.loadXml(result.data);
+    } catch (error) {
+      console.error('[App] Failed to load registry diagram:', error);
+    }
+  }, []);
+
+  // Handle drift resolutions that changed the diagram
+  const handleDriftDiagramChange = useCallback(async (xml: string) => {
+    setCurrentDiagramXml(xml);
+    if (currentDiagramPath && window.cyrus?.diagram?.save) {
+      window.cyrus.diagram.save(currentDiagramPath, xml);
+    }
+    try {
+      await drawioEditorRef.current?.loadXml(xml);
+    } catch (error) {
+      console.error('[App] Failed to reload resolved diagram:', error);
+    }
+  }, [currentDiagramPath]);
+
   return (
     <div style={styles.container}>
       <header style={styles.header}>
@@ -282,6 +395,20 @@ function AppContent(): React.ReactElement {
                 >
                   Canvas View
                 </button>
+                <button
+                  style={{
+                    ...styles.dropdownItem,
+                    ...(symbolSubView === 'dead-code' ? styles.dropdownItemActive : {}),
+                  }}
+                  onClick={() => {
+                    setSymbolSubView('dead-code');
+                    setShowSymbolsDropdown(false);
+                  }}
+                  type="button"
+                  data-testid="dead-code-view-button"
+                >
+                  Dead Code
+                </button>
               </div>
             )}
           </div>
@@ -351,6 +478,7 @@ function AppContent(): React.ReactElement {
                 <aside style={styles.sidebar}>
                   <ComponentList
                     searchQuery={searchQuery}
+                    refreshKey={registryVersion}
                     selectedId={selectedComponent?.id ?? null}
                     onSelect={setSelectedComponent}
                   />
@@ -387,6 +515,7 @@ function AppContent(): React.ReactElement {
                 </aside>
                 <section style={styles.graphContent}>
                   <DependencyGraph
+                    key={registryVersion}
                     selectedSymbolId={selectedComponent?.id}
                     onNodeClick={handleGraphNodeClick}
                   />
@@ -411,6 +540,7 @@ function AppContent(): React.ReactElement {
                 </aside>
                 <section style={styles.graphContent}>
                   <Canvas
+                    key={registryVersion}
                     selectedSymbolId={selectedComponent?.id}
                     onNodeClick={handleGraphNodeClick}
                   />
@@ -420,6 +550,26 @@ function AppContent(): React.ReactElement {
             </>
           )}
 
+          {viewMode === 'symbols' && symbolSubView === 'dead-code' && (
+            <main style={styles.graphMain}>
+              <aside style={styles.graphSidebar}>
+                {selectedComponent ? (
+                  <ComponentDetail component={selectedComponent} />
+                ) : (
+                  <div style={styles.placeholder}>
+                    <p>Click a candidate to view details</p>
+                  </div>
+                )}
+              </aside>
+              <section style={styles.graphContent}>
+                <DeadCodeView
+                  onSymbolClick={handleGraphNodeClick}
+                  onRemoved={handleSymbolsRemoved}
+                />
+              </section>
+            </main>
+          )}
+
           {viewMode === 'diagram' && (
             <main style={styles.diagramMain}>
               <div style={styles.diagramToolbar}>
@@ -432,17 +582,52 @@ function AppContent(): React.ReactElement {
                 >
                   Export...
                 </button>
+                <button
+                  style={styles.diagramExportButton}
+                  onClick={() => setShowDiagramImportDialog(true)}
+                  type="button"
+                  data-testid="diagram-import-button"
+                  title="Register diagram components in the symbol table"
+                >
+                  Import to Registry...
+                </button>
+                <button
+                  style={styles.diagramExportButton}
+                  onClick={handleShowRegistry}
+                  type="button"
+                  data-testid="diagram-registry-button"
+                  title="Show the symbol table as a diagram"
+                >
+                  Registry View
+                </button>
+                <button
+                  style={styles.diagramExportButton}
+                  onClick={() => setShowDriftPanel((show) => !show)}
+                  type="button"
+                  data-testid="diagram-drift-button"
+                  title="Compare the diagram with the symbol table"
+                >
+                  Drift Report
+                </button>
               </div>
               <div style={styles.diagramContent}>
                 <DrawioEditor
                   ref={drawioEditorRef}
                   filePath={currentDiagramPath}
                   onSave={(xml) => {
+                    setCurrentDiagramXml(xml);
                     if (currentDiagramPath && window.cyrus?.diagram?.save) {
                       window.cyrus.diagram.save(currentDiagramPath, xml);
                     }
                   }}
                 />
+                {showDriftPanel && (
+                  <DiagramDriftPanel
+                    xml={currentDiagramXml}
+                    onDiagramChange={handleDriftDiagramChange}
+                    onClose={() => setShowDriftPanel(false)}
+                  />
+                )}
               </div>
             </main>
           )}
@@ -492,6 +677,24 @@ function AppContent(): React.ReactElement {
         onClose={() => setShowExportDialog(false)}
       />
 
+      <DiagramImportDialog
+        isOpen={showDiagramImportDialog}
+        onClose={() => setShowDiagramImportDialog(false)}
+        xml={currentDiagramXml}
+      />
+
+      <RegistryDialog
+        request={registryRequest}
+        onClose={() => setRegistryRequest(null)}
+      />
+
+      <EditHistoryDialog
+        isOpen={showEditHistory}
+        onClose={() => setShowEditHistory(false)}
+        onEdit={runRegistryEdit}
+        registryVersion={registryVersion}
+      />
+
       <HelpDialog
         isOpen={showHelpDialog}
         onClose={() => setShowHelpDialog(false)}
@@ -682,6 +885,7 @@ const styles: Record<string, React.CSSProperties> = {
   },
   diagramContent: {
     flex: 1,
+    display: 'flex',
     overflow: 'hidden',
   },
 };
@@ -20,6 +20,46 @@ import type {
   GenerationBatchResultDTO,
   PreviewResultDTO,
   RegisterSymbolRequest,
+  UpdateSymbolRequest,
+  EditAttribution,
+  RegistryFormat,
+  RegistryExportRequest,
+  RegistryExportResultDTO,
+  RegistryImportRequest,
+  RegistryImportResultDTO,
+  RevisionDiffDTO,
+  RevisionDiffRequest,
+  RevisionRestoreRequest,
+  SymbolRevisionDTO,
+  SymbolSearchHitDTO,
+  CommandSummaryDTO,
+  CommandStackStateDTO,
+  DiagramImportRequest,
+  MermaidImportRequest,
+  DiagramExportRequest,
+  DiagramDriftRequest,
+  DiagramDriftResolveRequest,
+  DiagramSyncPreviewDTO,
+  DiagramSyncResultDTO,
+  DiagramDriftReportDTO,
+  DiagramDriftResolutionDTO,
+  VersionLockDTO,
+  CompatibilityReportDTO,
+  SourceVerificationRequest,
+  SourceVerificationReportDTO,
+  ImpactAnalysisRequest,
+  ImpactReportDTO,
+  StaticAnalysisRequest,
+  StaticAnalysisResultDTO,
+  ProjectScanRequest,
+  ProjectScanResultDTO,
+  CoverageImportRequest,
+  CoverageImportResultDTO,
+  TraceImportRequest,
+  TraceImportResultDTO,
+  DeadCodeOptionsDTO,
+  DeadCodeReportDTO,
+  DeadCodeRemovalResultDTO,
 } from '../api/types';
 import type {
   HelpCategory,
@@ -46,7 +86,7 @@ interface CyrusAPI {
   symbols: {
     list: (query?: SymbolQuery) => Promise<ApiResponse<PaginatedResponse<ComponentSymbolDTO>>>;
     get: (id: string) => Promise<ApiResponse<ComponentSymbolDTO>>;
-    search: (query: string) => Promise<ApiResponse<ComponentSymbolDTO[]>>;
+    search: (query: string, limit?: number) => Promise<ApiResponse<SymbolSearchHitDTO[]>>;
     resolve: (
       namespace: string,
       name: string,
@@ -56,8 +96,16 @@ interface CyrusAPI {
       namespace: string,
       name: string
     ) => Promise<ApiResponse<ComponentSymbolDTO[]>>;
+    resolveReference: (ref: string) => Promise<ApiResponse<ComponentSymbolDTO>>;
+    listVersionLocks: () => Promise<ApiResponse<VersionLockDTO[]>>;
+    updateVersionLocks: () => Promise<ApiResponse<VersionLockDTO[]>>;
     register: (request: RegisterSymbolRequest) => Promise<ApiResponse<ComponentSymbolDTO>>;
-    remove: (id: string) => Promise<ApiResponse<void>>;
+    update: (request: UpdateSymbolRequest) => Promise<ApiResponse<ComponentSymbolDTO>>;
+    remove: (id: string, attribution?: EditAttribution) => Promise<ApiResponse<void>>;
+    exportRegistry: (request: RegistryExportRequest) => Promise<ApiResponse<RegistryExportResultDTO>>;
+    importRegistry: (request: RegistryImportRequest) => Promise<ApiResponse<RegistryImportResultDTO>>;
+    onExportRegistry: (callback: (outputDir: string, format: RegistryFormat) => void) => void;
+    onImportRegistry: (callback: (sourcePath: string) => void) => void;
   };
   relationships: {
     findContains: (id: string) => Promise<ApiResponse<ComponentSymbolDTO[]>>;
@@ -69,15 +117,41 @@ interface CyrusAPI {
     build: (symbolId?: string) => Promise<ApiResponse<DependencyGraphDTO>>;
     detectCycles: () => Promise<ApiResponse<string[][]>>;
     getStats: () => Promise<ApiResponse<GraphStatsDTO>>;
+    analyzeImpact: (request: ImpactAnalysisRequest) => Promise<ApiResponse<ImpactReportDTO>>;
   };
   validation: {
-    validate: () => Promise<ApiResponse<ValidationResultDTO>>;
-    validateSymbol: (id: string) => Promise<ApiResponse<ValidationResultDTO>>;
+    validate: (projectRoot?: string) => Promise<ApiResponse<ValidationResultDTO>>;
+    validateSymbol: (id: string, projectRoot?: string) => Promise<ApiResponse<ValidationResultDTO>>;
+    verifySources: (
+      request?: SourceVerificationRequest
+    ) => Promise<ApiResponse<SourceVerificationReportDTO>>;
     checkCircular: () => Promise<ApiResponse<string[][]>>;
+    compareVersions: (fromId: string, toId: string) => Promise<ApiResponse<CompatibilityReportDTO>>;
   };
   status: {
     findUnreachable: () => Promise<ApiResponse<ComponentSymbolDTO[]>>;
     findUntested: () => Promise<ApiResponse<ComponentSymbolDTO[]>>;
+    analyze: (request: StaticAnalysisRequest) => Promise<ApiResponse<StaticAnalysisResultDTO>>;
+    scanProject: (request: ProjectScanRequest) => Promise<ApiResponse<ProjectScanResultDTO>>;
+    importCoverage: (request: CoverageImportRequest) => Promise<ApiResponse<CoverageImportResultDTO>>;
+    importTrace: (request: TraceImportRequest) => Promise<ApiResponse<TraceImportResultDTO>>;
+    findDeadCode: (options?: DeadCodeOptionsDTO) => Promise<ApiResponse<DeadCodeReportDTO>>;
+    removeDeadCode: (symbolIds: string[]) => Promise<ApiResponse<DeadCodeRemovalResultDTO>>;
+  };
+  history: {
+    list: (symbolId: string) => Promise<ApiResponse<SymbolRevisionDTO[]>>;
+    diff: (request: RevisionDiffRequest) => Promise<ApiResponse<RevisionDiffDTO>>;
+    restore: (request: RevisionRestoreRequest) => Promise<ApiResponse<SymbolRevisionDTO>>;
+    asOf: (timestamp: string) => Promise<ApiResponse<ComponentSymbolDTO[]>>;
+  };
+  registry: {
+    undo: () => Promise<ApiResponse<CommandSummaryDTO | null>>;
+    redo: () => Promise<ApiResponse<CommandSummaryDTO | null>>;
+    getHistory: () => Promise<ApiResponse<CommandStackStateDTO>>;
+    /** Listeners return a function that removes them */
+    onUndo: (callback: () => void) => () => void;
+    onRedo: (callback: () => void) => () => void;
+    onShowHistory: (callback: () => void) => () => void;
   };
   synthesizer: {
     generate: (request: GenerateRequest) => Promise<ApiResponse<GenerationResultDTO>>;
@@ -139,6 +213,13 @@ interface CyrusAPI {
     open: () => Promise<ApiResponse<{ path: string; xml: string } | null>>;
     save: (path: string, xml: string) => Promise<ApiResponse<string>>;
     saveAs: (xml: string) => Promise<ApiResponse<string | null>>;
+    previewImport: (request: DiagramImportRequest) => Promise<ApiResponse<DiagramSyncPreviewDTO>>;
+    import: (request: DiagramImportRequest) => Promise<ApiResponse<DiagramSyncResultDTO>>;
+    previewMermaidImport: (request: MermaidImportRequest) => Promise<ApiResponse<DiagramSyncPreviewDTO>>;
+    importMermaid: (request: MermaidImportRequest) => Promise<ApiResponse<DiagramSyncResultDTO>>;
+    exportDrawio: (request?: DiagramExportRequest) => Promise<ApiResponse<string>>;
+    driftReport: (request: DiagramDriftRequest) => Promise<ApiResponse<DiagramDriftReportDTO>>;
+    resolveDrift: (request: DiagramDriftResolveRequest) => Promise<ApiResponse<DiagramDriftResolutionDTO>>;
     onNew: (callback: () => void) => void;
     onOpen: (callback: (path: string, xml: string) => void) => void;
     onExportPng: (callback: () => void) => void;
@@ -7,6 +7,9 @@
 
 import React from 'react';
 import type { ComponentSymbolDTO } from '../../api/types';
+import { VersionDiff } from './VersionDiff';
+import { ImpactView } from './ImpactView';
+import { SourceStatusBadge } from './SourceStatusBadge';
 
 interface ComponentDetailProps {
   component: ComponentSymbolDTO;
@@ -145,8 +148,31 @@ export function ComponentDetail({ component }: ComponentDetailProps): React.Reac
             value={`${component.sourceLocation.startLine}-${component.sourceLocation.endLine}`}
           />
           <PropertyRow label="Hash" value={component.sourceLocation.contentHash} />
+          <div style={styles.propertyRow}>
+            <span style={styles.propertyLabel}>State</span>
+            <SourceStatusBadge
+              symbolId={component.id}
+              contentHash={component.sourceLocation.contentHash}
+            />
+          </div>
+        </Section>
+      )}
+
+      {component.generationMeta && (
+        <Section title="Generation">
+          <PropertyRow label="Template" value={component.generationMeta.templateId} />
+          <PropertyRow label="Generated" value={formatDate(component.generationMeta.generatedAt)} />
+          <PropertyRow label="File" value={component.generationMeta.generatedPath} />
+          {component.generationMeta.implementationPath && (
+            <PropertyRow label="Impl" value={component.generationMeta.implementationPath} />
+          )}
+          <PropertyRow label="Hash" value={component.generationMeta.contentHash} />
         </Section>
       )}
+
+      <VersionDiff component={component} />
+
+      <ImpactView component={component} />
     </div>
   );
 }
@@ -2,11 +2,17 @@
  * ComponentList Component
  *
  * Displays a filterable list of components from the registry.
- * Fetches data via IPC from the main process.
+ * Fetches data via IPC from the main process. With a search query the list
+ * shows ranked search results, with the matched text highlighted.
  */
 
 import React, { useEffect, useState } from 'react';
-import type { ComponentSymbolDTO } from '../../api/types';
+import type {
+  ComponentSymbolDTO,
+  SearchField,
+  SearchHighlightDTO,
+  HighlightSegmentDTO,
+} from '../../api/types';
 import { apiClient } from '../api-client';
 import { extractErrorMessage } from '../../infrastructure/errors';
 
@@ -14,14 +20,18 @@ interface ComponentListProps {
   searchQuery: string;
   selectedId: string | null;
   onSelect: (component: ComponentSymbolDTO) => void;
+  /** Change to reload the list, e.g. after an undo */
+  refreshKey?: number;
 }
 
 export function ComponentList({
   searchQuery,
   selectedId,
   onSelect,
+  refreshKey,
 }: ComponentListProps): React.ReactElement {
   const [components, setComponents] = useState<ComponentSymbolDTO[]>([]);
+  const [highlights, setHighlights] = useState<Map<string, SearchHighlightDTO[]>>(new Map());
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -31,13 +41,21 @@ export function ComponentList({
       setError(null);
 
       try {
-        const result = await apiClient.symbols.list({
-          search: searchQuery || undefined,
-          limit: 100,
-        });
+        if (searchQuery.trim()) {
+          const result = await apiClient.symbols.search(searchQuery, 100);
+          if (result.success && result.data) {
+            setComponents(result.data.map((hit) => hit.symbol));
+            setHighlights(new Map(result.data.map((hit) => [hit.symbol.id, hit.highlights])));
+          } else {
+            setError(result.error?.message ?? 'Search failed');
+          }
+          return;
+        }
 
+        const result = await apiClient.symbols.list({ limit: 100 });
         if (result.success && result.data) {
           setComponents(result.data.items);
+          setHighlights(new Map());
         } else {
           setError(result.error?.message ?? 'Failed to load components');
         }
@@ -49,7 +67,7 @@ export function ComponentList({
     }
 
     fetchComponents();
-  }, [searchQuery]);
+  }, [searchQuery, refreshKey]);
 
   if (loading) {
     return (
@@ -82,6 +100,7 @@ export function ComponentList({
           key={component.id}
           component={component}
           isSelected={component.id === selectedId}
+          highlights={highlights.get(component.id) ?? []}
           onClick={() => onSelect(component)}
         />
       ))}
@@ -92,15 +111,23 @@ export function ComponentList({
 interface ComponentListItemProps {
   component: ComponentSymbolDTO;
   isSelected: boolean;
+  /** Search matches to highlight; empty when not searching */
+  highlights: SearchHighlightDTO[];
   onClick: () => void;
 }
 
 function ComponentListItem({
   component,
   isSelected,
+  highlights,
   onClick,
 }: ComponentListItemProps): React.ReactElement {
   const version = `${component.version.major}.${component.version.minor}.${component.version.patch}`;
+  const matched = (field: SearchField): HighlightSegmentDTO[] | undefined =>
+    highlights.find((h) => h.field === field)?.segments;
+  const nameMatch = matched('name');
+  const namespaceMatch = matched('namespace');
+  const descriptionMatch = matched('description');
 
   return (
     <div
@@ -112,15 +139,23 @@ function ComponentListItem({
       data-testid={`component-item-${component.id}`}
     >
       <div style={styles.itemHeader}>
-        <span style={styles.itemName}>{component.name}</span>
+        <span style={styles.itemName}>
+          {nameMatch ? <Highlighted segments={nameMatch} /> : component.name}
+        </span>
         <span style={styles.itemVersion}>v{version}</span>
       </div>
       <div style={styles.itemMeta}>
         <span style={styles.itemLevel}>{component.level}</span>
         <span style={styles.itemKind}>{component.kind}</span>
-        <span style={styles.itemNamespace}>{component.namespace}</span>
+        <span style={styles.itemNamespace}>
+          {namespaceMatch ? <Highlighted segments={namespaceMatch} /> : component.namespace}
+        </span>
       </div>
-      {component.description && (
+      {descriptionMatch ? (
+        <div style={styles.itemDescription} data-testid={`component-snippet-${component.id}`}>
+          <Highlighted segments={descriptionMatch} />
+        </div>
+      ) : component.description && (
         <div style={styles.itemDescription}>
           {component.description.length > 80
             ? component.description.slice(0, 77) + '...'
@@ -140,6 +175,22 @@ function ComponentListItem({
   );
 }
 
+function Highlighted({ segments }: { segments: HighlightSegmentDTO[] }): React.ReactElement {
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.match ? (
+          <mark key={index} style={styles.match}>
+            {segment.text}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{segment.text}</React.Fragment>
+        )
+      )}
+    </>
+  );
+}
+
 const styles: Record<string, React.CSSProperties> = {
   container: {
     display: 'flex',
@@ -209,6 +260,11 @@ const styles: Record<string, React.CSSProperties> = {
     marginTop: '8px',
     flexWrap: 'wrap',
   },
+  match: {
+    backgroundColor: 'rgba(234, 179, 8, 0.35)',
+    color: 'inherit',
+    borderRadius: '2px',
+  },
   tag: {
     fontSize: '11px',
     padding: '2px 6px',
@@ -0,0 +1,302 @@
+/**
+ * DeadCodeView Component
+ *
+ * Lists symbols that no entry point reaches, ranked by how confident the
+ * report is that they are dead, and removes a selection of them in one
+ * transaction in an order that never leaves a dangling reference.
+ */
+
+import React, { useEffect, useState } from 'react';
+import type {
+  DeadCodeCandidateDTO,
+  DeadCodeConfidence,
+  DeadCodeReportDTO,
+} from '../../api/types';
+import { apiClient } from '../api-client';
+import { extractErrorMessage } from '../../infrastructure/errors';
+
+interface DeadCodeViewProps {
+  onSymbolClick?: (symbolId: string) => void;
+  onRemoved?: (symbolIds: string[]) => void;
+}
+
+export function DeadCodeView({ onSymbolClick, onRemoved }: DeadCodeViewProps): React.ReactElement {
+  const [report, setReport] = useState<DeadCodeReportDTO | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [removing, setRemoving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadReport();
+  }, []);
+
+  async function loadReport(): Promise<void> {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await apiClient.status.findDeadCode();
+      if (result.success && result.data) {
+        setReport(result.data);
+        setSelected(new Set());
+      } else {
+        setError(result.error?.message ?? 'Failed to find dead code');
+      }
+    } catch (e) {
+      setError(extractErrorMessage(e));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function removeSelected(): Promise<void> {
+    if (!window.confirm(`Remove ${selected.size} symbol${selected.size === 1 ? '' : 's'}?`)) {
+      return;
+    }
+    setRemoving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const result = await apiClient.status.removeDeadCode(Array.from(selected));
+      if (result.success && result.data) {
+        setMessage(`Removed ${result.data.removed.length}: ${result.data.removed.join(', ')}`);
+        onRemoved?.(result.data.removed);
+        await loadReport();
+      } else {
+        setError(result.error?.message ?? 'Removal failed');
+      }
+    } catch (e) {
+      setError(extractErrorMessage(e));
+    } finally {
+      setRemoving(false);
+    }
+  }
+
+  function toggle(symbolId: string): void {
+    const next = new Set(selected);
+    if (next.has(symbolId)) {
+      next.delete(symbolId);
+    } else {
+      next.add(symbolId);
+    }
+    setSelected(next);
+  }
+
+  function selectConfidence(confidence: DeadCodeConfidence): void {
+    const ids = report?.candidates.filter((c) => c.confidence === confidence).map((c) => c.symbolId);
+    setSelected(new Set(ids));
+  }
+
+  if (loading && !report) {
+    return <div style={styles.placeholder}>Finding dead code...</div>;
+  }
+
+  const candidates = report?.candidates ?? [];
+  const removalStep = new Map(report?.removalOrder.map((id, i) => [id, i + 1]));
+
+  return (
+    <div style={styles.container} data-testid="dead-code-view">
+      <div style={styles.toolbar}>
+        <span style={styles.summary}>
+          {candidates.length} candidate{candidates.length === 1 ? '' : 's'} ·{' '}
+          {report?.entryPoints.length ?? 0} entry point
+          {report?.entryPoints.length === 1 ? '' : 's'}
+        </span>
+        <button style={styles.button} onClick={() => selectConfidence('high')} disabled={removing}>
+          Select High Confidence
+        </button>
+        <button style={styles.button} onClick={() => setSelected(new Set())} disabled={removing}>
+          Clear
+        </button>
+        <button
+          style={{ ...styles.button, ...styles.removeButton }}
+          onClick={removeSelected}
+          disabled={removing || selected.size === 0}
+          data-testid="dead-code-remove"
+        >
+          Remove Selected ({selected.size})
+        </button>
+        <button style={styles.button} onClick={loadReport} disabled={loading || removing}>
+          Refresh
+        </button>
+      </div>
+
+      {report && report.entryPoints.length === 0 && (
+        <div style={styles.warning}>
+          No entry points: tag root symbols with "entry" or declare L4 contracts, otherwise
+          every symbol is reported.
+        </div>
+      )}
+      {report && report.cycles.length > 0 && (
+        <div style={styles.warning}>
+          {report.cycles.length} cycle{report.cycles.length === 1 ? '' : 's'} among candidates
+          can only be removed together: {report.cycles.map((c) => c.join(' → ')).join('; ')}
+        </div>
+      )}
+      {error && <div style={styles.error}>{error}</div>}
+      {message && <div style={styles.message}>{message}</div>}
+
+      {candidates.length === 0 ? (
+        <div style={styles.placeholder}>No dead code found</div>
+      ) : (
+        <div style={styles.list}>
+          {candidates.map((candidate) => (
+            <CandidateRow
+              key={candidate.symbolId}
+              candidate={candidate}
+              step={removalStep.get(candidate.symbolId)}
+              checked={selected.has(candidate.symbolId)}
+              onToggle={() => toggle(candidate.symbolId)}
+              onOpen={onSymbolClick}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface CandidateRowProps {
+  candidate: DeadCodeCandidateDTO;
+  step: number | undefined;
+  checked: boolean;
+  onToggle: () => void;
+  onOpen: ((symbolId: string) => void) | undefined;
+}
+
+function CandidateRow({
+  candidate,
+  step,
+  checked,
+  onToggle,
+  onOpen,
+}: CandidateRowProps): React.ReactElement {
+  return (
+    <div style={styles.row} data-testid="dead-code-row">
+      <input type="checkbox" checked={checked} onChange={onToggle} />
+      <div style={styles.rowBody}>
+        <div style={styles.rowHeader}>
+          <span
+            style={{ ...styles.symbolId, cursor: onOpen ? 'pointer' : 'default' }}
+            onClick={() => onOpen?.(candidate.symbolId)}
+          >
+            {candidate.symbolId}
+          </span>
+          <span style={styles.meta}>
+            {candidate.level} · {candidate.status}
+            {step !== undefined && ` · removal step ${step}`}
+          </span>
+          <span style={{ ...styles.badge, ...CONFIDENCE_STYLES[candidate.confidence] }}>
+            {candidate.confidence}
+          </span>
+        </div>
+        {candidate.reasons.slice(1).map((reason) => (
+          <div key={reason} style={styles.reason}>
+            {reason}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+const CONFIDENCE_STYLES: Record<DeadCodeConfidence, React.CSSProperties> = {
+  high: { backgroundColor: '#5a1d1d', color: '#f48771' },
+  medium: { backgroundColor: '#4d4420', color: '#dcdcaa' },
+  low: { backgroundColor: '#3c3c3c', color: '#808080' },
+};
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    flex: 1,
+    overflow: 'auto',
+    padding: '16px',
+  },
+  toolbar: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    marginBottom: '12px',
+  },
+  summary: {
+    flex: 1,
+    fontSize: '13px',
+    color: '#d4d4d4',
+  },
+  button: {
+    padding: '6px 12px',
+    backgroundColor: '#3c3c3c',
+    border: 'none',
+    borderRadius: '4px',
+    color: '#d4d4d4',
+    fontSize: '13px',
+    cursor: 'pointer',
+  },
+  removeButton: {
+    backgroundColor: '#5a1d1d',
+    color: '#f48771',
+  },
+  list: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '6px',
+  },
+  row: {
+    display: 'flex',
+    alignItems: 'flex-start',
+    gap: '10px',
+    padding: '8px 12px',
+    backgroundColor: '#2d2d2d',
+    borderRadius: '4px',
+  },
+  rowBody: {
+    flex: 1,
+  },
+  rowHeader: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '12px',
+  },
+  symbolId: {
+    fontSize: '13px',
+    fontFamily: 'monospace',
+    color: '#9cdcfe',
+  },
+  meta: {
+    flex: 1,
+    fontSize: '12px',
+    color: '#808080',
+  },
+  badge: {
+    fontSize: '11px',
+    padding: '2px 8px',
+    borderRadius: '4px',
+    textTransform: 'uppercase',
+  },
+  reason: {
+    marginTop: '4px',
+    fontSize: '12px',
+    color: '#808080',
+  },
+  warning: {
+    fontSize: '13px',
+    color: '#dcdcaa',
+    marginBottom: '8px',
+  },
+  error: {
+    fontSize: '13px',
+    color: '#f48771',
+    marginBottom: '8px',
+  },
+  message: {
+    fontSize: '13px',
+    color: '#4ec9b0',
+    marginBottom: '8px',
+  },
+  placeholder: {
+    padding: '24px',
+    fontSize: '13px',
+    color: '#808080',
+  },
+};
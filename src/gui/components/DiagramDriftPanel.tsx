@@ -0,0 +1,273 @@
+/**
+ * DiagramDriftPanel Component
+ *
+ * Side panel next to the Draw.io editor listing where the current diagram
+ * and the symbol table disagree. Each item can be resolved by accepting
+ * the diagram (update the registry) or the registry (update the diagram).
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import type {
+  DiagramDriftReportDTO,
+  DriftItemDTO,
+  DriftKindDTO,
+  DriftResolutionDTO,
+} from '../../api/types';
+import { apiClient } from '../api-client';
+import { extractErrorMessage } from '../../infrastructure/errors';
+
+interface DiagramDriftPanelProps {
+  /** Draw.io XML of the diagram to compare */
+  xml: string | null;
+  /** Called with new XML when a resolution changed the diagram */
+  onDiagramChange: (xml: string) => void;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<DriftKindDTO, string> = {
+  'unbound-element': 'Unbound shape',
+  'unknown-symbol': 'Unknown symbol',
+  'missing-element': 'Not on diagram',
+  'relationship-mismatch': 'Relationship',
+  'level-mismatch': 'Level',
+};
+
+export function DiagramDriftPanel({
+  xml,
+  onDiagramChange,
+  onClose,
+}: DiagramDriftPanelProps): React.ReactElement {
+  const [namespace, setNamespace] = useState('');
+  const [report, setReport] = useState<DiagramDriftReportDTO | null>(null);
+  const [busyItem, setBusyItem] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const options = namespace ? { namespace } : undefined;
+
+  const fetchReport = useCallback(async (diagramXml: string, ns: string): Promise<void> => {
+    setError(null);
+    try {
+      const response = await apiClient.diagram.driftReport({
+        xml: diagramXml,
+        options: ns ? { namespace: ns } : undefined,
+      });
+      if (response.success && response.data) {
+        setReport(response.data);
+      } else {
+        setError(response.error?.message ?? 'Drift report failed');
+      }
+    } catch (err) {
+      setError(extractErrorMessage(err));
+    }
+  }, []);
+
+  // Recompute whenever the diagram or namespace changes
+  useEffect(() => {
+    if (xml) {
+      fetchReport(xml, namespace);
+    } else {
+      setReport(null);
+    }
+  }, [xml, namespace, fetchReport]);
+
+  async function handleResolve(item: DriftItemDTO, resolution: DriftResolutionDTO): Promise<void> {
+    if (!xml) return;
+    const removesSymbol = item.kind === 'missing-element' && resolution === 'accept-diagram';
+    if (removesSymbol && !window.confirm(`Remove ${item.symbolId} from the registry?`)) {
+      return;
+    }
+    setBusyItem(item.id);
+    setError(null);
+
+    try {
+      const response = await apiClient.diagram.resolveDrift({
+        xml,
+        itemId: item.id,
+        resolution,
+        options,
+      });
+      if (response.success && response.data) {
+        setReport(response.data.report);
+        if (response.data.diagramChanged) {
+          onDiagramChange(response.data.xml);
+        }
+      } else {
+        setError(response.error?.message ?? 'Resolution failed');
+      }
+    } catch (err) {
+      setError(extractErrorMessage(err));
+    } finally {
+      setBusyItem(null);
+    }
+  }
+
+  return (
+    <aside style={styles.panel} data-testid="diagram-drift-panel">
+      <div style={styles.header}>
+        <h3 style={styles.title}>
+          Drift{report ? ` (${report.items.length})` : ''}
+        </h3>
+        <button onClick={onClose} style={styles.closeButton} title="Close drift report">
+          &times;
+        </button>
+      </div>
+
+      <div style={styles.content}>
+        {!xml && <div style={styles.info}>Open or save a diagram to compare it with the registry.</div>}
+
+        {xml && (
+          <>
+            <input
+              type="text"
+              value={namespace}
+              onChange={(e) => setNamespace(e.target.value)}
+              style={styles.input}
+              placeholder="Namespace for unbound shapes"
+              data-testid="drift-namespace-input"
+            />
+
+            {report && report.namespaces.length > 0 && (
+              <div style={styles.info}>Comparing {report.namespaces.join(', ')}</div>
+            )}
+
+            {report && report.items.length === 0 && (
+              <div style={styles.inSync} data-testid="drift-in-sync">
+                Diagram and registry are in sync.
+              </div>
+            )}
+
+            {report?.items.map((item) => (
+              <div key={item.id} style={styles.item} data-testid={`drift-item-${item.kind}`}>
+                <span style={styles.kind}>{KIND_LABELS[item.kind]}</span>
+                <span style={styles.message}>{item.message}</span>
+                <div style={styles.actions}>
+                  <button
+                    style={styles.actionButton}
+                    disabled={busyItem !== null}
+                    onClick={() => handleResolve(item, 'accept-diagram')}
+                    title="Change the registry to match the diagram"
+                  >
+                    Accept diagram
+                  </button>
+                  <button
+                    style={styles.actionButton}
+                    disabled={busyItem !== null}
+                    onClick={() => handleResolve(item, 'accept-registry')}
+                    title="Change the diagram to match the registry"
+                  >
+                    Accept registry
+                  </button>
+                </div>
+              </div>
+            ))}
+
+            {error && <div style={styles.error}>{error}</div>}
+          </>
+        )}
+      </div>
+    </aside>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  panel: {
+    width: '320px',
+    flexShrink: 0,
+    display: 'flex',
+    flexDirection: 'column',
+    backgroundColor: '#1e1e1e',
+    borderLeft: '1px solid #3c3c3c',
+  },
+  header: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: '8px 12px',
+    borderBottom: '1px solid #3c3c3c',
+  },
+  title: {
+    margin: 0,
+    fontSize: '12px',
+    fontWeight: 500,
+    color: '#d4d4d4',
+    textTransform: 'uppercase',
+    letterSpacing: '0.5px',
+  },
+  closeButton: {
+    background: 'none',
+    border: 'none',
+    fontSize: '18px',
+    color: '#808080',
+    cursor: 'pointer',
+    padding: '0 4px',
+    lineHeight: 1,
+  },
+  content: {
+    padding: '12px',
+    overflowY: 'auto',
+    flex: 1,
+  },
+  input: {
+    width: '100%',
+    padding: '6px 10px',
+    marginBottom: '8px',
+    backgroundColor: '#3c3c3c',
+    border: '1px solid #5a5a5a',
+    borderRadius: '4px',
+    color: '#d4d4d4',
+    fontSize: '12px',
+    fontFamily: 'monospace',
+    boxSizing: 'border-box',
+  },
+  info: {
+    fontSize: '12px',
+    color: '#808080',
+    marginBottom: '8px',
+  },
+  inSync: {
+    fontSize: '12px',
+    color: '#4ec9b0',
+  },
+  item: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '4px',
+    padding: '8px 10px',
+    marginBottom: '6px',
+    backgroundColor: '#2d2d2d',
+    borderLeft: '3px solid #cca700',
+    borderRadius: '4px',
+  },
+  kind: {
+    fontSize: '11px',
+    color: '#cca700',
+    textTransform: 'uppercase',
+  },
+  message: {
+    fontSize: '12px',
+    color: '#d4d4d4',
+    wordBreak: 'break-word',
+  },
+  actions: {
+    display: 'flex',
+    gap: '6px',
+    marginTop: '4px',
+  },
+  actionButton: {
+    padding: '4px 8px',
+    fontSize: '11px',
+    backgroundColor: 'transparent',
+    border: '1px solid #5a5a5a',
+    borderRadius: '4px',
+    color: '#d4d4d4',
+    cursor: 'pointer',
+  },
+  error: {
+    padding: '8px',
+    backgroundColor: '#5a1d1d',
+    borderRadius: '4px',
+    color: '#f48771',
+    fontSize: '12px',
+    marginTop: '8px',
+  },
+};
@@ -0,0 +1,392 @@
+/**
+ * DiagramImportDialog Component
+ *
+ * Modal dialog for importing the current Draw.io diagram into the symbol table.
+ * Shows a preview of creates/updates/conflicts before committing.
+ */
+
+import React, { useState, useEffect } from 'react';
+import type {
+  DiagramSyncPreviewDTO,
+  DiagramSyncResultDTO,
+  DiagramSyncChangeDTO,
+} from '../../api/types';
+import { apiClient } from '../api-client';
+import { extractErrorMessage } from '../../infrastructure/errors';
+import { Z_INDEX_MODAL } from '../constants/colors';
+
+interface DiagramImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Draw.io XML of the diagram to import */
+  xml: string | null;
+  /** Called after symbols were registered or updated */
+  onImported?: (result: DiagramSyncResultDTO) => void;
+}
+
+type ImportState = 'idle' | 'previewing' | 'importing' | 'complete' | 'error';
+
+export function DiagramImportDialog({
+  isOpen,
+  onClose,
+  xml,
+  onImported,
+}: DiagramImportDialogProps): React.ReactElement | null {
+  const [namespace, setNamespace] = useState('app');
+  const [state, setState] = useState<ImportState>('idle');
+  const [preview, setPreview] = useState<DiagramSyncPreviewDTO | null>(null);
+  const [result, setResult] = useState<DiagramSyncResultDTO | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Preview whenever the dialog opens or the namespace changes
+  useEffect(() => {
+    if (isOpen && xml) {
+      fetchPreview(xml, namespace);
+    }
+  }, [isOpen, xml, namespace]);
+
+  async function fetchPreview(diagramXml: string, ns: string): Promise<void> {
+    setState('previewing');
+    setError(null);
+
+    try {
+      const response = await apiClient.diagram.previewImport({
+        xml: diagramXml,
+        options: { namespace: ns },
+      });
+      if (response.success && response.data) {
+        setPreview(response.data);
+        setState('idle');
+      } else {
+        setError(response.error?.message ?? 'Preview failed');
+        setState('error');
+      }
+    } catch (err) {
+      setError(extractErrorMessage(err));
+      setState('error');
+    }
+  }
+
+  async function handleImport(): Promise<void> {
+    if (!xml) return;
+    setState('importing');
+    setError(null);
+
+    try {
+      const response = await apiClient.diagram.import({ xml, options: { namespace } });
+      if (response.success && response.data) {
+        setResult(response.data);
+        setState('complete');
+        onImported?.(response.data);
+      } else {
+        setError(response.error?.message ?? 'Import failed');
+        setState('error');
+      }
+    } catch (err) {
+      setError(extractErrorMessage(err));
+      setState('error');
+    }
+  }
+
+  function handleClose(): void {
+    setState('idle');
+    setPreview(null);
+    setResult(null);
+    setError(null);
+    onClose();
+  }
+
+  if (!isOpen) return null;
+
+  const changeCount = (preview?.creates.length ?? 0) + (preview?.updates.length ?? 0);
+  const isBusy = state === 'previewing' || state === 'importing';
+
+  return (
+    <div style={styles.overlay} onClick={handleClose} data-testid="diagram-import-dialog">
+      <div style={styles.dialog} onClick={(e) => e.stopPropagation()}>
+        <div style={styles.header}>
+          <h2 style={styles.title}>Import Diagram to Registry</h2>
+          <button onClick={handleClose} style={styles.closeButton}>
+            &times;
+          </button>
+        </div>
+
+        <div style={styles.content}>
+          {!xml && (
+            <div style={styles.error}>Open or save a diagram before importing.</div>
+          )}
+
+          {xml && state !== 'complete' && (
+            <>
+              <div style={styles.section}>
+                <label style={styles.label}>Default Namespace</label>
+                <input
+                  type="text"
+                  value={namespace}
+                  onChange={(e) => setNamespace(e.target.value)}
+                  style={styles.input}
+                  placeholder="app"
+                  data-testid="import-namespace-input"
+                />
+              </div>
+
+              {preview && (
+                <>
+                  <ChangeSection title="Create" items={preview.creates} />
+                  <ChangeSection title="Update" items={preview.updates} />
+                  <ChangeSection title="Unchanged" items={preview.unchanged} />
+
+                  {preview.conflicts.length > 0 && (
+                    <section style={styles.section} data-testid="import-conflicts">
+                      <h3 style={styles.sectionTitle}>Conflicts ({preview.conflicts.length})</h3>
+                      {preview.conflicts.map((conflict) => (
+                        <div key={conflict.elementId} style={styles.conflictItem}>
+                          <span style={styles.symbolId}>
+                            {conflict.symbolId ?? conflict.elementId}
+                          </span>
+                          <span style={styles.conflictMessage}>{conflict.message}</span>
+                        </div>
+                      ))}
+                    </section>
+                  )}
+
+                  {preview.skipped.length > 0 && (
+                    <div style={styles.info}>
+                      {preview.skipped.length} cell{preview.skipped.length !== 1 ? 's' : ''} outside
+                      the symbol model will be skipped.
+                    </div>
+                  )}
+                </>
+              )}
+
+              {error && <div style={styles.error}>{error}</div>}
+            </>
+          )}
+
+          {state === 'complete' && result && (
+            <div style={styles.section} data-testid="import-result">
+              <div style={styles.info}>
+                Registered {result.created.length}, updated {result.updated.length}
+                {result.conflicts.length > 0 && `, ${result.conflicts.length} conflict(s) left untouched`}
+              </div>
+              {result.errors.map((err) => (
+                <div key={err.symbolId} style={styles.error}>
+                  {err.symbolId}: {err.message}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div style={styles.footer}>
+          {state !== 'complete' ? (
+            <>
+              <button onClick={handleClose} style={styles.cancelButton}>
+                Cancel
+              </button>
+              <button
+                onClick={handleImport}
+                style={styles.importButton}
+                disabled={isBusy || !xml || changeCount === 0}
+                data-testid="import-button"
+              >
+                {state === 'importing'
+                  ? 'Importing...'
+                  : `Apply ${changeCount} Change${changeCount !== 1 ? 's' : ''}`}
+              </button>
+            </>
+          ) : (
+            <button onClick={handleClose} style={styles.importButton}>
+              Done
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface ChangeSectionProps {
+  title: string;
+  items: DiagramSyncChangeDTO[];
+}
+
+function ChangeSection({ title, items }: ChangeSectionProps): React.ReactElement | null {
+  if (items.length === 0) return null;
+
+  return (
+    <section style={styles.section}>
+      <h3 style={styles.sectionTitle}>
+        {title} ({items.length})
+      </h3>
+      <div style={styles.changeList}>
+        {items.map((item) => (
+          <div key={item.elementId} style={styles.changeItem}>
+            <span style={styles.symbolId}>{item.symbolId}</span>
+            <span style={styles.changeMeta}>
+              {item.level} {item.kind}
+              {item.changedFields.length > 0 && ` · ${item.changedFields.join(', ')}`}
+            </span>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  overlay: {
+    position: 'fixed',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    zIndex: Z_INDEX_MODAL,
+  },
+  dialog: {
+    backgroundColor: '#1e1e1e',
+    borderRadius: '8px',
+    width: '600px',
+    maxWidth: '90vw',
+    maxHeight: '85vh',
+    display: 'flex',
+    flexDirection: 'column',
+    boxShadow: '0 8px 32px rgba(0, 0, 0, 0.4)',
+    border: '1px solid #3c3c3c',
+  },
+  header: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: '16px 20px',
+    borderBottom: '1px solid #3c3c3c',
+  },
+  title: {
+    margin: 0,
+    fontSize: '16px',
+    fontWeight: 600,
+    color: '#ffffff',
+  },
+  closeButton: {
+    background: 'none',
+    border: 'none',
+    fontSize: '24px',
+    color: '#808080',
+    cursor: 'pointer',
+    padding: '0 4px',
+    lineHeight: 1,
+  },
+  content: {
+    padding: '20px',
+    overflowY: 'auto',
+    flex: 1,
+  },
+  section: {
+    marginBottom: '20px',
+  },
+  sectionTitle: {
+    fontSize: '12px',
+    fontWeight: 500,
+    color: '#d4d4d4',
+    margin: '0 0 8px 0',
+    textTransform: 'uppercase',
+    letterSpacing: '0.5px',
+  },
+  label: {
+    display: 'block',
+    fontSize: '13px',
+    fontWeight: 500,
+    color: '#d4d4d4',
+    marginBottom: '8px',
+  },
+  input: {
+    width: '100%',
+    padding: '8px 12px',
+    backgroundColor: '#3c3c3c',
+    border: '1px solid #5a5a5a',
+    borderRadius: '4px',
+    color: '#d4d4d4',
+    fontSize: '13px',
+    fontFamily: 'monospace',
+    boxSizing: 'border-box',
+  },
+  changeList: {
+    padding: '8px 12px',
+    backgroundColor: '#252526',
+    borderRadius: '4px',
+    maxHeight: '160px',
+    overflowY: 'auto',
+  },
+  changeItem: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    gap: '12px',
+    padding: '2px 0',
+  },
+  symbolId: {
+    fontSize: '12px',
+    fontFamily: 'monospace',
+    color: '#9cdcfe',
+  },
+  changeMeta: {
+    fontSize: '11px',
+    color: '#808080',
+  },
+  conflictItem: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '2px',
+    padding: '8px 12px',
+    backgroundColor: '#2d2d2d',
+    borderLeft: '3px solid #cca700',
+    borderRadius: '4px',
+    marginBottom: '6px',
+  },
+  conflictMessage: {
+    fontSize: '12px',
+    color: '#d4d4d4',
+  },
+  info: {
+    fontSize: '13px',
+    color: '#808080',
+    marginBottom: '12px',
+  },
+  error: {
+    padding: '12px',
+    backgroundColor: '#5a1d1d',
+    borderRadius: '4px',
+    color: '#f48771',
+    fontSize: '13px',
+    marginBottom: '8px',
+  },
+  footer: {
+    display: 'flex',
+    justifyContent: 'flex-end',
+    gap: '12px',
+    padding: '16px 20px',
+    borderTop: '1px solid #3c3c3c',
+  },
+  cancelButton: {
+    padding: '8px 16px',
+    backgroundColor: 'transparent',
+    border: '1px solid #5a5a5a',
+    borderRadius: '4px',
+    color: '#d4d4d4',
+    fontSize: '13px',
+    cursor: 'pointer',
+  },
+  importButton: {
+    padding: '8px 20px',
+    backgroundColor: '#0e639c',
+    border: 'none',
+    borderRadius: '4px',
+    color: '#ffffff',
+    fontSize: '13px',
+    fontWeight: 500,
+    cursor: 'pointer',
+  },
+};
@@ -41,6 +41,8 @@ export interface DrawioEditorRef {
   exportPng: () => Promise<string | null>;
   /** Open Draw.io's native export dialog */
   openExportDialog: () => Promise<void>;
+  /** Replace the current diagram with the given Draw.io XML */
+  loadXml: (xml: string) => Promise<void>;
   /** Check if editor is ready */
   isReady: () => boolean;
 }
@@ -133,6 +135,14 @@ export const DrawioEditor = forwardRef<DrawioEditorRef, DrawioEditorProps>(
         throw err;
       }
     },
+    loadXml: async (xml: string): Promise<void> => {
+      if (!webviewElement || !isReady) {
+        console.warn('[DrawioEditor] Cannot load diagram: editor not ready');
+        return;
+      }
+
+      await sendDrawioMessage('load', { xml });
+    },
     isReady: () => isReady,
   }), [webviewElement, isReady, sendDrawioMessage]);
 
@@ -222,6 +232,15 @@ export const DrawioEditor = forwardRef<DrawioEditorRef, DrawioEditorProps>(
           break;
         }
 
+        case 'loaded': {
+          const pending = pendingRequests.current.get('load');
+          if (pending) {
+            pendingRequests.current.delete('load');
+            pending.resolve(undefined);
+          }
+          break;
+        }
+
         case 'error': {
           // Reject all pending requests on error
           for (const [key, pending] of pendingRequests.current) {
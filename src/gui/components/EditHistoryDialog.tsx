@@ -0,0 +1,278 @@
+/**
+ * EditHistoryDialog Component
+ *
+ * Modal dialog listing the registry edits that can be undone and redone,
+ * most recent first, with Undo/Redo buttons for the next one of each.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import type { CommandStackStateDTO, CommandSummaryDTO } from '../../api/types';
+import { apiClient } from '../api-client';
+import { extractErrorMessage } from '../../infrastructure/errors';
+import { Z_INDEX_MODAL } from '../constants/colors';
+import type { EditCommand } from '../utils/native-edit';
+
+interface EditHistoryDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Runs undo or redo, resolving to an error message if it failed */
+  onEdit: (command: EditCommand) => Promise<string | null>;
+  /** Incremented by the caller whenever an undo or redo was applied */
+  registryVersion: number;
+}
+
+export function EditHistoryDialog({
+  isOpen,
+  onClose,
+  onEdit,
+  registryVersion,
+}: EditHistoryDialogProps): React.ReactElement | null {
+  const [history, setHistory] = useState<CommandStackStateDTO | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHistory = useCallback(async (): Promise<void> => {
+    setError(null);
+    try {
+      const result = await apiClient.registry.getHistory();
+      if (result.success && result.data) {
+        setHistory(result.data);
+      } else {
+        setError(result.error?.message ?? 'Failed to load edit history');
+      }
+    } catch (err) {
+      setError(extractErrorMessage(err));
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    fetchHistory();
+  }, [isOpen, registryVersion, fetchHistory]);
+
+  async function handleEdit(command: EditCommand): Promise<void> {
+    const message = await onEdit(command);
+    if (message) {
+      // A refused undo/redo clears the history
+      await fetchHistory();
+    }
+    setError(message);
+  }
+
+  if (!isOpen) return null;
+
+  const canUndo = (history?.undo.length ?? 0) > 0;
+  const canRedo = (history?.redo.length ?? 0) > 0;
+
+  return (
+    <div style={styles.overlay} onClick={onClose} data-testid="edit-history-dialog">
+      <div style={styles.dialog} onClick={(e) => e.stopPropagation()}>
+        <div style={styles.header}>
+          <h2 style={styles.title}>Edit History</h2>
+          <button onClick={onClose} style={styles.closeButton}>
+            &times;
+          </button>
+        </div>
+
+        <div style={styles.content}>
+          {history && !canUndo && !canRedo && (
+            <div style={styles.info}>No registry edits to undo or redo</div>
+          )}
+          {history && (
+            <>
+              <CommandSection title="Redo" commands={[...history.redo].reverse()} faded />
+              <CommandSection title="Undo" commands={history.undo} />
+            </>
+          )}
+          {error && <div style={styles.error}>{error}</div>}
+        </div>
+
+        <div style={styles.footer}>
+          <button
+            onClick={() => handleEdit('undo')}
+            style={styles.secondaryButton}
+            disabled={!canUndo}
+            data-testid="edit-history-undo"
+          >
+            Undo
+          </button>
+          <button
+            onClick={() => handleEdit('redo')}
+            style={styles.secondaryButton}
+            disabled={!canRedo}
+            data-testid="edit-history-redo"
+          >
+            Redo
+          </button>
+          <button onClick={onClose} style={styles.primaryButton}>
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface CommandSectionProps {
+  title: string;
+  commands: CommandSummaryDTO[];
+  /** Render as not currently applied */
+  faded?: boolean;
+}
+
+function CommandSection({ title, commands, faded }: CommandSectionProps): React.ReactElement | null {
+  if (commands.length === 0) return null;
+
+  return (
+    <section style={styles.section}>
+      <h3 style={styles.sectionTitle}>
+        {title} ({commands.length})
+      </h3>
+      <div style={styles.commandList}>
+        {commands.map((command) => (
+          <div
+            key={command.id}
+            style={{ ...styles.command, ...(faded ? styles.commandFaded : {}) }}
+            title={command.symbolIds.join('\n')}
+            data-testid={`edit-history-command-${command.id}`}
+          >
+            <span style={styles.commandLabel}>{command.label}</span>
+            <span style={styles.commandTime}>
+              {new Date(command.executedAt).toLocaleTimeString()}
+            </span>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  overlay: {
+    position: 'fixed',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    zIndex: Z_INDEX_MODAL,
+  },
+  dialog: {
+    backgroundColor: '#1e1e1e',
+    borderRadius: '8px',
+    width: '520px',
+    maxWidth: '90vw',
+    maxHeight: '85vh',
+    display: 'flex',
+    flexDirection: 'column',
+    boxShadow: '0 8px 32px rgba(0, 0, 0, 0.4)',
+    border: '1px solid #3c3c3c',
+  },
+  header: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: '16px 20px',
+    borderBottom: '1px solid #3c3c3c',
+  },
+  title: {
+    margin: 0,
+    fontSize: '16px',
+    fontWeight: 600,
+    color: '#ffffff',
+  },
+  closeButton: {
+    background: 'none',
+    border: 'none',
+    fontSize: '24px',
+    color: '#808080',
+    cursor: 'pointer',
+    padding: '0 4px',
+    lineHeight: 1,
+  },
+  content: {
+    padding: '20px',
+    overflowY: 'auto',
+    flex: 1,
+  },
+  section: {
+    marginBottom: '20px',
+  },
+  sectionTitle: {
+    fontSize: '12px',
+    fontWeight: 500,
+    color: '#d4d4d4',
+    margin: '0 0 8px 0',
+    textTransform: 'uppercase',
+    letterSpacing: '0.5px',
+  },
+  commandList: {
+    padding: '8px 12px',
+    backgroundColor: '#252526',
+    borderRadius: '4px',
+    maxHeight: '240px',
+    overflowY: 'auto',
+  },
+  command: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    gap: '12px',
+    fontSize: '12px',
+    padding: '3px 0',
+    color: '#d4d4d4',
+  },
+  commandFaded: {
+    color: '#6a6a6a',
+  },
+  commandLabel: {
+    fontFamily: 'monospace',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+  commandTime: {
+    color: '#808080',
+    flexShrink: 0,
+  },
+  info: {
+    fontSize: '13px',
+    color: '#808080',
+    marginBottom: '12px',
+  },
+  error: {
+    padding: '12px',
+    backgroundColor: '#5a1d1d',
+    borderRadius: '4px',
+    color: '#f48771',
+    fontSize: '13px',
+    marginBottom: '8px',
+  },
+  footer: {
+    display: 'flex',
+    justifyContent: 'flex-end',
+    gap: '12px',
+    padding: '16px 20px',
+    borderTop: '1px solid #3c3c3c',
+  },
+  secondaryButton: {
+    padding: '8px 16px',
+    backgroundColor: 'transparent',
+    border: '1px solid #5a5a5a',
+    borderRadius: '4px',
+    color: '#d4d4d4',
+    fontSize: '13px',
+    cursor: 'pointer',
+  },
+  primaryButton: {
+    padding: '8px 20px',
+    backgroundColor: '#0e639c',
+    border: 'none',
+    borderRadius: '4px',
+    color: '#ffffff',
+    fontSize: '13px',
+    fontWeight: 500,
+    cursor: 'pointer',
+  },
+};
@@ -28,6 +28,9 @@ export function ExportDialog({
   symbolIds,
 }: ExportDialogProps): React.ReactElement | null {
   const [outputDir, setOutputDir] = useState('./generated');
+  const [includeContractTests, setIncludeContractTests] = useState(false);
+  const [includeTracing, setIncludeTracing] = useState(false);
+  const [force, setForce] = useState(false);
   const [state, setState] = useState<ExportState>('idle');
   const [result, setResult] = useState<GenerationBatchResultDTO | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -69,13 +72,22 @@ export function ExportDialog({
         // Export specific symbols
         response = await apiClient.synthesizer.generateMultiple({
           symbolIds,
-          options: { outputDir, overwriteGenerated: true },
+          options: {
+            outputDir,
+            overwriteGenerated: true,
+            includeContractTests,
+            includeTracing,
+            force,
+          },
         });
       } else {
         // Export all generatable symbols
         response = await apiClient.synthesizer.generateAll({
           outputDir,
           overwriteGenerated: true,
+          includeContractTests,
+          includeTracing,
+          force,
         });
       }
 
@@ -140,6 +152,39 @@ export function ExportDialog({
                 </div>
               </div>
 
+              <div style={styles.section}>
+                <label style={styles.checkboxRow}>
+                  <input
+                    type="checkbox"
+                    checked={includeContractTests}
+                    onChange={(e) => setIncludeContractTests(e.target.checked)}
+                    disabled={isExporting}
+                    data-testid="contract-tests-checkbox"
+                  />
+                  Also generate contract tests
+                </label>
+                <label style={styles.checkboxRow}>
+                  <input
+                    type="checkbox"
+                    checked={includeTracing}
+                    onChange={(e) => setIncludeTracing(e.target.checked)}
+                    disabled={isExporting}
+                    data-testid="tracing-checkbox"
+                  />
+                  Report instantiations to the runtime tracer
+                </label>
+                <label style={styles.checkboxRow}>
+                  <input
+                    type="checkbox"
+                    checked={force}
+                    onChange={(e) => setForce(e.target.checked)}
+                    disabled={isExporting}
+                    data-testid="force-checkbox"
+                  />
+                  Overwrite hand-edited generated files (force)
+                </label>
+              </div>
+
               {/* Symbol count */}
               <div style={styles.section}>
                 <div style={styles.info}>
@@ -278,6 +323,15 @@ const styles: Record<string, React.CSSProperties> = {
     color: '#d4d4d4',
     marginBottom: '8px',
   },
+  checkboxRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    fontSize: '13px',
+    color: '#d4d4d4',
+    cursor: 'pointer',
+    marginBottom: '6px',
+  },
   directoryRow: {
     display: 'flex',
     gap: '8px',
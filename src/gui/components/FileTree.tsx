@@ -77,7 +77,8 @@ function buildFileTree(results: GenerationResultDTO[], baseDir: string): FileNod
       isGenerated: true,
     });
 
-    // Add implementation file
+    // Add implementation file (L0 declarations have none)
+    if (!result.implementationPath) continue;
     const implParts = result.implementationPath.split('/');
     const implFileName = implParts.pop()!;
     const implDirPath = implParts.join('/');
@@ -91,6 +92,20 @@ function buildFileTree(results: GenerationResultDTO[], baseDir: string): FileNod
       isUserFile: true,
       wasCreated: result.userFileCreated,
     });
+
+    // Add contract test (regenerated on every run)
+    if (!result.testPath) continue;
+    const testParts = result.testPath.split('/');
+    const testFileName = testParts.pop()!;
+    const testDir = ensureDir(testParts.join('/'));
+
+    testDir.children.push({
+      name: testFileName,
+      path: result.testPath,
+      isDirectory: false,
+      children: [],
+      isGenerated: true,
+    });
   }
 
   // Sort children recursively
@@ -129,10 +129,12 @@ export function GenerateButton({
               <div style={styles.resultPath}>
                 Base: {result.generatedPath}
               </div>
-              <div style={styles.resultPath}>
-                Impl: {result.implementationPath}
-                {result.userFileCreated ? ' (created)' : ' (preserved)'}
-              </div>
+              {result.implementationPath && (
+                <div style={styles.resultPath}>
+                  Impl: {result.implementationPath}
+                  {result.userFileCreated ? ' (created)' : ' (preserved)'}
+                </div>
+              )}
               {result.warnings.length > 0 && (
                 <div style={styles.warnings}>
                   {result.warnings.map((w, i) => (
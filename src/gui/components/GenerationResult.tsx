@@ -2,7 +2,8 @@
  * GenerationResult Component
  *
  * Displays the result of a code generation operation.
- * Shows success/failure status, generated file paths, and any warnings.
+ * Shows success/failure status, generated file paths, any warnings, and
+ * the diff of hand edits when a generated file was modified.
  */
 
 import React from 'react';
@@ -48,15 +49,23 @@ export function GenerationResult({
             <span style={styles.pathLabel}>Base:</span>
             <span style={styles.pathValue}>{result.generatedPath}</span>
           </div>
-          <div style={styles.pathRow}>
-            <span style={styles.pathLabel}>Impl:</span>
-            <span style={styles.pathValue}>
-              {result.implementationPath}
-              {result.userFileCreated && (
-                <span style={styles.badge}>created</span>
-              )}
-            </span>
-          </div>
+          {result.implementationPath && (
+            <div style={styles.pathRow}>
+              <span style={styles.pathLabel}>Impl:</span>
+              <span style={styles.pathValue}>
+                {result.implementationPath}
+                {result.userFileCreated && (
+                  <span style={styles.badge}>created</span>
+                )}
+              </span>
+            </div>
+          )}
+          {result.testPath && (
+            <div style={styles.pathRow}>
+              <span style={styles.pathLabel}>Test:</span>
+              <span style={styles.pathValue}>{result.testPath}</span>
+            </div>
+          )}
           <div style={styles.meta}>
             <span>Hash: {result.contentHash}</span>
             <span>At: {formatDate(result.generatedAt)}</span>
@@ -68,6 +77,8 @@ export function GenerationResult({
         <div style={styles.error}>{result.error}</div>
       )}
 
+      {result.diff && <DiffView diff={result.diff} />}
+
       {result.warnings.length > 0 && (
         <div style={styles.warnings}>
           {result.warnings.map((warning, index) => (
@@ -146,6 +157,7 @@ export function GenerationBatchResult({
               <div key={r.symbolId} style={styles.failedItem}>
                 <span style={styles.failedSymbol}>{r.symbolId}</span>
                 <span style={styles.failedReason}>{r.error}</span>
+                {r.diff && <DiffView diff={r.diff} />}
               </div>
             ))}
         </div>
@@ -167,6 +179,35 @@ export function GenerationBatchResult({
   );
 }
 
+interface DiffViewProps {
+  diff: string;
+}
+
+/**
+ * Collapsible unified diff of hand edits to a generated file.
+ */
+function DiffView({ diff }: DiffViewProps): React.ReactElement {
+  return (
+    <details style={styles.diff} data-testid="generation-diff">
+      <summary style={styles.diffSummary}>Hand edits (diff)</summary>
+      <pre style={styles.diffContent}>
+        {diff.split('\n').map((line, index) => (
+          <div key={index} style={diffLineStyle(line)}>
+            {line}
+          </div>
+        ))}
+      </pre>
+    </details>
+  );
+}
+
+function diffLineStyle(line: string): React.CSSProperties | undefined {
+  if (line.startsWith('@@')) return { color: '#569cd6' };
+  if (line.startsWith('-')) return { color: '#f48771' };
+  if (line.startsWith('+')) return { color: '#4ec9b0' };
+  return undefined;
+}
+
 function formatDate(isoString: string): string {
   const date = new Date(isoString);
   return date.toLocaleTimeString('en-US', {
@@ -276,6 +317,25 @@ const styles: Record<string, React.CSSProperties> = {
     fontSize: '13px',
     color: '#f48771',
   },
+  diff: {
+    padding: '8px 16px 12px',
+    fontSize: '12px',
+  },
+  diffSummary: {
+    color: '#cca700',
+    cursor: 'pointer',
+  },
+  diffContent: {
+    margin: '8px 0 0',
+    padding: '8px',
+    maxHeight: '240px',
+    overflow: 'auto',
+    backgroundColor: '#1e1e1e',
+    borderRadius: '4px',
+    fontFamily: 'monospace',
+    fontSize: '11px',
+    color: '#d4d4d4',
+  },
   warnings: {
     padding: '8px 16px 12px',
     borderTop: '1px solid rgba(255, 255, 255, 0.1)',
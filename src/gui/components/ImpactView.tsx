@@ -0,0 +1,252 @@
+/**
+ * ImpactView Component
+ *
+ * Previews what a proposed update or removal of a component would affect:
+ * transitive dependents (with the relationship path to each), whether they
+ * break or only need regeneration, and the generated files that would change.
+ */
+
+import React, { useEffect, useState } from 'react';
+import type {
+  ComponentSymbolDTO,
+  ImpactReportDTO,
+  ImpactedSymbolDTO,
+  ProposedChangeDTO,
+} from '../../api/types';
+import { apiClient } from '../api-client';
+import { extractErrorMessage } from '../../infrastructure/errors';
+
+interface ImpactViewProps {
+  component: ComponentSymbolDTO;
+}
+
+export function ImpactView({ component }: ImpactViewProps): React.ReactElement {
+  const [updatesJson, setUpdatesJson] = useState('');
+  const [report, setReport] = useState<ImpactReportDTO | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setUpdatesJson('');
+    setReport(null);
+    setError(null);
+  }, [component.id]);
+
+  async function analyze(change: ProposedChangeDTO): Promise<void> {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await apiClient.graph.analyzeImpact({ symbolId: component.id, change });
+      if (result.success && result.data) {
+        setReport(result.data);
+      } else {
+        setReport(null);
+        setError(result.error?.message ?? 'Impact analysis failed');
+      }
+    } catch (e) {
+      setError(extractErrorMessage(e));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function analyzeUpdate(): void {
+    let updates: unknown;
+    try {
+      updates = JSON.parse(updatesJson);
+    } catch (e) {
+      setError(`Invalid JSON: ${extractErrorMessage(e)}`);
+      return;
+    }
+    if (typeof updates !== 'object' || updates === null || Array.isArray(updates)) {
+      setError('Proposed update must be a JSON object of symbol fields');
+      return;
+    }
+    analyze({ type: 'update', updates: updates as Partial<ComponentSymbolDTO> });
+  }
+
+  return (
+    <section style={styles.section} data-testid="impact-view">
+      <h3 style={styles.sectionTitle}>Impact</h3>
+
+      <textarea
+        style={styles.textarea}
+        value={updatesJson}
+        onChange={(e) => setUpdatesJson(e.target.value)}
+        placeholder='Proposed update, e.g. { "dependencies": [] }'
+        rows={3}
+        data-testid="impact-updates"
+      />
+      <div style={styles.actions}>
+        <button
+          style={styles.button}
+          onClick={analyzeUpdate}
+          disabled={loading || updatesJson.trim() === ''}
+          data-testid="impact-analyze-update"
+        >
+          Preview Update
+        </button>
+        <button
+          style={styles.button}
+          onClick={() => analyze({ type: 'remove' })}
+          disabled={loading}
+          data-testid="impact-analyze-remove"
+        >
+          Preview Removal
+        </button>
+      </div>
+
+      {error && <div style={styles.error}>{error}</div>}
+
+      {report && (
+        <div data-testid="impact-report">
+          <div style={styles.summary}>
+            Requires a <strong>{report.requiredBump}</strong> bump ·{' '}
+            {report.affected.length} affected · {report.generatedFiles.length} generated file
+            {report.generatedFiles.length === 1 ? '' : 's'}
+          </div>
+
+          {report.changes.map((change, i) => (
+            <div key={i} style={styles.change}>
+              {change.description}
+            </div>
+          ))}
+
+          {report.affected.map((impacted) => (
+            <ImpactRow key={impacted.symbolId} impacted={impacted} />
+          ))}
+
+          {report.generatedFiles.length > 0 && (
+            <ul style={styles.files}>
+              {report.generatedFiles.map((file) => (
+                <li key={file} style={styles.file}>
+                  {file}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
+
+function ImpactRow({ impacted }: { impacted: ImpactedSymbolDTO }): React.ReactElement {
+  const breaks = impacted.effect === 'breaks';
+  return (
+    <div style={styles.impact} data-testid="impact-row">
+      <div style={styles.impactHeader}>
+        <span style={styles.symbolId}>{impacted.symbolId}</span>
+        <span style={breaks ? styles.breaks : styles.regenerate}>
+          {breaks ? 'Breaks' : 'Regenerate'}
+        </span>
+      </div>
+      <div style={styles.path}>
+        {impacted.path.map((edge) => `${edge.type} → ${edge.to}`).join('  ·  ')}
+      </div>
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  section: {
+    marginBottom: '24px',
+  },
+  sectionTitle: {
+    fontSize: '14px',
+    fontWeight: 600,
+    color: '#d4d4d4',
+    marginBottom: '12px',
+    textTransform: 'uppercase',
+    letterSpacing: '0.5px',
+  },
+  textarea: {
+    width: '100%',
+    boxSizing: 'border-box',
+    padding: '8px',
+    backgroundColor: '#3c3c3c',
+    border: '1px solid #555',
+    borderRadius: '4px',
+    color: '#d4d4d4',
+    fontFamily: 'monospace',
+    fontSize: '12px',
+    resize: 'vertical',
+  },
+  actions: {
+    display: 'flex',
+    gap: '8px',
+    margin: '8px 0 12px',
+  },
+  button: {
+    padding: '6px 12px',
+    backgroundColor: '#0e639c',
+    border: 'none',
+    borderRadius: '4px',
+    color: '#ffffff',
+    fontSize: '13px',
+    cursor: 'pointer',
+  },
+  summary: {
+    fontSize: '13px',
+    color: '#d4d4d4',
+    marginBottom: '8px',
+  },
+  change: {
+    fontSize: '12px',
+    color: '#808080',
+    marginBottom: '4px',
+  },
+  impact: {
+    padding: '8px 12px',
+    backgroundColor: '#2d2d2d',
+    borderRadius: '4px',
+    margin: '8px 0',
+  },
+  impactHeader: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: '8px',
+  },
+  symbolId: {
+    fontSize: '13px',
+    fontFamily: 'monospace',
+    color: '#9cdcfe',
+  },
+  breaks: {
+    fontSize: '11px',
+    padding: '2px 8px',
+    borderRadius: '4px',
+    backgroundColor: '#5a1d1d',
+    color: '#f48771',
+  },
+  regenerate: {
+    fontSize: '11px',
+    padding: '2px 8px',
+    borderRadius: '4px',
+    backgroundColor: '#4d4420',
+    color: '#dcdcaa',
+  },
+  path: {
+    marginTop: '4px',
+    fontSize: '11px',
+    fontFamily: 'monospace',
+    color: '#808080',
+  },
+  files: {
+    margin: '8px 0 0',
+    padding: 0,
+    listStyle: 'none',
+  },
+  file: {
+    fontSize: '12px',
+    fontFamily: 'monospace',
+    color: '#d4d4d4',
+    padding: '2px 0',
+  },
+  error: {
+    fontSize: '13px',
+    color: '#f48771',
+    marginBottom: '8px',
+  },
+};
@@ -0,0 +1,411 @@
+/**
+ * RegistryDialog Component
+ *
+ * Modal dialog for the File menu's registry commands. Export writes the
+ * registry files and lists them; import shows a dry-run summary for the
+ * chosen conflict policy before anything is written.
+ */
+
+import React, { useState, useEffect } from 'react';
+import type {
+  ImportConflictPolicy,
+  RegistryFormat,
+  RegistryExportResultDTO,
+  RegistryImportResultDTO,
+} from '../../api/types';
+import { apiClient } from '../api-client';
+import { extractErrorMessage } from '../../infrastructure/errors';
+import { Z_INDEX_MODAL } from '../constants/colors';
+
+/** Registry command chosen from the File menu */
+export type RegistryRequest =
+  | { mode: 'export'; outputDir: string; format: RegistryFormat }
+  | { mode: 'import'; sourcePath: string };
+
+interface RegistryDialogProps {
+  request: RegistryRequest | null;
+  onClose: () => void;
+  /** Called after symbols were created or updated */
+  onImported?: (result: RegistryImportResultDTO) => void;
+}
+
+type DialogState = 'idle' | 'working' | 'complete' | 'error';
+
+const POLICY_LABELS: Record<ImportConflictPolicy, string> = {
+  fail: 'Abort if anything conflicts',
+  skip: 'Keep registered symbols',
+  overwrite: 'Overwrite with file contents',
+};
+
+export function RegistryDialog({
+  request,
+  onClose,
+  onImported,
+}: RegistryDialogProps): React.ReactElement | null {
+  const [policy, setPolicy] = useState<ImportConflictPolicy>('fail');
+  const [state, setState] = useState<DialogState>('idle');
+  const [exported, setExported] = useState<RegistryExportResultDTO | null>(null);
+  const [preview, setPreview] = useState<RegistryImportResultDTO | null>(null);
+  const [result, setResult] = useState<RegistryImportResultDTO | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Export right away; preview an import whenever the policy changes
+  useEffect(() => {
+    if (request?.mode === 'export') {
+      runExport(request.outputDir, request.format);
+    } else if (request?.mode === 'import') {
+      runImport(request.sourcePath, policy, true);
+    }
+  }, [request, policy]);
+
+  async function runExport(outputDir: string, format: RegistryFormat): Promise<void> {
+    setState('working');
+    setError(null);
+
+    try {
+      const response = await apiClient.symbols.exportRegistry({ outputDir, options: { format } });
+      if (response.success && response.data) {
+        setExported(response.data);
+        setState('complete');
+      } else {
+        setError(response.error?.message ?? 'Export failed');
+        setState('error');
+      }
+    } catch (err) {
+      setError(extractErrorMessage(err));
+      setState('error');
+    }
+  }
+
+  async function runImport(
+    sourcePath: string,
+    onConflict: ImportConflictPolicy,
+    dryRun: boolean
+  ): Promise<void> {
+    setState('working');
+    setError(null);
+
+    try {
+      const response = await apiClient.symbols.importRegistry({
+        sourcePath,
+        options: { onConflict, dryRun },
+      });
+      if (response.success && response.data) {
+        if (dryRun) {
+          setPreview(response.data);
+          setState('idle');
+        } else {
+          setResult(response.data);
+          setState('complete');
+          onImported?.(response.data);
+        }
+      } else {
+        setError(response.error?.message ?? 'Import failed');
+        setState('error');
+      }
+    } catch (err) {
+      setError(extractErrorMessage(err));
+      setState('error');
+    }
+  }
+
+  function handleClose(): void {
+    setState('idle');
+    setExported(null);
+    setPreview(null);
+    setResult(null);
+    setError(null);
+    onClose();
+  }
+
+  if (!request) return null;
+
+  const changeCount = (preview?.created.length ?? 0) + (preview?.updated.length ?? 0);
+  const blocked = policy === 'fail' && (preview?.conflicts.length ?? 0) > 0;
+  const title = request.mode === 'export' ? 'Export Registry' : 'Import Registry';
+  const location = request.mode === 'export' ? request.outputDir : request.sourcePath;
+
+  return (
+    <div style={styles.overlay} onClick={handleClose} data-testid="registry-dialog">
+      <div style={styles.dialog} onClick={(e) => e.stopPropagation()}>
+        <div style={styles.header}>
+          <h2 style={styles.title}>{title}</h2>
+          <button onClick={handleClose} style={styles.closeButton}>
+            &times;
+          </button>
+        </div>
+
+        <div style={styles.content}>
+          <div style={styles.info}>{location}</div>
+
+          {request.mode === 'export' && exported && (
+            <div data-testid="registry-export-result">
+              <div style={styles.info}>
+                Exported {exported.symbolCount} symbol{exported.symbolCount !== 1 ? 's' : ''} to{' '}
+                {exported.files.length} file{exported.files.length !== 1 ? 's' : ''}
+              </div>
+              <IdSection title="Written" items={exported.files} />
+              <IdSection title="Removed" items={exported.removed} />
+            </div>
+          )}
+
+          {request.mode === 'import' && state !== 'complete' && (
+            <>
+              <div style={styles.section}>
+                <label style={styles.label}>On Conflict</label>
+                <select
+                  value={policy}
+                  onChange={(e) => setPolicy(e.target.value as ImportConflictPolicy)}
+                  style={styles.input}
+                  data-testid="registry-policy-select"
+                >
+                  {(Object.keys(POLICY_LABELS) as ImportConflictPolicy[]).map((key) => (
+                    <option key={key} value={key}>
+                      {POLICY_LABELS[key]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {preview && (
+                <div data-testid="registry-import-preview">
+                  <IdSection title="Create" items={preview.created} />
+                  <IdSection title="Overwrite" items={preview.updated} />
+                  <IdSection title="Conflicts" items={preview.conflicts} warn />
+                  <IdSection title="Unchanged" items={preview.unchanged} />
+                  <ErrorList errors={preview.errors} />
+                  {blocked && (
+                    <div style={styles.info}>
+                      Choose another policy to import while symbols conflict.
+                    </div>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+
+          {request.mode === 'import' && state === 'complete' && result && (
+            <div style={styles.section} data-testid="registry-import-result">
+              <div style={styles.info}>
+                Created {result.created.length}, overwrote {result.updated.length}
+                {result.skipped.length > 0 && `, kept ${result.skipped.length} conflicting`}
+              </div>
+              <ErrorList errors={result.errors} />
+            </div>
+          )}
+
+          {error && <div style={styles.error}>{error}</div>}
+        </div>
+
+        <div style={styles.footer}>
+          {request.mode === 'import' && state !== 'complete' ? (
+            <>
+              <button onClick={handleClose} style={styles.cancelButton}>
+                Cancel
+              </button>
+              <button
+                onClick={() => runImport(request.sourcePath, policy, false)}
+                style={styles.primaryButton}
+                disabled={state === 'working' || blocked || changeCount === 0}
+                data-testid="registry-import-button"
+              >
+                {state === 'working'
+                  ? 'Working...'
+                  : `Apply ${changeCount} Change${changeCount !== 1 ? 's' : ''}`}
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={handleClose}
+              style={styles.primaryButton}
+              disabled={state === 'working'}
+            >
+              Done
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface IdSectionProps {
+  title: string;
+  items: string[];
+  warn?: boolean;
+}
+
+function IdSection({ title, items, warn }: IdSectionProps): React.ReactElement | null {
+  if (items.length === 0) return null;
+
+  return (
+    <section style={styles.section}>
+      <h3 style={{ ...styles.sectionTitle, ...(warn ? styles.warnTitle : {}) }}>
+        {title} ({items.length})
+      </h3>
+      <div style={styles.idList}>
+        {items.map((item) => (
+          <div key={item} style={styles.id}>
+            {item}
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
+
+function ErrorList({
+  errors,
+}: {
+  errors: RegistryImportResultDTO['errors'];
+}): React.ReactElement | null {
+  if (errors.length === 0) return null;
+
+  return (
+    <>
+      {errors.map((err, index) => (
+        <div key={index} style={styles.error}>
+          {err.file}
+          {err.symbolId && ` · ${err.symbolId}`}: {err.message}
+        </div>
+      ))}
+    </>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  overlay: {
+    position: 'fixed',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    zIndex: Z_INDEX_MODAL,
+  },
+  dialog: {
+    backgroundColor: '#1e1e1e',
+    borderRadius: '8px',
+    width: '600px',
+    maxWidth: '90vw',
+    maxHeight: '85vh',
+    display: 'flex',
+    flexDirection: 'column',
+    boxShadow: '0 8px 32px rgba(0, 0, 0, 0.4)',
+    border: '1px solid #3c3c3c',
+  },
+  header: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: '16px 20px',
+    borderBottom: '1px solid #3c3c3c',
+  },
+  title: {
+    margin: 0,
+    fontSize: '16px',
+    fontWeight: 600,
+    color: '#ffffff',
+  },
+  closeButton: {
+    background: 'none',
+    border: 'none',
+    fontSize: '24px',
+    color: '#808080',
+    cursor: 'pointer',
+    padding: '0 4px',
+    lineHeight: 1,
+  },
+  content: {
+    padding: '20px',
+    overflowY: 'auto',
+    flex: 1,
+  },
+  section: {
+    marginBottom: '20px',
+  },
+  sectionTitle: {
+    fontSize: '12px',
+    fontWeight: 500,
+    color: '#d4d4d4',
+    margin: '0 0 8px 0',
+    textTransform: 'uppercase',
+    letterSpacing: '0.5px',
+  },
+  warnTitle: {
+    color: '#cca700',
+  },
+  label: {
+    display: 'block',
+    fontSize: '13px',
+    fontWeight: 500,
+    color: '#d4d4d4',
+    marginBottom: '8px',
+  },
+  input: {
+    width: '100%',
+    padding: '8px 12px',
+    backgroundColor: '#3c3c3c',
+    border: '1px solid #5a5a5a',
+    borderRadius: '4px',
+    color: '#d4d4d4',
+    fontSize: '13px',
+    boxSizing: 'border-box',
+  },
+  idList: {
+    padding: '8px 12px',
+    backgroundColor: '#252526',
+    borderRadius: '4px',
+    maxHeight: '160px',
+    overflowY: 'auto',
+  },
+  id: {
+    fontSize: '12px',
+    fontFamily: 'monospace',
+    color: '#9cdcfe',
+    padding: '2px 0',
+  },
+  info: {
+    fontSize: '13px',
+    color: '#808080',
+    marginBottom: '12px',
+    wordBreak: 'break-all',
+  },
+  error: {
+    padding: '12px',
+    backgroundColor: '#5a1d1d',
+    borderRadius: '4px',
+    color: '#f48771',
+    fontSize: '13px',
+    marginBottom: '8px',
+  },
+  footer: {
+    display: 'flex',
+    justifyContent: 'flex-end',
+    gap: '12px',
+    padding: '16px 20px',
+    borderTop: '1px solid #3c3c3c',
+  },
+  cancelButton: {
+    padding: '8px 16px',
+    backgroundColor: 'transparent',
+    border: '1px solid #5a5a5a',
+    borderRadius: '4px',
+    color: '#d4d4d4',
+    fontSize: '13px',
+    cursor: 'pointer',
+  },
+  primaryButton: {
+    padding: '8px 20px',
+    backgroundColor: '#0e639c',
+    border: 'none',
+    borderRadius: '4px',
+    color: '#ffffff',
+    fontSize: '13px',
+    fontWeight: 500,
+    cursor: 'pointer',
+  },
+};
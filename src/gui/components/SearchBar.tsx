@@ -1,11 +1,17 @@
 /**
  * SearchBar Component
  *
- * Search input for filtering components by name, namespace, or tags.
+ * Search input for filtering components by name, namespace, description
+ * or tags. Accepts the full-text query syntax, e.g. `kind:service tag:auth jwt*`.
  */
 
 import React from 'react';
 
+const SEARCH_SYNTAX_HELP = [
+  'Words match whole words; jwt* matches word beginnings; "exact phrase"',
+  'Filters: kind: level: status: origin: language: namespace: tag:',
+].join('\n');
+
 interface SearchBarProps {
   value: string;
   onChange: (value: string) => void;
@@ -18,7 +24,8 @@ export function SearchBar({ value, onChange }: SearchBarProps): React.ReactEleme
         type="text"
         value={value}
         onChange={(e) => onChange(e.target.value)}
-        placeholder="Search components..."
+        placeholder="Search components... (e.g. kind:service tag:auth jwt*)"
+        title={SEARCH_SYNTAX_HELP}
         style={styles.input}
         data-testid="search-input"
       />
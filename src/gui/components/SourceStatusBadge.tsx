@@ -0,0 +1,87 @@
+/**
+ * SourceStatusBadge Component
+ *
+ * Shows whether a component's recorded source location still matches the
+ * file on disk: current, moved, changed or missing.
+ */
+
+import React, { useEffect, useState } from 'react';
+import type { SourceCheckDTO, SourceState } from '../../api/types';
+import { apiClient } from '../api-client';
+import { extractErrorMessage } from '../../infrastructure/errors';
+
+interface SourceStatusBadgeProps {
+  symbolId: string;
+  /** Changes whenever the recorded location changes, to re-check */
+  contentHash: string;
+}
+
+export function SourceStatusBadge({
+  symbolId,
+  contentHash,
+}: SourceStatusBadgeProps): React.ReactElement | null {
+  const [check, setCheck] = useState<SourceCheckDTO | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setCheck(null);
+    setError(null);
+
+    apiClient.validation
+      .verifySources({ options: { symbolIds: [symbolId] } })
+      .then((result) => {
+        if (cancelled) return;
+        if (result.success && result.data) {
+          setCheck(result.data.checks[0] ?? null);
+        } else {
+          setError(result.error?.message ?? 'Source check failed');
+        }
+      })
+      .catch((e) => {
+        if (!cancelled) setError(extractErrorMessage(e));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [symbolId, contentHash]);
+
+  if (error) {
+    return (
+      <span style={{ ...styles.badge, ...STATE_STYLES.missing }} title={error}>
+        unknown
+      </span>
+    );
+  }
+  if (!check) {
+    return null;
+  }
+
+  return (
+    <span
+      style={{ ...styles.badge, ...STATE_STYLES[check.state] }}
+      title={check.message}
+      data-testid="source-status-badge"
+    >
+      {check.state}
+    </span>
+  );
+}
+
+const STATE_STYLES: Record<SourceState, React.CSSProperties> = {
+  current: { backgroundColor: '#2d2d2d', color: '#4ec9b0' },
+  moved: { backgroundColor: '#4d4420', color: '#dcdcaa' },
+  changed: { backgroundColor: '#4d4420', color: '#dcdcaa' },
+  missing: { backgroundColor: '#5a1d1d', color: '#f48771' },
+};
+
+const styles: Record<string, React.CSSProperties> = {
+  badge: {
+    fontSize: '11px',
+    padding: '2px 8px',
+    borderRadius: '4px',
+    textTransform: 'uppercase',
+    cursor: 'default',
+  },
+};
@@ -0,0 +1,239 @@
+/**
+ * VersionDiff Component
+ *
+ * Compares a component with another registered version of the same symbol
+ * and lists the changes with the SemVer bump each one requires.
+ */
+
+import React, { useEffect, useState } from 'react';
+import type {
+  ComponentSymbolDTO,
+  CompatibilityReportDTO,
+  SemVerDTO,
+  SymbolChangeDTO,
+} from '../../api/types';
+import { apiClient } from '../api-client';
+import { extractErrorMessage } from '../../infrastructure/errors';
+
+interface VersionDiffProps {
+  component: ComponentSymbolDTO;
+}
+
+export function VersionDiff({ component }: VersionDiffProps): React.ReactElement | null {
+  const [others, setOthers] = useState<ComponentSymbolDTO[]>([]);
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [report, setReport] = useState<CompatibilityReportDTO | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the other versions; default to the closest older one
+  useEffect(() => {
+    async function fetchVersions(): Promise<void> {
+      setOthers([]);
+      setBaseId(null);
+      setReport(null);
+      setError(null);
+      try {
+        const result = await apiClient.symbols.getVersions(component.namespace, component.name);
+        if (!result.success || !result.data) {
+          setError(result.error?.message ?? 'Failed to load versions');
+          return;
+        }
+        const versions = result.data
+          .filter((s) => s.id !== component.id)
+          .sort((a, b) => compareVersions(b.version, a.version));
+        setOthers(versions);
+        const previous =
+          versions.find((s) => compareVersions(s.version, component.version) < 0) ?? versions[0];
+        setBaseId(previous?.id ?? null);
+      } catch (e) {
+        setError(extractErrorMessage(e));
+      }
+    }
+
+    fetchVersions();
+  }, [component.id, component.namespace, component.name, component.version]);
+
+  // Compare older → newer so the bump reads in release order
+  useEffect(() => {
+    const base = others.find((s) => s.id === baseId);
+    if (!base) return;
+
+    async function fetchReport(from: string, to: string): Promise<void> {
+      setError(null);
+      try {
+        const result = await apiClient.validation.compareVersions(from, to);
+        if (result.success && result.data) {
+          setReport(result.data);
+        } else {
+          setReport(null);
+          setError(result.error?.message ?? 'Failed to compare versions');
+        }
+      } catch (e) {
+        setError(extractErrorMessage(e));
+      }
+    }
+
+    const baseIsOlder = compareVersions(base.version, component.version) < 0;
+    fetchReport(
+      baseIsOlder ? base.id : component.id,
+      baseIsOlder ? component.id : base.id
+    );
+  }, [baseId, others, component.id, component.version]);
+
+  if (others.length === 0 && !error) return null;
+
+  return (
+    <section style={styles.section} data-testid="version-diff">
+      <h3 style={styles.sectionTitle}>Version Changes</h3>
+      {others.length > 0 && (
+        <div style={styles.header}>
+          <span style={styles.label}>Compare with</span>
+          <select
+            style={styles.select}
+            value={baseId ?? ''}
+            onChange={(e) => setBaseId(e.target.value)}
+            data-testid="version-diff-select"
+          >
+            {others.map((s) => (
+              <option key={s.id} value={s.id}>
+                v{formatVersion(s.version)}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {error && <div style={styles.error}>{error}</div>}
+
+      {report && (
+        <>
+          <div style={styles.summary}>
+            <span>
+              Requires <strong>{report.requiredBump}</strong>, is{' '}
+              <strong>{report.actualBump}</strong>
+            </span>
+            <span
+              style={report.compatible ? styles.compatible : styles.incompatible}
+              data-testid="version-diff-status"
+            >
+              {report.compatible ? 'Compatible' : 'Insufficient bump'}
+            </span>
+          </div>
+          {report.changes.length === 0 ? (
+            <div style={styles.empty}>No changes</div>
+          ) : (
+            report.changes.map((change, i) => <ChangeRow key={i} change={change} />)
+          )}
+        </>
+      )}
+    </section>
+  );
+}
+
+function ChangeRow({ change }: { change: SymbolChangeDTO }): React.ReactElement {
+  return (
+    <div style={styles.change}>
+      <span style={{ ...styles.severity, color: SEVERITY_COLORS[change.severity] }}>
+        {change.severity}
+      </span>
+      <span style={styles.description}>{change.description}</span>
+    </div>
+  );
+}
+
+function compareVersions(a: SemVerDTO, b: SemVerDTO): number {
+  return a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+}
+
+function formatVersion(v: SemVerDTO): string {
+  return `${v.major}.${v.minor}.${v.patch}`;
+}
+
+const SEVERITY_COLORS: Record<SymbolChangeDTO['severity'], string> = {
+  major: '#f48771',
+  minor: '#dcdcaa',
+  patch: '#808080',
+};
+
+const styles: Record<string, React.CSSProperties> = {
+  section: {
+    marginBottom: '24px',
+  },
+  sectionTitle: {
+    fontSize: '14px',
+    fontWeight: 600,
+    color: '#d4d4d4',
+    marginBottom: '12px',
+    textTransform: 'uppercase',
+    letterSpacing: '0.5px',
+  },
+  header: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    marginBottom: '12px',
+    fontSize: '14px',
+  },
+  label: {
+    color: '#808080',
+  },
+  select: {
+    padding: '4px 8px',
+    backgroundColor: '#3c3c3c',
+    border: '1px solid #555',
+    borderRadius: '4px',
+    color: '#d4d4d4',
+    fontSize: '13px',
+  },
+  summary: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: '8px',
+    fontSize: '13px',
+    color: '#d4d4d4',
+  },
+  compatible: {
+    fontSize: '11px',
+    padding: '2px 8px',
+    borderRadius: '4px',
+    backgroundColor: '#2d4a2d',
+    color: '#89d185',
+  },
+  incompatible: {
+    fontSize: '11px',
+    padding: '2px 8px',
+    borderRadius: '4px',
+    backgroundColor: '#5a1d1d',
+    color: '#f48771',
+  },
+  change: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    padding: '6px 12px',
+    backgroundColor: '#2d2d2d',
+    borderRadius: '4px',
+    marginBottom: '6px',
+  },
+  severity: {
+    width: '48px',
+    fontSize: '11px',
+    fontWeight: 600,
+    textTransform: 'uppercase',
+    flexShrink: 0,
+  },
+  description: {
+    fontSize: '13px',
+    color: '#d4d4d4',
+  },
+  empty: {
+    fontSize: '13px',
+    color: '#808080',
+  },
+  error: {
+    fontSize: '13px',
+    color: '#f48771',
+    marginBottom: '8px',
+  },
+};
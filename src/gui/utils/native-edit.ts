@@ -0,0 +1,37 @@
+/**
+ * Native Edit Utilities
+ *
+ * The Edit menu's Undo/Redo act on the registry, except while the user is
+ * typing: then they go to the focused text field, or to the Draw.io
+ * webview, which keeps its own undo history.
+ */
+
+export type EditCommand = 'undo' | 'redo';
+
+/** Input types that hold no editable text */
+const NON_TEXT_INPUTS = new Set(['button', 'checkbox', 'color', 'file', 'radio', 'range', 'reset', 'submit']);
+
+/**
+ * Apply undo/redo to the focused element if it edits text natively.
+ *
+ * @returns true if the command was handled, false if it applies to the registry
+ */
+export function applyNativeEdit(command: EditCommand): boolean {
+  const element = document.activeElement;
+
+  if (element?.tagName === 'WEBVIEW') {
+    (element as HTMLElement & Record<EditCommand, () => void>)[command]();
+    return true;
+  }
+
+  const isTextField =
+    element instanceof HTMLTextAreaElement ||
+    (element instanceof HTMLInputElement && !NON_TEXT_INPUTS.has(element.type)) ||
+    (element instanceof HTMLElement && element.isContentEditable);
+  if (isTextField) {
+    document.execCommand(command);
+    return true;
+  }
+
+  return false;
+}
@@ -0,0 +1,18 @@
+/**
+ * Coverage Infrastructure Module
+ *
+ * Parses test coverage reports (Istanbul JSON, lcov, Node test runner text)
+ * into per-file line and function hit counts.
+ */
+
+// Type definitions
+export * from './schema.js';
+
+// Parser
+export {
+  detectCoverageFormat,
+  parseCoverageReport,
+  parseIstanbulJson,
+  parseLcov,
+  parseNodeCoverageText,
+} from './parser.js';
@@ -0,0 +1,130 @@
+/**
+ * Coverage Report Parser Tests
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+  detectCoverageFormat,
+  parseIstanbulJson,
+  parseLcov,
+  parseNodeCoverageText,
+} from './parser.js';
+
+describe('detectCoverageFormat', () => {
+  it('should detect each format', () => {
+    assert.strictEqual(detectCoverageFormat('{"/a.ts": {}}'), 'istanbul');
+    assert.strictEqual(detectCoverageFormat('TN:\nSF:/a.ts\nend_of_record'), 'lcov');
+    assert.strictEqual(detectCoverageFormat('# start of coverage report\n'), 'node');
+  });
+
+  it('should reject unknown content', () => {
+    assert.throws(() => detectCoverageFormat('hello'), /Unrecognized coverage report/);
+  });
+});
+
+describe('parseIstanbulJson', () => {
+  it('should collect statement lines and function hits', () => {
+    const [file] = parseIstanbulJson(
+      JSON.stringify({
+        '/src/auth.ts': {
+          path: '/src/auth.ts',
+          statementMap: {
+            '0': { start: { line: 3 }, end: { line: 3 } },
+            '1': { start: { line: 5 }, end: { line: 6 } },
+          },
+          s: { '0': 2, '1': 0 },
+          fnMap: {
+            '0': {
+              name: 'login',
+              decl: { start: { line: 4 }, end: { line: 4 } },
+              loc: { start: { line: 4 }, end: { line: 7 } },
+            },
+          },
+          f: { '0': 0 },
+        },
+      })
+    );
+
+    assert.strictEqual(file?.filePath, '/src/auth.ts');
+    assert.deepStrictEqual([...file.lines], [[3, 2], [5, 0]]);
+    assert.deepStrictEqual(file.functions, [{ name: 'login', line: 4, hits: 0 }]);
+  });
+});
+
+describe('parseLcov', () => {
+  it('should parse records', () => {
+    const files = parseLcov(
+      [
+        'TN:',
+        'SF:src/auth.ts',
+        'FN:4,login',
+        'FN:9,12,logout',
+        'FNDA:1,login',
+        'FNDA:0,logout',
+        'DA:4,1',
+        'DA:10,0',
+        'end_of_record',
+        'SF:src/logger.ts',
+        'DA:1,3',
+        'end_of_record',
+      ].join('\n')
+    );
+
+    assert.deepStrictEqual(
+      files.map((f) => f.filePath),
+      ['src/auth.ts', 'src/logger.ts']
+    );
+    assert.deepStrictEqual(files[0]?.functions, [
+      { name: 'login', line: 4, hits: 1 },
+      { name: 'logout', line: 9, hits: 0 },
+    ]);
+    assert.deepStrictEqual([...files[0]!.lines], [[4, 1], [10, 0]]);
+  });
+});
+
+describe('parseNodeCoverageText', () => {
+  it('should parse the flat layout', () => {
+    const files = parseNodeCoverageText(
+      [
+        '# start of coverage report',
+        '# --------------------------------------------------------',
+        '# file         | line % | branch % | funcs % | uncovered lines',
+        '# --------------------------------------------------------',
+        '# src/auth.js  |  75.00 |    50.00 |  100.00 | 3-5 9',
+        '# src/util.js  | 100.00 |   100.00 |  100.00 | ',
+        '# --------------------------------------------------------',
+        '# all files    |  80.00 |    60.00 |  100.00 |',
+        '# end of coverage report',
+      ].join('\n')
+    );
+
+    assert.deepStrictEqual(
+      files.map((f) => [f.filePath, [...f.lines.keys()], f.uncoveredOnly]),
+      [
+        ['src/auth.js', [3, 4, 5, 9], true],
+        ['src/util.js', [], true],
+      ]
+    );
+  });
+
+  it('should parse the tree layout', () => {
+    const files = parseNodeCoverageText(
+      [
+        'ℹ start of coverage report',
+        'ℹ file          | line % | branch % | funcs % | uncovered lines',
+        'ℹ src           |        |          |         |',
+        'ℹ  services     |        |          |         |',
+        'ℹ   auth.js     |  75.00 |    50.00 |  100.00 | 7',
+        'ℹ  index.js     | 100.00 |   100.00 |  100.00 |',
+        'ℹ all files     |  80.00 |    60.00 |  100.00 |',
+        'ℹ end of coverage report',
+      ].join('\n')
+    );
+
+    assert.deepStrictEqual(
+      files.map((f) => f.filePath),
+      ['src/services/auth.js', 'src/index.js']
+    );
+  });
+});
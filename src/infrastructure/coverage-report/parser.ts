@@ -0,0 +1,191 @@
+/**
+ * Coverage Report Parser
+ *
+ * Parses Istanbul JSON, lcov and Node test runner coverage reports into
+ * per-file line and function hit counts.
+ */
+
+import type { CoverageFormat, FileCoverage } from './schema.js';
+
+// ============================================================================
+// Format Detection
+// ============================================================================
+
+/**
+ * Detect the format of a coverage report from its content.
+ *
+ * @throws Error if the content is not a recognized coverage report
+ */
+export function detectCoverageFormat(content: string): CoverageFormat {
+  const trimmed = content.trimStart();
+  if (trimmed.startsWith('{')) return 'istanbul';
+  if (/^(TN|SF):/m.test(content)) return 'lcov';
+  if (content.includes('start of coverage report')) return 'node';
+  throw new Error('Unrecognized coverage report (expected Istanbul JSON, lcov or Node text)');
+}
+
+/**
+ * Parse a coverage report in the given (or detected) format.
+ */
+export function parseCoverageReport(content: string, format?: CoverageFormat): FileCoverage[] {
+  switch (format ?? detectCoverageFormat(content)) {
+    case 'istanbul':
+      return parseIstanbulJson(content);
+    case 'lcov':
+      return parseLcov(content);
+    case 'node':
+      return parseNodeCoverageText(content);
+  }
+}
+
+// ============================================================================
+// Istanbul JSON
+// ============================================================================
+
+interface IstanbulLocation {
+  start: { line: number };
+  end: { line: number };
+}
+
+interface IstanbulFileCoverage {
+  path?: string;
+  statementMap?: Record<string, IstanbulLocation>;
+  s?: Record<string, number>;
+  fnMap?: Record<string, { name: string; decl?: IstanbulLocation; loc: IstanbulLocation }>;
+  f?: Record<string, number>;
+}
+
+/**
+ * Parse Istanbul `coverage-final.json`.
+ * A statement's hits count for its first line.
+ */
+export function parseIstanbulJson(content: string): FileCoverage[] {
+  const report = JSON.parse(content) as Record<string, IstanbulFileCoverage>;
+
+  return Object.entries(report).map(([key, file]) => {
+    const lines = new Map<number, number>();
+    for (const [id, location] of Object.entries(file.statementMap ?? {})) {
+      const line = location.start.line;
+      lines.set(line, Math.max(lines.get(line) ?? 0, file.s?.[id] ?? 0));
+    }
+
+    const functions = Object.entries(file.fnMap ?? {}).map(([id, fn]) => ({
+      name: fn.name,
+      line: (fn.decl ?? fn.loc).start.line,
+      hits: file.f?.[id] ?? 0,
+    }));
+
+    return { filePath: file.path ?? key, lines, functions };
+  });
+}
+
+// ============================================================================
+// lcov
+// ============================================================================
+
+/**
+ * Parse an lcov tracefile (`SF`, `DA`, `FN`, `FNDA` and `end_of_record`).
+ */
+export function parseLcov(content: string): FileCoverage[] {
+  const files: FileCoverage[] = [];
+  let current: FileCoverage | null = null;
+  let functionLines = new Map<string, number>();
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const colon = line.indexOf(':');
+    const tag = colon === -1 ? line : line.slice(0, colon);
+    const value = line.slice(colon + 1);
+
+    if (tag === 'SF') {
+      current = { filePath: value, lines: new Map(), functions: [] };
+      functionLines = new Map();
+      files.push(current);
+    } else if (tag === 'end_of_record') {
+      current = null;
+    } else if (!current) {
+      continue;
+    } else if (tag === 'DA') {
+      const [lineNo, hits] = value.split(',');
+      current.lines.set(Number(lineNo), Number(hits));
+    } else if (tag === 'FN') {
+      // FN:<line>,<name> or FN:<start>,<end>,<name>
+      const parts = value.split(',');
+      functionLines.set(parts[parts.length - 1]!, Number(parts[0]));
+    } else if (tag === 'FNDA') {
+      const comma = value.indexOf(',');
+      const name = value.slice(comma + 1);
+      current.functions.push({
+        name,
+        line: functionLines.get(name) ?? 0,
+        hits: Number(value.slice(0, comma)),
+      });
+    }
+  }
+
+  return files;
+}
+
+// ============================================================================
+// Node Test Runner Text Report
+// ============================================================================
+
+/**
+ * Parse the coverage table printed by `node --test --experimental-test-coverage`.
+ *
+ * Handles both the flat layout (one path per row) and the tree layout
+ * (directory rows without numbers, files indented below them). Only
+ * uncovered lines are listed, so files are marked `uncoveredOnly`.
+ */
+export function parseNodeCoverageText(content: string): FileCoverage[] {
+  const files: FileCoverage[] = [];
+  const directories: Array<{ indent: number; name: string }> = [];
+  let inReport = false;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    // Strip the TAP ("# ") or spec reporter ("ℹ ") prefix
+    const line = rawLine.replace(/^\s*(#|ℹ)\s?/, '');
+
+    if (line.includes('start of coverage report')) {
+      inReport = true;
+      continue;
+    }
+    if (line.includes('end of coverage report')) break;
+    if (!inReport) continue;
+
+    const cells = line.split('|');
+    if (cells.length < 5) continue;
+
+    const nameCell = cells[0]!.trimEnd();
+    const name = nameCell.trim();
+    if (name === '' || name === 'file' || name === 'all files') continue;
+
+    const indent = nameCell.length - nameCell.trimStart().length;
+    while (directories.length > 0 && directories[directories.length - 1]!.indent >= indent) {
+      directories.pop();
+    }
+
+    const isDirectory = cells.slice(1, 4).every((cell) => cell.trim() === '');
+    if (isDirectory) {
+      directories.push({ indent, name });
+      continue;
+    }
+
+    const lines = new Map<number, number>();
+    for (const range of (cells[4] ?? '').trim().split(/\s+/).filter(Boolean)) {
+      const [start, end = start] = range.split('-').map(Number);
+      for (let n = start!; n <= end!; n++) {
+        lines.set(n, 0);
+      }
+    }
+
+    files.push({
+      filePath: [...directories.map((d) => d.name), name].join('/'),
+      lines,
+      functions: [],
+      uncoveredOnly: true,
+    });
+  }
+
+  return files;
+}
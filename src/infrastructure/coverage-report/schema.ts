@@ -0,0 +1,43 @@
+/**
+ * Coverage Report Schema
+ *
+ * Format-independent model of a parsed test coverage report.
+ */
+
+// =============================================================================
+// Report Formats
+// =============================================================================
+
+/**
+ * Supported coverage report formats.
+ *
+ * - istanbul: `coverage-final.json` (nyc, c8, Jest)
+ * - lcov: `lcov.info` (also `node --test --test-reporter=lcov`)
+ * - node: text table printed by `node --test --experimental-test-coverage`
+ */
+export type CoverageFormat = 'istanbul' | 'lcov' | 'node';
+
+/**
+ * Hit count of a function declared at a line.
+ */
+export interface FunctionCoverage {
+  name: string;
+  line: number;
+  hits: number;
+}
+
+/**
+ * Coverage of one source file, normalized across formats.
+ */
+export interface FileCoverage {
+  /** Path as written in the report (absolute or relative to the project root) */
+  filePath: string;
+  /** Executable line → hit count */
+  lines: Map<number, number>;
+  functions: FunctionCoverage[];
+  /**
+   * Only uncovered lines are known (Node's text report): `lines` holds them
+   * with zero hits. Every other line either ran or holds no code.
+   */
+  uncoveredOnly?: boolean;
+}
@@ -1,8 +1,9 @@
 /**
  * Draw.io Infrastructure Module
  *
- * Provides parsing capabilities for Draw.io XML files.
- * Used to extract architectural diagrams into structured data.
+ * Provides parsing and writing of Draw.io XML files.
+ * Used to extract architectural diagrams into structured data and to
+ * render the symbol table back out as diagrams.
  */
 
 // Schema exports (types and Zod schemas)
@@ -36,6 +37,9 @@ export {
 // Parser exports (other functions are internal utilities)
 export { parseDrawioXml } from './parser.js';
 
+// Writer exports
+export { writeDrawioXml } from './writer.js';
+
 // Constants exports
 export {
   DEFAULT_ELEMENT_WIDTH,
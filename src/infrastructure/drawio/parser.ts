@@ -58,6 +58,8 @@ interface RawObject extends RawMxCell {
   'cyrus-type'?: string;
   'cyrus-kind'?: string;
   'cyrus-optional'?: string;
+  'cyrus-sourceLabel'?: string;
+  'cyrus-targetLabel'?: string;
   'cyrus-version'?: string;
   [key: string]: string | boolean | number | object | undefined;
 }
@@ -400,6 +402,8 @@ function parseRelationship(obj: RawObject): DiagramRelationship | null {
     waypoints: waypoints.length > 0 ? waypoints : undefined,
     style,
     label: obj.label ?? obj.value,
+    sourceLabel: obj['cyrus-sourceLabel'],
+    targetLabel: obj['cyrus-targetLabel'],
   };
 }
 
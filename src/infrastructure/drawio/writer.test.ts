@@ -0,0 +1,145 @@
+/**
+ * Draw.io Writer Tests
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { toStyleString, writeDrawioXml } from './writer.js';
+import { parseStyleString, parseDrawioXml } from './parser.js';
+import type { Diagram, ElementStyle } from './schema.js';
+
+function diagram(overrides: Partial<Diagram> = {}): Diagram {
+  return {
+    id: 'd1',
+    name: 'Registry',
+    diagramType: 'architecture',
+    elements: [],
+    relationships: [],
+    version: '1.0.0',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('toStyleString', () => {
+  const cases: Array<[string, ElementStyle]> = [
+    ['empty', {}],
+    ['colors', { fillColor: '#4ec9b0', strokeColor: '#000000', fontColor: '#1e1e1e' }],
+    ['flags', { dashed: true, rounded: false }],
+    ['font', { fontSize: 14, fontStyle: 'italic' }],
+    ['shape and opacity', { shape: 'cylinder', opacity: 50 }],
+  ];
+
+  for (const [description, style] of cases) {
+    it(`should round-trip ${description} through parseStyleString`, () => {
+      assert.deepStrictEqual(parseStyleString(toStyleString(style)), style);
+    });
+  }
+});
+
+describe('writeDrawioXml', () => {
+  const source = diagram({
+    elements: [
+      {
+        id: 'auth/AuthService@1.0.0',
+        symbolId: 'auth/AuthService@1.0.0',
+        type: 'service',
+        stereotype: 'service',
+        level: 'L1',
+        position: { x: 0, y: 160 },
+        size: { width: 160, height: 60 },
+        style: { rounded: true, fillColor: '#4ec9b0' },
+        name: 'AuthService',
+      },
+      {
+        id: 'db',
+        type: 'database',
+        level: 'infra',
+        position: { x: 200, y: 160 },
+        size: { width: 80, height: 80 },
+        style: { shape: 'cylinder' },
+        name: 'Users & Roles',
+        customProperties: { 'cyrus-owner': 'platform' },
+      },
+    ],
+    relationships: [
+      {
+        id: 'r1',
+        sourceId: 'auth/AuthService@1.0.0',
+        targetId: 'db',
+        type: 'dependency',
+        injectionKind: 'property',
+        optional: true,
+        label: 'users',
+        targetLabel: '*',
+        style: { dashed: true },
+        waypoints: [{ x: 100, y: 100 }],
+      },
+    ],
+  });
+
+  it('should read back elements with the same classification and binding', () => {
+    const parsed = parseDrawioXml(writeDrawioXml(source));
+
+    assert.strictEqual(parsed.id, 'd1');
+    assert.strictEqual(parsed.name, 'Registry');
+    assert.strictEqual(parsed.elements.length, 2);
+
+    const [svc, db] = parsed.elements;
+    assert.strictEqual(svc?.id, 'auth/AuthService@1.0.0');
+    assert.strictEqual(svc?.symbolId, 'auth/AuthService@1.0.0');
+    assert.strictEqual(svc?.type, 'service');
+    assert.strictEqual(svc?.level, 'L1');
+    assert.deepStrictEqual(svc?.style, { rounded: true, fillColor: '#4ec9b0' });
+    assert.deepStrictEqual(svc?.position, { x: 0, y: 160 });
+    assert.deepStrictEqual(svc?.size, { width: 160, height: 60 });
+
+    assert.strictEqual(db?.type, 'database');
+    assert.strictEqual(db?.customProperties?.['cyrus-owner'], 'platform');
+  });
+
+  it('should read back relationships with the same type and injection', () => {
+    const parsed = parseDrawioXml(writeDrawioXml(source));
+
+    assert.strictEqual(parsed.relationships.length, 1);
+    const rel = parsed.relationships[0];
+    assert.strictEqual(rel?.id, 'r1');
+    assert.strictEqual(rel?.sourceId, 'auth/AuthService@1.0.0');
+    assert.strictEqual(rel?.targetId, 'db');
+    assert.strictEqual(rel?.type, 'dependency');
+    assert.strictEqual(rel?.injectionKind, 'property');
+    assert.strictEqual(rel?.optional, true);
+    assert.strictEqual(rel?.label, 'users');
+    assert.strictEqual(rel?.targetLabel, '*');
+    assert.deepStrictEqual(rel?.style, { dashed: true });
+  });
+
+  it('should escape XML special characters', () => {
+    const xml = writeDrawioXml(source);
+
+    assert.ok(xml.includes('label="Users &amp; Roles"'));
+    assert.ok(!xml.includes('Users & Roles'));
+  });
+
+  it('should write edge-only style keys that the parser ignores', () => {
+    const xml = writeDrawioXml(
+      diagram({
+        elements: source.elements,
+        relationships: [
+          {
+            id: 'r2',
+            sourceId: 'db',
+            targetId: 'auth/AuthService@1.0.0',
+            type: 'extends',
+          },
+        ],
+      })
+    );
+    const parsed = parseDrawioXml(xml);
+
+    assert.ok(xml.includes('endArrow=block'));
+    assert.strictEqual(parsed.relationships[0]?.type, 'extends');
+    assert.deepStrictEqual(parsed.relationships[0]?.style, {});
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Draw.io XML Writer
+ *
+ * Serializes Diagram objects into Draw.io XML files.
+ * Output is the inverse of parseDrawioXml: styles, cyrus-* properties and
+ * cell IDs read back to the same values.
+ */
+
+import type {
+  Diagram,
+  DiagramElement,
+  DiagramRelationship,
+  ElementStyle,
+} from './schema.js';
+
+/**
+ * Draw.io-only style keys added for rendering.
+ * These are ignored by parseStyleString and do not affect round-trips.
+ */
+const VERTEX_BASE_STYLE = 'whiteSpace=wrap;html=1';
+const EDGE_BASE_STYLE = 'html=1;edgeStyle=orthogonalEdgeStyle';
+
+/**
+ * Arrow heads per relationship type (UML notation).
+ */
+const EDGE_ARROWS: Partial<Record<DiagramRelationship['type'], string>> = {
+  extends: 'endArrow=block;endFill=0',
+  implements: 'endArrow=block;endFill=0',
+  composition: 'startArrow=diamondThin;startFill=1;endArrow=none',
+  aggregation: 'startArrow=diamondThin;startFill=0;endArrow=none',
+  contains: 'startArrow=oval;startFill=0;endArrow=none',
+};
+
+/**
+ * Serialize structured style properties into a Draw.io style string.
+ *
+ * Inverse of parseStyleString: `parseStyleString(toStyleString(s))` equals `s`.
+ */
+export function toStyleString(style: ElementStyle): string {
+  const parts: string[] = [];
+
+  if (style.shape) parts.push(`shape=${style.shape}`);
+  if (style.rounded !== undefined) parts.push(`rounded=${style.rounded ? 1 : 0}`);
+  if (style.dashed !== undefined) parts.push(`dashed=${style.dashed ? 1 : 0}`);
+  if (style.fillColor) parts.push(`fillColor=${style.fillColor}`);
+  if (style.strokeColor) parts.push(`strokeColor=${style.strokeColor}`);
+  if (style.fontColor) parts.push(`fontColor=${style.fontColor}`);
+  if (style.fontSize !== undefined) parts.push(`fontSize=${style.fontSize}`);
+  if (style.fontStyle) {
+    const code = style.fontStyle === 'bold' ? 1 : style.fontStyle === 'italic' ? 2 : 0;
+    parts.push(`fontStyle=${code}`);
+  }
+  if (style.opacity !== undefined) parts.push(`opacity=${style.opacity}`);
+
+  return parts.join(';');
+}
+
+/**
+ * Serialize a Diagram into Draw.io XML.
+ *
+ * Every element and relationship is written as an `<object>` wrapper so
+ * cyrus-* metadata (symbol bindings, stereotypes, levels) survives a
+ * round-trip through Draw.io and parseDrawioXml.
+ *
+ * @param diagram Diagram to serialize
+ * @returns XML string for a .drawio file
+ */
+export function writeDrawioXml(diagram: Diagram): string {
+  const cells = [
+    ...diagram.elements.map(writeElement),
+    ...diagram.relationships.map(writeRelationship),
+  ];
+
+  return [
+    '<mxfile host="cyrus-code">',
+    `  <diagram id="${escapeXml(diagram.id)}" name="${escapeXml(diagram.name)}">`,
+    '    <mxGraphModel>',
+    '      <root>',
+    '        <mxCell id="0"/>',
+    '        <mxCell id="1" parent="0"/>',
+    ...cells.map((cell) => indent(cell, 8)),
+    '      </root>',
+    '    </mxGraphModel>',
+    '  </diagram>',
+    '</mxfile>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Serialize a shape element.
+ */
+function writeElement(element: DiagramElement): string {
+  const attrs: Record<string, string | undefined> = {
+    label: element.name,
+    ...element.customProperties,
+    'cyrus-stereotype': element.stereotype ?? element.type,
+    'cyrus-level': element.level,
+    'cyrus-symbolId': element.symbolId,
+    'cyrus-templateRef': element.templateRef,
+    id: element.id,
+  };
+
+  const style = joinStyle(VERTEX_BASE_STYLE, toStyleString(element.style));
+  const { x, y } = element.position;
+  const { width, height } = element.size;
+
+  return [
+    `<object ${formatAttributes(attrs)}>`,
+    `  <mxCell style="${escapeXml(style)}" vertex="1" parent="${escapeXml(element.parentId ?? '1')}">`,
+    `    <mxGeometry x="${x}" y="${y}" width="${width}" height="${height}" as="geometry"/>`,
+    '  </mxCell>',
+    '</object>',
+  ].join('\n');
+}
+
+/**
+ * Serialize a relationship edge.
+ */
+function writeRelationship(rel: DiagramRelationship): string {
+  const attrs: Record<string, string | undefined> = {
+    label: rel.label ?? '',
+    'cyrus-type': rel.type,
+    'cyrus-kind': rel.injectionKind,
+    'cyrus-optional': rel.optional ? 'true' : undefined,
+    'cyrus-sourceLabel': rel.sourceLabel,
+    'cyrus-targetLabel': rel.targetLabel,
+    id: rel.id,
+  };
+
+  const style = joinStyle(EDGE_BASE_STYLE, EDGE_ARROWS[rel.type], toStyleString(rel.style ?? {}));
+  const points = rel.waypoints ?? [];
+  const geometry =
+    points.length > 0
+      ? [
+          '    <mxGeometry relative="1" as="geometry">',
+          '      <Array as="points">',
+          ...points.map((p) => `        <mxPoint x="${p.x}" y="${p.y}"/>`),
+          '      </Array>',
+          '    </mxGeometry>',
+        ]
+      : ['    <mxGeometry relative="1" as="geometry"/>'];
+
+  return [
+    `<object ${formatAttributes(attrs)}>`,
+    `  <mxCell style="${escapeXml(style)}" edge="1" parent="1" source="${escapeXml(rel.sourceId)}" target="${escapeXml(rel.targetId)}">`,
+    ...geometry,
+    '  </mxCell>',
+    '</object>',
+  ].join('\n');
+}
+
+/**
+ * Join style fragments, skipping empty ones.
+ */
+function joinStyle(...fragments: Array<string | undefined>): string {
+  return `${fragments.filter((f) => f).join(';')};`;
+}
+
+/**
+ * Format XML attributes, skipping undefined values.
+ */
+function formatAttributes(attrs: Record<string, string | undefined>): string {
+  return Object.entries(attrs)
+    .filter((entry): entry is [string, string] => entry[1] !== undefined)
+    .map(([key, value]) => `${key}="${escapeXml(value)}"`)
+    .join(' ');
+}
+
+/**
+ * Escape a value for use in an XML attribute.
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Indent every line of a block.
+ */
+function indent(block: string, spaces: number): string {
+  const pad = ' '.repeat(spaces);
+  return block
+    .split('\n')
+    .map((line) => pad + line)
+    .join('\n');
+}
@@ -5,4 +5,4 @@
  */
 
 export { fileExists, ensureDirectory, writeFile, readFile } from './file-operations.js';
-export { getGeneratedPaths } from './path-resolver.js';
+export { getGeneratedPaths, getContractTestPath } from './path-resolver.js';
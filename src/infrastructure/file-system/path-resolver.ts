@@ -25,3 +25,20 @@ export function getGeneratedPaths(
 
   return { generatedPath, implementationPath, directory };
 }
+
+/**
+ * Get the contract test path for a generated component.
+ * The spec sits next to the implementation it tests.
+ *
+ * @param className - Sanitized class name
+ * @param namespace - Component namespace (e.g., 'auth/jwt')
+ * @param outputDir - Base output directory
+ */
+export function getContractTestPath(
+  className: string,
+  namespace: string,
+  outputDir: string
+): string {
+  const directory = namespace ? path.join(outputDir, namespace) : outputDir;
+  return path.join(directory, `${className}.contract.test.ts`);
+}
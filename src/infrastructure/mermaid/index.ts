@@ -6,4 +6,4 @@
  */
 
 // Parser (primary API - other functions are internal utilities)
-export { parseMermaidText } from './parser.js';
+export { parseMermaidText, parseCyrusDirectives } from './parser.js';
@@ -14,6 +14,10 @@ import {
   parseEdgeDefinition,
   detectDiagramType,
   parseMermaidText,
+  parseCyrusDirectives,
+  parseClassMember,
+  parseClassRelationship,
+  inferShapeTypeFromC4,
 } from './parser.js';
 
 describe('parseCyrusComment', () => {
@@ -546,3 +550,201 @@ flowchart TD
     assert.strictEqual(impl.type, 'implements');
   });
 });
+
+describe('parseCyrusDirectives', () => {
+  it('collects key=value pairs from cyrus directives', () => {
+    const text = `
+%% cyrus: namespace=auth version=1.2.0
+%% cyrus: tags=auth,core
+flowchart TD
+    %% cyrus-level: L1
+    A[Auth]
+    `;
+    assert.deepStrictEqual(parseCyrusDirectives(text), {
+      namespace: 'auth',
+      version: '1.2.0',
+      tags: 'auth,core',
+    });
+  });
+
+  it('ignores cyrus-* node comments', () => {
+    assert.deepStrictEqual(parseCyrusDirectives('%% cyrus-level: L1'), {});
+  });
+});
+
+describe('parseClassMember', () => {
+  it('parses methods with TypeScript-style parameters', () => {
+    const member = parseClassMember('+login(user: string, password: string) Promise~Token~');
+
+    assert.ok(member);
+    assert.strictEqual(member.name, 'login');
+    assert.strictEqual(member.visibility, 'public');
+    assert.deepStrictEqual(member.parameters, [
+      { name: 'user', type: 'string' },
+      { name: 'password', type: 'string' },
+    ]);
+    assert.strictEqual(member.returnType, 'Promise<Token>');
+  });
+
+  it('parses static and abstract classifiers', () => {
+    assert.strictEqual(parseClassMember('-create()$ Foo')?.isStatic, true);
+    assert.strictEqual(parseClassMember('#run()* void')?.isAbstract, true);
+    assert.strictEqual(parseClassMember('#run()* void')?.visibility, 'protected');
+  });
+
+  it('parses fields in both notations', () => {
+    assert.deepStrictEqual(parseClassMember('-repo: UserRepository'), {
+      name: 'repo',
+      type: 'UserRepository',
+      visibility: 'private',
+    });
+    assert.deepStrictEqual(parseClassMember('+String email'), {
+      name: 'email',
+      type: 'String',
+      visibility: 'public',
+    });
+  });
+});
+
+describe('parseClassRelationship', () => {
+  it('reverses inheritance arrows pointing at the base', () => {
+    const context = { pendingProperties: {}, nodeCounter: 0, edgeCounter: 0 };
+    const rel = parseClassRelationship('Animal <|-- Dog', context);
+
+    assert.ok(rel);
+    assert.strictEqual(rel.sourceId, 'Dog');
+    assert.strictEqual(rel.targetId, 'Animal');
+    assert.strictEqual(rel.type, 'extends');
+  });
+
+  it('parses composition with cardinality and label', () => {
+    const context = { pendingProperties: {}, nodeCounter: 0, edgeCounter: 0 };
+    const rel = parseClassRelationship('Order "1" *-- "*" LineItem : items', context);
+
+    assert.ok(rel);
+    assert.strictEqual(rel.sourceId, 'Order');
+    assert.strictEqual(rel.targetId, 'LineItem');
+    assert.strictEqual(rel.type, 'composition');
+    assert.strictEqual(rel.targetLabel, '*');
+    assert.strictEqual(rel.label, 'items');
+  });
+
+  it('applies pending cyrus-kind', () => {
+    const context = {
+      pendingProperties: { 'cyrus-kind': 'property' },
+      nodeCounter: 0,
+      edgeCounter: 0,
+    };
+    const rel = parseClassRelationship('Service ..> Logger', context);
+
+    assert.ok(rel);
+    assert.strictEqual(rel.type, 'dependency');
+    assert.strictEqual(rel.injectionKind, 'property');
+  });
+});
+
+describe('inferShapeTypeFromC4', () => {
+  it('maps C4 macros to shape types', () => {
+    assert.strictEqual(inferShapeTypeFromC4('Person'), 'actor');
+    assert.strictEqual(inferShapeTypeFromC4('System_Ext'), 'external');
+    assert.strictEqual(inferShapeTypeFromC4('ContainerDb'), 'database');
+    assert.strictEqual(inferShapeTypeFromC4('Container_Boundary'), 'module');
+    assert.strictEqual(inferShapeTypeFromC4('Component'), 'service');
+    assert.strictEqual(inferShapeTypeFromC4('Enterprise_Boundary'), null);
+  });
+});
+
+describe('parseMermaidText (flowchart inline nodes)', () => {
+  it('creates elements for nodes declared only in edges', () => {
+    const text = `
+flowchart TD
+    A([AuthService]) --> B[Repository]
+    B --> C
+    `;
+    const result = parseMermaidText(text);
+
+    assert.deepStrictEqual(
+      result.elements.map((e) => [e.id, e.name, e.type]),
+      [
+        ['A', 'AuthService', 'service'],
+        ['B', 'Repository', 'class'],
+        ['C', 'C', 'class'],
+      ]
+    );
+  });
+});
+
+describe('parseMermaidText (classDiagram)', () => {
+  it('parses classes, annotations, members and relationships', () => {
+    const text = `
+classDiagram
+    %% cyrus-namespace: auth
+    class AuthService {
+        <<service>>
+        -repo: UserRepository
+        +login(user: string) Promise~Token~
+    }
+    class IUserRepository
+    <<interface>> IUserRepository
+    IUserRepository <|.. UserRepository
+    AuthService --> IUserRepository : repo
+    UserRepository : +findById(id: string) User
+    `;
+    const result = parseMermaidText(text);
+
+    assert.strictEqual(result.diagramType, 'class');
+    assert.deepStrictEqual(
+      result.elements.map((e) => [e.id, e.type, e.level]),
+      [
+        ['AuthService', 'service', 'L1'],
+        ['IUserRepository', 'interface', 'L0'],
+        ['UserRepository', 'class', 'L1'],
+      ]
+    );
+
+    const auth = result.elements[0]!;
+    assert.strictEqual(auth.members?.length, 2);
+    assert.strictEqual(auth.customProperties?.['cyrus-namespace'], 'auth');
+    assert.strictEqual(result.elements[2]!.members?.[0]?.name, 'findById');
+
+    const impl = result.relationships.find((r) => r.type === 'implements');
+    assert.ok(impl);
+    assert.strictEqual(impl.sourceId, 'UserRepository');
+    assert.strictEqual(impl.targetId, 'IUserRepository');
+  });
+});
+
+describe('parseMermaidText (C4)', () => {
+  it('parses elements, boundaries and relationships', () => {
+    const text = `
+C4Component
+    title Auth components
+    Person(user, "User")
+    Container_Boundary(api, "API Application") {
+        Component(auth, "Auth Service", "TypeScript", "Issues tokens")
+        ComponentDb(db, "Token Store")
+    }
+    Rel(user, auth, "Logs in")
+    Rel_Back(db, auth, "Stores tokens")
+    `;
+    const result = parseMermaidText(text);
+
+    assert.strictEqual(result.c4Level, 'component');
+    assert.deepStrictEqual(
+      result.elements.map((e) => [e.id, e.type, e.parentId]),
+      [
+        ['user', 'actor', undefined],
+        ['api', 'module', undefined],
+        ['auth', 'service', 'api'],
+        ['db', 'database', 'api'],
+      ]
+    );
+    assert.strictEqual(result.elements[2]!.name, 'Auth Service');
+    assert.strictEqual(result.elements[2]!.description, 'Issues tokens');
+
+    const back = result.relationships[1]!;
+    assert.strictEqual(back.sourceId, 'auth');
+    assert.strictEqual(back.targetId, 'db');
+    assert.strictEqual(back.type, 'dependency');
+  });
+});
@@ -2,7 +2,7 @@
  * Mermaid Parser
  *
  * Parses Mermaid diagram text into structured Diagram objects.
- * Supports flowchart and C4 diagram syntax with cyrus-* custom properties.
+ * Supports flowchart, classDiagram and C4 syntax with cyrus-* custom properties.
  */
 
 import type {
@@ -12,6 +12,8 @@ import type {
   DiagramLevel,
   ShapeType,
   RelationshipType,
+  InjectionKind,
+  MemberDefinition,
   Position,
   Size,
 } from '../drawio/schema.js';
@@ -43,6 +45,34 @@ export function parseCyrusComment(line: string): Record<string, string> | null {
   return { [`cyrus-${key}`]: value };
 }
 
+/**
+ * Parse diagram-wide `%% cyrus:` directives.
+ *
+ * Format: %% cyrus: key=value key=value
+ * Example: %% cyrus: namespace=auth version=1.2.0 tags=auth,core
+ *
+ * Later directives override earlier ones for the same key.
+ */
+export function parseCyrusDirectives(text: string): Record<string, string> {
+  const directives: Record<string, string> = {};
+
+  for (const line of text.split('\n')) {
+    const match = line.match(/^\s*%%\s*cyrus:\s*(.+)$/);
+    if (!match?.[1]) continue;
+
+    for (const pair of match[1].trim().split(/\s+/)) {
+      const eq = pair.indexOf('=');
+      if (eq <= 0) continue;
+      const value = pair.slice(eq + 1).trim();
+      if (value) {
+        directives[pair.slice(0, eq)] = value;
+      }
+    }
+  }
+
+  return directives;
+}
+
 /**
  * Infer ShapeType from Mermaid node shape syntax.
  *
@@ -336,26 +366,13 @@ export function parseNodeDefinition(
   const label = extractNodeLabel(shapeWrapper);
 
   // Calculate position based on node order (simple grid layout)
-  const row = Math.floor(context.nodeCounter / 4);
-  const col = context.nodeCounter % 4;
-  const position: Position = {
-    x: 100 + col * 150,
-    y: 100 + row * 100,
-  };
+  const position = gridPosition(context.nodeCounter);
 
   const size: Size = {
     width: 120,
     height: 60,
   };
 
-  // Collect custom properties
-  const customProperties: Record<string, string> = {};
-  for (const [key, value] of Object.entries(context.pendingProperties)) {
-    if (key.startsWith('cyrus-')) {
-      customProperties[key] = value;
-    }
-  }
-
   const element: DiagramElement = {
     id: nodeId,
     symbolId: context.pendingProperties['cyrus-symbolId'],
@@ -367,8 +384,7 @@ export function parseNodeDefinition(
     size,
     style: {},
     name: label,
-    customProperties:
-      Object.keys(customProperties).length > 0 ? customProperties : undefined,
+    customProperties: collectCustomProperties(context.pendingProperties),
   };
 
   // Clear pending properties after use
@@ -420,6 +436,7 @@ export function parseEdgeDefinition(
     context.pendingProperties['cyrus-type']
   );
   const label = inlineLabel?.trim() || suffixLabel?.trim();
+  const injectionKind = parseInjectionKind(context.pendingProperties['cyrus-kind']);
 
   const relationship: DiagramRelationship = {
     id: `edge-${context.edgeCounter}`,
@@ -428,6 +445,7 @@ export function parseEdgeDefinition(
     type: relType,
     label,
     optional: context.pendingProperties['cyrus-optional'] === 'true',
+    ...(injectionKind ? { injectionKind } : {}),
   };
 
   // Clear pending properties after use
@@ -463,29 +481,77 @@ export function detectDiagramType(
 }
 
 /**
- * Parse complete Mermaid text into Diagram structure.
- *
- * @param text Raw Mermaid diagram text
- * @param name Optional diagram name
- * @returns Parsed Diagram object
+ * Elements and relationships parsed from diagram body lines.
  */
-export function parseMermaidText(text: string, name?: string): Diagram {
-  const lines = text.split('\n');
-  const elements: DiagramElement[] = [];
-  const relationships: DiagramRelationship[] = [];
+interface ParsedContent {
+  elements: DiagramElement[];
+  relationships: DiagramRelationship[];
+}
 
-  const context: ParseContext = {
-    pendingProperties: {},
-    nodeCounter: 0,
-    edgeCounter: 0,
+/**
+ * Parse a `cyrus-kind` value into a dependency injection kind.
+ */
+function parseInjectionKind(value?: string): InjectionKind | undefined {
+  if (value === 'constructor' || value === 'property' || value === 'method') {
+    return value;
+  }
+  return undefined;
+}
+
+/**
+ * Grid position for the nth node (Mermaid text carries no layout).
+ */
+function gridPosition(index: number): Position {
+  const row = Math.floor(index / 4);
+  const col = index % 4;
+  return {
+    x: 100 + col * 150,
+    y: 100 + row * 100,
   };
+}
 
-  // Track nodes we've seen to distinguish node defs from edge refs
-  const seenNodes = new Set<string>();
+/**
+ * Collect cyrus-* properties for an element.
+ */
+function collectCustomProperties(
+  properties: Record<string, string>
+): Record<string, string> | undefined {
+  const customProperties: Record<string, string> = {};
+  for (const [key, value] of Object.entries(properties)) {
+    if (key.startsWith('cyrus-')) {
+      customProperties[key] = value;
+    }
+  }
+  return Object.keys(customProperties).length > 0 ? customProperties : undefined;
+}
 
-  // Detect diagram type from first non-empty line
-  const firstLine = lines.find((l) => l.trim().length > 0) ?? '';
-  const diagramType = detectDiagramType(firstLine);
+// ============================================================================
+// Flowchart
+// ============================================================================
+
+/**
+ * Extract source and target node IDs (with optional inline shapes) from an edge line.
+ */
+function parseEdgeEndpoints(line: string): Array<{ id: string; wrapper: string | undefined }> {
+  const nodePattern = '(\\w+)(\\[[^\\]]*\\]|\\([^)]*\\)|\\{[^}]*\\}|>[^\\]]*\\])?';
+  const arrowPattern = '(?:-->|-.->|-\\.->|==>|--o|--\\*|--\\|>|\\.\\.\\|>|---)';
+  const match = line.match(
+    new RegExp(`^\\s*${nodePattern}\\s*${arrowPattern}\\s*(?:\\|[^|]+\\|)?\\s*${nodePattern}`)
+  );
+  if (!match?.[1] || !match[3]) return [];
+
+  return [
+    { id: match[1], wrapper: match[2] },
+    { id: match[3], wrapper: match[4] },
+  ];
+}
+
+function parseFlowchartLines(lines: string[], context: ParseContext): ParsedContent {
+  const elements: DiagramElement[] = [];
+  const relationships: DiagramRelationship[] = [];
+
+  // Shapes written inline in edges (A[Label] --> B), by node ID
+  const inlineNodes = new Map<string, string | undefined>();
 
   for (const line of lines) {
     const trimmed = line.trim();
@@ -494,9 +560,7 @@ export function parseMermaidText(text: string, name?: string): Diagram {
     if (!trimmed) continue;
     if (
       trimmed.toLowerCase().startsWith('flowchart') ||
-      trimmed.toLowerCase().startsWith('graph') ||
-      trimmed.toLowerCase().startsWith('classdiagram') ||
-      trimmed.toLowerCase().startsWith('c4')
+      trimmed.toLowerCase().startsWith('graph')
     ) {
       continue;
     }
@@ -528,12 +592,10 @@ export function parseMermaidText(text: string, name?: string): Diagram {
     // Try parsing as edge first (has higher specificity)
     const edge = parseEdgeDefinition(trimmed, context);
     if (edge) {
-      // Add source/target as nodes if not seen
-      if (!seenNodes.has(edge.sourceId)) {
-        seenNodes.add(edge.sourceId);
-      }
-      if (!seenNodes.has(edge.targetId)) {
-        seenNodes.add(edge.targetId);
+      for (const endpoint of parseEdgeEndpoints(trimmed)) {
+        if (!inlineNodes.get(endpoint.id)) {
+          inlineNodes.set(endpoint.id, endpoint.wrapper);
+        }
       }
       relationships.push(edge);
       continue;
@@ -542,12 +604,523 @@ export function parseMermaidText(text: string, name?: string): Diagram {
     // Try parsing as node definition
     const node = parseNodeDefinition(trimmed, context);
     if (node) {
-      seenNodes.add(node.id);
       elements.push(node);
       continue;
     }
   }
 
+  // Nodes that only appear in edges are declared implicitly by Mermaid
+  context.pendingProperties = {};
+  const declared = new Set(elements.map((e) => e.id));
+  for (const [id, wrapper] of inlineNodes) {
+    if (declared.has(id)) continue;
+    const node = parseNodeDefinition(`${id}${wrapper ?? `[${id}]`}`, context);
+    if (node) elements.push(node);
+  }
+
+  return { elements, relationships };
+}
+
+// ============================================================================
+// Class Diagram
+// ============================================================================
+
+/**
+ * Class diagram arrows → relationship type.
+ * `reversed` arrows point from target to source (e.g. `Base <|-- Derived`).
+ */
+const CLASS_RELATIONS: Record<string, { type: RelationshipType; reversed: boolean }> = {
+  '<|--': { type: 'extends', reversed: true },
+  '--|>': { type: 'extends', reversed: false },
+  '<|..': { type: 'implements', reversed: true },
+  '..|>': { type: 'implements', reversed: false },
+  '*--': { type: 'composition', reversed: false },
+  '--*': { type: 'composition', reversed: true },
+  'o--': { type: 'aggregation', reversed: false },
+  '--o': { type: 'aggregation', reversed: true },
+  '-->': { type: 'dependency', reversed: false },
+  '<--': { type: 'dependency', reversed: true },
+  '..>': { type: 'dependency', reversed: false },
+  '<..': { type: 'dependency', reversed: true },
+  '--': { type: 'association', reversed: false },
+  '..': { type: 'association', reversed: false },
+};
+
+/**
+ * Class diagram annotations that differ from cyrus stereotypes.
+ */
+const ANNOTATION_TO_STEREOTYPE: Record<string, string> = {
+  enumeration: 'enum',
+};
+
+/**
+ * A class collected while parsing a class diagram.
+ */
+interface ClassEntry {
+  id: string;
+  label: string;
+  annotation: string | undefined;
+  properties: Record<string, string>;
+  members: MemberDefinition[];
+}
+
+/**
+ * Convert Mermaid generics (List~string~) to TypeScript syntax (List<string>).
+ */
+function convertGenerics(type: string): string {
+  return type.replace(/~([^~]+)~/g, '<$1>');
+}
+
+/**
+ * Parse "name: Type" or Java-style "Type name".
+ */
+function parseTypedName(text: string): { name: string; type: string } {
+  const trimmed = text.trim();
+  const colon = trimmed.indexOf(':');
+  if (colon > 0) {
+    return {
+      name: trimmed.slice(0, colon).trim(),
+      type: convertGenerics(trimmed.slice(colon + 1).trim()) || 'unknown',
+    };
+  }
+
+  const parts = trimmed.split(/\s+/);
+  if (parts.length >= 2) {
+    return {
+      name: parts[parts.length - 1] ?? trimmed,
+      type: convertGenerics(parts.slice(0, -1).join(' ')),
+    };
+  }
+
+  return { name: trimmed, type: 'unknown' };
+}
+
+/**
+ * Parse a class diagram member line.
+ *
+ * Formats:
+ * - +login(user: string, password: string) Promise~Token~
+ * - -validate(String token)$ boolean
+ * - #repository: UserRepository
+ * - +String email
+ *
+ * Trailing `*` marks abstract members, `$` marks static members.
+ */
+export function parseClassMember(text: string): MemberDefinition | null {
+  let line = text.trim();
+  if (!line) return null;
+
+  let visibility: MemberDefinition['visibility'] = 'public';
+  const marker = line.charAt(0);
+  if (marker === '-') visibility = 'private';
+  if (marker === '#') visibility = 'protected';
+  if (['+', '-', '#', '~'].includes(marker)) {
+    line = line.slice(1).trim();
+  }
+
+  const methodMatch = line.match(/^(\w+)\s*\(([^)]*)\)\s*([$*])?\s*(?::\s*)?([^$*]*?)\s*([$*])?$/);
+  if (methodMatch?.[1]) {
+    const classifiers = `${methodMatch[3] ?? ''}${methodMatch[5] ?? ''}`;
+    const parameters = (methodMatch[2] ?? '')
+      .split(',')
+      .map((p) => p.trim())
+      .filter((p) => p.length > 0)
+      .map(parseTypedName);
+    const returnType = convertGenerics(methodMatch[4] ?? '') || 'void';
+
+    return {
+      name: methodMatch[1],
+      type: returnType,
+      visibility,
+      parameters,
+      returnType,
+      ...(classifiers.includes('$') ? { isStatic: true } : {}),
+      ...(classifiers.includes('*') ? { isAbstract: true } : {}),
+    };
+  }
+
+  const classifier = line.match(/([$*])$/)?.[1];
+  if (classifier) {
+    line = line.slice(0, -1).trim();
+  }
+
+  const field = parseTypedName(line);
+  if (!/^\w+$/.test(field.name)) return null;
+
+  return {
+    name: field.name,
+    type: field.type,
+    visibility,
+    ...(classifier === '$' ? { isStatic: true } : {}),
+    ...(classifier === '*' ? { isAbstract: true } : {}),
+  };
+}
+
+/**
+ * Parse a class diagram relationship line.
+ *
+ * Formats:
+ * - Base <|-- Derived
+ * - Service ..|> IService
+ * - Order "1" *-- "*" LineItem : items
+ * - Controller --> Service : service
+ */
+export function parseClassRelationship(
+  line: string,
+  context: ParseContext
+): DiagramRelationship | null {
+  const relationRegex =
+    /^(\w+)\s*(?:"([^"]*)"\s*)?(<\|--|--\|>|<\|\.\.|\.\.\|>|\*--|--\*|o--|--o|<--|-->|<\.\.|\.\.>|--|\.\.)\s*(?:"([^"]*)"\s*)?(\w+)\s*(?::\s*(.+))?$/;
+  const match = line.match(relationRegex);
+  if (!match) return null;
+
+  const left = match[1];
+  const arrow = match[3];
+  const right = match[5];
+  const relation = arrow ? CLASS_RELATIONS[arrow] : undefined;
+  if (!left || !right || !relation) return null;
+
+  const sourceId = relation.reversed ? right : left;
+  const targetId = relation.reversed ? left : right;
+  const sourceLabel = relation.reversed ? match[4] : match[2];
+  const targetLabel = relation.reversed ? match[2] : match[4];
+
+  const cyrusType = context.pendingProperties['cyrus-type'];
+  const type = cyrusType ? inferRelationshipTypeFromMermaid('', cyrusType) : relation.type;
+  const injectionKind = parseInjectionKind(context.pendingProperties['cyrus-kind']);
+
+  const relationship: DiagramRelationship = {
+    id: `edge-${context.edgeCounter}`,
+    sourceId,
+    targetId,
+    type,
+    label: match[6]?.trim(),
+    sourceLabel,
+    targetLabel,
+    optional: context.pendingProperties['cyrus-optional'] === 'true',
+    ...(injectionKind ? { injectionKind } : {}),
+  };
+
+  context.pendingProperties = {};
+  context.edgeCounter++;
+
+  return relationship;
+}
+
+function classEntryToElement(entry: ClassEntry, index: number): DiagramElement {
+  const annotation = entry.annotation?.toLowerCase();
+  const stereotype =
+    entry.properties['cyrus-stereotype'] ??
+    (annotation ? ANNOTATION_TO_STEREOTYPE[annotation] ?? annotation : undefined);
+  const shapeType = inferShapeTypeFromMermaid('[]', stereotype);
+  const level = inferLevelFromMermaid(entry.properties['cyrus-level'], shapeType);
+
+  return {
+    id: entry.id,
+    symbolId: entry.properties['cyrus-symbolId'],
+    templateRef: entry.properties['cyrus-templateRef'],
+    type: shapeType,
+    stereotype,
+    level,
+    position: gridPosition(index),
+    size: { width: 120, height: 60 },
+    style: {},
+    name: entry.label,
+    members: entry.members.length > 0 ? entry.members : undefined,
+    customProperties: collectCustomProperties(entry.properties),
+  };
+}
+
+function parseClassDiagramLines(lines: string[], context: ParseContext): ParsedContent {
+  const classes = new Map<string, ClassEntry>();
+  const relationships: DiagramRelationship[] = [];
+  let openClass: ClassEntry | null = null;
+
+  const ensureClass = (id: string): ClassEntry => {
+    let entry = classes.get(id);
+    if (!entry) {
+      entry = { id, label: id, annotation: undefined, properties: {}, members: [] };
+      classes.set(id, entry);
+    }
+    return entry;
+  };
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    if (trimmed.toLowerCase().startsWith('classdiagram')) continue;
+
+    // Parse cyrus-* comments
+    const cyrusProps = parseCyrusComment(trimmed);
+    if (cyrusProps) {
+      Object.assign(context.pendingProperties, cyrusProps);
+      continue;
+    }
+
+    // Skip regular comments
+    if (trimmed.startsWith('%%')) continue;
+
+    // Class body: annotations and members until the closing brace
+    if (openClass) {
+      if (trimmed === '}') {
+        openClass = null;
+        continue;
+      }
+      const annotation = trimmed.match(/^<<\s*([\w ]+?)\s*>>$/);
+      if (annotation?.[1]) {
+        openClass.annotation = annotation[1];
+        continue;
+      }
+      const member = parseClassMember(trimmed);
+      if (member) openClass.members.push(member);
+      continue;
+    }
+
+    // class Name, class Name~T~, class Name["Label"], class Name {
+    const classDecl = trimmed.match(
+      /^class\s+(\w+)(?:~[^~]*~)?(?:\s*\["([^"]*)"\])?(?:\s*<<\s*([\w ]+?)\s*>>)?\s*(\{)?\s*(\})?\s*$/
+    );
+    if (classDecl?.[1]) {
+      const entry = ensureClass(classDecl[1]);
+      if (classDecl[2]) entry.label = classDecl[2];
+      if (classDecl[3]) entry.annotation = classDecl[3];
+      Object.assign(entry.properties, context.pendingProperties);
+      context.pendingProperties = {};
+      if (classDecl[4] && !classDecl[5]) openClass = entry;
+      continue;
+    }
+
+    // <<interface>> Name
+    const standaloneAnnotation = trimmed.match(/^<<\s*([\w ]+?)\s*>>\s*(\w+)$/);
+    if (standaloneAnnotation?.[1] && standaloneAnnotation[2]) {
+      ensureClass(standaloneAnnotation[2]).annotation = standaloneAnnotation[1];
+      continue;
+    }
+
+    const relationship = parseClassRelationship(trimmed, context);
+    if (relationship) {
+      ensureClass(relationship.sourceId);
+      ensureClass(relationship.targetId);
+      relationships.push(relationship);
+      continue;
+    }
+
+    // Name : +member
+    const memberLine = trimmed.match(/^(\w+)\s*:\s*(.+)$/);
+    if (memberLine?.[1] && memberLine[2]) {
+      const member = parseClassMember(memberLine[2]);
+      if (member) ensureClass(memberLine[1]).members.push(member);
+      continue;
+    }
+  }
+
+  const elements = [...classes.values()].map((entry, index) => classEntryToElement(entry, index));
+  context.nodeCounter = elements.length;
+
+  return { elements, relationships };
+}
+
+// ============================================================================
+// C4
+// ============================================================================
+
+/**
+ * Split C4 macro arguments, respecting quotes.
+ * Named arguments ($tags="...", $link="...") are dropped.
+ */
+function splitMacroArgs(args: string): string[] {
+  const result: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (const char of args) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === ',' && !inQuotes) {
+      result.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) result.push(current.trim());
+
+  return result.filter((arg) => !arg.startsWith('$'));
+}
+
+/**
+ * Infer ShapeType from a C4 macro name.
+ *
+ * C4 macros → ShapeType:
+ * - Person*              → actor
+ * - *_Ext                → external
+ * - *Db / *Queue         → database / queue
+ * - System, System_Boundary       → subsystem
+ * - Container, Container_Boundary → module
+ * - Component            → service
+ *
+ * Returns null for macros that only group elements (Boundary, Enterprise_Boundary).
+ */
+export function inferShapeTypeFromC4(macro: string): ShapeType | null {
+  if (macro.startsWith('Person')) return 'actor';
+  if (macro.endsWith('_Ext')) return 'external';
+  if (macro.includes('Db')) return 'database';
+  if (macro.includes('Queue')) return 'queue';
+  if (macro.startsWith('System')) return 'subsystem';
+  if (macro.startsWith('Container')) return 'module';
+  if (macro.startsWith('Component')) return 'service';
+  return null;
+}
+
+function parseC4Lines(lines: string[], context: ParseContext): ParsedContent {
+  const elements: DiagramElement[] = [];
+  const relationships: DiagramRelationship[] = [];
+
+  // Effective parent element for each open boundary
+  const parents: Array<string | undefined> = [];
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    if (trimmed.toLowerCase().startsWith('c4')) continue;
+
+    // Parse cyrus-* comments
+    const cyrusProps = parseCyrusComment(trimmed);
+    if (cyrusProps) {
+      Object.assign(context.pendingProperties, cyrusProps);
+      continue;
+    }
+
+    // Skip regular comments
+    if (trimmed.startsWith('%%')) continue;
+
+    if (trimmed === '}') {
+      parents.pop();
+      continue;
+    }
+
+    const macroMatch = trimmed.match(/^(\w+)\s*\((.*)\)\s*(\{)?\s*$/);
+    if (!macroMatch?.[1]) continue;
+
+    const macro = macroMatch[1];
+    const args = splitMacroArgs(macroMatch[2] ?? '');
+    const opensBoundary = macroMatch[3] === '{';
+    const parentId = parents[parents.length - 1];
+
+    // Rel(from, to, label, technology)
+    if (/^(Bi)?Rel(_\w+)?$/.test(macro)) {
+      const [from, to, label] = args;
+      if (!from || !to) continue;
+
+      const reversed = macro.startsWith('Rel_Back');
+      const cyrusType = context.pendingProperties['cyrus-type'];
+      const injectionKind = parseInjectionKind(context.pendingProperties['cyrus-kind']);
+      relationships.push({
+        id: `edge-${context.edgeCounter}`,
+        sourceId: reversed ? to : from,
+        targetId: reversed ? from : to,
+        type: cyrusType
+          ? inferRelationshipTypeFromMermaid('', cyrusType)
+          : macro === 'BiRel'
+            ? 'association'
+            : 'dependency',
+        label,
+        optional: context.pendingProperties['cyrus-optional'] === 'true',
+        ...(injectionKind ? { injectionKind } : {}),
+      });
+      context.pendingProperties = {};
+      context.edgeCounter++;
+      continue;
+    }
+
+    const macroShape = inferShapeTypeFromC4(macro);
+    const [alias, label] = args;
+
+    if (!macroShape || !alias) {
+      // Grouping-only boundary (or unsupported macro such as UpdateLayoutConfig)
+      if (opensBoundary) parents.push(parentId);
+      continue;
+    }
+
+    const stereotype = context.pendingProperties['cyrus-stereotype'];
+    const shapeType = stereotype ? inferShapeTypeFromMermaid('', stereotype) : macroShape;
+    const level = inferLevelFromMermaid(context.pendingProperties['cyrus-level'], shapeType);
+
+    // Person/System(alias, label, descr); Container/Component(alias, label, techn, descr)
+    const isBoundary = macro.endsWith('_Boundary');
+    const descriptionIndex =
+      macro.startsWith('Container') || macro.startsWith('Component') ? 3 : 2;
+    const description = isBoundary ? undefined : args[descriptionIndex];
+
+    elements.push({
+      id: alias,
+      symbolId: context.pendingProperties['cyrus-symbolId'],
+      templateRef: context.pendingProperties['cyrus-templateRef'],
+      type: shapeType,
+      stereotype,
+      level,
+      position: gridPosition(context.nodeCounter),
+      size: { width: 120, height: 60 },
+      style: {},
+      name: label ?? alias,
+      description,
+      customProperties: collectCustomProperties(context.pendingProperties),
+      parentId,
+    });
+    context.pendingProperties = {};
+    context.nodeCounter++;
+
+    if (opensBoundary) parents.push(alias);
+  }
+
+  return { elements, relationships };
+}
+
+// ============================================================================
+// Entry Point
+// ============================================================================
+
+/**
+ * Parse complete Mermaid text into Diagram structure.
+ *
+ * @param text Raw Mermaid diagram text
+ * @param name Optional diagram name
+ * @returns Parsed Diagram object
+ */
+export function parseMermaidText(text: string, name?: string): Diagram {
+  const lines = text.split('\n');
+
+  const context: ParseContext = {
+    pendingProperties: {},
+    nodeCounter: 0,
+    edgeCounter: 0,
+  };
+
+  // Detect diagram type from first non-empty, non-comment line
+  const firstLine =
+    lines.find((l) => l.trim().length > 0 && !l.trim().startsWith('%%')) ?? '';
+  const diagramType = detectDiagramType(firstLine);
+
+  let content: ParsedContent;
+  switch (diagramType) {
+    case 'classDiagram':
+      content = parseClassDiagramLines(lines, context);
+      break;
+    case 'c4':
+      content = parseC4Lines(lines, context);
+      break;
+    default:
+      content = parseFlowchartLines(lines, context);
+  }
+
+  const C4_LEVELS: Record<string, Diagram['c4Level']> = {
+    c4context: 'context',
+    c4container: 'container',
+    c4component: 'component',
+  };
+  const c4Level =
+    diagramType === 'c4' ? C4_LEVELS[firstLine.trim().toLowerCase()] : undefined;
+
   // Generate a unique diagram ID
   const diagramId = `mermaid-${Date.now()}`;
 
@@ -555,8 +1128,9 @@ export function parseMermaidText(text: string, name?: string): Diagram {
     id: diagramId,
     name: name ?? 'Mermaid Diagram',
     diagramType: diagramType === 'classDiagram' ? 'class' : 'architecture',
-    elements,
-    relationships,
+    ...(c4Level ? { c4Level } : {}),
+    elements: content.elements,
+    relationships: content.relationships,
     version: '1.0.0',
     createdAt: new Date(),
     updatedAt: new Date(),
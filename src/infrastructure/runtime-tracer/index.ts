@@ -0,0 +1,13 @@
+/**
+ * Runtime Tracer Infrastructure Module
+ *
+ * Optional execution tracer for dev and test runs (ADR-005). Preload
+ * `register.js` to start it; instrumented code reports through the
+ * `__cyrusTrace` global hook.
+ */
+
+// Type definitions
+export * from './schema.js';
+
+// Tracer
+export { RuntimeTracer, parseTraceFile, mergeTraceEntries } from './tracer.js';
@@ -0,0 +1,39 @@
+/**
+ * Runtime Tracer Loader
+ *
+ * Starts a tracer when preloaded into a Node process, so generated code
+ * built with `includeTracing` reports its executions without code changes:
+ *
+ *   node --import <cyrus-code>/dist/src/infrastructure/runtime-tracer/register.js app.js
+ *
+ * Environment:
+ * - CYRUS_TRACE_FILE: trace file path (default: .cyrus/trace.json)
+ * - CYRUS_TRACE_CONTEXT: test | development | production
+ *   (default: test under NODE_ENV=test, development otherwise)
+ * - CYRUS_TRACE_NAMESPACES: comma-separated namespaces to trace
+ */
+
+import * as path from 'node:path';
+import { RuntimeTracer } from './tracer.js';
+import type { ExecutionContextName, TracerConfig } from './schema.js';
+
+const CONTEXTS: ExecutionContextName[] = ['test', 'development', 'production'];
+
+function contextFromEnv(): ExecutionContextName {
+  const context = process.env['CYRUS_TRACE_CONTEXT'];
+  if (context && CONTEXTS.includes(context as ExecutionContextName)) {
+    return context as ExecutionContextName;
+  }
+  return process.env['NODE_ENV'] === 'test' ? 'test' : 'development';
+}
+
+const config: TracerConfig = {
+  outputPath: path.resolve(process.env['CYRUS_TRACE_FILE'] ?? '.cyrus/trace.json'),
+  context: contextFromEnv(),
+};
+const namespaces = process.env['CYRUS_TRACE_NAMESPACES'];
+if (namespaces) {
+  config.namespaces = namespaces.split(',').map((ns) => ns.trim()).filter(Boolean);
+}
+
+new RuntimeTracer().start(config);
@@ -0,0 +1,61 @@
+/**
+ * Runtime Tracer Schema
+ *
+ * Configuration and trace file format of the optional runtime tracer
+ * (ADR-005). Kept free of domain imports so the tracer can be loaded into
+ * any Node process.
+ */
+
+// =============================================================================
+// Tracer Configuration
+// =============================================================================
+
+/**
+ * Environment a trace was recorded in.
+ */
+export type ExecutionContextName = 'test' | 'development' | 'production';
+
+/**
+ * Name of the global function instrumented code calls with its symbol ID.
+ */
+export const TRACE_HOOK = '__cyrusTrace';
+
+export interface TracerConfig {
+  /** Trace file that execution counts are merged into */
+  outputPath: string;
+  /** Execution context recorded with every count */
+  context: ExecutionContextName;
+  /** Only trace symbols in these namespaces (default: all) */
+  namespaces?: string[];
+  /** Symbol IDs never to trace */
+  exclude?: string[];
+  /** Executions to buffer before flushing (default: 1000) */
+  bufferSize?: number;
+  /** Flush interval in ms (default: 5000) */
+  flushInterval?: number;
+}
+
+export const DEFAULT_BUFFER_SIZE = 1000;
+export const DEFAULT_FLUSH_INTERVAL = 5000;
+
+// =============================================================================
+// Trace File
+// =============================================================================
+
+/**
+ * Accumulated executions of one symbol. Timestamps are ISO 8601 strings.
+ */
+export interface TraceEntry {
+  count: number;
+  firstSeen: string;
+  lastSeen: string;
+  contexts: ExecutionContextName[];
+}
+
+/**
+ * Trace file content: execution counts keyed by symbol ID.
+ */
+export interface TraceFile {
+  version: 1;
+  symbols: Record<string, TraceEntry>;
+}
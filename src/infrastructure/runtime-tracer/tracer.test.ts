@@ -0,0 +1,119 @@
+/**
+ * Runtime Tracer Tests
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RuntimeTracer, mergeTraceEntries, parseTraceFile } from './tracer.js';
+import { TRACE_HOOK } from './schema.js';
+
+const AUTH = 'auth/AuthService@1.0.0';
+const LOGGER = 'core/Logger@1.0.0';
+
+describe('RuntimeTracer', () => {
+  let tempDir: string;
+  let outputPath: string;
+  let tracer: RuntimeTracer;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'runtime-tracer-test-'));
+    outputPath = path.join(tempDir, '.cyrus', 'trace.json');
+    tracer = new RuntimeTracer();
+  });
+
+  afterEach(() => {
+    tracer.stop();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function readTrace() {
+    return parseTraceFile(fs.readFileSync(outputPath, 'utf-8'));
+  }
+
+  it('should count executions reported through the global hook', () => {
+    tracer.start({ outputPath, context: 'test' });
+    const hook = (globalThis as Record<string, unknown>)[TRACE_HOOK] as (id: string) => void;
+    hook(AUTH);
+    hook(AUTH);
+    hook(LOGGER);
+    tracer.stop();
+
+    const trace = readTrace();
+    assert.strictEqual(trace.symbols[AUTH]?.count, 2);
+    assert.deepStrictEqual(trace.symbols[AUTH]?.contexts, ['test']);
+    assert.strictEqual(trace.symbols[LOGGER]?.count, 1);
+    assert.strictEqual((globalThis as Record<string, unknown>)[TRACE_HOOK], undefined);
+  });
+
+  it('should merge flushes into an existing trace file', () => {
+    tracer.start({ outputPath, context: 'test' });
+    tracer.recordExecution(AUTH, new Date('2026-01-02T00:00:00Z'));
+    tracer.stop();
+
+    tracer.start({ outputPath, context: 'development' });
+    tracer.recordExecution(AUTH, new Date('2026-01-01T00:00:00Z'));
+    tracer.stop();
+
+    assert.deepStrictEqual(readTrace().symbols[AUTH], {
+      count: 2,
+      firstSeen: '2026-01-01T00:00:00.000Z',
+      lastSeen: '2026-01-02T00:00:00.000Z',
+      contexts: ['test', 'development'],
+    });
+  });
+
+  it('should flush when the buffer is full', () => {
+    tracer.start({ outputPath, context: 'test', bufferSize: 2 });
+    tracer.recordExecution(AUTH);
+    assert.strictEqual(fs.existsSync(outputPath), false);
+
+    tracer.recordExecution(AUTH);
+    assert.strictEqual(readTrace().symbols[AUTH]?.count, 2);
+  });
+
+  it('should only trace matching namespaces', () => {
+    tracer.start({ outputPath, context: 'test', namespaces: ['auth'] });
+    tracer.recordExecution(AUTH);
+    tracer.recordExecution(LOGGER);
+    tracer.stop();
+
+    assert.deepStrictEqual(Object.keys(readTrace().symbols), [AUTH]);
+  });
+
+  it('should skip excluded symbols', () => {
+    tracer.start({ outputPath, context: 'test', exclude: [LOGGER] });
+    tracer.recordExecution(LOGGER);
+    tracer.stop();
+
+    assert.strictEqual(fs.existsSync(outputPath), false);
+  });
+
+  it('should not start twice', () => {
+    tracer.start({ outputPath, context: 'test' });
+    assert.throws(() => tracer.start({ outputPath, context: 'test' }), /already running/);
+  });
+});
+
+describe('parseTraceFile', () => {
+  it('should reject content that is not a trace file', () => {
+    assert.throws(() => parseTraceFile('{"symbols": {}}'), /Unrecognized trace file/);
+    assert.throws(
+      () => parseTraceFile('{"version": 1, "symbols": {"a/B@1.0.0": {}}}'),
+      /Invalid trace entry for a\/B@1.0.0/
+    );
+  });
+});
+
+describe('mergeTraceEntries', () => {
+  it('should order contexts consistently', () => {
+    const merged = mergeTraceEntries(
+      { count: 1, firstSeen: 'a', lastSeen: 'a', contexts: ['production'] },
+      { count: 1, firstSeen: 'b', lastSeen: 'b', contexts: ['test', 'production'] }
+    );
+
+    assert.deepStrictEqual(merged.contexts, ['test', 'production']);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Runtime Tracer
+ *
+ * Counts symbol executions in a running process and merges them into a
+ * local trace file. Instrumented code reports through the global
+ * `__cyrusTrace` hook, which is a no-op until a tracer is started.
+ */
+
+import * as path from 'node:path';
+import {
+  ensureDirectory,
+  fileExists,
+  readFile,
+  writeFile,
+} from '../file-system/index.js';
+import {
+  DEFAULT_BUFFER_SIZE,
+  DEFAULT_FLUSH_INTERVAL,
+  TRACE_HOOK,
+  type ExecutionContextName,
+  type TraceEntry,
+  type TraceFile,
+  type TracerConfig,
+} from './schema.js';
+
+type TraceHook = (symbolId: string) => void;
+type TracedGlobal = typeof globalThis & { [TRACE_HOOK]?: TraceHook };
+
+const CONTEXT_ORDER: ExecutionContextName[] = ['test', 'development', 'production'];
+
+// =============================================================================
+// Trace Files
+// =============================================================================
+
+/**
+ * Parse trace file content.
+ *
+ * @throws Error if the content is not a trace file
+ */
+export function parseTraceFile(content: string): TraceFile {
+  const data = JSON.parse(content) as Partial<TraceFile> | null;
+  if (data?.version !== 1 || typeof data.symbols !== 'object' || data.symbols === null) {
+    throw new Error('Unrecognized trace file (expected version 1 with a symbols map)');
+  }
+  for (const [symbolId, entry] of Object.entries(data.symbols)) {
+    if (typeof entry?.count !== 'number' || !entry.firstSeen || !entry.lastSeen) {
+      throw new Error(`Invalid trace entry for ${symbolId}`);
+    }
+  }
+  return data as TraceFile;
+}
+
+/**
+ * Combine two entries for the same symbol: counts add up and the seen
+ * range and contexts widen.
+ */
+export function mergeTraceEntries(a: TraceEntry, b: TraceEntry): TraceEntry {
+  const contexts = new Set([...a.contexts, ...b.contexts]);
+  return {
+    count: a.count + b.count,
+    firstSeen: a.firstSeen < b.firstSeen ? a.firstSeen : b.firstSeen,
+    lastSeen: a.lastSeen > b.lastSeen ? a.lastSeen : b.lastSeen,
+    contexts: CONTEXT_ORDER.filter((context) => contexts.has(context)),
+  };
+}
+
+// =============================================================================
+// Tracer
+// =============================================================================
+
+export class RuntimeTracer {
+  private config: TracerConfig | null = null;
+  private pending = new Map<string, TraceEntry>();
+  private buffered = 0;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private readonly flushOnExit = (): void => this.flush();
+
+  /**
+   * Start tracing and install the global hook.
+   *
+   * @throws Error if the tracer is already running
+   */
+  start(config: TracerConfig): void {
+    if (this.config) {
+      throw new Error('Runtime tracer is already running');
+    }
+    this.config = config;
+
+    (globalThis as TracedGlobal)[TRACE_HOOK] = (symbolId) => this.recordExecution(symbolId);
+
+    // Don't keep the process alive just to flush
+    this.timer = setInterval(() => this.flush(), config.flushInterval ?? DEFAULT_FLUSH_INTERVAL);
+    this.timer.unref();
+    process.on('exit', this.flushOnExit);
+  }
+
+  /**
+   * Flush buffered executions, stop tracing and remove the global hook.
+   */
+  stop(): void {
+    if (!this.config) return;
+
+    this.flush();
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    process.off('exit', this.flushOnExit);
+
+    const traced = globalThis as TracedGlobal;
+    delete traced[TRACE_HOOK];
+    this.config = null;
+  }
+
+  isTracing(): boolean {
+    return this.config !== null;
+  }
+
+  /**
+   * Record a symbol execution. Called by instrumented code.
+   */
+  recordExecution(symbolId: string, timestamp: Date = new Date()): void {
+    const config = this.config;
+    if (!config || !isTraced(symbolId, config)) return;
+
+    const seen = timestamp.toISOString();
+    const entry: TraceEntry = { count: 1, firstSeen: seen, lastSeen: seen, contexts: [config.context] };
+    const existing = this.pending.get(symbolId);
+    this.pending.set(symbolId, existing ? mergeTraceEntries(existing, entry) : entry);
+
+    if (++this.buffered >= (config.bufferSize ?? DEFAULT_BUFFER_SIZE)) {
+      this.flush();
+    }
+  }
+
+  /**
+   * Merge buffered executions into the trace file.
+   */
+  flush(): void {
+    if (!this.config || this.pending.size === 0) return;
+
+    const outputPath = this.config.outputPath;
+    const trace: TraceFile = fileExists(outputPath)
+      ? parseTraceFile(readFile(outputPath))
+      : { version: 1, symbols: {} };
+
+    for (const [symbolId, entry] of this.pending) {
+      const existing = trace.symbols[symbolId];
+      trace.symbols[symbolId] = existing ? mergeTraceEntries(existing, entry) : entry;
+    }
+
+    ensureDirectory(path.dirname(outputPath));
+    writeFile(outputPath, JSON.stringify(trace, null, 2));
+    this.pending.clear();
+    this.buffered = 0;
+  }
+}
+
+/**
+ * Check a symbol ID against the namespace and exclude filters.
+ */
+function isTraced(symbolId: string, config: TracerConfig): boolean {
+  if (config.exclude?.includes(symbolId)) return false;
+  if (!config.namespaces) return true;
+
+  const namespace = symbolId.slice(0, symbolId.lastIndexOf('/'));
+  return config.namespaces.some((ns) => namespace === ns || namespace.startsWith(`${ns}/`));
+}
@@ -7,12 +7,16 @@
  * Used by:
  * - help/diagram/* (InterfaceExtractor, TypeExtractor, RelationshipExtractor)
  * - help/content/typescript-extractor.ts (TypeScriptExtractor)
+ * - services/static-analysis (StaticAnalyzer)
+ * - services/project-scan (ProjectScanService)
+ * - services/source-verification (SourceVerifier)
  *
  * Exports:
  * - SourceFileManager: ts-morph Project wrapper with file caching
  * - FileCache<T>: Generic mtime-validated file caching
  * - Utility functions: getFileMtime, resolveFilePath
  * - createTsMorphProject: Factory for standalone ts-morph Project instances
+ * - listSourceFiles, isTestFile: Project source listing for whole-project scans
  */
 
 // Type definitions
@@ -23,3 +27,6 @@ export { FileCache, getFileMtime, resolveFilePath } from './file-cache.js';
 
 // ts-morph project management
 export { createTsMorphProject, SourceFileManager } from './ts-morph-project.js';
+
+// Project source listing
+export { isTestFile, listSourceFiles } from './source-files.js';
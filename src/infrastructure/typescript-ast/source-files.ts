@@ -0,0 +1,41 @@
+/**
+ * Project Source Listing
+ *
+ * Finds the TypeScript sources of a project for whole-project scans.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/** Directories never scanned */
+const SKIPPED_DIRECTORIES = new Set(['node_modules', 'dist', 'out', 'coverage']);
+
+const TEST_FILE_PATTERN = /\.(test|spec)\.tsx?$/;
+
+/**
+ * List the TypeScript sources under a directory, skipping dependencies,
+ * build output, hidden directories and declaration files.
+ */
+export function listSourceFiles(dir: string): string[] {
+  const files: string[] = [];
+
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!entry.name.startsWith('.') && !SKIPPED_DIRECTORIES.has(entry.name)) {
+        files.push(...listSourceFiles(fullPath));
+      }
+    } else if (/\.tsx?$/.test(entry.name) && !entry.name.endsWith('.d.ts')) {
+      files.push(fullPath);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Whether a file is a test (`*.test.ts`, `*.spec.ts` and their `.tsx` forms).
+ */
+export function isTestFile(filePath: string): boolean {
+  return TEST_FILE_PATTERN.test(filePath);
+}
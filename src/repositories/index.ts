@@ -15,6 +15,8 @@ export {
 
 // Repository classes
 export { SqliteSymbolRepository } from './symbol-repository.js';
+export { SqliteVersionLockRepository } from './version-lock-repository.js';
+export { SqliteSymbolHistoryRepository } from './symbol-history-repository.js';
 export { JsonHelpRepository } from './help-repository.js';
 export {
   SqliteExportHistoryRepository,
@@ -0,0 +1,200 @@
+/**
+ * Persistence Tests
+ *
+ * Schema versioning and migrations against temporary database files.
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import {
+  initDatabase,
+  closeDatabase,
+  getSchemaVersion,
+  registerMigration,
+  registerSchema,
+} from './persistence.js';
+import { SqliteSymbolRepository } from './symbol-repository.js';
+import { SqliteSymbolHistoryRepository } from './symbol-history-repository.js';
+// Registers a schema without migrations
+import './version-lock-repository.js';
+import { createSymbol } from '../testing/fixtures.js';
+
+// Test schema: widgets gained a label (1), then labels were backfilled (2)
+let failBackfill = false;
+registerSchema('widgets', `
+  CREATE TABLE IF NOT EXISTS widgets (
+    id TEXT PRIMARY KEY,
+    label TEXT NOT NULL DEFAULT ''
+  );
+`);
+registerMigration('widgets', {
+  version: 1,
+  description: 'add widgets.label',
+  up: `ALTER TABLE widgets ADD COLUMN label TEXT NOT NULL DEFAULT ''`,
+});
+registerMigration('widgets', {
+  version: 2,
+  description: 'backfill widget labels',
+  up: (database) => {
+    database.exec('UPDATE widgets SET label = upper(id)');
+    if (failBackfill) {
+      throw new Error('backfill exploded');
+    }
+  },
+});
+
+/** A registry file as written before migrations and Python support */
+function createLegacyDatabase(dbPath: string): void {
+  const legacy = new Database(dbPath);
+  legacy.exec(`
+    CREATE TABLE schema_version (version INTEGER PRIMARY KEY);
+    INSERT INTO schema_version (version) VALUES (4);
+    CREATE TABLE symbols (
+      id TEXT PRIMARY KEY,
+      namespace TEXT NOT NULL,
+      name TEXT NOT NULL,
+      level TEXT NOT NULL,
+      kind TEXT NOT NULL,
+      language TEXT NOT NULL CHECK (language IN ('typescript')),
+      status TEXT NOT NULL DEFAULT 'declared',
+      origin TEXT NOT NULL DEFAULT 'manual',
+      extends TEXT REFERENCES symbols(id) ON DELETE SET NULL,
+      data TEXT NOT NULL
+    );
+    CREATE TABLE tags (
+      symbol_id TEXT NOT NULL REFERENCES symbols(id) ON DELETE CASCADE,
+      tag TEXT NOT NULL,
+      PRIMARY KEY (symbol_id, tag)
+    );
+    CREATE TABLE implements (
+      symbol_id TEXT NOT NULL REFERENCES symbols(id) ON DELETE CASCADE,
+      interface_id TEXT NOT NULL,
+      PRIMARY KEY (symbol_id, interface_id)
+    );
+    CREATE TABLE widgets (id TEXT PRIMARY KEY);
+    INSERT INTO widgets (id) VALUES ('gear');
+  `);
+  legacy.close();
+}
+
+describe('Schema Migrations', () => {
+  let tempDir: string;
+  let dbPath: string;
+
+  const backups = () => fs.readdirSync(tempDir).filter((file) => file.endsWith('.bak'));
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'persistence-test-'));
+    dbPath = path.join(tempDir, 'registry.db');
+    failBackfill = false;
+  });
+
+  afterEach(() => {
+    closeDatabase();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should create new databases at the latest version without migrating', () => {
+    const db = initDatabase(dbPath);
+
+    assert.strictEqual(getSchemaVersion(db, 'symbols'), 3);
+    assert.strictEqual(getSchemaVersion(db, 'widgets'), 2);
+    assert.strictEqual(getSchemaVersion(db, 'version_locks'), 0);
+    assert.deepStrictEqual(backups(), []);
+  });
+
+  it('should migrate a legacy database and back it up first', () => {
+    createLegacyDatabase(dbPath);
+    const legacy = new Database(dbPath);
+    legacy
+      .prepare(
+        `INSERT INTO symbols (id, namespace, name, level, kind, language, data)
+         VALUES ('core/Logger@1.0.0', 'core', 'Logger', 'L1', 'service', 'typescript', ?)`
+      )
+      .run(
+        JSON.stringify({
+          version: { major: 1, minor: 0, patch: 0 },
+          description: 'Logs',
+          createdAt: '2025-01-01T00:00:00.000Z',
+          updatedAt: '2025-01-01T00:00:00.000Z',
+        })
+      );
+    legacy.exec("INSERT INTO tags (symbol_id, tag) VALUES ('core/Logger@1.0.0', 'io')");
+    legacy.close();
+
+    const db = initDatabase(dbPath);
+    const repo = new SqliteSymbolRepository(db);
+
+    assert.strictEqual(getSchemaVersion(db, 'symbols'), 3);
+    assert.strictEqual(getSchemaVersion(db, 'widgets'), 2);
+    assert.deepStrictEqual(repo.find('core/Logger@1.0.0')?.tags, ['io']);
+    const [baseline] = new SqliteSymbolHistoryRepository(db).listForSymbol('core/Logger@1.0.0');
+    assert.strictEqual(baseline?.operation, 'insert');
+    assert.deepStrictEqual(baseline?.after, repo.find('core/Logger@1.0.0'));
+    assert.deepStrictEqual(
+      repo.search('logs').map((s) => s.id),
+      ['core/Logger@1.0.0']
+    );
+    assert.deepStrictEqual(db.prepare('SELECT id, label FROM widgets').all(), [
+      { id: 'gear', label: 'GEAR' },
+    ]);
+    repo.insert(createSymbol({ id: 'py/Worker@1.0.0', name: 'Worker', language: 'python' }));
+    assert.strictEqual(repo.find('py/Worker@1.0.0')?.language, 'python');
+
+    assert.strictEqual(backups().length, 1);
+    const backup = new Database(path.join(tempDir, backups()[0]!), { readonly: true });
+    assert.deepStrictEqual(backup.prepare('SELECT version FROM schema_version').all(), [
+      { version: 4 },
+    ]);
+    backup.close();
+  });
+
+  it('should not migrate again on reopen', () => {
+    createLegacyDatabase(dbPath);
+    initDatabase(dbPath);
+    closeDatabase();
+
+    initDatabase(dbPath);
+
+    assert.strictEqual(backups().length, 1);
+  });
+
+  it('should roll back every migration when one fails', () => {
+    const db = initDatabase(dbPath);
+    db.exec("INSERT INTO widgets (id, label) VALUES ('gear', 'Gear')");
+    db.exec("UPDATE schema_version SET version = 1 WHERE schema = 'widgets'");
+    closeDatabase();
+    failBackfill = true;
+
+    assert.throws(
+      () => initDatabase(dbPath),
+      /Migration 2 for schema 'widgets' failed \(backfill widget labels\): backfill exploded.*backup at/
+    );
+
+    const unchanged = new Database(dbPath, { readonly: true });
+    assert.deepStrictEqual(unchanged.prepare('SELECT label FROM widgets').all(), [
+      { label: 'Gear' },
+    ]);
+    assert.strictEqual(getSchemaVersion(unchanged, 'widgets'), 1);
+    unchanged.close();
+  });
+
+  it('should refuse databases from a newer build', () => {
+    const db = initDatabase(dbPath);
+    db.exec("UPDATE schema_version SET version = 3 WHERE schema = 'widgets'");
+    closeDatabase();
+
+    assert.throws(() => initDatabase(dbPath), /newer than this build supports \(2\)/);
+  });
+
+  it('should reject migrations registered out of order', () => {
+    assert.throws(
+      () => registerMigration('widgets', { version: 4, description: 'skip', up: '' }),
+      /registered out of order \(expected 3\)/
+    );
+  });
+});
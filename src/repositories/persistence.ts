@@ -1,8 +1,9 @@
 /**
  * SQLite Persistence Layer
  *
- * Connection management and schema registry.
- * Each repository module registers its own schema via registerSchema().
+ * Connection management, schema registry and migrations.
+ * Each repository module registers its own schema via registerSchema(),
+ * and the changes to it since its first release via registerMigration().
  */
 
 import Database from 'better-sqlite3';
@@ -28,6 +29,39 @@ export function registerSchema(name: string, sql: string): void {
   schemaRegistry.push({ name, sql });
 }
 
+/**
+ * A numbered change to a registered schema.
+ *
+ * The schema SQL always describes the latest shape, which is what new
+ * databases get. Migrations bring databases created by earlier releases
+ * up to that shape; they run in version order, once, inside one transaction.
+ */
+export interface Migration {
+  /** Position in the schema's migration order, starting at 1 */
+  version: number;
+  /** What the migration changes (shown in errors) */
+  description: string;
+  /** SQL to execute, or a function for changes that need code (e.g. JSON blobs) */
+  up: string | ((database: DatabaseType) => void);
+}
+
+const migrationRegistry = new Map<string, Migration[]>();
+
+/**
+ * Register the next migration for a schema.
+ * Versions must be registered in order without gaps.
+ */
+export function registerMigration(schema: string, migration: Migration): void {
+  const migrations = migrationRegistry.get(schema) ?? [];
+  const expected = migrations.length + 1;
+  if (migration.version !== expected) {
+    throw new Error(
+      `Migration ${migration.version} for schema '${schema}' registered out of order (expected ${expected})`
+    );
+  }
+  migrationRegistry.set(schema, [...migrations, migration]);
+}
+
 export function initDatabase(dbPath: string): DatabaseType {
   if (db) {
     return db;
@@ -42,7 +76,12 @@ export function initDatabase(dbPath: string): DatabaseType {
   newDb.pragma('journal_mode = WAL');
   newDb.pragma('foreign_keys = ON');
 
-  applySchemas(newDb);
+  try {
+    applySchemas(newDb, dbPath);
+  } catch (error) {
+    newDb.close();
+    throw error;
+  }
   db = newDb;
   return newDb;
 }
@@ -73,21 +112,186 @@ export function initMemoryDatabase(): DatabaseType {
 // Schema Application
 // ============================================================================
 
-const SCHEMA_VERSION = 4;
+/**
+ * Create every registered schema and migrate the ones that are behind.
+ *
+ * Schemas without a recorded version are new to this database (their
+ * tables are created at the latest version) unless their tables already
+ * exist, in which case they predate version tracking and start at 0.
+ *
+ * @param dbPath Database file, copied before migrating (omit for in-memory)
+ */
+function applySchemas(database: DatabaseType, dbPath?: string): void {
+  const recorded = readSchemaVersions(database);
+
+  const plan = schemaRegistry.map((schema) => {
+    const migrations = migrationRegistry.get(schema.name) ?? [];
+    const version =
+      recorded.get(schema.name) ??
+      (declaredTables(schema.sql).some((table) => tableExists(database, table))
+        ? 0
+        : migrations.length);
+    if (version > migrations.length) {
+      throw new Error(
+        `Schema '${schema.name}' is at version ${version}, newer than this build supports (${migrations.length})`
+      );
+    }
+    return { schema, version, pending: migrations.slice(version) };
+  });
+
+  const migrating = plan.some((entry) => entry.pending.length > 0);
+  // Back up before anything is written, including the version table
+  const backupPath = migrating && dbPath ? backupDatabase(database, dbPath) : undefined;
 
-function applySchemas(database: DatabaseType): void {
-  // Schema version tracking (always first)
+  if (migrating) {
+    try {
+      runMigrations(database, plan);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(
+        backupPath ? `${message} (database unchanged, backup at ${backupPath})` : message
+      );
+    }
+  } else {
+    ensureVersionTable(database);
+  }
+
+  // Apply registered schemas (creates anything new since the last migration)
+  for (const { schema, version, pending } of plan) {
+    database.exec(schema.sql);
+    if (!recorded.has(schema.name) && pending.length === 0) {
+      setSchemaVersion(database, schema.name, version);
+    }
+  }
+}
+
+/**
+ * Run pending migrations in one transaction, so a failure leaves the
+ * database exactly as it was.
+ *
+ * Foreign keys are off while migrating: rebuilding a table (the only way
+ * SQLite can change a CHECK constraint) must not cascade deletes into the
+ * tables referencing it. References are checked before committing.
+ */
+function runMigrations(
+  database: DatabaseType,
+  plan: Array<{ schema: { name: string }; pending: Migration[] }>
+): void {
+  database.pragma('foreign_keys = OFF');
+  try {
+    transaction(database, () => {
+      ensureVersionTable(database);
+      for (const { schema, pending } of plan) {
+        for (const migration of pending) {
+          try {
+            if (typeof migration.up === 'string') {
+              database.exec(migration.up);
+            } else {
+              migration.up(database);
+            }
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            throw new Error(
+              `Migration ${migration.version} for schema '${schema.name}' failed (${migration.description}): ${message}`
+            );
+          }
+          setSchemaVersion(database, schema.name, migration.version);
+        }
+      }
+
+      const violations = database.pragma('foreign_key_check') as unknown[];
+      if (violations.length > 0) {
+        throw new Error(`Migrations left ${violations.length} foreign key violation(s)`);
+      }
+    });
+  } finally {
+    database.pragma('foreign_keys = ON');
+  }
+}
+
+/**
+ * Copy the database file next to itself before migrating it.
+ *
+ * @returns Path of the backup
+ */
+function backupDatabase(database: DatabaseType, dbPath: string): string {
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const backupPath = `${dbPath}.pre-migration-${stamp}.bak`;
+  // Unlike a file copy, this includes pages still in the WAL
+  database.prepare('VACUUM INTO ?').run(backupPath);
+  return backupPath;
+}
+
+/**
+ * Create the per-schema version table, replacing the single-row table
+ * used before migrations (its number did not identify a schema).
+ */
+function ensureVersionTable(database: DatabaseType): void {
+  if (tableExists(database, 'schema_version') && !hasVersionTable(database)) {
+    database.exec('DROP TABLE schema_version');
+  }
   database.exec(`
     CREATE TABLE IF NOT EXISTS schema_version (
-      version INTEGER PRIMARY KEY
+      schema TEXT PRIMARY KEY,
+      version INTEGER NOT NULL,
+      applied_at TEXT NOT NULL
     );
-    INSERT OR IGNORE INTO schema_version (version) VALUES (${SCHEMA_VERSION});
   `);
+}
 
-  // Apply registered schemas
-  for (const schema of schemaRegistry) {
-    database.exec(schema.sql);
+/**
+ * Read recorded schema versions; none before the version table has a schema column.
+ */
+function readSchemaVersions(database: DatabaseType): Map<string, number> {
+  if (!hasVersionTable(database)) {
+    return new Map();
   }
+  const rows = database.prepare('SELECT schema, version FROM schema_version').all() as Array<{
+    schema: string;
+    version: number;
+  }>;
+  return new Map(rows.map((row) => [row.schema, row.version]));
+}
+
+function hasVersionTable(database: DatabaseType): boolean {
+  const columns = database.pragma('table_info(schema_version)') as Array<{ name: string }>;
+  return columns.some((column) => column.name === 'schema');
+}
+
+function setSchemaVersion(database: DatabaseType, schema: string, version: number): void {
+  database
+    .prepare('INSERT OR REPLACE INTO schema_version (schema, version, applied_at) VALUES (?, ?, ?)')
+    .run(schema, version, new Date().toISOString());
+}
+
+/**
+ * Get the version a schema is at in a database.
+ * Returns undefined if the schema is not tracked there.
+ */
+export function getSchemaVersion(database: DatabaseType, schema: string): number | undefined {
+  if (!hasVersionTable(database)) {
+    return undefined;
+  }
+  const row = database
+    .prepare('SELECT version FROM schema_version WHERE schema = ?')
+    .get(schema) as { version: number } | undefined;
+  return row?.version;
+}
+
+/**
+ * Names of the tables a schema's SQL creates.
+ */
+function declaredTables(sql: string): string[] {
+  return [...sql.matchAll(/CREATE\s+(?:VIRTUAL\s+)?TABLE\s+IF\s+NOT\s+EXISTS\s+(\w+)/gi)].map(
+    (match) => match[1]!
+  );
+}
+
+function tableExists(database: DatabaseType, table: string): boolean {
+  return (
+    database.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?").get(table) !==
+    undefined
+  );
 }
 
 // ============================================================================
@@ -0,0 +1,134 @@
+/**
+ * Symbol History Repository
+ *
+ * Read-only access to `symbol_history`, the audit log SqliteSymbolRepository
+ * writes on every insert, update and delete. The table is part of the
+ * symbols schema; revisions are never modified or removed.
+ */
+
+import type { Statement } from 'better-sqlite3';
+import type {
+  SymbolChangeOperation,
+  SymbolHistoryRepository,
+  SymbolRevision,
+} from '../domain/symbol/index.js';
+import type { DatabaseType } from './persistence.js';
+import { decodeSymbolSnapshot } from './symbol-repository.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface SymbolHistoryRow {
+  revision: number;
+  symbol_id: string;
+  operation: string;
+  before: string | null;
+  after: string | null;
+  changed_at: string;
+  author: string | null;
+  reason: string | null;
+}
+
+interface SymbolHistoryStatements {
+  findRevision: Statement;
+  listBySymbol: Statement;
+  listLatestAsOf: Statement;
+  listAfter: Statement;
+  latestRevision: Statement;
+}
+
+// ============================================================================
+// Repository Implementation
+// ============================================================================
+
+export class SqliteSymbolHistoryRepository implements SymbolHistoryRepository {
+  private db: DatabaseType;
+  private stmts: SymbolHistoryStatements;
+
+  constructor(database: DatabaseType) {
+    this.db = database;
+    this.stmts = this.createStatements();
+  }
+
+  private createStatements(): SymbolHistoryStatements {
+    return {
+      findRevision: this.db.prepare('SELECT * FROM symbol_history WHERE revision = ?'),
+      listBySymbol: this.db.prepare(
+        'SELECT * FROM symbol_history WHERE symbol_id = ? ORDER BY revision'
+      ),
+      listLatestAsOf: this.db.prepare(`
+        SELECT h.* FROM symbol_history h
+        INNER JOIN (
+          SELECT symbol_id, MAX(revision) AS revision FROM symbol_history
+          WHERE changed_at <= ?
+          GROUP BY symbol_id
+        ) latest ON h.revision = latest.revision
+        ORDER BY h.symbol_id
+      `),
+      listAfter: this.db.prepare(
+        'SELECT * FROM symbol_history WHERE revision > ? ORDER BY revision'
+      ),
+      latestRevision: this.db.prepare(
+        'SELECT COALESCE(MAX(revision), 0) AS revision FROM symbol_history'
+      ),
+    };
+  }
+
+  /**
+   * List the revisions of a symbol, oldest first
+   */
+  listForSymbol(symbolId: string): SymbolRevision[] {
+    const rows = this.stmts.listBySymbol.all(symbolId) as SymbolHistoryRow[];
+    return rows.map((row) => this.rowToRevision(row));
+  }
+
+  /**
+   * Get a revision by number
+   */
+  find(revision: number): SymbolRevision | undefined {
+    const row = this.stmts.findRevision.get(revision) as SymbolHistoryRow | undefined;
+    return row ? this.rowToRevision(row) : undefined;
+  }
+
+  /**
+   * Get the latest revision of every symbol changed at or before a timestamp,
+   * ordered by symbol ID
+   */
+  findLatestAsOf(timestamp: Date): SymbolRevision[] {
+    const rows = this.stmts.listLatestAsOf.all(timestamp.toISOString()) as SymbolHistoryRow[];
+    return rows.map((row) => this.rowToRevision(row));
+  }
+
+  /**
+   * Get the number of the most recent revision, 0 if there is none
+   */
+  latestRevision(): number {
+    return (this.stmts.latestRevision.get() as { revision: number }).revision;
+  }
+
+  /**
+   * List the revisions recorded after a revision, oldest first
+   */
+  listAfter(revision: number): SymbolRevision[] {
+    const rows = this.stmts.listAfter.all(revision) as SymbolHistoryRow[];
+    return rows.map((row) => this.rowToRevision(row));
+  }
+
+  /**
+   * Convert database row to revision
+   */
+  private rowToRevision(row: SymbolHistoryRow): SymbolRevision {
+    const revision: SymbolRevision = {
+      revision: row.revision,
+      symbolId: row.symbol_id,
+      operation: row.operation as SymbolChangeOperation,
+      changedAt: new Date(row.changed_at),
+    };
+    if (row.before !== null) revision.before = decodeSymbolSnapshot(row.before);
+    if (row.after !== null) revision.after = decodeSymbolSnapshot(row.after);
+    if (row.author !== null) revision.author = row.author;
+    if (row.reason !== null) revision.reason = row.reason;
+    return revision;
+  }
+}
@@ -5,19 +5,51 @@
  * UML-First Design: Uses JSON blob storage for nested data.
  * Queryable fields (namespace, level, kind, status, origin) are columns.
  * UML relationships (composes, aggregates, dependencies) live in JSON.
+ *
+ * Every insert, update and delete is recorded in `symbol_history` with
+ * snapshots of the symbol before and after, read back through
+ * SqliteSymbolHistoryRepository. The same writes keep `symbols_fts`, the
+ * full-text index behind search, in sync.
  */
 
 import type { Statement } from 'better-sqlite3';
 import type { DatabaseType } from './persistence.js';
 import type {
+  ChangeAttribution,
   ComponentSymbol,
+  HighlightSegment,
+  SearchField,
+  SearchHighlight,
+  SymbolSearchHit,
+  SymbolSearchQuery,
   AbstractionLevel,
   ComponentKind,
+  ExecutionInfo,
   SymbolStatus,
   SymbolOrigin,
   SymbolRepository as ISymbolRepository,
 } from '../domain/symbol/index.js';
-import { registerSchema, transaction } from './persistence.js';
+import { parseSearchQuery, parseVersionReference } from '../domain/symbol/index.js';
+import { registerMigration, registerSchema, transaction } from './persistence.js';
+
+// Full-text index: name_words holds the name split at case changes, so
+// "service" finds "AuthService". Porter stemming lets "token" find "tokens".
+const CREATE_SEARCH_INDEX = `
+  CREATE VIRTUAL TABLE IF NOT EXISTS symbols_fts USING fts5(
+    symbol_id UNINDEXED,
+    name,
+    name_words,
+    namespace,
+    description,
+    tags,
+    tokenize = 'porter unicode61'
+  );
+`;
+
+const INSERT_SEARCH_ENTRY = `
+  INSERT INTO symbols_fts (symbol_id, name, name_words, namespace, description, tags)
+  VALUES (?, ?, ?, ?, ?, ?)
+`;
 
 // ============================================================================
 // Schema Registration
@@ -31,7 +63,7 @@ registerSchema('symbols', `
     name TEXT NOT NULL,
     level TEXT NOT NULL CHECK (level IN ('L0', 'L1', 'L2', 'L3', 'L4')),
     kind TEXT NOT NULL CHECK (kind IN ('type', 'enum', 'constant', 'function', 'class', 'service', 'module', 'subsystem', 'contract')),
-    language TEXT NOT NULL CHECK (language IN ('typescript')),
+    language TEXT NOT NULL CHECK (language IN ('typescript', 'python')),
     status TEXT NOT NULL DEFAULT 'declared' CHECK (status IN ('declared', 'referenced', 'tested', 'executed')),
     origin TEXT NOT NULL DEFAULT 'manual' CHECK (origin IN ('generated', 'manual', 'external')),
     extends TEXT REFERENCES symbols(id) ON DELETE SET NULL,
@@ -63,8 +95,105 @@ registerSchema('symbols', `
 
   CREATE INDEX IF NOT EXISTS idx_tags_tag ON tags(tag);
   CREATE INDEX IF NOT EXISTS idx_implements_interface ON implements(interface_id);
+
+  -- Change history: one row per write (no foreign key, it outlives the symbol)
+  CREATE TABLE IF NOT EXISTS symbol_history (
+    revision INTEGER PRIMARY KEY AUTOINCREMENT,
+    symbol_id TEXT NOT NULL,
+    operation TEXT NOT NULL CHECK (operation IN ('insert', 'update', 'delete')),
+    before TEXT,  -- snapshot, NULL for insert
+    after TEXT,   -- snapshot, NULL for delete
+    changed_at TEXT NOT NULL,
+    author TEXT,
+    reason TEXT
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_symbol_history_symbol ON symbol_history(symbol_id, revision);
+  CREATE INDEX IF NOT EXISTS idx_symbol_history_changed_at ON symbol_history(changed_at);
+
+  ${CREATE_SEARCH_INDEX}
 `);
 
+// ============================================================================
+// Migrations
+// ============================================================================
+
+// SQLite cannot alter a CHECK constraint, so the table is rebuilt.
+// Indexes are recreated by the schema SQL that runs after migrating.
+registerMigration('symbols', {
+  version: 1,
+  description: "allow 'python' in symbols.language",
+  up: `
+    CREATE TABLE symbols_rebuilt (
+      id TEXT PRIMARY KEY,
+      namespace TEXT NOT NULL,
+      name TEXT NOT NULL,
+      level TEXT NOT NULL CHECK (level IN ('L0', 'L1', 'L2', 'L3', 'L4')),
+      kind TEXT NOT NULL CHECK (kind IN ('type', 'enum', 'constant', 'function', 'class', 'service', 'module', 'subsystem', 'contract')),
+      language TEXT NOT NULL CHECK (language IN ('typescript', 'python')),
+      status TEXT NOT NULL DEFAULT 'declared' CHECK (status IN ('declared', 'referenced', 'tested', 'executed')),
+      origin TEXT NOT NULL DEFAULT 'manual' CHECK (origin IN ('generated', 'manual', 'external')),
+      extends TEXT REFERENCES symbols(id) ON DELETE SET NULL,
+      data TEXT NOT NULL
+    );
+    INSERT INTO symbols_rebuilt (id, namespace, name, level, kind, language, status, origin, extends, data)
+      SELECT id, namespace, name, level, kind, language, status, origin, extends, data FROM symbols;
+    DROP TABLE symbols;
+    ALTER TABLE symbols_rebuilt RENAME TO symbols;
+  `,
+});
+
+// Existing symbols get a baseline revision, so point-in-time queries from
+// now on see them. Snapshots use the SymbolSnapshot layout.
+registerMigration('symbols', {
+  version: 2,
+  description: 'record symbol_history with a baseline revision per symbol',
+  up: `
+    CREATE TABLE symbol_history (
+      revision INTEGER PRIMARY KEY AUTOINCREMENT,
+      symbol_id TEXT NOT NULL,
+      operation TEXT NOT NULL CHECK (operation IN ('insert', 'update', 'delete')),
+      before TEXT,
+      after TEXT,
+      changed_at TEXT NOT NULL,
+      author TEXT,
+      reason TEXT
+    );
+    INSERT INTO symbol_history (symbol_id, operation, after, changed_at, reason)
+      SELECT s.id, 'insert',
+        json_object(
+          'id', s.id, 'namespace', s.namespace, 'name', s.name, 'level', s.level,
+          'kind', s.kind, 'language', s.language, 'status', s.status, 'origin', s.origin,
+          'extends', s.extends, 'data', s.data,
+          'tags', json((SELECT json_group_array(tag) FROM tags WHERE symbol_id = s.id)),
+          'implements', json((SELECT json_group_array(interface_id) FROM implements WHERE symbol_id = s.id))
+        ),
+        strftime('%Y-%m-%dT%H:%M:%fZ', 'now'),
+        'History baseline'
+      FROM symbols s ORDER BY s.id;
+  `,
+});
+
+// Name words are split in code, so the index is filled row by row
+registerMigration('symbols', {
+  version: 3,
+  description: 'index symbols for full-text search in symbols_fts',
+  up: (database) => {
+    database.exec(CREATE_SEARCH_INDEX);
+    const rows = database
+      .prepare(`
+        SELECT s.id, s.name, s.namespace, json_extract(s.data, '$.description') AS description,
+          (SELECT group_concat(tag, ' ') FROM tags WHERE symbol_id = s.id) AS tags
+        FROM symbols s
+      `)
+      .all() as Array<{ id: string; name: string; namespace: string; description: string; tags: string | null }>;
+    const insert = database.prepare(INSERT_SEARCH_ENTRY);
+    for (const row of rows) {
+      insertSearchEntry(insert, row.id, row.name, row.namespace, row.description, row.tags ?? '');
+    }
+  },
+});
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -82,6 +211,14 @@ interface SymbolRow {
   data: string;
 }
 
+/**
+ * A symbol as recorded in symbol_history: its row plus tags and implements.
+ */
+interface SymbolSnapshot extends SymbolRow {
+  tags: string[];
+  implements: string[];
+}
+
 interface SymbolStatements {
   insertSymbol: Statement;
   getSymbol: Statement;
@@ -94,6 +231,28 @@ interface SymbolStatements {
   insertImplements: Statement;
   getImplementsBySymbol: Statement;
   deleteImplementsBySymbol: Statement;
+  listExtendedBy: Statement;
+  insertHistory: Statement;
+  insertSearchEntry: Statement;
+  deleteSearchEntry: Statement;
+}
+
+/** Columns of symbols_fts, in index order (bm25 weights follow the same order) */
+const SEARCH_COLUMNS = ['symbol_id', 'name', 'name_words', 'namespace', 'description', 'tags'];
+
+/** Relative weight of a match in each column: names and tags count most */
+const SEARCH_WEIGHTS = [0, 10, 8, 3, 1, 6];
+
+/** Control characters that cannot occur in symbol text, marking matches */
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+
+interface SearchRow extends SymbolRow {
+  score: number;
+  name_hl: string;
+  namespace_hl: string;
+  description_hl: string;
+  tags_hl: string;
 }
 
 /**
@@ -107,13 +266,26 @@ interface SymbolData {
   updatedAt: string;
   sourceLocation?: ComponentSymbol['sourceLocation'];
   contains?: string[];
-  statusInfo?: Omit<NonNullable<ComponentSymbol['statusInfo']>, 'updatedAt'> & { updatedAt: string };
+  /** Version-range extends (the extends column only holds pinned IDs) */
+  extends?: string;
+  statusInfo?: Omit<NonNullable<ComponentSymbol['statusInfo']>, 'updatedAt' | 'executionInfo'> & {
+    updatedAt: string;
+    executionInfo?: Omit<ExecutionInfo, 'firstSeen' | 'lastSeen'> & {
+      firstSeen: string;
+      lastSeen: string;
+    };
+  };
   generationMeta?: Omit<NonNullable<ComponentSymbol['generationMeta']>, 'generatedAt'> & {
     generatedAt: string;
   };
   composes?: ComponentSymbol['composes'];
   aggregates?: ComponentSymbol['aggregates'];
   dependencies?: ComponentSymbol['dependencies'];
+  members?: ComponentSymbol['members'];
+  aliasOf?: ComponentSymbol['aliasOf'];
+  enumMembers?: ComponentSymbol['enumMembers'];
+  constant?: ComponentSymbol['constant'];
+  operations?: ComponentSymbol['operations'];
 }
 
 // ============================================================================
@@ -123,6 +295,8 @@ interface SymbolData {
 export class SqliteSymbolRepository implements ISymbolRepository {
   private db: DatabaseType;
   private stmts: SymbolStatements;
+  /** Attribution recorded with revisions, set by withAttribution */
+  private attribution: ChangeAttribution = {};
 
   constructor(database: DatabaseType) {
     this.db = database;
@@ -161,6 +335,13 @@ export class SqliteSymbolRepository implements ISymbolRepository {
         'SELECT interface_id FROM implements WHERE symbol_id = ?'
       ),
       deleteImplementsBySymbol: this.db.prepare('DELETE FROM implements WHERE symbol_id = ?'),
+      listExtendedBy: this.db.prepare('SELECT id FROM symbols WHERE extends = ? AND id != ?'),
+      insertHistory: this.db.prepare(`
+        INSERT INTO symbol_history (symbol_id, operation, before, after, changed_at, author, reason)
+        VALUES (@symbol_id, @operation, @before, @after, @changed_at, @author, @reason)
+      `),
+      insertSearchEntry: this.db.prepare(INSERT_SEARCH_ENTRY),
+      deleteSearchEntry: this.db.prepare('DELETE FROM symbols_fts WHERE symbol_id = ?'),
     };
   }
 
@@ -170,9 +351,11 @@ export class SqliteSymbolRepository implements ISymbolRepository {
 
   insert(symbol: ComponentSymbol): void {
     transaction(this.db, () => {
-      this.stmts.insertSymbol.run(this.toRow(symbol));
+      this.stmts.insertSymbol.run(toSymbolRow(symbol));
       this.syncTags(symbol.id, symbol.tags);
       this.syncImplements(symbol.id, symbol.implements);
+      this.syncSearchEntry(symbol);
+      this.recordChange(symbol.id, 'insert', null, this.readSnapshot(symbol.id));
     });
   }
 
@@ -184,15 +367,58 @@ export class SqliteSymbolRepository implements ISymbolRepository {
 
   update(id: string, symbol: ComponentSymbol): void {
     transaction(this.db, () => {
-      this.stmts.updateSymbol.run({ ...this.toRow(symbol), id });
+      const before = this.readSnapshot(id);
+      this.stmts.updateSymbol.run({ ...toSymbolRow(symbol), id });
       this.syncTags(id, symbol.tags);
       this.syncImplements(id, symbol.implements);
+      const after = this.readSnapshot(id);
+      if (before !== null && after !== before) {
+        this.syncSearchEntry({ ...symbol, id });
+        this.recordChange(id, 'update', before, after);
+      }
     });
   }
 
   delete(id: string): boolean {
-    const result = this.stmts.deleteSymbol.run(id);
-    return result.changes > 0;
+    return transaction(this.db, () => {
+      const before = this.readSnapshot(id);
+      if (before === null) {
+        return false;
+      }
+
+      // ON DELETE SET NULL clears extends on subclasses; record that too
+      const subclasses = (this.stmts.listExtendedBy.all(id, id) as Array<{ id: string }>).map(
+        (row) => ({ id: row.id, before: this.readSnapshot(row.id) })
+      );
+      this.stmts.deleteSymbol.run(id);
+      this.stmts.deleteSearchEntry.run(id);
+      this.recordChange(id, 'delete', before, null);
+      for (const subclass of subclasses) {
+        this.recordChange(subclass.id, 'update', subclass.before, this.readSnapshot(subclass.id));
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Run several repository calls atomically (all or nothing)
+   */
+  transaction<T>(fn: () => T): T {
+    return transaction(this.db, fn);
+  }
+
+  /**
+   * Run several repository calls atomically, recording the author and
+   * reason with every revision they produce
+   */
+  withAttribution<T>(attribution: ChangeAttribution, fn: () => T): T {
+    const previous = this.attribution;
+    this.attribution = { ...previous, ...attribution };
+    try {
+      return transaction(this.db, fn);
+    } finally {
+      this.attribution = previous;
+    }
   }
 
   list(): ComponentSymbol[] {
@@ -256,16 +482,80 @@ export class SqliteSymbolRepository implements ISymbolRepository {
   }
 
   search(query: string): ComponentSymbol[] {
-    const pattern = `%${query}%`;
+    return this.searchRanked(parseSearchQuery(query)).map((hit) => hit.symbol);
+  }
+
+  /**
+   * Rank symbols by BM25 over the full-text index. Without terms, symbols
+   * matching the filters are listed by namespace and name; a query with
+   * neither terms nor filters (e.g. only punctuation) finds nothing.
+   */
+  searchRanked(query: SymbolSearchQuery, limit?: number): SymbolSearchHit[] {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    const filters: Array<[string, string | undefined]> = [
+      ['s.kind', query.kind],
+      ['s.level', query.level],
+      ['s.status', query.status],
+      ['s.origin', query.origin],
+      ['s.language', query.language],
+    ];
+    for (const [column, value] of filters) {
+      if (value !== undefined) {
+        conditions.push(`${column} = ?`);
+        params.push(value);
+      }
+    }
+    if (query.namespace !== undefined) {
+      conditions.push('(s.namespace = ? OR s.namespace LIKE ?)');
+      params.push(query.namespace, `${query.namespace}/%`);
+    }
+    for (const tag of query.tags) {
+      conditions.push('EXISTS (SELECT 1 FROM tags t WHERE t.symbol_id = s.id AND t.tag = ?)');
+      params.push(tag);
+    }
+
+    if (query.terms.length === 0) {
+      if (conditions.length === 0) return [];
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+      const rows = this.db
+        .prepare(`SELECT s.* FROM symbols s ${where} ORDER BY s.namespace, s.name LIMIT ?`)
+        .all(...params, limit ?? -1) as SymbolRow[];
+      return rows.map((row) => ({ symbol: this.fromRow(row), score: 0, highlights: [] }));
+    }
+
+    const bm25 = `bm25(symbols_fts, ${SEARCH_WEIGHTS.join(', ')})`;
+    const column = (name: string): number => SEARCH_COLUMNS.indexOf(name);
     const stmt = this.db.prepare(`
-      SELECT * FROM symbols
-      WHERE name LIKE ? OR namespace LIKE ? OR json_extract(data, '$.description') LIKE ?
-      ORDER BY
-        CASE WHEN name LIKE ? THEN 0 ELSE 1 END,
-        namespace, name
+      SELECT s.*, -${bm25} AS score,
+        highlight(symbols_fts, ${column('name')}, @start, @end) AS name_hl,
+        highlight(symbols_fts, ${column('namespace')}, @start, @end) AS namespace_hl,
+        snippet(symbols_fts, ${column('description')}, @start, @end, '…', 12) AS description_hl,
+        highlight(symbols_fts, ${column('tags')}, @start, @end) AS tags_hl
+      FROM symbols_fts
+      INNER JOIN symbols s ON s.id = symbols_fts.symbol_id
+      WHERE symbols_fts MATCH @match ${conditions.map((c) => `AND ${c}`).join(' ')}
+      ORDER BY ${bm25}, s.namespace, s.name
+      LIMIT @limit
     `);
-    const rows = stmt.all(pattern, pattern, pattern, pattern) as SymbolRow[];
-    return rows.map((row) => this.fromRow(row));
+    // Filters are positional, the rest named; better-sqlite3 takes both at once
+    const rows = stmt.all(...params, {
+      start: MATCH_START,
+      end: MATCH_END,
+      match: toMatchExpression(query),
+      limit: limit ?? -1,
+    }) as SearchRow[];
+
+    return rows.map((row) => ({
+      symbol: this.fromRow(row),
+      score: row.score,
+      highlights: toHighlights([
+        ['name', row.name_hl],
+        ['namespace', row.namespace_hl],
+        ['description', row.description_hl],
+        ['tags', row.tags_hl],
+      ]),
+    }));
   }
 
   findContains(id: string): string[] {
@@ -315,117 +605,46 @@ export class SqliteSymbolRepository implements ISymbolRepository {
   }
 
   // ==========================================================================
-  // Row Conversion - Simple JSON marshalling
+  // Row Conversion
   // ==========================================================================
 
-  private toRow(symbol: ComponentSymbol): Record<string, unknown> {
-    const data: SymbolData = {
-      version: symbol.version,
-      description: symbol.description,
-      createdAt: symbol.createdAt.toISOString(),
-      updatedAt: symbol.updatedAt.toISOString(),
-    };
+  private fromRow(row: SymbolRow): ComponentSymbol {
+    return fromSymbolRow(row, this.getTags(row.id), this.getImplements(row.id));
+  }
 
-    if (symbol.sourceLocation) {
-      data.sourceLocation = symbol.sourceLocation;
-    }
-    if (symbol.contains?.length) {
-      data.contains = symbol.contains;
-    }
-    if (symbol.statusInfo) {
-      const { updatedAt, ...rest } = symbol.statusInfo;
-      data.statusInfo = {
-        ...rest,
-        updatedAt: updatedAt.toISOString(),
-      };
-    }
-    if (symbol.generationMeta) {
-      const { generatedAt, ...rest } = symbol.generationMeta;
-      data.generationMeta = {
-        ...rest,
-        generatedAt: generatedAt.toISOString(),
-      };
-    }
-    if (symbol.composes?.length) {
-      data.composes = symbol.composes;
-    }
-    if (symbol.aggregates?.length) {
-      data.aggregates = symbol.aggregates;
-    }
-    if (symbol.dependencies?.length) {
-      data.dependencies = symbol.dependencies;
-    }
+  // ==========================================================================
+  // Change History
+  // ==========================================================================
 
-    return {
-      id: symbol.id,
-      namespace: symbol.namespace,
-      name: symbol.name,
-      level: symbol.level,
-      kind: symbol.kind,
-      language: symbol.language,
-      status: symbol.status,
-      origin: symbol.origin,
-      extends: symbol.extends ?? null,
-      data: JSON.stringify(data),
+  /**
+   * Snapshot of a symbol as currently stored, or null if it does not exist.
+   */
+  private readSnapshot(id: string): string | null {
+    const row = this.stmts.getSymbol.get(id) as SymbolRow | undefined;
+    if (!row) return null;
+    const snapshot: SymbolSnapshot = {
+      ...row,
+      tags: this.getTags(id),
+      implements: this.getImplements(id),
     };
+    return JSON.stringify(snapshot);
   }
 
-  private fromRow(row: SymbolRow): ComponentSymbol {
-    const data = JSON.parse(row.data) as SymbolData;
-    const tags = this.getTags(row.id);
-    const implements_ = this.getImplements(row.id);
-
-    const symbol: ComponentSymbol = {
-      id: row.id,
-      namespace: row.namespace,
-      name: row.name,
-      level: row.level as AbstractionLevel,
-      kind: row.kind as ComponentKind,
-      language: data.version ? (row.language as ComponentSymbol['language']) : 'typescript',
-      version: data.version,
-      tags,
-      description: data.description,
-      createdAt: new Date(data.createdAt),
-      updatedAt: new Date(data.updatedAt),
-      status: row.status as SymbolStatus,
-      origin: row.origin as SymbolOrigin,
-    };
-
-    if (row.extends) {
-      symbol.extends = row.extends;
-    }
-    if (implements_.length > 0) {
-      symbol.implements = implements_;
-    }
-    if (data.sourceLocation) {
-      symbol.sourceLocation = data.sourceLocation;
-    }
-    if (data.contains?.length) {
-      symbol.contains = data.contains;
-    }
-    if (data.statusInfo) {
-      symbol.statusInfo = {
-        ...data.statusInfo,
-        updatedAt: new Date(data.statusInfo.updatedAt),
-      };
-    }
-    if (data.generationMeta) {
-      symbol.generationMeta = {
-        ...data.generationMeta,
-        generatedAt: new Date(data.generationMeta.generatedAt),
-      };
-    }
-    if (data.composes?.length) {
-      symbol.composes = data.composes;
-    }
-    if (data.aggregates?.length) {
-      symbol.aggregates = data.aggregates;
-    }
-    if (data.dependencies?.length) {
-      symbol.dependencies = data.dependencies;
-    }
-
-    return symbol;
+  private recordChange(
+    symbolId: string,
+    operation: 'insert' | 'update' | 'delete',
+    before: string | null,
+    after: string | null
+  ): void {
+    this.stmts.insertHistory.run({
+      symbol_id: symbolId,
+      operation,
+      before,
+      after,
+      changed_at: new Date().toISOString(),
+      author: this.attribution.author ?? null,
+      reason: this.attribution.reason ?? null,
+    });
   }
 
   // ==========================================================================
@@ -449,6 +668,18 @@ export class SqliteSymbolRepository implements ISymbolRepository {
     }
   }
 
+  private syncSearchEntry(symbol: ComponentSymbol): void {
+    this.stmts.deleteSearchEntry.run(symbol.id);
+    insertSearchEntry(
+      this.stmts.insertSearchEntry,
+      symbol.id,
+      symbol.name,
+      symbol.namespace,
+      symbol.description,
+      symbol.tags.join(' ')
+    );
+  }
+
   private syncImplements(symbolId: string, interfaces: string[] | undefined): void {
     this.stmts.deleteImplementsBySymbol.run(symbolId);
     if (interfaces) {
@@ -458,3 +689,230 @@ export class SqliteSymbolRepository implements ISymbolRepository {
     }
   }
 }
+
+// ============================================================================
+// Row Conversion - Simple JSON marshalling
+// ============================================================================
+
+function toSymbolRow(symbol: ComponentSymbol): Record<string, unknown> {
+  // The extends column is a foreign key, so range references stay in the JSON
+  const extendsRange =
+    symbol.extends && parseVersionReference(symbol.extends) ? symbol.extends : undefined;
+  const data: SymbolData = {
+    version: symbol.version,
+    description: symbol.description,
+    createdAt: symbol.createdAt.toISOString(),
+    updatedAt: symbol.updatedAt.toISOString(),
+  };
+
+  if (symbol.sourceLocation) {
+    data.sourceLocation = symbol.sourceLocation;
+  }
+  if (symbol.contains?.length) {
+    data.contains = symbol.contains;
+  }
+  if (extendsRange) {
+    data.extends = extendsRange;
+  }
+  if (symbol.statusInfo) {
+    const { updatedAt, executionInfo, ...rest } = symbol.statusInfo;
+    data.statusInfo = {
+      ...rest,
+      updatedAt: updatedAt.toISOString(),
+    };
+    if (executionInfo) {
+      data.statusInfo.executionInfo = {
+        ...executionInfo,
+        firstSeen: executionInfo.firstSeen.toISOString(),
+        lastSeen: executionInfo.lastSeen.toISOString(),
+      };
+    }
+  }
+  if (symbol.generationMeta) {
+    const { generatedAt, ...rest } = symbol.generationMeta;
+    data.generationMeta = {
+      ...rest,
+      generatedAt: generatedAt.toISOString(),
+    };
+  }
+  if (symbol.composes?.length) {
+    data.composes = symbol.composes;
+  }
+  if (symbol.aggregates?.length) {
+    data.aggregates = symbol.aggregates;
+  }
+  if (symbol.dependencies?.length) {
+    data.dependencies = symbol.dependencies;
+  }
+  if (symbol.members?.length) {
+    data.members = symbol.members;
+  }
+  if (symbol.aliasOf?.length) {
+    data.aliasOf = symbol.aliasOf;
+  }
+  if (symbol.enumMembers?.length) {
+    data.enumMembers = symbol.enumMembers;
+  }
+  if (symbol.constant) {
+    data.constant = symbol.constant;
+  }
+  if (symbol.operations?.length) {
+    data.operations = symbol.operations;
+  }
+
+  return {
+    id: symbol.id,
+    namespace: symbol.namespace,
+    name: symbol.name,
+    level: symbol.level,
+    kind: symbol.kind,
+    language: symbol.language,
+    status: symbol.status,
+    origin: symbol.origin,
+    extends: extendsRange ? null : symbol.extends ?? null,
+    data: JSON.stringify(data),
+  };
+}
+
+function fromSymbolRow(row: SymbolRow, tags: string[], implements_: string[]): ComponentSymbol {
+  const data = JSON.parse(row.data) as SymbolData;
+
+  const symbol: ComponentSymbol = {
+    id: row.id,
+    namespace: row.namespace,
+    name: row.name,
+    level: row.level as AbstractionLevel,
+    kind: row.kind as ComponentKind,
+    language: data.version ? (row.language as ComponentSymbol['language']) : 'typescript',
+    version: data.version,
+    tags,
+    description: data.description,
+    createdAt: new Date(data.createdAt),
+    updatedAt: new Date(data.updatedAt),
+    status: row.status as SymbolStatus,
+    origin: row.origin as SymbolOrigin,
+  };
+
+  const extendsId = row.extends ?? data.extends;
+  if (extendsId) {
+    symbol.extends = extendsId;
+  }
+  if (implements_.length > 0) {
+    symbol.implements = implements_;
+  }
+  if (data.sourceLocation) {
+    symbol.sourceLocation = data.sourceLocation;
+  }
+  if (data.contains?.length) {
+    symbol.contains = data.contains;
+  }
+  if (data.statusInfo) {
+    const { executionInfo, ...statusInfo } = data.statusInfo;
+    symbol.statusInfo = {
+      ...statusInfo,
+      updatedAt: new Date(data.statusInfo.updatedAt),
+    };
+    if (executionInfo) {
+      symbol.statusInfo.executionInfo = {
+        ...executionInfo,
+        firstSeen: new Date(executionInfo.firstSeen),
+        lastSeen: new Date(executionInfo.lastSeen),
+      };
+    }
+  }
+  if (data.generationMeta) {
+    symbol.generationMeta = {
+      ...data.generationMeta,
+      generatedAt: new Date(data.generationMeta.generatedAt),
+    };
+  }
+  if (data.composes?.length) {
+    symbol.composes = data.composes;
+  }
+  if (data.aggregates?.length) {
+    symbol.aggregates = data.aggregates;
+  }
+  if (data.dependencies?.length) {
+    symbol.dependencies = data.dependencies;
+  }
+  if (data.members?.length) {
+    symbol.members = data.members;
+  }
+  if (data.aliasOf?.length) {
+    symbol.aliasOf = data.aliasOf;
+  }
+  if (data.enumMembers?.length) {
+    symbol.enumMembers = data.enumMembers;
+  }
+  if (data.constant) {
+    symbol.constant = data.constant;
+  }
+  if (data.operations?.length) {
+    symbol.operations = data.operations;
+  }
+
+  return symbol;
+}
+
+/**
+ * Decode a symbol_history snapshot.
+ */
+export function decodeSymbolSnapshot(json: string): ComponentSymbol {
+  const snapshot = JSON.parse(json) as SymbolSnapshot;
+  return fromSymbolRow(snapshot, snapshot.tags, snapshot.implements);
+}
+
+// ============================================================================
+// Search Index
+// ============================================================================
+
+function insertSearchEntry(
+  stmt: Statement,
+  id: string,
+  name: string,
+  namespace: string,
+  description: string,
+  tags: string
+): void {
+  stmt.run(id, name, splitNameWords(name), namespace, description, tags);
+}
+
+/**
+ * Split a name at case changes: "HTTPServerConfig" becomes "HTTP Server Config".
+ */
+function splitNameWords(name: string): string {
+  return name
+    .replace(/([\p{Ll}\p{N}])(\p{Lu})/gu, '$1 $2')
+    .replace(/(\p{Lu}+)(\p{Lu}\p{Ll})/gu, '$1 $2');
+}
+
+/**
+ * Build an FTS5 MATCH expression. Terms are quoted so their text is never
+ * read as query syntax; adjacent terms are combined with AND.
+ */
+function toMatchExpression(query: SymbolSearchQuery): string {
+  return query.terms
+    .map((term) => `"${term.text.replace(/"/g, '""')}"${term.prefix ? '*' : ''}`)
+    .join(' ');
+}
+
+function toHighlights(fields: Array<[SearchField, string | null]>): SearchHighlight[] {
+  return fields
+    .filter((entry): entry is [SearchField, string] => entry[1]?.includes(MATCH_START) ?? false)
+    .map(([field, marked]) => ({ field, segments: toSegments(marked) }));
+}
+
+function toSegments(marked: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  for (const part of marked.split(MATCH_START)) {
+    const end = part.indexOf(MATCH_END);
+    if (end >= 0) {
+      segments.push({ text: part.slice(0, end), match: true });
+    }
+    const rest = part.slice(end + 1);
+    if (rest) {
+      segments.push({ text: rest, match: false });
+    }
+  }
+  return segments;
+}
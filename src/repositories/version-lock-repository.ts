@@ -0,0 +1,121 @@
+/**
+ * Version Lock Repository
+ *
+ * Self-contained SQLite repository for version locks: the lockfile-style
+ * snapshot of which symbol ID each version-range reference resolved to.
+ * The database is per project, so the locks are too.
+ */
+
+import type { Statement } from 'better-sqlite3';
+import type { VersionLock, VersionLockRepository } from '../domain/symbol/index.js';
+import type { DatabaseType } from './persistence.js';
+import { registerSchema } from './persistence.js';
+
+// ============================================================================
+// Schema Registration
+// ============================================================================
+
+registerSchema('version_locks', `
+  -- Resolved version-range references (dropped with the symbol they pin)
+  CREATE TABLE IF NOT EXISTS version_locks (
+    reference TEXT PRIMARY KEY,
+    resolved_id TEXT NOT NULL REFERENCES symbols(id) ON DELETE CASCADE,
+    locked_at TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_version_locks_resolved ON version_locks(resolved_id);
+`);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface VersionLockRow {
+  reference: string;
+  resolved_id: string;
+  locked_at: string;
+}
+
+interface VersionLockStatements {
+  findLock: Statement;
+  upsertLock: Statement;
+  deleteLock: Statement;
+  listLocks: Statement;
+}
+
+// ============================================================================
+// Repository Implementation
+// ============================================================================
+
+export class SqliteVersionLockRepository implements VersionLockRepository {
+  private db: DatabaseType;
+  private stmts: VersionLockStatements;
+
+  constructor(database: DatabaseType) {
+    this.db = database;
+    this.stmts = this.createStatements();
+  }
+
+  private createStatements(): VersionLockStatements {
+    return {
+      findLock: this.db.prepare('SELECT * FROM version_locks WHERE reference = ?'),
+      upsertLock: this.db.prepare(`
+        INSERT INTO version_locks (reference, resolved_id, locked_at)
+        VALUES (@reference, @resolved_id, @locked_at)
+        ON CONFLICT(reference) DO UPDATE SET
+          resolved_id = excluded.resolved_id,
+          locked_at = excluded.locked_at
+      `),
+      deleteLock: this.db.prepare('DELETE FROM version_locks WHERE reference = ?'),
+      listLocks: this.db.prepare('SELECT * FROM version_locks ORDER BY reference'),
+    };
+  }
+
+  /**
+   * Get the lock for a reference
+   */
+  find(reference: string): VersionLock | undefined {
+    const row = this.stmts.findLock.get(reference) as VersionLockRow | undefined;
+    return row ? this.rowToLock(row) : undefined;
+  }
+
+  /**
+   * Lock a reference to a resolved symbol ID (replaces any existing lock)
+   */
+  save(reference: string, resolvedId: string): VersionLock {
+    const lock: VersionLock = { reference, resolvedId, lockedAt: new Date() };
+    this.stmts.upsertLock.run({
+      reference,
+      resolved_id: resolvedId,
+      locked_at: lock.lockedAt.toISOString(),
+    });
+    return lock;
+  }
+
+  /**
+   * Remove the lock for a reference
+   */
+  delete(reference: string): boolean {
+    const result = this.stmts.deleteLock.run(reference);
+    return result.changes > 0;
+  }
+
+  /**
+   * List all locks, ordered by reference
+   */
+  list(): VersionLock[] {
+    const rows = this.stmts.listLocks.all() as VersionLockRow[];
+    return rows.map((row) => this.rowToLock(row));
+  }
+
+  /**
+   * Convert database row to lock
+   */
+  private rowToLock(row: VersionLockRow): VersionLock {
+    return {
+      reference: row.reference,
+      resolvedId: row.resolved_id,
+      lockedAt: new Date(row.locked_at),
+    };
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Unified Diff
+ *
+ * Minimal line-based unified diff, used to show what regenerating a file
+ * would discard when someone edited a .generated.ts by hand.
+ */
+
+/** Unchanged lines shown around each change */
+const CONTEXT_LINES = 3;
+
+type DiffOp = { type: ' ' | '-' | '+'; line: string };
+
+/**
+ * Create a unified diff between two texts.
+ * Returns an empty string when they are identical.
+ *
+ * @param oldText Current content (e.g., the file on disk)
+ * @param newText Replacement content
+ * @param oldLabel Label for the `---` header
+ * @param newLabel Label for the `+++` header
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  oldLabel: string,
+  newLabel: string
+): string {
+  if (oldText === newText) return '';
+
+  const ops = diffLines(oldText.split('\n'), newText.split('\n'));
+  const lines = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+
+  for (const [start, end] of groupHunks(ops)) {
+    let oldStart = 1;
+    let newStart = 1;
+    for (const op of ops.slice(0, start)) {
+      if (op.type !== '+') oldStart++;
+      if (op.type !== '-') newStart++;
+    }
+
+    const hunk = ops.slice(start, end);
+    const oldCount = hunk.filter((op) => op.type !== '+').length;
+    const newCount = hunk.filter((op) => op.type !== '-').length;
+
+    lines.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    lines.push(...hunk.map((op) => `${op.type}${op.line}`));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Compute line operations via longest common subsequence.
+ * Common prefix and suffix are trimmed first to keep the table small.
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffOp[] {
+  let prefix = 0;
+  while (
+    prefix < oldLines.length &&
+    prefix < newLines.length &&
+    oldLines[prefix] === newLines[prefix]
+  ) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = oldLines.slice(prefix, oldLines.length - suffix);
+  const b = newLines.slice(prefix, newLines.length - suffix);
+
+  // lcs[i * width + j] = LCS length of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[i] === b[j]
+          ? lcs[(i + 1) * width + j + 1]! + 1
+          : Math.max(lcs[(i + 1) * width + j]!, lcs[i * width + j + 1]!);
+    }
+  }
+
+  const middle: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      middle.push({ type: ' ', line: a[i]! });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j]! >= lcs[i * width + j + 1]!) {
+      middle.push({ type: '-', line: a[i++]! });
+    } else {
+      middle.push({ type: '+', line: b[j++]! });
+    }
+  }
+  while (i < a.length) middle.push({ type: '-', line: a[i++]! });
+  while (j < b.length) middle.push({ type: '+', line: b[j++]! });
+
+  return [
+    ...oldLines.slice(0, prefix).map((line): DiffOp => ({ type: ' ', line })),
+    ...middle,
+    ...oldLines.slice(oldLines.length - suffix).map((line): DiffOp => ({ type: ' ', line })),
+  ];
+}
+
+/**
+ * Group changed operations into [start, end) hunk ranges with context.
+ * Changes closer than twice the context are merged into one hunk.
+ */
+function groupHunks(ops: DiffOp[]): Array<[number, number]> {
+  const hunks: Array<[number, number]> = [];
+
+  ops.forEach((op, index) => {
+    if (op.type === ' ') return;
+    const start = Math.max(0, index - CONTEXT_LINES);
+    const end = Math.min(ops.length, index + CONTEXT_LINES + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = end;
+    } else {
+      hunks.push([start, end]);
+    }
+  });
+
+  return hunks;
+}
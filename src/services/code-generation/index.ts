@@ -2,17 +2,16 @@
  * Code Generation Service
  *
  * Orchestrates code generation using the Generation Gap pattern.
- * Transforms component symbols to TypeScript code files.
+ * Transforms component symbols to code files in their language.
  *
  * Architecture (Clean Architecture / Layered):
- *   - Domain layer: ../../domain/symbol/transformer.js (pure transformations)
- *   - Backend layer: ../../backends/typescript/ (language-specific code generation)
+ *   - Domain layer: ../../domain/symbol/ (symbols, built-in type mappings)
+ *   - Backend layer: ./typescript/, ./python/ (LanguageBackend implementations)
  *   - Infrastructure layer: ../../infrastructure/file-system/ (file I/O)
  *   - Service layer: ./service.js (orchestration)
  *
  * For internal types, import directly from:
- *   - ./schema.js - Service-level types and error codes
- *   - ../../backends/typescript/schema.js - Backend-specific types (GeneratedComponent)
+ *   - ./schema.js - Service-level types and the LanguageBackend contract
  */
 
 // Service (primary API)
@@ -24,4 +23,7 @@ export type {
   GenerationResult,
   GenerationBatchResult,
   PreviewResult,
+  LanguageBackend,
+  GenerationContext,
+  GeneratedPaths,
 } from './schema.js';
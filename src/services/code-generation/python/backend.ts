@@ -0,0 +1,130 @@
+/**
+ * Python Backend
+ *
+ * LanguageBackend for Python 3.10+: `<name>_generated.py` modules holding
+ * abstract base classes and declarations, and `<name>.py` user subclasses.
+ * Namespaces become packages under the output directory, which is the
+ * import root for the generated code.
+ */
+
+import * as path from 'node:path';
+import type { ComponentSymbol } from '../../../domain/symbol/index.js';
+import type {
+  GeneratedPaths,
+  GenerationContext,
+  LanguageBackend,
+} from '../schema.js';
+import { getReferencedSymbolIds } from '../typescript/index.js';
+import { addBaseClass, addUserClass, getBaseClassName, getClassName } from './class-generator.js';
+import { addSymbolImports, getRuntimeSymbolIds, type PythonImport } from './import-builder.js';
+import { PythonModule } from './source-builder.js';
+import { addTypeDeclaration, getDeclarationName } from './type-generator.js';
+import { getPackagePath, toSnakeCase, type TypeNameResolver } from './type-mapper.js';
+
+export class PythonBackend implements LanguageBackend {
+  readonly language = 'python';
+
+  /**
+   * L0 declarations have no user file, so their implementationPath is empty.
+   */
+  getPaths(symbol: ComponentSymbol, outputDir: string): GeneratedPaths {
+    const directory = path.join(outputDir, ...getPackagePath(symbol.namespace));
+    const moduleName = toSnakeCase(symbol.name);
+    return {
+      generatedPath: path.join(directory, `${moduleName}_generated.py`),
+      implementationPath: symbol.level === 'L0' ? '' : path.join(directory, `${moduleName}.py`),
+      directory,
+    };
+  }
+
+  generateBaseClass(symbol: ComponentSymbol, context: GenerationContext): string {
+    if (context.options.includeTracing) {
+      context.warnings.push('Execution tracing is not supported for python, not added');
+    }
+
+    const module = new PythonModule();
+    const typeName = this.addImports(module, symbol, context, [getBaseClassName(symbol)]);
+    addBaseClass(module, symbol, context.options.includeComments, typeName);
+    return module.render(generatedHeader(symbol.id));
+  }
+
+  generateUserStub(symbol: ComponentSymbol, context: GenerationContext): string {
+    const className = getClassName(symbol);
+    const module = new PythonModule();
+    addUserClass(
+      module,
+      symbol,
+      this.getModulePath(symbol, 'generated'),
+      context.options.includeComments
+    );
+    return module.render([
+      `"""${className}`,
+      '',
+      `User implementation of ${symbol.id}`,
+      'Extend and customize as needed.',
+      '"""',
+    ]);
+  }
+
+  generateDeclaration(symbol: ComponentSymbol, context: GenerationContext): string {
+    const module = new PythonModule();
+    const typeName = this.addImports(module, symbol, context, [getDeclarationName(symbol)]);
+    addTypeDeclaration(module, symbol, context.options.includeComments, typeName);
+    return module.render(generatedHeader(symbol.id));
+  }
+
+  /**
+   * Import the symbols referenced by generated code: L0 declarations from
+   * their generated module, L1 classes from their user module. Base classes
+   * and alias targets are imported at runtime, everything else only for
+   * type checking.
+   */
+  private addImports(
+    module: PythonModule,
+    symbol: ComponentSymbol,
+    context: GenerationContext,
+    reservedNames: string[]
+  ): TypeNameResolver {
+    const runtime = getRuntimeSymbolIds(symbol);
+    const imports: PythonImport[] = [];
+
+    for (const symbolId of getReferencedSymbolIds(symbol)) {
+      const target = context.resolveReference(symbolId);
+      if (!target) continue;
+
+      const isDeclaration = target.level === 'L0';
+      imports.push({
+        symbolId,
+        namespace: target.namespace,
+        exportName: isDeclaration ? getDeclarationName(target) : getClassName(target),
+        module: this.getModulePath(target, isDeclaration ? 'generated' : 'implementation'),
+        typeOnly: !runtime.has(symbolId),
+      });
+    }
+
+    return module.trackStdlib(addSymbolImports(module, imports, reservedNames));
+  }
+
+  /**
+   * Dotted import path of a symbol's generated or user module.
+   */
+  private getModulePath(symbol: ComponentSymbol, file: 'generated' | 'implementation'): string {
+    const moduleName = toSnakeCase(symbol.name);
+    return [
+      ...getPackagePath(symbol.namespace),
+      file === 'generated' ? `${moduleName}_generated` : moduleName,
+    ].join('.');
+  }
+}
+
+/**
+ * Header comment for fully generated modules.
+ */
+function generatedHeader(symbolId: string): string[] {
+  return [
+    '# @generated',
+    '# DO NOT EDIT - This file is auto-generated by cyrus-code',
+    `# Source: ${symbolId}`,
+    `# Generated: ${new Date().toISOString()}`,
+  ];
+}
@@ -0,0 +1,211 @@
+/**
+ * Python Class Generator
+ *
+ * Generates abstract base classes and user subclasses using the Generation
+ * Gap pattern. Dependencies are injected through a typed `__init__`;
+ * operations become `@abstractmethod`s the user subclass must implement.
+ */
+
+import type { ComponentSymbol, DependencyRef, Operation } from '../../../domain/symbol/index.js';
+import { sanitizeClassName } from '../typescript/index.js';
+import { formatDocstring, INDENT, type PythonModule } from './source-builder.js';
+import { toIdentifier, typeRefToTypeString, type TypeNameResolver } from './type-mapper.js';
+
+/** Line length black would wrap signatures at */
+const MAX_LINE_LENGTH = 88;
+
+/**
+ * Add the abstract base class for a component to a module.
+ */
+export function addBaseClass(
+  module: PythonModule,
+  symbol: ComponentSymbol,
+  includeComments: boolean,
+  typeName: TypeNameResolver
+): void {
+  const className = getClassName(symbol);
+  const bases = [
+    ...(symbol.extends ? [typeName(symbol.extends)] : []),
+    ...(symbol.implements ?? []).map((iface) => typeName(iface)),
+    'ABC',
+  ];
+  module.addImport('abc', 'ABC');
+
+  const body: string[][] = [];
+  if (includeComments && symbol.description) {
+    const usage = `Base class for ${className}. Extend this class to implement the component.`;
+    body.push(formatDocstring(`${symbol.description}\n\n${usage}`, INDENT));
+  }
+
+  const dependencies = symbol.dependencies ?? [];
+  const properties = renderPropertyDependencies(dependencies, typeName);
+  if (properties.length > 0) {
+    body.push(properties);
+  }
+
+  const init = renderInit(module, symbol, dependencies, typeName);
+  if (init.length > 0) {
+    body.push(init);
+  }
+
+  for (const op of symbol.operations ?? []) {
+    module.addImport('abc', 'abstractmethod');
+    body.push(renderAbstractOperation(op, includeComments, typeName));
+  }
+
+  module.addLines(`class ${getBaseClassName(symbol)}(${bases.join(', ')}):`);
+  module.addLines(...joinBlocks(body.length > 0 ? body : [[`${INDENT}pass`]]));
+}
+
+/**
+ * Add the user implementation subclass to a module.
+ *
+ * @param generatedModule Dotted path of the module declaring the base class
+ */
+export function addUserClass(
+  module: PythonModule,
+  symbol: ComponentSymbol,
+  generatedModule: string,
+  includeComments: boolean
+): void {
+  module.addImport(generatedModule, getBaseClassName(symbol));
+  module.addLines(
+    `class ${getClassName(symbol)}(${getBaseClassName(symbol)}):`,
+    ...(includeComments && symbol.description
+      ? formatDocstring(symbol.description, INDENT)
+      : [`${INDENT}pass`])
+  );
+}
+
+/**
+ * Get the class name for a symbol.
+ */
+export function getClassName(symbol: ComponentSymbol): string {
+  return sanitizeClassName(symbol.name);
+}
+
+/**
+ * Get the base class name for a symbol.
+ */
+export function getBaseClassName(symbol: ComponentSymbol): string {
+  return `${getClassName(symbol)}Base`;
+}
+
+/**
+ * Format a `def` line, one parameter per line when it would be too long.
+ */
+function formatSignature(
+  prefix: string,
+  parameters: string[],
+  returnType: string,
+  indent: string
+): string[] {
+  const line = `${indent}${prefix}(${parameters.join(', ')}) -> ${returnType}:`;
+  if (line.length <= MAX_LINE_LENGTH) {
+    return [line];
+  }
+  return [
+    `${indent}${prefix}(`,
+    ...parameters.map((param) => `${indent}${INDENT}${param},`),
+    `${indent}) -> ${returnType}:`,
+  ];
+}
+
+/**
+ * Declare property dependencies as class-level annotations; the injector
+ * assigns them after construction.
+ */
+function renderPropertyDependencies(
+  dependencies: DependencyRef[],
+  typeName: TypeNameResolver
+): string[] {
+  return dependencies
+    .filter((dep) => dep.kind === 'property')
+    .map((dep) =>
+      dep.optional
+        ? `${INDENT}${toIdentifier(dep.name)}: ${typeName(dep.symbolId)} | None = None`
+        : `${INDENT}${toIdentifier(dep.name)}: ${typeName(dep.symbolId)}`
+    );
+}
+
+/**
+ * Render `__init__` for constructor dependencies.
+ *
+ * Optional dependencies are keyword-only, so the required ones keep their
+ * positions. A subclass forwards any remaining arguments to its parent.
+ */
+function renderInit(
+  module: PythonModule,
+  symbol: ComponentSymbol,
+  dependencies: DependencyRef[],
+  typeName: TypeNameResolver
+): string[] {
+  const constructorDeps = dependencies.filter((dep) => dep.kind === 'constructor');
+  if (constructorDeps.length === 0) {
+    return [];
+  }
+
+  const forward = symbol.extends !== undefined;
+  const required = constructorDeps
+    .filter((dep) => !dep.optional)
+    .map((dep) => `${toIdentifier(dep.name)}: ${typeName(dep.symbolId)}`);
+  const optional = constructorDeps
+    .filter((dep) => dep.optional)
+    .map((dep) => `${toIdentifier(dep.name)}: ${typeName(dep.symbolId)} | None = None`);
+
+  let parameters = ['self', ...required, ...(optional.length > 0 ? ['*'] : []), ...optional];
+  if (forward) {
+    module.addImport('typing', 'Any');
+    parameters = ['self', ...required, '*args: Any', ...optional, '**kwargs: Any'];
+  }
+
+  return [
+    ...formatSignature('def __init__', parameters, 'None', INDENT),
+    ...(forward ? [`${INDENT}${INDENT}super().__init__(*args, **kwargs)`] : []),
+    ...constructorDeps
+      .map((dep) => toIdentifier(dep.name))
+      .map((name) => `${INDENT}${INDENT}self.${name} = ${name}`),
+  ];
+}
+
+/**
+ * Render an operation as an abstract method. Protected operations get the
+ * conventional leading underscore.
+ */
+function renderAbstractOperation(
+  op: Operation,
+  includeComments: boolean,
+  typeName: TypeNameResolver
+): string[] {
+  const name = op.visibility === 'protected' ? `_${op.name}` : toIdentifier(op.name);
+  const parameters = op.parameters.map((param, index) => {
+    const type = typeRefToTypeString(param.type, typeName);
+    if (!param.optional) {
+      return `${toIdentifier(param.name)}: ${type}`;
+    }
+    // A default is only legal when no required parameter follows
+    const trailing = op.parameters.slice(index).every((p) => p.optional);
+    return `${toIdentifier(param.name)}: ${type} | None${trailing ? ' = None' : ''}`;
+  });
+  const returnType = op.returnType ? typeRefToTypeString(op.returnType, typeName) : 'None';
+
+  return [
+    `${INDENT}@abstractmethod`,
+    ...formatSignature(
+      `${op.async ? 'async ' : ''}def ${name}`,
+      ['self', ...parameters],
+      returnType,
+      INDENT
+    ),
+    ...(includeComments && op.description
+      ? formatDocstring(op.description, INDENT + INDENT)
+      : [`${INDENT}${INDENT}...`]),
+  ];
+}
+
+/**
+ * Join class body blocks with a blank line between them.
+ */
+function joinBlocks(blocks: string[][]): string[] {
+  return blocks.flatMap((block, index) => (index === 0 ? block : ['', ...block]));
+}
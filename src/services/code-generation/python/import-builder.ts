@@ -0,0 +1,91 @@
+/**
+ * Python Import Builder
+ *
+ * Adds absolute imports for symbols referenced by generated code, treating
+ * the output directory as the import root (auth/jwt/token.py -> auth.jwt.token),
+ * and resolves the local name each reference should use. Names that collide
+ * are aliased the same way as in the TypeScript backend.
+ */
+
+import type { ComponentSymbol } from '../../../domain/symbol/index.js';
+import { sanitizeClassName } from '../typescript/index.js';
+import type { PythonModule } from './source-builder.js';
+import { symbolIdToTypeName, type TypeNameResolver } from './type-mapper.js';
+
+/**
+ * A symbol to import into a generated module.
+ */
+export interface PythonImport {
+  /** Referenced symbol ID */
+  symbolId: string;
+  /** Namespace of the referenced symbol (used to build aliases) */
+  namespace: string;
+  /** Name defined by the target module */
+  exportName: string;
+  /** Dotted module path relative to the output directory */
+  module: string;
+  /** Only used in annotations, so imported under TYPE_CHECKING */
+  typeOnly: boolean;
+}
+
+/**
+ * Collect IDs of symbols a generated module needs at runtime: base classes
+ * and alias targets are evaluated on import, annotations are not.
+ */
+export function getRuntimeSymbolIds(symbol: ComponentSymbol): Set<string> {
+  return new Set([
+    ...(symbol.extends ? [symbol.extends] : []),
+    ...(symbol.implements ?? []),
+    ...(symbol.aliasOf ?? []).map((ref) => ref.symbolId),
+  ]);
+}
+
+/**
+ * Add import statements for referenced symbols to a module.
+ *
+ * @param module Module being generated
+ * @param imports Symbols to import
+ * @param reservedNames Names defined by the module itself
+ * @returns Resolver giving the local (possibly aliased) name per symbol ID
+ */
+export function addSymbolImports(
+  module: PythonModule,
+  imports: PythonImport[],
+  reservedNames: string[]
+): TypeNameResolver {
+  const localNames = new Map<string, string>();
+  const usedNames = new Set(reservedNames);
+
+  for (const imp of imports) {
+    if (localNames.has(imp.symbolId)) continue;
+
+    const localName = uniqueName(imp, usedNames);
+    usedNames.add(localName);
+    localNames.set(imp.symbolId, localName);
+    module.addImport(imp.module, imp.exportName, {
+      ...(localName !== imp.exportName && { alias: localName }),
+      typeOnly: imp.typeOnly,
+    });
+  }
+
+  return (symbolId) => localNames.get(symbolId) ?? symbolIdToTypeName(symbolId);
+}
+
+/**
+ * Pick a local name for an import: the export name if free, otherwise
+ * prefixed with the namespace (auth/jwt + Token -> AuthJwtToken), then numbered.
+ */
+function uniqueName(imp: PythonImport, usedNames: Set<string>): string {
+  if (!usedNames.has(imp.exportName)) return imp.exportName;
+
+  const prefix = imp.namespace
+    .split('/')
+    .map((segment) => sanitizeClassName(segment))
+    .join('');
+  const alias = `${prefix}${sanitizeClassName(imp.exportName)}`;
+  if (!usedNames.has(alias)) return alias;
+
+  let counter = 2;
+  while (usedNames.has(`${alias}${counter}`)) counter++;
+  return `${alias}${counter}`;
+}
@@ -0,0 +1,25 @@
+/**
+ * Python Backend
+ *
+ * Language-specific code generation for Python.
+ * Works directly with ComponentSymbol from domain layer.
+ */
+
+// Backend
+export { PythonBackend } from './backend.js';
+
+// Type mapping utilities
+export type { TypeNameResolver } from './type-mapper.js';
+export {
+  symbolIdToTypeName,
+  typeRefToTypeString,
+  toIdentifier,
+  toSnakeCase,
+  getPackagePath,
+} from './type-mapper.js';
+
+// Class generation
+export { getClassName, getBaseClassName } from './class-generator.js';
+
+// L0 type generation
+export { getDeclarationName } from './type-generator.js';
@@ -0,0 +1,143 @@
+/**
+ * Python Source Builder
+ *
+ * Line-based builder for generated Python modules. Collects imports while
+ * the body is written, then renders them grouped the way isort would:
+ * standard library, then generated modules, then a `TYPE_CHECKING` block
+ * for names only used in annotations.
+ */
+
+import { STDLIB_TYPE_MODULES, type TypeNameResolver } from './type-mapper.js';
+
+/** Modules treated as the standard library group */
+const STDLIB_MODULES: ReadonlySet<string> = new Set(['abc', 'datetime', 'enum', 'typing']);
+
+/** Indentation unit (PEP 8) */
+export const INDENT = '    ';
+
+/**
+ * Imported names per module: name -> local alias (same as name if unaliased).
+ */
+type ImportTable = Map<string, Map<string, string>>;
+
+export class PythonModule {
+  private readonly runtimeImports: ImportTable = new Map();
+  private readonly typeCheckingImports: ImportTable = new Map();
+  private readonly body: string[] = [];
+
+  /**
+   * Import a name. Type-only imports go in the `if TYPE_CHECKING:` block,
+   * which `from __future__ import annotations` makes safe for annotations
+   * and which avoids import cycles between generated modules.
+   */
+  addImport(
+    module: string,
+    name: string,
+    options: { alias?: string; typeOnly?: boolean } = {}
+  ): void {
+    const table = options.typeOnly ? this.typeCheckingImports : this.runtimeImports;
+    const names = table.get(module) ?? new Map<string, string>();
+    names.set(name, options.alias ?? name);
+    table.set(module, names);
+  }
+
+  /**
+   * Append lines to the module body.
+   */
+  addLines(...lines: string[]): void {
+    this.body.push(...lines);
+  }
+
+  /**
+   * Wrap a type name resolver so standard library types it hands out
+   * (Any, datetime, ...) are imported.
+   */
+  trackStdlib(typeName: TypeNameResolver): TypeNameResolver {
+    return (symbolId) => {
+      const name = typeName(symbolId);
+      const module = STDLIB_TYPE_MODULES[name];
+      if (module) {
+        this.addImport(module, name);
+      }
+      return name;
+    };
+  }
+
+  /**
+   * Render the module.
+   *
+   * @param preamble Leading comment or docstring lines
+   */
+  render(preamble: string[]): string {
+    // A runtime import makes the type-only one redundant
+    for (const [module, names] of this.runtimeImports) {
+      for (const name of names.keys()) {
+        this.typeCheckingImports.get(module)?.delete(name);
+      }
+    }
+    for (const [module, names] of [...this.typeCheckingImports]) {
+      if (names.size === 0) this.typeCheckingImports.delete(module);
+    }
+    if (this.typeCheckingImports.size > 0) {
+      this.addImport('typing', 'TYPE_CHECKING');
+    }
+
+    const stdlib = [...this.runtimeImports].filter(([module]) => STDLIB_MODULES.has(module));
+    const local = [...this.runtimeImports].filter(([module]) => !STDLIB_MODULES.has(module));
+
+    const sections = [
+      preamble,
+      ['from __future__ import annotations'],
+      formatImports(new Map(stdlib), ''),
+      formatImports(new Map(local), ''),
+    ];
+    if (this.typeCheckingImports.size > 0) {
+      sections.push(['if TYPE_CHECKING:', ...formatImports(this.typeCheckingImports, INDENT)]);
+    }
+
+    const head = sections
+      .filter((section) => section.length > 0)
+      .map((section) => section.join('\n'))
+      .join('\n\n');
+    return `${head}\n\n\n${this.body.join('\n')}\n`;
+  }
+}
+
+/**
+ * Format a docstring at the given indentation.
+ */
+export function formatDocstring(text: string, indent: string): string[] {
+  const escaped = text.replace(/\\/g, '\\\\').replace(/"""/g, '\\"\\"\\"');
+  const lines = escaped.split('\n');
+  if (lines.length === 1) {
+    return [`${indent}"""${escaped}"""`];
+  }
+  return [
+    `${indent}"""${lines[0]}`,
+    ...lines.slice(1).map((line) => (line ? `${indent}${line}` : '')),
+    `${indent}"""`,
+  ];
+}
+
+/**
+ * Format `from module import a, b as c` lines, sorted by module and then by
+ * name within constants, classes and functions.
+ */
+function formatImports(table: ImportTable, indent: string): string[] {
+  return [...table]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([module, names]) => {
+      const imported = [...names]
+        .sort(([a], [b]) => importOrder(a) - importOrder(b) || (a < b ? -1 : a > b ? 1 : 0))
+        .map(([name, alias]) => (alias === name ? name : `${name} as ${alias}`));
+      return `${indent}from ${module} import ${imported.join(', ')}`;
+    });
+}
+
+/**
+ * Rank an imported name: CONSTANTS, then Classes, then functions.
+ */
+function importOrder(name: string): number {
+  if (name === name.toUpperCase()) return 0;
+  return /^[A-Z]/.test(name) ? 1 : 2;
+}
@@ -0,0 +1,157 @@
+/**
+ * Python Type Generator
+ *
+ * Generates L0 declarations: Protocols from members, type aliases, Enums
+ * and Final constants. These have no user stub: the whole module is
+ * regenerated from the symbol.
+ */
+
+import type { ComponentSymbol, ConstantValue } from '../../../domain/symbol/index.js';
+import { getBuiltinTypeName } from '../../../domain/symbol/index.js';
+import { sanitizeClassName } from '../typescript/index.js';
+import { formatDocstring, INDENT, type PythonModule } from './source-builder.js';
+import {
+  toIdentifier,
+  toSnakeCase,
+  typeRefToTypeString,
+  type TypeNameResolver,
+} from './type-mapper.js';
+
+/**
+ * Add the declaration for an L0 symbol to a module.
+ *
+ * - type: `Protocol` from `members`, or `TypeAlias` union when `aliasOf` is set
+ * - enum: `Enum` from `enumMembers` (`auto()` where no value is given)
+ * - constant: `Final` module attribute from `constant`
+ */
+export function addTypeDeclaration(
+  module: PythonModule,
+  symbol: ComponentSymbol,
+  includeComments: boolean,
+  typeName: TypeNameResolver
+): void {
+  const name = getDeclarationName(symbol);
+  const docstring = includeComments && symbol.description ? symbol.description : undefined;
+
+  switch (symbol.kind) {
+    case 'type': {
+      if (symbol.aliasOf?.length) {
+        const variants = symbol.aliasOf.map((ref) => typeRefToTypeString(ref, typeName));
+        module.addImport('typing', 'TypeAlias');
+        module.addLines(
+          `${name}: TypeAlias = ${variants.join(' | ')}`,
+          ...(docstring ? formatDocstring(docstring, '') : [])
+        );
+        return;
+      }
+
+      module.addImport('typing', 'Protocol');
+      const bases = [...(symbol.extends ? [typeName(symbol.extends)] : []), 'Protocol'];
+      const members = (symbol.members ?? []).flatMap((member) => {
+        const type = typeRefToTypeString(member.type, typeName);
+        const annotation = member.optional ? `${type} | None` : type;
+        return [
+          `${INDENT}${toIdentifier(member.name)}: ${annotation}`,
+          ...(includeComments && member.description
+            ? formatDocstring(member.description, INDENT)
+            : []),
+        ];
+      });
+      module.addLines(
+        `class ${name}(${bases.join(', ')}):`,
+        ...(docstring ? formatDocstring(docstring, INDENT) : []),
+        ...(docstring && members.length > 0 ? [''] : []),
+        ...members,
+        ...(!docstring && members.length === 0 ? [`${INDENT}...`] : [])
+      );
+      return;
+    }
+
+    case 'enum': {
+      const enumMembers = symbol.enumMembers ?? [];
+      module.addImport('enum', 'Enum');
+      if (enumMembers.some((member) => member.value === undefined)) {
+        module.addImport('enum', 'auto');
+      }
+      const members = enumMembers.map(
+        (member) =>
+          `${INDENT}${formatMemberName(member.name)} = ${
+            member.value === undefined ? 'auto()' : JSON.stringify(member.value)
+          }`
+      );
+      module.addLines(
+        `class ${name}(Enum):`,
+        ...(docstring ? formatDocstring(docstring, INDENT) : []),
+        ...(docstring && members.length > 0 ? [''] : []),
+        ...members,
+        ...(!docstring && members.length === 0 ? [`${INDENT}pass`] : [])
+      );
+      return;
+    }
+
+    case 'constant':
+      if (!symbol.constant) {
+        throw new Error(`Constant has no value: ${symbol.id}`);
+      }
+      module.addImport('typing', 'Final');
+      module.addLines(
+        `${name}: Final[${typeRefToTypeString(symbol.constant.type, typeName)}] = ` +
+          formatConstantValue(symbol.constant),
+        ...(docstring ? formatDocstring(docstring, '') : [])
+      );
+      return;
+
+    default:
+      throw new Error(`Not an L0 kind: ${symbol.kind}`);
+  }
+}
+
+/**
+ * Get the declared name for an L0 symbol.
+ * Constants keep their casing (MAX_RETRIES, defaultTimeout); types are PascalCase.
+ */
+export function getDeclarationName(symbol: ComponentSymbol): string {
+  return symbol.kind === 'constant'
+    ? toIdentifier(symbol.name)
+    : sanitizeClassName(symbol.name);
+}
+
+/**
+ * Enum member names that are not identifiers (e.g. "in-progress") become
+ * UPPER_SNAKE_CASE; keywords get a trailing underscore.
+ */
+function formatMemberName(name: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name)
+    ? toIdentifier(name)
+    : toSnakeCase(name).toUpperCase();
+}
+
+/**
+ * Format a constant value as a Python literal matching its type.
+ */
+function formatConstantValue(constant: ConstantValue): string {
+  const { value } = constant;
+  if (!constant.type.array && typeof value === 'string') {
+    const builtin = getBuiltinTypeName(constant.type.symbolId, 'python');
+    if (builtin === 'datetime' || builtin === 'date') {
+      return `${builtin}.fromisoformat(${JSON.stringify(value)})`;
+    }
+  }
+  return toPythonLiteral(value);
+}
+
+/**
+ * Convert a JSON value to the equivalent Python literal.
+ */
+function toPythonLiteral(value: unknown): string {
+  if (value === null || value === undefined) return 'None';
+  if (typeof value === 'boolean') return value ? 'True' : 'False';
+  if (Array.isArray(value)) return `[${value.map(toPythonLiteral).join(', ')}]`;
+  if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>).map(
+      ([key, entry]) => `${JSON.stringify(key)}: ${toPythonLiteral(entry)}`
+    );
+    return `{${entries.join(', ')}}`;
+  }
+  return JSON.stringify(value);
+}
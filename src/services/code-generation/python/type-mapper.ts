@@ -0,0 +1,87 @@
+/**
+ * Python Type Mapper
+ *
+ * Maps symbol IDs to Python type names and symbol names to Python
+ * identifiers and module names.
+ */
+
+import type { TypeRef } from '../../../domain/symbol/index.js';
+import { getBuiltinTypeName } from '../../../domain/symbol/index.js';
+import { sanitizeClassName, sanitizeIdentifier } from '../typescript/index.js';
+
+/**
+ * Maps a referenced symbol ID to the type name used in the generated module.
+ */
+export type TypeNameResolver = (symbolId: string) => string;
+
+/**
+ * Standard library module each non-builtin Python type name comes from.
+ */
+export const STDLIB_TYPE_MODULES: Readonly<Record<string, string>> = {
+  Any: 'typing',
+  NoReturn: 'typing',
+  datetime: 'datetime',
+  date: 'datetime',
+  timedelta: 'datetime',
+};
+
+/**
+ * Python keywords (`keyword.kwlist`); soft keywords like `match` are valid names.
+ */
+const PYTHON_KEYWORDS: ReadonlySet<string> = new Set([
+  'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break',
+  'class', 'continue', 'def', 'del', 'elif', 'else', 'except', 'finally', 'for',
+  'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'nonlocal', 'not', 'or',
+  'pass', 'raise', 'return', 'try', 'while', 'with', 'yield',
+]);
+
+/**
+ * Convert a name to a Python identifier, escaping keywords PEP 8 style
+ * with a trailing underscore (class -> class_).
+ */
+export function toIdentifier(name: string): string {
+  const identifier = sanitizeIdentifier(name);
+  return PYTHON_KEYWORDS.has(identifier) ? `${identifier}_` : identifier;
+}
+
+/**
+ * Convert a symbol ID to a Python type name.
+ * e.g., "core/string@1.0.0" -> "str", "auth/jwt/JwtPayload@1.0.0" -> "JwtPayload"
+ */
+export function symbolIdToTypeName(symbolId: string): string {
+  const builtin = getBuiltinTypeName(symbolId, 'python');
+  if (builtin) return builtin;
+
+  const lastPart = symbolId.split('/').pop() ?? symbolId;
+  return sanitizeClassName(lastPart.split('@')[0] ?? lastPart);
+}
+
+/**
+ * Convert a type reference to a Python annotation.
+ * e.g., { symbolId: "core/string@1.0.0", array: true } -> "list[str]"
+ */
+export function typeRefToTypeString(
+  ref: TypeRef,
+  typeName: TypeNameResolver = symbolIdToTypeName
+): string {
+  const name = typeName(ref.symbolId);
+  return ref.array ? `list[${name}]` : name;
+}
+
+/**
+ * Convert a name to snake_case (AuthService -> auth_service, my-app -> my_app).
+ */
+export function toSnakeCase(name: string): string {
+  const snake = sanitizeIdentifier(name.replace(/[-\s]+/g, '_'))
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
+    .toLowerCase();
+  return snake || '_';
+}
+
+/**
+ * Get the package path for a namespace (e.g., 'auth/jwt' -> ['auth', 'jwt']).
+ */
+export function getPackagePath(namespace: string): string[] {
+  return namespace ? namespace.split('/').map(toSnakeCase) : [];
+}
@@ -5,7 +5,7 @@
  * Implements the Generation Gap pattern for safe regeneration.
  */
 
-import type { ComponentSymbol } from '../../domain/symbol/index.js';
+import type { ComponentSymbol, Language } from '../../domain/symbol/index.js';
 
 // =============================================================================
 // Service Interfaces
@@ -14,7 +14,7 @@ import type { ComponentSymbol } from '../../domain/symbol/index.js';
 /**
  * Code generation service public API contract.
  *
- * Provides high-level API for generating TypeScript code from
+ * Provides high-level API for generating code from
  * symbols in the symbol table using the Generation Gap pattern.
  */
 export interface CodeGenerationService {
@@ -48,18 +48,104 @@ export interface GenerationOptions {
 
   /** Include JSDoc comments in generated code */
   includeComments?: boolean;
+
+  /** Also write a node:test contract spec for each L1 component */
+  includeContractTests?: boolean;
+
+  /** Overwrite .generated.ts files even if they were edited by hand */
+  force?: boolean;
+
+  /** Report L1 instantiations to the runtime tracer from the base class constructor */
+  includeTracing?: boolean;
 }
 
+/**
+ * Generation options with every default filled in.
+ */
+export type ResolvedGenerationOptions = Required<Omit<GenerationOptions, 'outputDir'>>;
+
 /**
  * Default generation options.
  */
-export const DEFAULT_GENERATION_OPTIONS: Required<Omit<GenerationOptions, 'outputDir'>> = {
+export const DEFAULT_GENERATION_OPTIONS: ResolvedGenerationOptions = {
   overwriteGenerated: true,
   preserveUserFiles: true,
   dryRun: false,
   includeComments: true,
+  includeContractTests: false,
+  force: false,
+  includeTracing: false,
 };
 
+// =============================================================================
+// Language Backends
+// =============================================================================
+
+/**
+ * Output file locations for a generated symbol.
+ */
+export interface GeneratedPaths {
+  /** Fully generated file, rewritten on every run */
+  generatedPath: string;
+
+  /** User implementation file, empty for L0 declarations */
+  implementationPath: string;
+
+  /** Directory both files are written to */
+  directory: string;
+}
+
+/**
+ * What a backend needs to generate one symbol's files.
+ */
+export interface GenerationContext {
+  /** Output directory for generated files */
+  outputDir: string;
+
+  /** Options with defaults applied */
+  options: ResolvedGenerationOptions;
+
+  /** Warnings collected for the generation result */
+  warnings: string[];
+
+  /**
+   * Resolve a referenced symbol ID to the generatable symbol it selects.
+   * Returns undefined (and records a warning) when it cannot be imported.
+   */
+  resolveReference(symbolId: string): ComponentSymbol | undefined;
+}
+
+/**
+ * Language-specific code generation, selected by ComponentSymbol.language.
+ *
+ * A backend owns type mapping (built-ins via BuiltinTypeDefinition), path
+ * layout and the emitters for each file the Generation Gap pattern produces.
+ * The service owns everything language-neutral: reference resolution,
+ * hand-edit detection, writing files and recording generation metadata.
+ */
+export interface LanguageBackend {
+  /** Language of the symbols this backend generates */
+  readonly language: Language;
+
+  /** Where a symbol's files are written */
+  getPaths(symbol: ComponentSymbol, outputDir: string): GeneratedPaths;
+
+  /** Generated file for an L1 component: its abstract base class */
+  generateBaseClass(symbol: ComponentSymbol, context: GenerationContext): string;
+
+  /** User implementation stub extending the base class, written once */
+  generateUserStub(symbol: ComponentSymbol, context: GenerationContext): string;
+
+  /** Generated file for an L0 type, enum or constant */
+  generateDeclaration(symbol: ComponentSymbol, context: GenerationContext): string;
+
+  /** Contract test location; backends without contract tests omit both members */
+  getContractTestPath?(symbol: ComponentSymbol, outputDir: string): string;
+
+  /** Contract test content for an L1 component */
+  generateContractTest?(symbol: ComponentSymbol, context: GenerationContext): string;
+}
+
 // =============================================================================
 // Generation Results
 // =============================================================================
@@ -77,7 +163,7 @@ export interface GenerationResult {
   /** Path to the generated base file (.generated.ts) */
   generatedPath: string;
 
-  /** Path to the user implementation file (.ts) */
+  /** Path to the user implementation file (.ts), empty for L0 declarations */
   implementationPath: string;
 
   /** Content hash of generated file for change detection */
@@ -89,6 +175,12 @@ export interface GenerationResult {
   /** Whether user file was created (vs already existed) */
   userFileCreated: boolean;
 
+  /** Path to the contract test (.contract.test.ts), if one was generated */
+  testPath?: string;
+
+  /** Diff from the hand-edited .generated.ts on disk to the regenerated content */
+  diff?: string;
+
   /** Warnings during generation */
   warnings: string[];
 
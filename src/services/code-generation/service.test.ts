@@ -4,11 +4,14 @@
 
 import { describe, it, beforeEach, afterEach } from 'node:test';
 import assert from 'node:assert';
+import { execFileSync } from 'node:child_process';
 import * as fs from 'node:fs';
 import * as os from 'node:os';
 import * as path from 'node:path';
+import { Project, ts } from 'ts-morph';
 import { initMemoryDatabase, type DatabaseType } from '../../repositories/persistence.js';
 import { SqliteSymbolRepository } from '../../repositories/symbol-repository.js';
+import { SqliteVersionLockRepository } from '../../repositories/version-lock-repository.js';
 import { SymbolTableService } from '../symbol-table/index.js';
 import type { ComponentSymbol } from '../../domain/symbol/index.js';
 import { CodeGenerationService, createCodeGenerationService } from './index.js';
@@ -136,6 +139,45 @@ describe('CodeGenerationService', () => {
 
       assert.strictEqual(result.success, true);
       assert.strictEqual(fs.existsSync(result.generatedPath), false);
+      assert.strictEqual(store.get(symbol.id)?.generationMeta, undefined);
+      assert.strictEqual(store.get(symbol.id)?.origin, 'manual');
+    });
+
+    it('should record generation metadata on the symbol', () => {
+      const symbol = createTestSymbol();
+      store.register(symbol);
+
+      const result = service.generateSymbol(symbol.id, { outputDir: tempDir });
+
+      const stored = store.get(symbol.id);
+      assert.strictEqual(stored?.origin, 'generated');
+      assert.deepStrictEqual(stored?.generationMeta, {
+        templateId: 'typescript/generation-gap',
+        generatedAt: result.generatedAt,
+        contentHash: result.contentHash,
+        generatedPath: result.generatedPath,
+        implementationPath: result.implementationPath,
+      });
+    });
+
+    it('should record generation metadata without a user file for L0 declarations', () => {
+      store.register(
+        createSymbol({
+          id: 'auth/Role@1.0.0',
+          name: 'Role',
+          namespace: 'auth',
+          level: 'L0',
+          kind: 'enum',
+          enumMembers: [{ name: 'Admin' }],
+        })
+      );
+
+      const result = service.generateSymbol('auth/Role@1.0.0', { outputDir: tempDir });
+
+      const meta = store.get('auth/Role@1.0.0')?.generationMeta;
+      assert.strictEqual(meta?.templateId, 'typescript/declaration');
+      assert.strictEqual(meta?.generatedPath, result.generatedPath);
+      assert.strictEqual(meta?.implementationPath, undefined);
     });
 
     it('should preserve user file on regeneration', () => {
@@ -369,3 +411,1229 @@ describe('Generated Code Content', () => {
     assert.ok(content.includes('My awesome component'));
   });
 });
+
+// =============================================================================
+// L0 Declaration Tests
+// =============================================================================
+
+describe('L0 Declarations', () => {
+  let db: DatabaseType;
+  let store: SymbolTableService;
+  let service: CodeGenerationService;
+  let tempDir: string;
+
+  beforeEach(() => {
+    db = initMemoryDatabase();
+    const repo = new SqliteSymbolRepository(db);
+    store = new SymbolTableService(repo);
+    service = createCodeGenerationService(repo);
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'codegen-l0-test-'));
+
+    store.register(createTypeSymbol('core/string@1.0.0'));
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should generate an interface from members', () => {
+    store.register(
+      createSymbol({
+        id: 'auth/Credentials@1.0.0',
+        name: 'Credentials',
+        namespace: 'auth',
+        level: 'L0',
+        kind: 'type',
+        members: [
+          { name: 'username', type: { symbolId: 'core/string@1.0.0' }, readonly: true },
+          { name: 'scopes', type: { symbolId: 'core/string@1.0.0', array: true }, optional: true },
+          { name: 'issuedAt', type: { symbolId: 'core/timestamp@1.0.0' } },
+        ],
+      })
+    );
+
+    const result = service.generateSymbol('auth/Credentials@1.0.0', { outputDir: tempDir });
+    assert.strictEqual(result.success, true);
+    assert.strictEqual(result.generatedPath, path.join(tempDir, 'auth/Credentials.generated.ts'));
+    assert.strictEqual(result.implementationPath, '');
+    assert.strictEqual(result.userFileCreated, false);
+
+    const content = fs.readFileSync(result.generatedPath, 'utf-8');
+    assert.ok(content.includes('@generated'));
+    assert.ok(content.includes('export interface Credentials'));
+    assert.ok(content.includes('readonly username: string;'));
+    assert.ok(content.includes('scopes?: string[];'));
+    assert.ok(content.includes('issuedAt: Date;'));
+    assert.deepStrictEqual(fs.readdirSync(path.join(tempDir, 'auth')), ['Credentials.generated.ts']);
+  });
+
+  it('should generate a type alias from aliasOf', () => {
+    store.register(
+      createSymbol({
+        id: 'auth/UserId@1.0.0',
+        name: 'UserId',
+        namespace: 'auth',
+        level: 'L0',
+        kind: 'type',
+        aliasOf: [{ symbolId: 'core/string@1.0.0' }, { symbolId: 'core/number@1.0.0' }],
+      })
+    );
+
+    const preview = service.previewSymbol('auth/UserId@1.0.0', tempDir);
+    assert.ok(preview);
+    assert.ok(preview.generatedContent.includes('export type UserId = string | number;'));
+  });
+
+  it('should generate string and numeric enums', () => {
+    store.register(
+      createSymbol({
+        id: 'auth/Role@1.0.0',
+        name: 'Role',
+        namespace: 'auth',
+        level: 'L0',
+        kind: 'enum',
+        enumMembers: [
+          { name: 'Admin', value: 'admin' },
+          { name: 'in-review', value: 'review' },
+        ],
+      })
+    );
+    store.register(
+      createSymbol({
+        id: 'auth/Priority@1.0.0',
+        name: 'Priority',
+        namespace: 'auth',
+        level: 'L0',
+        kind: 'enum',
+        enumMembers: [{ name: 'Low', value: 1 }, { name: 'High' }],
+      })
+    );
+
+    const role = service.previewSymbol('auth/Role@1.0.0', tempDir);
+    assert.ok(role?.generatedContent.includes('export enum Role'));
+    assert.ok(role?.generatedContent.includes('Admin = "admin"'));
+    assert.ok(role?.generatedContent.includes('"in-review" = "review"'));
+
+    const priority = service.previewSymbol('auth/Priority@1.0.0', tempDir);
+    assert.ok(priority?.generatedContent.includes('Low = 1'));
+    assert.ok(priority?.generatedContent.includes('  High\n}'));
+  });
+
+  it('should number members without a value after string values so the enum compiles', () => {
+    store.register(
+      createSymbol({
+        id: 'auth/Role@1.0.0',
+        name: 'Role',
+        namespace: 'auth',
+        level: 'L0',
+        kind: 'enum',
+        enumMembers: [{ name: 'Admin', value: 'admin' }, { name: 'User' }, { name: 'Guest' }],
+      })
+    );
+
+    const result = service.generateSymbol('auth/Role@1.0.0', { outputDir: tempDir });
+    assert.strictEqual(result.success, true);
+    const content = fs.readFileSync(result.generatedPath, 'utf-8');
+    assert.ok(content.includes('Admin = "admin",\n  User = 1,\n  Guest\n'), content);
+
+    const project = new Project({
+      compilerOptions: { strict: true, noEmit: true, target: ts.ScriptTarget.ES2022, types: [] },
+    });
+    project.addSourceFileAtPath(result.generatedPath);
+    const diagnostics = project.getPreEmitDiagnostics();
+
+    assert.deepStrictEqual(project.formatDiagnosticsWithColorAndContext(diagnostics), '');
+  });
+
+  it('should generate typed constants', () => {
+    store.register(
+      createSymbol({
+        id: 'auth/maxRetries@1.0.0',
+        name: 'maxRetries',
+        namespace: 'auth',
+        level: 'L0',
+        kind: 'constant',
+        constant: { type: { symbolId: 'core/int32@1.0.0' }, value: 3 },
+      })
+    );
+    store.register(
+      createSymbol({
+        id: 'auth/EPOCH@1.0.0',
+        name: 'EPOCH',
+        namespace: 'auth',
+        level: 'L0',
+        kind: 'constant',
+        constant: { type: { symbolId: 'core/timestamp@1.0.0' }, value: '2020-01-01T00:00:00Z' },
+      })
+    );
+
+    const result = service.generateSymbol('auth/maxRetries@1.0.0', { outputDir: tempDir });
+    assert.strictEqual(result.success, true);
+    assert.strictEqual(result.generatedPath, path.join(tempDir, 'auth/maxRetries.generated.ts'));
+    const content = fs.readFileSync(result.generatedPath, 'utf-8');
+    assert.ok(content.includes('export const maxRetries: number = 3;'));
+
+    const epoch = service.previewSymbol('auth/EPOCH@1.0.0', tempDir);
+    assert.ok(epoch?.generatedContent.includes('export const EPOCH: Date = new Date("2020-01-01T00:00:00Z");'));
+  });
+
+  it('should fail for a constant without a value', () => {
+    store.register(
+      createSymbol({
+        id: 'auth/TIMEOUT@1.0.0',
+        name: 'TIMEOUT',
+        namespace: 'auth',
+        level: 'L0',
+        kind: 'constant',
+      })
+    );
+
+    const result = service.generateSymbol('auth/TIMEOUT@1.0.0', { outputDir: tempDir });
+    assert.strictEqual(result.success, false);
+    assert.ok(result.error?.includes('no value'));
+  });
+
+  it('should not preview a user stub for L0 symbols', () => {
+    store.register(
+      createSymbol({
+        id: 'auth/Role@1.0.0',
+        name: 'Role',
+        namespace: 'auth',
+        level: 'L0',
+        kind: 'enum',
+        enumMembers: [{ name: 'Admin', value: 'admin' }],
+      })
+    );
+
+    const preview = service.previewSymbol('auth/Role@1.0.0', tempDir);
+    assert.ok(preview);
+    assert.strictEqual(preview.userStubContent, undefined);
+    assert.strictEqual(preview.implementationPath, '');
+  });
+
+  it('should include L0 symbols but not built-in types in generateAll', () => {
+    store.register(
+      createSymbol({
+        id: 'auth/Role@1.0.0',
+        name: 'Role',
+        namespace: 'auth',
+        level: 'L0',
+        kind: 'enum',
+        enumMembers: [{ name: 'Admin', value: 'admin' }],
+      })
+    );
+    store.register(createTestSymbol());
+
+    const list = service.listGeneratableSymbols().map((s) => s.id).sort();
+    assert.deepStrictEqual(list, ['auth/Role@1.0.0', 'test/MyComponent@1.0.0']);
+    assert.strictEqual(service.canGenerate('core/string@1.0.0'), false);
+  });
+
+  it('should reference generated L0 names from L1 classes', () => {
+    store.register(
+      createSymbol({
+        id: 'auth/credentials@1.0.0',
+        name: 'credentials',
+        namespace: 'auth',
+        level: 'L0',
+        kind: 'type',
+        members: [{ name: 'username', type: { symbolId: 'core/string@1.0.0' } }],
+      })
+    );
+    store.register(createTestSymbol({ implements: ['auth/credentials@1.0.0'] }));
+
+    const type = service.previewSymbol('auth/credentials@1.0.0', tempDir);
+    const component = service.previewSymbol('test/MyComponent@1.0.0', tempDir);
+
+    assert.ok(type?.generatedContent.includes('export interface Credentials'));
+    assert.ok(component?.generatedContent.includes('implements Credentials'));
+  });
+});
+
+// =============================================================================
+// Generated Import Tests
+// =============================================================================
+
+describe('Generated Imports', () => {
+  let db: DatabaseType;
+  let store: SymbolTableService;
+  let service: CodeGenerationService;
+  let tempDir: string;
+
+  beforeEach(() => {
+    db = initMemoryDatabase();
+    const repo = new SqliteSymbolRepository(db);
+    store = new SymbolTableService(repo);
+    service = createCodeGenerationService(repo);
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'codegen-imports-test-'));
+
+    store.register(createSymbol({ id: 'core/Logger@1.0.0', name: 'Logger', namespace: 'core' }));
+    store.register(createSymbol({ id: 'audit/Logger@1.0.0', name: 'Logger', namespace: 'audit' }));
+    store.register(
+      createSymbol({
+        id: 'auth/Role@1.0.0',
+        name: 'Role',
+        namespace: 'auth',
+        level: 'L0',
+        kind: 'enum',
+        enumMembers: [{ name: 'Admin', value: 'admin' }],
+      })
+    );
+    store.register(
+      createSymbol({
+        id: 'auth/Session@1.0.0',
+        name: 'Session',
+        namespace: 'auth',
+        level: 'L0',
+        kind: 'type',
+        members: [{ name: 'role', type: { symbolId: 'auth/Role@1.0.0' } }],
+      })
+    );
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should import dependencies relative to the generated file', () => {
+    store.register(
+      createTestSymbol({
+        id: 'auth/AuthService@1.0.0',
+        name: 'AuthService',
+        namespace: 'auth',
+        extends: 'core/Logger@1.0.0',
+        dependencies: [
+          createDependency({ symbolId: 'auth/Role@1.0.0', name: 'role', kind: 'property' }),
+        ],
+      })
+    );
+
+    const preview = service.previewSymbol('auth/AuthService@1.0.0', tempDir);
+    assert.ok(preview);
+    assert.ok(preview.generatedContent.includes('import { Logger } from "../core/Logger.js";'));
+    assert.ok(preview.generatedContent.includes('import { Role } from "./Role.generated.js";'));
+    assert.ok(preview.generatedContent.includes('extends Logger'));
+  });
+
+  it('should use type-only imports for interfaces', () => {
+    store.register(
+      createTestSymbol({
+        id: 'app/Controller@1.0.0',
+        name: 'Controller',
+        namespace: 'app',
+        dependencies: [
+          createDependency({ symbolId: 'auth/Session@1.0.0', name: 'session', kind: 'constructor' }),
+        ],
+      })
+    );
+
+    const preview = service.previewSymbol('app/Controller@1.0.0', tempDir);
+    assert.ok(
+      preview?.generatedContent.includes('import type { Session } from "../auth/Session.generated.js";')
+    );
+  });
+
+  it('should alias names that collide across namespaces', () => {
+    store.register(
+      createTestSymbol({
+        id: 'app/Worker@1.0.0',
+        name: 'Worker',
+        namespace: 'app',
+        dependencies: [
+          createDependency({ symbolId: 'core/Logger@1.0.0', name: 'logger', kind: 'constructor' }),
+          createDependency({ symbolId: 'audit/Logger@1.0.0', name: 'auditLog', kind: 'constructor' }),
+        ],
+      })
+    );
+
+    const content = service.previewSymbol('app/Worker@1.0.0', tempDir)?.generatedContent ?? '';
+    assert.ok(content.includes('import { Logger } from "../core/Logger.js";'));
+    assert.ok(content.includes('import { Logger as AuditLogger } from "../audit/Logger.js";'));
+    assert.ok(content.includes('logger: Logger'));
+    assert.ok(content.includes('auditLog: AuditLogger'));
+  });
+
+  it('should import types into L0 declarations', () => {
+    const preview = service.previewSymbol('auth/Session@1.0.0', tempDir);
+    assert.ok(preview?.generatedContent.includes('import { Role } from "./Role.generated.js";'));
+  });
+
+  it('should warn about references that cannot be imported', () => {
+    store.register(
+      createTestSymbol({
+        dependencies: [
+          createDependency({ symbolId: 'ext/Clock@1.0.0', name: 'clock', kind: 'constructor' }),
+        ],
+      })
+    );
+
+    const result = service.generateSymbol('test/MyComponent@1.0.0', { outputDir: tempDir });
+    assert.strictEqual(result.success, true);
+    assert.deepStrictEqual(result.warnings, [
+      'Unresolved reference, not imported (symbol not found): ext/Clock@1.0.0',
+    ]);
+  });
+
+  it('should produce output that compiles as-is', () => {
+    store.register(
+      createTestSymbol({
+        id: 'app/Worker@1.0.0',
+        name: 'Worker',
+        namespace: 'app',
+        dependencies: [
+          createDependency({ symbolId: 'core/Logger@1.0.0', name: 'logger', kind: 'constructor' }),
+          createDependency({ symbolId: 'audit/Logger@1.0.0', name: 'auditLog', kind: 'constructor' }),
+          createDependency({ symbolId: 'auth/Session@1.0.0', name: 'session', kind: 'property' }),
+        ],
+      })
+    );
+
+    const batch = service.generateAll({ outputDir: tempDir });
+    assert.strictEqual(batch.failed, 0);
+
+    const project = new Project({
+      compilerOptions: {
+        strict: true,
+        noEmit: true,
+        target: ts.ScriptTarget.ES2022,
+        module: ts.ModuleKind.ESNext,
+        moduleResolution: ts.ModuleResolutionKind.Bundler,
+        verbatimModuleSyntax: true,
+        skipLibCheck: true,
+        types: [],
+      },
+    });
+    project.addSourceFilesAtPaths(path.join(tempDir, '**/*.ts'));
+    const diagnostics = project.getPreEmitDiagnostics();
+
+    assert.deepStrictEqual(project.formatDiagnosticsWithColorAndContext(diagnostics), '');
+  });
+});
+
+// =============================================================================
+// Operation Tests
+// =============================================================================
+
+describe('Generated Operations', () => {
+  let db: DatabaseType;
+  let store: SymbolTableService;
+  let service: CodeGenerationService;
+  let tempDir: string;
+
+  beforeEach(() => {
+    db = initMemoryDatabase();
+    const repo = new SqliteSymbolRepository(db);
+    store = new SymbolTableService(repo);
+    service = createCodeGenerationService(repo);
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'codegen-ops-test-'));
+
+    store.register(
+      createSymbol({
+        id: 'auth/Token@1.0.0',
+        name: 'Token',
+        namespace: 'auth',
+        level: 'L0',
+        kind: 'type',
+        members: [{ name: 'value', type: { symbolId: 'core/string@1.0.0' } }],
+      })
+    );
+    store.register(
+      createTestSymbol({
+        id: 'auth/TokenService@1.0.0',
+        name: 'TokenService',
+        namespace: 'auth',
+        dependencies: [],
+        operations: [
+          {
+            name: 'issue',
+            parameters: [
+              { name: 'subject', type: { symbolId: 'core/string@1.0.0' } },
+              {
+                name: 'scopes',
+                type: { symbolId: 'core/string@1.0.0', array: true },
+                optional: true,
+              },
+            ],
+            returnType: { symbolId: 'auth/Token@1.0.0' },
+            async: true,
+            visibility: 'public',
+            description: 'Issue a signed token',
+          },
+          {
+            name: 'audit',
+            parameters: [
+              { name: 'note', type: { symbolId: 'core/string@1.0.0' }, optional: true },
+              { name: 'token', type: { symbolId: 'auth/Token@1.0.0' } },
+            ],
+            visibility: 'protected',
+          },
+        ],
+      })
+    );
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  /** Type-check every file under the output directory */
+  function compileOutput(): string {
+    const project = new Project({
+      compilerOptions: {
+        strict: true,
+        noEmit: true,
+        target: ts.ScriptTarget.ES2022,
+        module: ts.ModuleKind.ESNext,
+        moduleResolution: ts.ModuleResolutionKind.Bundler,
+        skipLibCheck: true,
+        types: [],
+      },
+    });
+    project.addSourceFilesAtPaths(path.join(tempDir, '**/*.ts'));
+    return project.getPreEmitDiagnostics().map((d) => `TS${d.getCode()}`).join(',');
+  }
+
+  it('should emit abstract methods with typed signatures', () => {
+    const content = service.previewSymbol('auth/TokenService@1.0.0', tempDir)?.generatedContent ?? '';
+
+    assert.ok(content.includes('import type { Token } from "./Token.generated.js";'));
+    assert.ok(
+      content.includes('abstract issue(subject: string, scopes?: string[]): Promise<Token>;')
+    );
+    assert.ok(
+      content.includes('protected abstract audit(note: string | undefined, token: Token): void;')
+    );
+    assert.ok(content.includes('Issue a signed token'));
+  });
+
+  it('should fail to compile until the user class implements each operation', () => {
+    const result = service.generateAll({ outputDir: tempDir });
+    assert.strictEqual(result.failed, 0);
+
+    // TS2654: non-abstract class is missing implementations of abstract members
+    assert.strictEqual(compileOutput(), 'TS2654');
+
+    const userPath = path.join(tempDir, 'auth', 'TokenService.ts');
+    fs.writeFileSync(
+      userPath,
+      [
+        'import { TokenService_Base } from "./TokenService.generated.js";',
+        'import type { Token } from "./Token.generated.js";',
+        'export class TokenService extends TokenService_Base {',
+        '  async issue(subject: string): Promise<Token> { return { value: subject }; }',
+        '  protected audit(): void {}',
+        '}',
+        '',
+      ].join('\n')
+    );
+
+    assert.strictEqual(compileOutput(), '');
+  });
+});
+
+// =============================================================================
+// Contract Test Generation
+// =============================================================================
+
+describe('Contract Tests', () => {
+  let db: DatabaseType;
+  let repo: SqliteSymbolRepository;
+  let store: SymbolTableService;
+  let service: CodeGenerationService;
+  let tempDir: string;
+
+  beforeEach(() => {
+    db = initMemoryDatabase();
+    repo = new SqliteSymbolRepository(db);
+    store = new SymbolTableService(repo);
+    service = createCodeGenerationService(repo);
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'codegen-contract-test-'));
+
+    store.register(createSymbol({ id: 'core/Logger@1.0.0', name: 'Logger', namespace: 'core' }));
+    store.register(
+      createSymbol({
+        id: 'auth/Authenticator@1.0.0',
+        name: 'Authenticator',
+        namespace: 'auth',
+        level: 'L0',
+        kind: 'type',
+      })
+    );
+    store.register(
+      createTestSymbol({
+        id: 'auth/AuthService@1.0.0',
+        name: 'AuthService',
+        namespace: 'auth',
+        implements: ['auth/Authenticator@1.0.0'],
+        dependencies: [
+          createDependency({ symbolId: 'core/Logger@1.0.0', name: 'logger', kind: 'constructor' }),
+        ],
+        operations: [
+          { name: 'login', parameters: [], visibility: 'public' },
+          { name: 'audit', parameters: [], visibility: 'protected' },
+        ],
+      })
+    );
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should write a contract spec next to the implementation', () => {
+    const result = service.generateSymbol('auth/AuthService@1.0.0', {
+      outputDir: tempDir,
+      includeContractTests: true,
+    });
+
+    assert.strictEqual(result.success, true);
+    assert.strictEqual(result.testPath, path.join(tempDir, 'auth', 'AuthService.contract.test.ts'));
+
+    const content = fs.readFileSync(result.testPath, 'utf-8');
+    assert.ok(content.includes('@generated'));
+    assert.ok(content.includes('import { describe, it } from "node:test";'));
+    assert.ok(content.includes('import { AuthService } from "./AuthService.js";'));
+    assert.ok(content.includes('import type { Logger } from "../core/Logger.js";'));
+    assert.ok(content.includes('AuthService.prototype instanceof AuthService_Base'));
+    assert.ok(content.includes('const contract: Authenticator = createInstance();'));
+    assert.ok(content.includes('return new AuthService(stub<Logger>());'));
+    assert.ok(content.includes("implements login()"));
+    assert.ok(!content.includes('implements audit()'));
+  });
+
+  it('should record testedBy on the symbol once', () => {
+    const options = { outputDir: tempDir, includeContractTests: true };
+    const result = service.generateSymbol('auth/AuthService@1.0.0', options);
+    service.generateSymbol('auth/AuthService@1.0.0', options);
+
+    const symbol = repo.find('auth/AuthService@1.0.0');
+    assert.deepStrictEqual(symbol?.statusInfo?.testedBy, [result.testPath]);
+    assert.strictEqual(symbol?.statusInfo?.source, 'registration');
+  });
+
+  it('should only generate contract tests for L1 components', () => {
+    const result = service.generateAll({ outputDir: tempDir, includeContractTests: true });
+
+    const withTests = result.results.filter((r) => r.testPath).map((r) => r.symbolId);
+    assert.deepStrictEqual(withTests.sort(), ['auth/AuthService@1.0.0', 'core/Logger@1.0.0']);
+    assert.strictEqual(repo.find('auth/Authenticator@1.0.0')?.statusInfo?.testedBy, undefined);
+  });
+
+  it('should not write or record anything without the option or in dry run', () => {
+    const plain = service.generateSymbol('auth/AuthService@1.0.0', { outputDir: tempDir });
+    const dry = service.generateSymbol('auth/AuthService@1.0.0', {
+      outputDir: tempDir,
+      includeContractTests: true,
+      dryRun: true,
+    });
+
+    assert.strictEqual(plain.testPath, undefined);
+    assert.strictEqual(dry.testPath, undefined);
+    assert.strictEqual(repo.find('auth/AuthService@1.0.0')?.statusInfo?.testedBy, undefined);
+  });
+
+  it('should compile against the implemented user class', () => {
+    service.generateAll({ outputDir: tempDir, includeContractTests: true });
+    fs.writeFileSync(
+      path.join(tempDir, 'auth', 'AuthService.ts'),
+      [
+        'import { AuthService_Base } from "./AuthService.generated.js";',
+        'export class AuthService extends AuthService_Base {',
+        '  login(): void {}',
+        '  protected audit(): void {}',
+        '}',
+        '',
+      ].join('\n')
+    );
+
+    const project = new Project({
+      compilerOptions: {
+        strict: true,
+        noEmit: true,
+        target: ts.ScriptTarget.ES2022,
+        module: ts.ModuleKind.ESNext,
+        moduleResolution: ts.ModuleResolutionKind.Bundler,
+        esModuleInterop: true,
+        skipLibCheck: true,
+        types: ['node'],
+      },
+    });
+    project.addSourceFilesAtPaths(path.join(tempDir, '**/*.ts'));
+    const diagnostics = project.getPreEmitDiagnostics();
+
+    assert.deepStrictEqual(project.formatDiagnosticsWithColorAndContext(diagnostics), '');
+  });
+
+  it('should forward parent constructor arguments from a derived class with dependencies', () => {
+    store.register(createSymbol({ id: 'core/Clock@1.0.0', name: 'Clock', namespace: 'core' }));
+    store.register(
+      createTestSymbol({
+        id: 'auth/AdminService@1.0.0',
+        name: 'AdminService',
+        namespace: 'auth',
+        extends: 'auth/AuthService@1.0.0',
+        dependencies: [
+          createDependency({ symbolId: 'core/Clock@1.0.0', name: 'clock', kind: 'constructor' }),
+        ],
+      })
+    );
+
+    service.generateAll({ outputDir: tempDir, includeContractTests: true });
+    fs.writeFileSync(
+      path.join(tempDir, 'auth', 'AuthService.ts'),
+      [
+        'import { AuthService_Base } from "./AuthService.generated.js";',
+        'export class AuthService extends AuthService_Base {',
+        '  login(): void {}',
+        '  protected audit(): void {}',
+        '}',
+        '',
+      ].join('\n')
+    );
+
+    const base = fs.readFileSync(path.join(tempDir, 'auth', 'AdminService.generated.ts'), 'utf-8');
+    assert.ok(base.includes('...parentArgs: ConstructorParameters<typeof AuthService>'));
+    assert.ok(base.includes('super(...parentArgs);'));
+
+    const project = new Project({
+      compilerOptions: {
+        strict: true,
+        noEmit: true,
+        target: ts.ScriptTarget.ES2022,
+        module: ts.ModuleKind.ESNext,
+        moduleResolution: ts.ModuleResolutionKind.Bundler,
+        esModuleInterop: true,
+        skipLibCheck: true,
+        types: ['node'],
+      },
+    });
+    project.addSourceFilesAtPaths(path.join(tempDir, '**/*.ts'));
+    const diagnostics = project.getPreEmitDiagnostics();
+
+    assert.deepStrictEqual(project.formatDiagnosticsWithColorAndContext(diagnostics), '');
+  });
+});
+
+describe('Hand Edit Detection', () => {
+  let db: DatabaseType;
+  let store: SymbolTableService;
+  let service: CodeGenerationService;
+  let tempDir: string;
+  let generatedPath: string;
+
+  beforeEach(() => {
+    db = initMemoryDatabase();
+    const repo = new SqliteSymbolRepository(db);
+    store = new SymbolTableService(repo);
+    service = createCodeGenerationService(repo);
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'codegen-tamper-test-'));
+
+    store.register(createTestSymbol());
+    const result = service.generateSymbol('test/MyComponent@1.0.0', { outputDir: tempDir });
+    generatedPath = result.generatedPath;
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function editGeneratedFile(): string {
+    const edited = fs.readFileSync(generatedPath, 'utf-8') + '// quick patch\n';
+    fs.writeFileSync(generatedPath, edited);
+    return edited;
+  }
+
+  it('should regenerate an untouched file', () => {
+    const result = service.generateSymbol('test/MyComponent@1.0.0', { outputDir: tempDir });
+
+    assert.strictEqual(result.success, true);
+    assert.strictEqual(result.diff, undefined);
+    assert.ok(!result.warnings.some((w) => w.includes('edited by hand')));
+  });
+
+  it('should refuse to overwrite a hand-edited file and report a diff', () => {
+    const edited = editGeneratedFile();
+    const hashBefore = store.get('test/MyComponent@1.0.0')?.generationMeta?.contentHash;
+
+    const result = service.generateSymbol('test/MyComponent@1.0.0', { outputDir: tempDir });
+
+    assert.strictEqual(result.success, false);
+    assert.ok(result.error?.includes('edited by hand'));
+    assert.ok(result.warnings.some((w) => w.includes('use force to overwrite')));
+    assert.ok(result.diff?.startsWith(`--- ${generatedPath}\n+++ ${generatedPath} (regenerated)`));
+    assert.ok(result.diff?.includes('\n-// quick patch'));
+    assert.strictEqual(fs.readFileSync(generatedPath, 'utf-8'), edited);
+    assert.strictEqual(store.get('test/MyComponent@1.0.0')?.generationMeta?.contentHash, hashBefore);
+  });
+
+  it('should report hand edits in dry run without failing', () => {
+    const edited = editGeneratedFile();
+
+    const result = service.generateSymbol('test/MyComponent@1.0.0', {
+      outputDir: tempDir,
+      dryRun: true,
+    });
+
+    assert.strictEqual(result.success, true);
+    assert.ok(result.diff?.includes('-// quick patch'));
+    assert.ok(result.warnings.some((w) => w.includes('edited by hand')));
+    assert.strictEqual(fs.readFileSync(generatedPath, 'utf-8'), edited);
+  });
+
+  it('should overwrite hand edits with force', () => {
+    editGeneratedFile();
+
+    const result = service.generateSymbol('test/MyComponent@1.0.0', {
+      outputDir: tempDir,
+      force: true,
+    });
+
+    assert.strictEqual(result.success, true);
+    assert.ok(result.diff?.includes('-// quick patch'));
+    assert.ok(result.warnings.some((w) => w.includes('overwritten (force)')));
+    assert.ok(!fs.readFileSync(generatedPath, 'utf-8').includes('// quick patch'));
+
+    // Regeneration is clean again once the new hash is recorded
+    const next = service.generateSymbol('test/MyComponent@1.0.0', { outputDir: tempDir });
+    assert.strictEqual(next.success, true);
+    assert.strictEqual(next.diff, undefined);
+  });
+});
+
+describe('Execution Tracing', () => {
+  let db: DatabaseType;
+  let service: CodeGenerationService;
+  let tempDir: string;
+
+  beforeEach(() => {
+    db = initMemoryDatabase();
+    const repo = new SqliteSymbolRepository(db);
+    const store = new SymbolTableService(repo);
+    service = createCodeGenerationService(repo);
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'codegen-trace-test-'));
+
+    store.register(createSymbol({ id: 'core/Logger@1.0.0', name: 'Logger', namespace: 'core' }));
+    store.register(
+      createSymbol({
+        id: 'auth/AuthService@1.0.0',
+        name: 'AuthService',
+        namespace: 'auth',
+        dependencies: [
+          createDependency({ symbolId: 'core/Logger@1.0.0', name: 'logger', kind: 'constructor' }),
+        ],
+      })
+    );
+    store.register(
+      createSymbol({
+        id: 'auth/AdminService@1.0.0',
+        name: 'AdminService',
+        namespace: 'auth',
+        extends: 'auth/AuthService@1.0.0',
+      })
+    );
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function readGenerated(namespace: string, className: string): string {
+    return fs.readFileSync(path.join(tempDir, namespace, `${className}.generated.ts`), 'utf-8');
+  }
+
+  it('should call the trace hook from every base class constructor', () => {
+    service.generateAll({ outputDir: tempDir, includeTracing: true });
+
+    const logger = readGenerated('core', 'Logger');
+    assert.ok(logger.includes('__cyrusTrace?.("core/Logger@1.0.0");'));
+
+    const auth = readGenerated('auth', 'AuthService');
+    assert.strictEqual(auth.match(/constructor\(/g)?.length, 1);
+    assert.ok(auth.includes('__cyrusTrace?.("auth/AuthService@1.0.0");'));
+
+    const admin = readGenerated('auth', 'AdminService');
+    assert.ok(admin.includes('...args: ConstructorParameters<typeof AuthService>'));
+    assert.ok(admin.includes('super(...args);'));
+  });
+
+  it('should not trace without the option', () => {
+    service.generateAll({ outputDir: tempDir });
+
+    assert.ok(!readGenerated('core', 'Logger').includes('__cyrusTrace'));
+  });
+
+  it('should produce output that compiles as-is', () => {
+    service.generateAll({ outputDir: tempDir, includeTracing: true });
+
+    const project = new Project({
+      compilerOptions: {
+        strict: true,
+        noEmit: true,
+        target: ts.ScriptTarget.ES2022,
+        module: ts.ModuleKind.ESNext,
+        moduleResolution: ts.ModuleResolutionKind.Bundler,
+        skipLibCheck: true,
+      },
+    });
+    project.addSourceFilesAtPaths(path.join(tempDir, '**/*.ts'));
+    const diagnostics = project.getPreEmitDiagnostics();
+
+    assert.deepStrictEqual(project.formatDiagnosticsWithColorAndContext(diagnostics), '');
+  });
+});
+
+describe('Version-Range References', () => {
+  let db: DatabaseType;
+  let store: SymbolTableService;
+  let locks: SqliteVersionLockRepository;
+  let service: CodeGenerationService;
+  let tempDir: string;
+
+  beforeEach(() => {
+    db = initMemoryDatabase();
+    const repo = new SqliteSymbolRepository(db);
+    store = new SymbolTableService(repo);
+    locks = new SqliteVersionLockRepository(db);
+    service = createCodeGenerationService(repo, locks);
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'codegen-range-test-'));
+
+    for (const patch of [0, 2]) {
+      store.register(
+        createSymbol({
+          id: `core/Logger@1.0.${patch}`,
+          name: 'Logger',
+          namespace: 'core',
+          version: { major: 1, minor: 0, patch },
+        })
+      );
+    }
+    store.register(
+      createTestSymbol({
+        id: 'app/Worker@1.0.0',
+        name: 'Worker',
+        namespace: 'app',
+        dependencies: [
+          createDependency({ symbolId: 'core/Logger@^1.0.0', name: 'logger', kind: 'constructor' }),
+        ],
+      })
+    );
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should import the version a range resolves to', () => {
+    const result = service.generateSymbol('app/Worker@1.0.0', { outputDir: tempDir });
+
+    assert.strictEqual(result.success, true);
+    assert.ok(!result.warnings.some((w) => w.includes('Unresolved reference')));
+    const content = fs.readFileSync(result.generatedPath, 'utf-8');
+    assert.ok(content.includes('import { Logger } from "../core/Logger.js";'));
+    assert.ok(content.includes('logger: Logger'));
+  });
+
+  it('should lock resolved versions on generation only', () => {
+    service.previewSymbol('app/Worker@1.0.0', tempDir);
+    service.generateSymbol('app/Worker@1.0.0', { outputDir: tempDir, dryRun: true });
+    assert.deepStrictEqual(locks.list(), []);
+
+    service.generateSymbol('app/Worker@1.0.0', { outputDir: tempDir });
+    assert.deepStrictEqual(
+      locks.list().map((lock) => [lock.reference, lock.resolvedId]),
+      [['core/Logger@^1.0.0', 'core/Logger@1.0.2']]
+    );
+  });
+});
+
+describe('Python Backend', () => {
+  let db: DatabaseType;
+  let store: SymbolTableService;
+  let service: CodeGenerationService;
+  let tempDir: string;
+
+  const python = (overrides: Partial<ComponentSymbol>): ComponentSymbol =>
+    createSymbol({ language: 'python', ...overrides });
+
+  beforeEach(() => {
+    db = initMemoryDatabase();
+    const repo = new SqliteSymbolRepository(db);
+    store = new SymbolTableService(repo);
+    service = createCodeGenerationService(repo);
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'codegen-python-test-'));
+
+    store.register(python({ id: 'core/Logger@1.0.0', name: 'Logger', namespace: 'core' }));
+    store.register(
+      python({
+        id: 'auth/TokenStatus@1.0.0',
+        name: 'TokenStatus',
+        namespace: 'auth',
+        level: 'L0',
+        kind: 'enum',
+        enumMembers: [{ name: 'valid', value: 'valid' }, { name: 'in-progress' }],
+      })
+    );
+    store.register(
+      python({
+        id: 'auth/AuthService@1.0.0',
+        name: 'AuthService',
+        namespace: 'auth',
+        description: 'Authenticates users.',
+        dependencies: [
+          createDependency({ symbolId: 'core/Logger@1.0.0', name: 'logger', kind: 'constructor' }),
+          createDependency({
+            symbolId: 'core/Logger@1.0.0',
+            name: 'audit',
+            kind: 'constructor',
+            optional: true,
+          }),
+        ],
+        operations: [
+          {
+            name: 'login',
+            parameters: [
+              { name: 'user', type: { symbolId: 'core/string@1.0.0' } },
+              {
+                name: 'scopes',
+                type: { symbolId: 'core/string@1.0.0', array: true },
+                optional: true,
+              },
+            ],
+            returnType: { symbolId: 'auth/TokenStatus@1.0.0' },
+            async: true,
+            visibility: 'public',
+          },
+        ],
+      })
+    );
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should generate an abstract base class with typed __init__ injection', () => {
+    const result = service.generateSymbol('auth/AuthService@1.0.0', { outputDir: tempDir });
+
+    assert.strictEqual(result.success, true);
+    assert.strictEqual(result.generatedPath, path.join(tempDir, 'auth/auth_service_generated.py'));
+    assert.strictEqual(result.implementationPath, path.join(tempDir, 'auth/auth_service.py'));
+
+    const content = fs.readFileSync(result.generatedPath, 'utf-8');
+    assert.ok(content.startsWith('# @generated'));
+    assert.ok(content.includes('from abc import ABC, abstractmethod'));
+    assert.ok(
+      content.includes(
+        [
+          'if TYPE_CHECKING:',
+          '    from auth.token_status_generated import TokenStatus',
+          '    from core.logger import Logger',
+        ].join('\n')
+      )
+    );
+    assert.ok(content.includes('class AuthServiceBase(ABC):'));
+    assert.ok(content.includes('    """Authenticates users.\n'));
+    assert.ok(
+      content.includes(
+        'def __init__(self, logger: Logger, *, audit: Logger | None = None) -> None:'
+      )
+    );
+    assert.ok(content.includes('        self.audit = audit'));
+    assert.ok(
+      content.includes(
+        [
+          '    @abstractmethod',
+          '    async def login(self, user: str, scopes: list[str] | None = None) -> TokenStatus:',
+        ].join('\n')
+      )
+    );
+  });
+
+  it('should create a user subclass once', () => {
+    const result = service.generateSymbol('auth/AuthService@1.0.0', { outputDir: tempDir });
+
+    assert.strictEqual(result.userFileCreated, true);
+    const stub = fs.readFileSync(result.implementationPath, 'utf-8');
+    assert.ok(stub.includes('from auth.auth_service_generated import AuthServiceBase'));
+    assert.ok(stub.includes('class AuthService(AuthServiceBase):'));
+
+    fs.writeFileSync(result.implementationPath, '# custom');
+    service.generateSymbol('auth/AuthService@1.0.0', { outputDir: tempDir });
+    assert.strictEqual(fs.readFileSync(result.implementationPath, 'utf-8'), '# custom');
+    assert.strictEqual(
+      store.get('auth/AuthService@1.0.0')?.generationMeta?.templateId,
+      'python/generation-gap'
+    );
+  });
+
+  it('should import base classes at runtime and forward parent arguments', () => {
+    store.register(
+      python({
+        id: 'auth/AdminService@1.0.0',
+        name: 'AdminService',
+        namespace: 'auth',
+        extends: 'auth/AuthService@1.0.0',
+        dependencies: [
+          createDependency({ symbolId: 'core/Logger@1.0.0', name: 'logger', kind: 'constructor' }),
+        ],
+      })
+    );
+
+    const result = service.generateSymbol('auth/AdminService@1.0.0', { outputDir: tempDir });
+
+    const content = fs.readFileSync(result.generatedPath, 'utf-8');
+    assert.ok(content.includes('\nfrom auth.auth_service import AuthService\n'));
+    assert.ok(content.includes('class AdminServiceBase(AuthService, ABC):'));
+    assert.ok(
+      content.includes('def __init__(self, logger: Logger, *args: Any, **kwargs: Any) -> None:')
+    );
+    assert.ok(content.includes('super().__init__(*args, **kwargs)'));
+  });
+
+  it('should generate L0 declarations', () => {
+    store.register(
+      python({
+        id: 'auth/Credentials@1.0.0',
+        name: 'Credentials',
+        namespace: 'auth',
+        level: 'L0',
+        kind: 'type',
+        members: [
+          { name: 'username', type: { symbolId: 'core/string@1.0.0' } },
+          { name: 'issuedAt', type: { symbolId: 'core/timestamp@1.0.0' }, optional: true },
+        ],
+      })
+    );
+    store.register(
+      python({
+        id: 'auth/Retry@1.0.0',
+        name: 'Retry',
+        namespace: 'auth',
+        level: 'L0',
+        kind: 'constant',
+        constant: { type: { symbolId: 'core/json@1.0.0' }, value: { enabled: true, limit: null } },
+      })
+    );
+
+    service.generateAll({ outputDir: tempDir, includeComments: false });
+
+    const read = (file: string) => fs.readFileSync(path.join(tempDir, 'auth', file), 'utf-8');
+    const credentials = read('credentials_generated.py');
+    assert.ok(credentials.includes('from datetime import datetime'));
+    assert.ok(
+      credentials.includes(
+        'class Credentials(Protocol):\n    username: str\n    issuedAt: datetime | None\n'
+      )
+    );
+
+    const status = read('token_status_generated.py');
+    assert.ok(status.includes('from enum import Enum, auto'));
+    assert.ok(status.includes('    valid = "valid"\n    IN_PROGRESS = auto()\n'));
+
+    assert.ok(
+      read('retry_generated.py').includes('Retry: Final[Any] = {"enabled": True, "limit": None}')
+    );
+    assert.ok(!fs.existsSync(path.join(tempDir, 'auth/credentials.py')));
+  });
+
+  it('should escape Python keywords in generated names', () => {
+    store.register(
+      python({
+        id: 'core/Kind@1.0.0',
+        name: 'Kind',
+        namespace: 'core',
+        level: 'L0',
+        kind: 'enum',
+        enumMembers: [{ name: 'class', value: 'class' }, { name: 'None' }],
+      })
+    );
+    store.register(
+      python({
+        id: 'core/Entry@1.0.0',
+        name: 'Entry',
+        namespace: 'core',
+        level: 'L0',
+        kind: 'type',
+        members: [{ name: 'from', type: { symbolId: 'core/string@1.0.0' } }],
+      })
+    );
+    store.register(
+      python({
+        id: 'core/Importer@1.0.0',
+        name: 'Importer',
+        namespace: 'core',
+        dependencies: [
+          createDependency({ symbolId: 'core/Logger@1.0.0', name: 'global', kind: 'constructor' }),
+          createDependency({ symbolId: 'core/Logger@1.0.0', name: 'with', kind: 'property' }),
+        ],
+        operations: [
+          {
+            name: 'import',
+            parameters: [{ name: 'class', type: { symbolId: 'core/Kind@1.0.0' } }],
+            visibility: 'public',
+          },
+        ],
+      })
+    );
+
+    service.generateAll({ outputDir: tempDir, includeComments: false });
+
+    const read = (file: string) => fs.readFileSync(path.join(tempDir, 'core', file), 'utf-8');
+    assert.ok(read('kind_generated.py').includes('    class_ = "class"\n    None_ = auto()\n'));
+    assert.ok(read('entry_generated.py').includes('    from_: str\n'));
+    const importer = read('importer_generated.py');
+    assert.ok(importer.includes('    with_: Logger\n'));
+    assert.ok(importer.includes('def __init__(self, global_: Logger) -> None:'));
+    assert.ok(importer.includes('        self.global_ = global_'));
+    assert.ok(importer.includes('    def import_(self, class_: Kind) -> None:'));
+
+    for (const file of ['kind_generated.py', 'entry_generated.py', 'importer_generated.py']) {
+      execFileSync('python3', ['-m', 'py_compile', path.join(tempDir, 'core', file)]);
+    }
+  });
+
+  it('should not import symbols of another language', () => {
+    store.register(
+      createSymbol({
+        id: 'web/Session@1.0.0',
+        name: 'Session',
+        namespace: 'web',
+        level: 'L0',
+        kind: 'type',
+      })
+    );
+    store.register(
+      python({
+        id: 'auth/Gateway@1.0.0',
+        name: 'Gateway',
+        namespace: 'auth',
+        dependencies: [
+          createDependency({ symbolId: 'web/Session@1.0.0', name: 'session', kind: 'constructor' }),
+        ],
+      })
+    );
+
+    const result = service.generateSymbol('auth/Gateway@1.0.0', {
+      outputDir: tempDir,
+      includeContractTests: true,
+    });
+
+    assert.strictEqual(result.success, true);
+    assert.ok(
+      result.warnings.includes(
+        'Unresolved reference, not imported (typescript symbol): web/Session@1.0.0'
+      )
+    );
+    assert.ok(result.warnings.includes('Contract tests are not supported for python, not written'));
+    assert.strictEqual(result.testPath, undefined);
+    assert.ok(!fs.readFileSync(result.generatedPath, 'utf-8').includes('import Session'));
+  });
+});
@@ -2,19 +2,31 @@
  * Code Generation Service
  *
  * Orchestrates code generation using the Generation Gap pattern.
- * Converts symbols to TypeScript code using ts-morph.
+ * Converts symbols to code through the language backend matching each
+ * symbol's language (TypeScript via ts-morph, Python).
  */
 
 import { createHash } from 'node:crypto';
-import type { ComponentSymbol, SymbolRepository } from '../../domain/symbol/index.js';
+import type {
+  ComponentSymbol,
+  Language,
+  SymbolRepository,
+  VersionLockRepository,
+} from '../../domain/symbol/index.js';
+import { isBuiltinType } from '../../domain/symbol/index.js';
+import { ReferenceResolver } from '../symbol-table/index.js';
 import type {
   GenerationOptions,
   GenerationResult,
   GenerationBatchResult,
   PreviewResult,
+  GenerationContext,
+  LanguageBackend,
+  ResolvedGenerationOptions,
   CodeGenerationService as ICodeGenerationService,
 } from './schema.js';
 import { DEFAULT_GENERATION_OPTIONS } from './schema.js';
+import { createUnifiedDiff } from './diff.js';
 
 // ============================================================================
 // Internal Helpers
@@ -22,10 +34,36 @@ import { DEFAULT_GENERATION_OPTIONS } from './schema.js';
 
 /**
  * Check if a symbol can be code-generated.
- * Currently only L1 (Component) level symbols are generatable.
+ * L1 components become classes; L0 types, enums and constants become
+ * declarations. Built-in types map to language primitives instead.
  */
 function isGeneratable(symbol: ComponentSymbol): boolean {
-  return symbol.level === 'L1';
+  if (symbol.level === 'L1') return true;
+  return symbol.level === 'L0' && !isBuiltinType(symbol.id);
+}
+
+/**
+ * Check if a symbol is an L0 declaration (no user implementation file).
+ */
+function isTypeDefinition(symbol: ComponentSymbol): boolean {
+  return symbol.level === 'L0';
+}
+
+/**
+ * Identify the generator that produced a symbol's files (GenerationMetadata.templateId).
+ */
+function getTemplateId(symbol: ComponentSymbol): string {
+  return `${symbol.language}/${isTypeDefinition(symbol) ? 'declaration' : 'generation-gap'}`;
+}
+
+/**
+ * Explain why a symbol cannot be generated.
+ */
+function notGeneratableReason(symbol: ComponentSymbol): string {
+  if (isBuiltinType(symbol.id)) {
+    return `Symbol is not generatable (built-in type): ${symbol.id}`;
+  }
+  return `Symbol is not generatable (only L0 and L1 symbols are supported): ${symbol.level}`;
 }
 
 /**
@@ -86,21 +124,12 @@ function emptyBatchResult(): GenerationBatchResult {
   };
 }
 
-// TypeScript Backend
-import {
-  createProject,
-  createSourceFile,
-  addGeneratedHeader,
-  createBaseClass,
-  addDependencyInjection,
-  createUserStub,
-  formatSourceFile,
-  getClassName,
-} from './typescript/index.js';
+// Language Backends
+import { getReferencedSymbolIds, TypeScriptBackend } from './typescript/index.js';
+import { PythonBackend } from './python/index.js';
 
 // Infrastructure
 import {
-  getGeneratedPaths,
   fileExists,
   ensureDirectory,
   writeFile,
@@ -114,14 +143,43 @@ function generateContentHash(content: string): string {
   return createHash('sha256').update(content).digest('hex').slice(0, 16);
 }
 
+/**
+ * Read a generated file that was edited by hand since its last generation,
+ * i.e. whose hash no longer matches the recorded generationMeta.contentHash.
+ * Returns null when the file is missing, untracked or unmodified.
+ */
+function readHandEditedFile(symbol: ComponentSymbol, generatedPath: string): string | null {
+  const meta = symbol.generationMeta;
+  if (!meta || meta.generatedPath !== generatedPath || !fileExists(generatedPath)) {
+    return null;
+  }
+  const existingContent = readFile(generatedPath);
+  return generateContentHash(existingContent) === meta.contentHash ? null : existingContent;
+}
+
 /**
  * Code generation service.
  *
- * Provides high-level API for generating TypeScript code from
+ * Provides high-level API for generating code from
  * symbols in the symbol table using the Generation Gap pattern.
  */
 export class CodeGenerationService implements ICodeGenerationService {
-  constructor(private repo: SymbolRepository) {}
+  private resolver: ReferenceResolver;
+  private backends: Map<Language, LanguageBackend>;
+
+  /**
+   * @param repo - Symbol repository to generate from
+   * @param locks - Version locks recording what range references resolved to
+   * @param backends - Language backends, selected by each symbol's language
+   */
+  constructor(
+    private repo: SymbolRepository,
+    locks?: VersionLockRepository,
+    backends: LanguageBackend[] = [new TypeScriptBackend(), new PythonBackend()]
+  ) {
+    this.resolver = new ReferenceResolver(repo, locks);
+    this.backends = new Map(backends.map((backend) => [backend.language, backend]));
+  }
 
   // ===========================================================================
   // Single Symbol Generation
@@ -139,9 +197,12 @@ export class CodeGenerationService implements ICodeGenerationService {
 
     // Check if symbol is generatable
     if (!isGeneratable(symbol)) {
+      return generationError(symbolId, notGeneratableReason(symbol), '', '');
+    }
+    if (!this.backends.has(symbol.language)) {
       return generationError(
         symbolId,
-        `Symbol is not generatable (only L1 components are supported): ${symbol.level}`,
+        `No code generation backend for language: ${symbol.language}`,
         '',
         ''
       );
@@ -181,7 +242,7 @@ export class CodeGenerationService implements ICodeGenerationService {
   }
 
   /**
-   * Generate code for all L1 components in the store.
+   * Generate code for all L0 and L1 symbols in the store.
    */
   generateAll(options: GenerationOptions): GenerationBatchResult {
     const allSymbols = this.repo.list();
@@ -204,7 +265,7 @@ export class CodeGenerationService implements ICodeGenerationService {
       return null;
     }
 
-    if (!isGeneratable(symbol)) {
+    if (!isGeneratable(symbol) || !this.backends.has(symbol.language)) {
       return null;
     }
 
@@ -219,7 +280,7 @@ export class CodeGenerationService implements ICodeGenerationService {
     };
 
     // Only include userStubContent if user file doesn't exist
-    if (!preview.userFileExists) {
+    if (!preview.userFileExists && preview.userStubContent !== undefined) {
       result.userStubContent = preview.userStubContent;
     }
 
@@ -250,77 +311,172 @@ export class CodeGenerationService implements ICodeGenerationService {
   // ===========================================================================
 
   /**
-   * Generate the base class file (.generated.ts) content.
+   * Get the backend that generates a symbol's language.
    */
-  private generateBaseClassContent(
-    symbol: ComponentSymbol,
-    options: Required<Omit<GenerationOptions, 'outputDir'>>
-  ): string {
-    const className = getClassName(symbol);
-    const project = createProject();
-    const sourceFile = createSourceFile(project, `${className}.generated.ts`);
-
-    // Add generated header
-    addGeneratedHeader(sourceFile, symbol.id, new Date());
-
-    // Create abstract base class with UML relationships
-    const classDecl = createBaseClass(sourceFile, symbol, options.includeComments);
-
-    // Add dependency injection (constructor and property dependencies)
-    addDependencyInjection(classDecl, symbol.dependencies ?? [], options.includeComments);
+  private getBackend(symbol: ComponentSymbol): LanguageBackend {
+    const backend = this.backends.get(symbol.language);
+    if (!backend) {
+      throw new Error(`No code generation backend for language: ${symbol.language}`);
+    }
+    return backend;
+  }
 
-    return formatSourceFile(sourceFile);
+  /**
+   * Build the context a backend generates one symbol's files with.
+   *
+   * References resolve through version ranges and locks. Those that cannot
+   * be imported (missing, not generatable, or in another language) keep
+   * their plain type name and produce a warning.
+   */
+  private createContext(
+    symbol: ComponentSymbol,
+    options: ResolvedGenerationOptions,
+    outputDir: string,
+    warnings: string[]
+  ): GenerationContext {
+    return {
+      outputDir,
+      options,
+      warnings,
+      resolveReference: (symbolId) => {
+        const target = this.resolver.resolve(symbolId);
+        if (!target) {
+          warnings.push(`Unresolved reference, not imported (symbol not found): ${symbolId}`);
+          return undefined;
+        }
+        if (!isGeneratable(target)) {
+          warnings.push(`Unresolved reference, not imported (not generatable): ${symbolId}`);
+          return undefined;
+        }
+        if (target.language !== symbol.language) {
+          warnings.push(
+            `Unresolved reference, not imported (${target.language} symbol): ${symbolId}`
+          );
+          return undefined;
+        }
+        return target;
+      },
+    };
   }
 
   /**
-   * Generate the user implementation stub file (.ts) content.
+   * Generate the fully generated file's content for any generatable symbol.
    */
-  private generateUserStubContent(
+  private generateContent(
     symbol: ComponentSymbol,
-    options: Required<Omit<GenerationOptions, 'outputDir'>>
+    backend: LanguageBackend,
+    context: GenerationContext
   ): string {
-    const className = getClassName(symbol);
-    const project = createProject();
-    const sourceFile = createSourceFile(project, `${className}.ts`);
+    return isTypeDefinition(symbol)
+      ? backend.generateDeclaration(symbol, context)
+      : backend.generateBaseClass(symbol, context);
+  }
+
+  /**
+   * Write generation metadata back into the symbol and mark it as generated.
+   * A contract test written in the same run is added to statusInfo.testedBy.
+   */
+  private recordGeneration(symbol: ComponentSymbol, result: GenerationResult): void {
+    const updated: ComponentSymbol = {
+      ...symbol,
+      origin: 'generated',
+      generationMeta: {
+        templateId: getTemplateId(symbol),
+        generatedAt: result.generatedAt,
+        contentHash: result.contentHash,
+        generatedPath: result.generatedPath,
+        ...(result.implementationPath && { implementationPath: result.implementationPath }),
+      },
+    };
 
-    // Create user implementation class
-    createUserStub(sourceFile, symbol, `${className}.generated.ts`, options.includeComments);
+    const testedBy = symbol.statusInfo?.testedBy ?? [];
+    if (result.testPath && !testedBy.includes(result.testPath)) {
+      updated.statusInfo = {
+        ...symbol.statusInfo,
+        source: symbol.statusInfo?.source ?? 'static',
+        updatedAt: result.generatedAt,
+        testedBy: [...testedBy, result.testPath],
+      };
+    }
 
-    return formatSourceFile(sourceFile);
+    this.repo.update(symbol.id, updated);
+  }
+
+  /**
+   * Lock the versions that range references in the written files resolved to.
+   */
+  private lockReferences(symbol: ComponentSymbol): void {
+    for (const ref of getReferencedSymbolIds(symbol)) {
+      this.resolver.resolveAndLock(ref);
+    }
   }
 
   /**
    * Generate files for a component using the Generation Gap pattern.
    *
-   * Always generates/overwrites the .generated.ts file.
-   * Only creates the user .ts file if it doesn't exist.
+   * Always generates/overwrites the generated file.
+   * Only creates the user file if it doesn't exist (L1 only).
    */
   private generateWithGap(symbol: ComponentSymbol, options: GenerationOptions): GenerationResult {
     const fullOptions = { ...DEFAULT_GENERATION_OPTIONS, ...options };
-    const className = getClassName(symbol);
-    const { generatedPath, implementationPath, directory } = getGeneratedPaths(
-      className,
-      symbol.namespace,
+    const backend = this.getBackend(symbol);
+    const { generatedPath, implementationPath, directory } = backend.getPaths(
+      symbol,
       options.outputDir
     );
 
     const warnings: string[] = [];
+    const context = this.createContext(symbol, fullOptions, options.outputDir, warnings);
 
     try {
       // Generate content
-      const generatedContent = this.generateBaseClassContent(symbol, fullOptions);
+      const generatedContent = this.generateContent(symbol, backend, context);
       const contentHash = generateContentHash(generatedContent);
 
+      // Refuse to clobber hand edits to the generated file unless forced
+      const handEdited = readHandEditedFile(symbol, generatedPath);
+      let diff: string | undefined;
+      if (handEdited !== null) {
+        diff = createUnifiedDiff(
+          handEdited,
+          generatedContent,
+          generatedPath,
+          `${generatedPath} (regenerated)`
+        );
+        if (fullOptions.force) {
+          warnings.push(`Generated file was edited by hand, overwritten (force): ${generatedPath}`);
+        } else {
+          warnings.push(
+            `Generated file was edited by hand, not overwritten (use force to overwrite): ${generatedPath}`
+          );
+          if (!fullOptions.dryRun) {
+            const result = generationError(
+              symbol.id,
+              `Generated file was edited by hand since last generation: ${generatedPath}`,
+              generatedPath,
+              implementationPath
+            );
+            result.warnings = warnings;
+            result.diff = diff;
+            return result;
+          }
+        }
+      }
+
       // Check if this is a dry run
       if (fullOptions.dryRun) {
-        return generationSuccess(
+        const result = generationSuccess(
           symbol.id,
           generatedPath,
           implementationPath,
           contentHash,
           false,
-          ['Dry run: no files written']
+          [...warnings, 'Dry run: no files written']
         );
+        if (diff) {
+          result.diff = diff;
+        }
+        return result;
       }
 
       // Ensure output directory exists
@@ -341,24 +497,46 @@ export class CodeGenerationService implements ICodeGenerationService {
         writeFile(generatedPath, generatedContent);
       }
 
-      // Create user file only if it doesn't exist
+      // Create user file only if it doesn't exist (L0 declarations have none)
       let userFileCreated = false;
-      if (!fileExists(implementationPath)) {
-        const userContent = this.generateUserStubContent(symbol, fullOptions);
-        writeFile(implementationPath, userContent);
-        userFileCreated = true;
-      } else if (!fullOptions.preserveUserFiles) {
-        warnings.push('User file exists, preserved (set preserveUserFiles: false to overwrite)');
+      if (implementationPath) {
+        if (!fileExists(implementationPath)) {
+          const userContent = backend.generateUserStub(symbol, context);
+          writeFile(implementationPath, userContent);
+          userFileCreated = true;
+        } else if (!fullOptions.preserveUserFiles) {
+          warnings.push('User file exists, preserved (set preserveUserFiles: false to overwrite)');
+        }
       }
 
-      return generationSuccess(
+      // Contract tests are fully generated and always rewritten
+      let testPath: string | undefined;
+      if (fullOptions.includeContractTests && !isTypeDefinition(symbol)) {
+        if (backend.getContractTestPath && backend.generateContractTest) {
+          testPath = backend.getContractTestPath(symbol, options.outputDir);
+          writeFile(testPath, backend.generateContractTest(symbol, context));
+        } else {
+          warnings.push(`Contract tests are not supported for ${symbol.language}, not written`);
+        }
+      }
+
+      const result = generationSuccess(
         symbol.id,
         generatedPath,
         implementationPath,
         contentHash,
         userFileCreated,
-        warnings
+        [...new Set(warnings)]
       );
+      if (testPath) {
+        result.testPath = testPath;
+      }
+      if (diff) {
+        result.diff = diff;
+      }
+      this.recordGeneration(symbol, result);
+      this.lockReferences(symbol);
+      return result;
     } catch (error) {
       return generationError(
         symbol.id,
@@ -377,21 +555,22 @@ export class CodeGenerationService implements ICodeGenerationService {
     outputDir: string
   ): {
     generatedContent: string;
-    userStubContent: string;
+    userStubContent?: string;
     generatedPath: string;
     implementationPath: string;
     userFileExists: boolean;
   } {
     const fullOptions = { ...DEFAULT_GENERATION_OPTIONS, dryRun: true };
-    const className = getClassName(symbol);
-    const { generatedPath, implementationPath } = getGeneratedPaths(
-      className,
-      symbol.namespace,
-      outputDir
-    );
+    const backend = this.getBackend(symbol);
+    const { generatedPath, implementationPath } = backend.getPaths(symbol, outputDir);
+    const context = this.createContext(symbol, fullOptions, outputDir, []);
+
+    const generatedContent = this.generateContent(symbol, backend, context);
+    if (!implementationPath) {
+      return { generatedContent, generatedPath, implementationPath, userFileExists: false };
+    }
 
-    const generatedContent = this.generateBaseClassContent(symbol, fullOptions);
-    const userStubContent = this.generateUserStubContent(symbol, fullOptions);
+    const userStubContent = backend.generateUserStub(symbol, context);
     const userFileExists = fileExists(implementationPath);
 
     return {
@@ -407,6 +586,9 @@ export class CodeGenerationService implements ICodeGenerationService {
 /**
  * Create a new CodeGenerationService.
  */
-export function createCodeGenerationService(repo: SymbolRepository): CodeGenerationService {
-  return new CodeGenerationService(repo);
+export function createCodeGenerationService(
+  repo: SymbolRepository,
+  locks?: VersionLockRepository
+): CodeGenerationService {
+  return new CodeGenerationService(repo, locks);
 }
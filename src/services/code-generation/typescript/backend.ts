@@ -0,0 +1,196 @@
+/**
+ * TypeScript Backend
+ *
+ * LanguageBackend for TypeScript: `<Name>.generated.ts` abstract base
+ * classes and declarations built with ts-morph, `<Name>.ts` user stubs and
+ * optional `<Name>.contract.test.ts` specs.
+ */
+
+import type { SourceFile } from 'ts-morph';
+import type { ComponentSymbol } from '../../../domain/symbol/index.js';
+import {
+  getGeneratedPaths,
+  getContractTestPath,
+} from '../../../infrastructure/file-system/index.js';
+import type {
+  GeneratedPaths,
+  GenerationContext,
+  LanguageBackend,
+} from '../schema.js';
+import {
+  createProject,
+  createSourceFile,
+  addGeneratedHeader,
+  formatSourceFile,
+} from './ast-builder.js';
+import {
+  createBaseClass,
+  addDependencyInjection,
+  addAbstractOperations,
+  addExecutionTrace,
+  createUserStub,
+  getClassName,
+  getBaseClassName,
+} from './class-generator.js';
+import { addTypeImports, getReferencedSymbolIds } from './import-builder.js';
+import type { TypeImport, TypeNameResolver } from './import-builder.js';
+import {
+  createContractTest,
+  getContractTestSymbolIds,
+  CONTRACT_TEST_RESERVED_NAMES,
+} from './test-generator.js';
+import { createTypeDeclaration, getDeclarationName } from './type-generator.js';
+
+export class TypeScriptBackend implements LanguageBackend {
+  readonly language = 'typescript';
+
+  /**
+   * L0 declarations have no user file, so their implementationPath is empty.
+   */
+  getPaths(symbol: ComponentSymbol, outputDir: string): GeneratedPaths {
+    if (symbol.level !== 'L0') {
+      return getGeneratedPaths(getClassName(symbol), symbol.namespace, outputDir);
+    }
+    const { generatedPath, directory } = getGeneratedPaths(
+      getDeclarationName(symbol),
+      symbol.namespace,
+      outputDir
+    );
+    return { generatedPath, implementationPath: '', directory };
+  }
+
+  /**
+   * Generate the base class file (.generated.ts) content.
+   */
+  generateBaseClass(symbol: ComponentSymbol, context: GenerationContext): string {
+    const { options } = context;
+    const className = getClassName(symbol);
+    const project = createProject();
+    const sourceFile = createSourceFile(project, `${className}.generated.ts`);
+
+    // Import referenced types before the header is inserted above them
+    const typeName = this.addImports(sourceFile, symbol, context, [getBaseClassName(symbol)]);
+
+    // Add generated header
+    addGeneratedHeader(sourceFile, symbol.id, new Date());
+
+    // Create abstract base class with UML relationships
+    const classDecl = createBaseClass(sourceFile, symbol, options.includeComments, typeName);
+
+    // Add dependency injection (constructor and property dependencies)
+    addDependencyInjection(
+      classDecl,
+      symbol.dependencies ?? [],
+      options.includeComments,
+      typeName,
+      symbol.extends
+    );
+
+    // Declare operations as abstract methods the user class must implement
+    addAbstractOperations(classDecl, symbol.operations ?? [], options.includeComments, typeName);
+
+    if (options.includeTracing) {
+      addExecutionTrace(classDecl, symbol, typeName);
+    }
+
+    return formatSourceFile(sourceFile);
+  }
+
+  /**
+   * Generate the user implementation stub file (.ts) content.
+   */
+  generateUserStub(symbol: ComponentSymbol, context: GenerationContext): string {
+    const className = getClassName(symbol);
+    const project = createProject();
+    const sourceFile = createSourceFile(project, `${className}.ts`);
+
+    // Create user implementation class
+    createUserStub(
+      sourceFile,
+      symbol,
+      `${className}.generated.ts`,
+      context.options.includeComments
+    );
+
+    return formatSourceFile(sourceFile);
+  }
+
+  /**
+   * Generate the declaration file (.generated.ts) content for an L0 symbol.
+   */
+  generateDeclaration(symbol: ComponentSymbol, context: GenerationContext): string {
+    const name = getDeclarationName(symbol);
+    const project = createProject();
+    const sourceFile = createSourceFile(project, `${name}.generated.ts`);
+
+    const typeName = this.addImports(sourceFile, symbol, context, [name]);
+    addGeneratedHeader(sourceFile, symbol.id, new Date());
+    createTypeDeclaration(sourceFile, symbol, context.options.includeComments, typeName);
+
+    return formatSourceFile(sourceFile);
+  }
+
+  getContractTestPath(symbol: ComponentSymbol, outputDir: string): string {
+    return getContractTestPath(getClassName(symbol), symbol.namespace, outputDir);
+  }
+
+  /**
+   * Generate the contract test file (.contract.test.ts) content for an L1 symbol.
+   */
+  generateContractTest(symbol: ComponentSymbol, context: GenerationContext): string {
+    const className = getClassName(symbol);
+    const project = createProject();
+    const sourceFile = createSourceFile(project, `${className}.contract.test.ts`);
+
+    // Dependencies and interfaces only appear as types in the spec
+    const typeName = this.addImports(
+      sourceFile,
+      symbol,
+      context,
+      [className, getBaseClassName(symbol), ...CONTRACT_TEST_RESERVED_NAMES],
+      { symbolIds: getContractTestSymbolIds(symbol), typeOnly: true }
+    );
+    createContractTest(sourceFile, symbol, typeName);
+    addGeneratedHeader(sourceFile, symbol.id, new Date());
+
+    return formatSourceFile(sourceFile);
+  }
+
+  /**
+   * Import the symbols referenced by generated code from where they are
+   * generated: L0 declarations from their .generated.ts file, L1 classes
+   * from their user implementation file.
+   *
+   * References that cannot be resolved keep their plain type name.
+   *
+   * @param references Symbols to import (defaults to everything the
+   *   generated code references) and whether they are used as types only
+   */
+  private addImports(
+    sourceFile: SourceFile,
+    symbol: ComponentSymbol,
+    context: GenerationContext,
+    reservedNames: string[],
+    references: { symbolIds?: string[]; typeOnly?: boolean } = {}
+  ): TypeNameResolver {
+    const imports: TypeImport[] = [];
+    const symbolIds = references.symbolIds ?? getReferencedSymbolIds(symbol);
+
+    for (const symbolId of symbolIds) {
+      const target = context.resolveReference(symbolId);
+      if (!target) continue;
+
+      const { generatedPath, implementationPath } = this.getPaths(target, context.outputDir);
+      imports.push({
+        symbolId,
+        namespace: target.namespace,
+        exportName: target.level === 'L0' ? getDeclarationName(target) : getClassName(target),
+        filePath: implementationPath || generatedPath,
+        typeOnly: references.typeOnly ?? target.kind === 'type',
+      });
+    }
+
+    const { generatedPath } = this.getPaths(symbol, context.outputDir);
+    return addTypeImports(sourceFile, generatedPath, imports, reservedNames);
+  }
+}
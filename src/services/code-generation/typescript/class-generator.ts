@@ -6,8 +6,10 @@
  */
 
 import { ClassDeclaration, Scope, SourceFile } from 'ts-morph';
-import type { ComponentSymbol, DependencyRef } from '../../../domain/symbol/index.js';
-import { symbolIdToTypeName, sanitizeClassName } from './type-mapper.js';
+import type { ComponentSymbol, DependencyRef, Operation } from '../../../domain/symbol/index.js';
+import { symbolIdToTypeName, typeRefToTypeString, sanitizeClassName } from './type-mapper.js';
+import type { TypeNameResolver } from './import-builder.js';
+import { TRACE_HOOK } from '../../../infrastructure/runtime-tracer/index.js';
 
 /**
  * Create an abstract base class for a component.
@@ -15,7 +17,8 @@ import { symbolIdToTypeName, sanitizeClassName } from './type-mapper.js';
 export function createBaseClass(
   sourceFile: SourceFile,
   symbol: ComponentSymbol,
-  includeComments: boolean
+  includeComments: boolean,
+  typeName: TypeNameResolver = symbolIdToTypeName
 ): ClassDeclaration {
   const className = sanitizeClassName(symbol.name);
   const baseClassName = `${className}_Base`;
@@ -28,14 +31,14 @@ export function createBaseClass(
 
   // Add extends clause if parent class is defined
   if (symbol.extends) {
-    classDecl.setExtends(symbolIdToTypeName(symbol.extends));
+    classDecl.setExtends(typeName(symbol.extends));
   }
 
   // Add implements clause if interfaces are defined
   const implementsInterfaces = symbol.implements ?? [];
   if (implementsInterfaces.length > 0) {
     for (const iface of implementsInterfaces) {
-      classDecl.addImplements(symbolIdToTypeName(iface));
+      classDecl.addImplements(typeName(iface));
     }
   }
 
@@ -49,24 +52,30 @@ export function createBaseClass(
 }
 
 /**
- * Add constructor with dependency injection.
+ * Add constructor with dependency injection. A class that extends another
+ * symbol takes the parent's constructor arguments after its own and
+ * forwards them to `super`.
  */
 export function addDependencyInjection(
   classDecl: ClassDeclaration,
   dependencies: DependencyRef[],
-  includeComments: boolean
+  includeComments: boolean,
+  typeName: TypeNameResolver = symbolIdToTypeName,
+  parentId?: string
 ): void {
   const constructorDeps = dependencies.filter((d) => d.kind === 'constructor');
   const propertyDeps = dependencies.filter((d) => d.kind === 'property');
 
   // Add property dependencies as class properties
   for (const dep of propertyDeps) {
-    const typeString = symbolIdToTypeName(dep.symbolId);
+    const typeString = typeName(dep.symbolId);
     const prop = classDecl.addProperty({
       name: dep.name,
       type: dep.optional ? `${typeString} | undefined` : typeString,
       scope: Scope.Protected,
       hasQuestionToken: dep.optional,
+      // Assigned by the injector, not the constructor
+      hasExclamationToken: !dep.optional,
     });
 
     if (includeComments) {
@@ -76,31 +85,120 @@ export function addDependencyInjection(
 
   // Add constructor if there are constructor dependencies
   if (constructorDeps.length > 0) {
+    const parentName = parentId ? typeName(parentId) : undefined;
     const ctor = classDecl.addConstructor({
-      parameters: constructorDeps.map((dep) => {
-        const typeString = symbolIdToTypeName(dep.symbolId);
-        return {
-          name: dep.name,
-          type: typeString,
-          hasQuestionToken: dep.optional,
-          scope: Scope.Protected,
-          isReadonly: true,
-        };
-      }),
+      parameters: [
+        ...constructorDeps.map((dep) => {
+          const typeString = typeName(dep.symbolId);
+          return {
+            name: dep.name,
+            type: typeString,
+            hasQuestionToken: dep.optional,
+            scope: Scope.Protected,
+            isReadonly: true,
+          };
+        }),
+        ...(parentName
+          ? [
+              {
+                name: 'parentArgs',
+                isRestParameter: true,
+                type: `ConstructorParameters<typeof ${parentName}>`,
+              },
+            ]
+          : []),
+      ],
+      statements: parentName ? ['super(...parentArgs);'] : [],
     });
 
     if (includeComments) {
       ctor.addJsDoc({
         description: 'Create a new instance with injected dependencies.',
-        tags: constructorDeps.map((dep) => ({
-          tagName: 'param',
-          text: `${dep.name} - Injected ${symbolIdToTypeName(dep.symbolId)}`,
-        })),
+        tags: [
+          ...constructorDeps.map((dep) => ({
+            tagName: 'param',
+            text: `${dep.name} - Injected ${typeName(dep.symbolId)}`,
+          })),
+          ...(parentName
+            ? [{ tagName: 'param', text: `parentArgs - Arguments for ${parentName}` }]
+            : []),
+        ],
       });
     }
   }
 }
 
+/**
+ * Report each instantiation to the runtime tracer (ADR-005).
+ *
+ * The constructor calls the global trace hook, which is undefined unless a
+ * tracer was started, so untraced processes pay only a property lookup.
+ * Call after addDependencyInjection so an injecting constructor is reused.
+ */
+export function addExecutionTrace(
+  classDecl: ClassDeclaration,
+  symbol: ComponentSymbol,
+  typeName: TypeNameResolver = symbolIdToTypeName
+): void {
+  const trace = `(globalThis as { ${TRACE_HOOK}?: (symbolId: string) => void }).${TRACE_HOOK}?.(${JSON.stringify(symbol.id)});`;
+
+  const ctor = classDecl.getConstructors()[0];
+  if (ctor) {
+    ctor.addStatements(trace);
+  } else if (symbol.extends) {
+    // Forward whatever the parent constructor takes
+    classDecl.addConstructor({
+      parameters: [
+        {
+          name: 'args',
+          isRestParameter: true,
+          type: `ConstructorParameters<typeof ${typeName(symbol.extends)}>`,
+        },
+      ],
+      statements: ['super(...args);', trace],
+    });
+  } else {
+    classDecl.addConstructor({ statements: [trace] });
+  }
+}
+
+/**
+ * Add abstract methods for the component's declared operations.
+ *
+ * The user class must implement each one, so a missing or mistyped
+ * implementation is a compile error rather than a runtime surprise.
+ */
+export function addAbstractOperations(
+  classDecl: ClassDeclaration,
+  operations: Operation[],
+  includeComments: boolean,
+  typeName: TypeNameResolver = symbolIdToTypeName
+): void {
+  for (const op of operations) {
+    const returnType = op.returnType ? typeRefToTypeString(op.returnType, typeName) : 'void';
+    const method = classDecl.addMethod({
+      name: op.name,
+      isAbstract: true,
+      scope: op.visibility === 'protected' ? Scope.Protected : Scope.Public,
+      parameters: op.parameters.map((param, index) => {
+        const type = typeRefToTypeString(param.type, typeName);
+        // `?` is only legal when no required parameter follows
+        const trailing = op.parameters.slice(index).every((p) => p.optional);
+        if (param.optional && !trailing) {
+          return { name: param.name, type: `${type} | undefined` };
+        }
+        return { name: param.name, type, hasQuestionToken: param.optional ?? false };
+      }),
+      // Abstract methods cannot be `async`; the Promise return type carries it
+      returnType: op.async ? `Promise<${returnType}>` : returnType,
+    });
+
+    if (includeComments && op.description) {
+      method.addJsDoc({ description: op.description });
+    }
+  }
+}
+
 /**
  * Create a user implementation stub.
  */
@@ -0,0 +1,133 @@
+/**
+ * TypeScript Import Builder
+ *
+ * Adds relative ES-module imports for symbols referenced by generated code
+ * and resolves the local name each reference should use. Names that collide
+ * (with each other or with the file's own declarations) are aliased.
+ */
+
+import * as path from 'node:path';
+import type { SourceFile } from 'ts-morph';
+import type { ComponentSymbol } from '../../../domain/symbol/index.js';
+import { isBuiltinType } from '../../../domain/symbol/index.js';
+import { sanitizeClassName, symbolIdToTypeName } from './type-mapper.js';
+
+/**
+ * Maps a referenced symbol ID to the type name used in the generated file.
+ */
+export type TypeNameResolver = (symbolId: string) => string;
+
+/**
+ * A symbol to import into a generated file.
+ */
+export interface TypeImport {
+  /** Referenced symbol ID */
+  symbolId: string;
+  /** Namespace of the referenced symbol (used to build aliases) */
+  namespace: string;
+  /** Name exported by the target file */
+  exportName: string;
+  /** Path of the file that declares the export (.ts) */
+  filePath: string;
+  /** Export is a type only (interface or alias), imported with `import type` */
+  typeOnly?: boolean;
+}
+
+/**
+ * Collect IDs of non-builtin symbols a generated file refers to by type name.
+ * Order follows the generated output, so aliasing is deterministic.
+ */
+export function getReferencedSymbolIds(symbol: ComponentSymbol): string[] {
+  const ids = [
+    ...(symbol.extends ? [symbol.extends] : []),
+    ...(symbol.implements ?? []),
+    ...(symbol.dependencies ?? [])
+      .filter((dep) => dep.kind !== 'method')
+      .map((dep) => dep.symbolId),
+    ...(symbol.members ?? []).map((member) => member.type.symbolId),
+    ...(symbol.aliasOf ?? []).map((ref) => ref.symbolId),
+    ...(symbol.constant ? [symbol.constant.type.symbolId] : []),
+    ...(symbol.operations ?? []).flatMap((op) => [
+      ...op.parameters.map((param) => param.type.symbolId),
+      ...(op.returnType ? [op.returnType.symbolId] : []),
+    ]),
+  ];
+  return [...new Set(ids)].filter((id) => !isBuiltinType(id) && id !== symbol.id);
+}
+
+/**
+ * Add import declarations to a generated source file.
+ *
+ * @param sourceFile File being generated
+ * @param fromPath Path the file will be written to
+ * @param imports Symbols to import
+ * @param reservedNames Names declared by the file itself
+ * @returns Resolver giving the local (possibly aliased) name per symbol ID
+ */
+export function addTypeImports(
+  sourceFile: SourceFile,
+  fromPath: string,
+  imports: TypeImport[],
+  reservedNames: string[]
+): TypeNameResolver {
+  const localNames = new Map<string, string>();
+  const usedNames = new Set(reservedNames);
+  const byModule = new Map<
+    string,
+    { typeOnly: boolean; namedImports: Array<{ name: string; alias?: string }> }
+  >();
+
+  for (const imp of imports) {
+    if (localNames.has(imp.symbolId)) continue;
+
+    const localName = uniqueName(imp, usedNames);
+    usedNames.add(localName);
+    localNames.set(imp.symbolId, localName);
+
+    const moduleSpecifier = toModuleSpecifier(fromPath, imp.filePath);
+    const entry = byModule.get(moduleSpecifier) ?? { typeOnly: true, namedImports: [] };
+    entry.typeOnly = entry.typeOnly && (imp.typeOnly ?? false);
+    entry.namedImports.push(
+      localName === imp.exportName ? { name: imp.exportName } : { name: imp.exportName, alias: localName }
+    );
+    byModule.set(moduleSpecifier, entry);
+  }
+
+  for (const [moduleSpecifier, { typeOnly, namedImports }] of byModule) {
+    sourceFile.addImportDeclaration({ moduleSpecifier, namedImports, isTypeOnly: typeOnly });
+  }
+
+  return (symbolId) => localNames.get(symbolId) ?? symbolIdToTypeName(symbolId);
+}
+
+/**
+ * Pick a local name for an import: the export name if free, otherwise
+ * prefixed with the namespace (auth/jwt + Token -> AuthJwtToken), then numbered.
+ */
+function uniqueName(imp: TypeImport, usedNames: Set<string>): string {
+  if (!usedNames.has(imp.exportName)) return imp.exportName;
+
+  const prefix = imp.namespace
+    .split('/')
+    .map((segment) => sanitizeClassName(segment))
+    .join('');
+  const alias = `${prefix}${sanitizeClassName(imp.exportName)}`;
+  if (!usedNames.has(alias)) return alias;
+
+  let counter = 2;
+  while (usedNames.has(`${alias}${counter}`)) counter++;
+  return `${alias}${counter}`;
+}
+
+/**
+ * Build a relative ES-module specifier between two generated files.
+ * e.g., "/out/app/Service.generated.ts" -> "/out/core/Logger.ts" = "../core/Logger.js"
+ */
+function toModuleSpecifier(fromPath: string, toPath: string): string {
+  const relative = path
+    .relative(path.dirname(fromPath), toPath)
+    .split(path.sep)
+    .join('/')
+    .replace(/\.ts$/, '.js');
+  return relative.startsWith('.') ? relative : `./${relative}`;
+}
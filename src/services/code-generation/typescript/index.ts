@@ -5,8 +5,16 @@
  * Works directly with ComponentSymbol from domain layer.
  */
 
+// Backend
+export { TypeScriptBackend } from './backend.js';
+
 // Type mapping utilities
-export { symbolIdToTypeName, sanitizeClassName } from './type-mapper.js';
+export {
+  symbolIdToTypeName,
+  typeRefToTypeString,
+  sanitizeClassName,
+  sanitizeIdentifier,
+} from './type-mapper.js';
 
 // AST building
 export {
@@ -20,7 +28,23 @@ export {
 export {
   createBaseClass,
   addDependencyInjection,
+  addAbstractOperations,
+  addExecutionTrace,
   createUserStub,
   getClassName,
   getBaseClassName,
 } from './class-generator.js';
+
+// Import generation
+export type { TypeImport, TypeNameResolver } from './import-builder.js';
+export { addTypeImports, getReferencedSymbolIds } from './import-builder.js';
+
+// Contract test generation
+export {
+  createContractTest,
+  getContractTestSymbolIds,
+  CONTRACT_TEST_RESERVED_NAMES,
+} from './test-generator.js';
+
+// L0 type generation
+export { createTypeDeclaration, getDeclarationName } from './type-generator.js';
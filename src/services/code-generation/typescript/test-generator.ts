@@ -0,0 +1,137 @@
+/**
+ * TypeScript Contract Test Generator
+ *
+ * Generates a node:test spec per L1 component checking the contract the
+ * Generation Gap pattern promises: the user class extends its base, its
+ * constructor dependencies can be injected, its interfaces are satisfied
+ * and its public operations exist.
+ */
+
+import type { SourceFile } from 'ts-morph';
+import type { ComponentSymbol } from '../../../domain/symbol/index.js';
+import { sanitizeClassName } from './type-mapper.js';
+import type { TypeNameResolver } from './import-builder.js';
+
+/**
+ * Names the spec declares or imports itself; referenced types must not use them.
+ */
+export const CONTRACT_TEST_RESERVED_NAMES = [
+  'describe',
+  'it',
+  'assert',
+  'createInstance',
+  'stub',
+  'stubArgs',
+];
+
+/**
+ * Collect IDs of symbols the contract test refers to by type name.
+ */
+export function getContractTestSymbolIds(symbol: ComponentSymbol): string[] {
+  const ids = [
+    ...(symbol.dependencies ?? [])
+      .filter((dep) => dep.kind === 'constructor')
+      .map((dep) => dep.symbolId),
+    ...(symbol.implements ?? []),
+    // The parent's constructor arguments are stubbed by type
+    ...(symbol.extends ? [symbol.extends] : []),
+  ];
+  return [...new Set(ids)].filter((id) => id !== symbol.id);
+}
+
+/**
+ * Add the contract spec for a component to a source file.
+ *
+ * Type imports for dependencies and interfaces must already be added;
+ * `typeName` resolves their local names.
+ */
+export function createContractTest(
+  sourceFile: SourceFile,
+  symbol: ComponentSymbol,
+  typeName: TypeNameResolver
+): void {
+  const className = sanitizeClassName(symbol.name);
+  const baseClassName = `${className}_Base`;
+
+  sourceFile.insertImportDeclarations(0, [
+    { moduleSpecifier: 'node:test', namedImports: ['describe', 'it'] },
+    { moduleSpecifier: 'node:assert', defaultImport: 'assert' },
+    { moduleSpecifier: `./${className}.js`, namedImports: [className] },
+    { moduleSpecifier: `./${className}.generated.js`, namedImports: [baseClassName] },
+  ]);
+
+  const cases: string[] = [
+    [
+      `it('extends ${baseClassName}', () => {`,
+      `  assert.ok(${className}.prototype instanceof ${baseClassName});`,
+      `});`,
+    ].join('\n'),
+    [
+      `it('is constructible with stubbed dependencies', () => {`,
+      `  assert.ok(createInstance() instanceof ${className});`,
+      `});`,
+    ].join('\n'),
+  ];
+
+  for (const iface of symbol.implements ?? []) {
+    const ifaceName = typeName(iface);
+    cases.push(
+      [
+        `it('satisfies ${ifaceName}', () => {`,
+        `  const contract: ${ifaceName} = createInstance();`,
+        `  assert.ok(contract);`,
+        `});`,
+      ].join('\n')
+    );
+  }
+
+  for (const op of symbol.operations ?? []) {
+    if (op.visibility === 'protected') continue;
+    cases.push(
+      [
+        `it('implements ${op.name}()', () => {`,
+        `  assert.strictEqual(typeof createInstance().${op.name}, 'function');`,
+        `});`,
+      ].join('\n')
+    );
+  }
+
+  sourceFile.addStatements([
+    '',
+    `describe('${className} contract', () => {`,
+    cases.join('\n\n'),
+    '});',
+  ]);
+
+  const stubs = (symbol.dependencies ?? [])
+    .filter((dep) => dep.kind === 'constructor')
+    .map((dep) => `stub<${typeName(dep.symbolId)}>()`);
+  if (symbol.extends) {
+    stubs.push(`...stubArgs<ConstructorParameters<typeof ${typeName(symbol.extends)}>>()`);
+  }
+
+  sourceFile.addFunction({
+    name: 'createInstance',
+    returnType: className,
+    statements: `return new ${className}(${stubs.join(', ')});`,
+    docs: [{ description: 'Create an instance with every constructor dependency stubbed.' }],
+  });
+
+  sourceFile.addFunction({
+    name: 'stub',
+    typeParameters: ['T'],
+    returnType: 'T',
+    statements: 'return {} as T;',
+    docs: [{ description: 'Empty stand-in for an injected dependency.' }],
+  });
+
+  if (symbol.extends) {
+    sourceFile.addFunction({
+      name: 'stubArgs',
+      typeParameters: ['T extends unknown[]'],
+      returnType: 'T',
+      statements: 'return [] as unknown as T;',
+      docs: [{ description: "Stand-in for the parent's constructor arguments." }],
+    });
+  }
+}
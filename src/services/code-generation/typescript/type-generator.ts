@@ -0,0 +1,136 @@
+/**
+ * TypeScript Type Generator
+ *
+ * Generates L0 declarations (interfaces, type aliases, enums, constants).
+ * These have no user stub: the whole file is regenerated from the symbol.
+ */
+
+import { SourceFile, VariableDeclarationKind } from 'ts-morph';
+import type { ComponentSymbol, ConstantValue } from '../../../domain/symbol/index.js';
+import { getBuiltinTypescript } from '../../../domain/symbol/index.js';
+import {
+  symbolIdToTypeName,
+  typeRefToTypeString,
+  sanitizeClassName,
+  sanitizeIdentifier,
+} from './type-mapper.js';
+import type { TypeNameResolver } from './import-builder.js';
+
+/**
+ * Add the declaration for an L0 symbol to a source file.
+ *
+ * - type: interface from `members`, or type alias when `aliasOf` is set
+ * - enum: enum from `enumMembers` (string or numeric values)
+ * - constant: typed `const` from `constant`
+ */
+export function createTypeDeclaration(
+  sourceFile: SourceFile,
+  symbol: ComponentSymbol,
+  includeComments: boolean,
+  typeName: TypeNameResolver = symbolIdToTypeName
+): void {
+  const name = getDeclarationName(symbol);
+  const docs = includeComments && symbol.description ? [{ description: symbol.description }] : [];
+
+  switch (symbol.kind) {
+    case 'type':
+      if (symbol.aliasOf?.length) {
+        sourceFile.addTypeAlias({
+          name,
+          type: symbol.aliasOf.map((ref) => typeRefToTypeString(ref, typeName)).join(' | '),
+          isExported: true,
+          docs,
+        });
+        return;
+      }
+      sourceFile.addInterface({
+        name,
+        isExported: true,
+        extends: symbol.extends ? [typeName(symbol.extends)] : [],
+        properties: (symbol.members ?? []).map((member) => ({
+          name: formatMemberName(member.name),
+          type: typeRefToTypeString(member.type, typeName),
+          hasQuestionToken: member.optional ?? false,
+          isReadonly: member.readonly ?? false,
+          docs: includeComments && member.description ? [{ description: member.description }] : [],
+        })),
+        docs,
+      });
+      return;
+
+    case 'enum': {
+      const enumMembers = symbol.enumMembers ?? [];
+      sourceFile.addEnum({
+        name,
+        isExported: true,
+        members: enumMembers.map((member, index) => {
+          // TypeScript only counts up from a number; after a string value
+          // the member needs its position written out
+          const value =
+            member.value ?? (typeof enumMembers[index - 1]?.value === 'string' ? index : undefined);
+          return {
+            name: formatMemberName(member.name),
+            ...(value !== undefined ? { value } : {}),
+          };
+        }),
+        docs,
+      });
+      return;
+    }
+
+    case 'constant':
+      if (!symbol.constant) {
+        throw new Error(`Constant has no value: ${symbol.id}`);
+      }
+      sourceFile.addVariableStatement({
+        declarationKind: VariableDeclarationKind.Const,
+        isExported: true,
+        declarations: [
+          {
+            name,
+            type: typeRefToTypeString(symbol.constant.type, typeName),
+            initializer: formatConstantValue(symbol.constant),
+          },
+        ],
+        docs,
+      });
+      return;
+
+    default:
+      throw new Error(`Not an L0 kind: ${symbol.kind}`);
+  }
+}
+
+/**
+ * Get the declared name for an L0 symbol.
+ * Constants keep their casing (MAX_RETRIES, defaultTimeout); types are PascalCase.
+ */
+export function getDeclarationName(symbol: ComponentSymbol): string {
+  return symbol.kind === 'constant'
+    ? sanitizeIdentifier(symbol.name)
+    : sanitizeClassName(symbol.name);
+}
+
+/**
+ * Quote member names that are not valid identifiers (e.g. "in-progress").
+ */
+function formatMemberName(name: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+/**
+ * Format a constant value as a TypeScript initializer matching its type.
+ */
+function formatConstantValue(constant: ConstantValue): string {
+  const { value } = constant;
+  if (!constant.type.array) {
+    const builtin = getBuiltinTypescript(constant.type.symbolId);
+    if (builtin === 'bigint' && typeof value === 'number') {
+      return `${value}n`;
+    }
+    if (builtin === 'Date' && typeof value === 'string') {
+      return `new Date(${JSON.stringify(value)})`;
+    }
+  }
+  return JSON.stringify(value, null, 2);
+}
@@ -5,6 +5,7 @@
  * Used for generating extends, implements, and dependency clauses.
  */
 
+import type { TypeRef } from '../../../domain/symbol/index.js';
 import { getBuiltinTypescript } from '../../../domain/symbol/index.js';
 
 /**
@@ -19,8 +20,8 @@ function extractTypeName(symbolId: string): string {
   const parts = symbolId.split('/');
   const lastPart = parts[parts.length - 1] ?? symbolId;
   const nameWithVersion = lastPart.split('@')[0] ?? lastPart;
-  // Note: Assumes name is already PascalCase from symbol definition
-  return nameWithVersion;
+  // Same sanitization as generated declarations, so references match them
+  return sanitizeClassName(nameWithVersion);
 }
 
 /**
@@ -31,15 +32,32 @@ export function symbolIdToTypeName(symbolId: string): string {
   return extractTypeName(symbolId);
 }
 
+/**
+ * Convert a type reference to a TypeScript type expression.
+ * e.g., { symbolId: "core/string@1.0.0", array: true } -> "string[]"
+ */
+export function typeRefToTypeString(
+  ref: TypeRef,
+  typeName: (symbolId: string) => string = symbolIdToTypeName
+): string {
+  const name = typeName(ref.symbolId);
+  return ref.array ? `${name}[]` : name;
+}
+
+/**
+ * Sanitize a symbol name to a valid TypeScript identifier (case preserved).
+ */
+export function sanitizeIdentifier(name: string): string {
+  // Remove invalid characters, ensure starts with letter
+  const sanitized = name.replace(/[^a-zA-Z0-9_]/g, '');
+  return /^[0-9]/.test(sanitized) ? '_' + sanitized : sanitized;
+}
+
 /**
  * Sanitize a symbol name to a valid TypeScript class name.
  */
 export function sanitizeClassName(name: string): string {
-  // Remove invalid characters, ensure starts with letter
-  let sanitized = name.replace(/[^a-zA-Z0-9_]/g, '');
-  if (/^[0-9]/.test(sanitized)) {
-    sanitized = '_' + sanitized;
-  }
+  const sanitized = sanitizeIdentifier(name);
   // PascalCase
   return sanitized.charAt(0).toUpperCase() + sanitized.slice(1);
 }
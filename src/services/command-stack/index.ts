@@ -0,0 +1,12 @@
+/**
+ * Command Stack Service
+ *
+ * Undo/redo for registry edits, derived from the revisions each edit wrote.
+ */
+
+// Service (primary API)
+export { CommandStackService } from './service.js';
+
+// Commonly used types
+export type { CommandStackState, CommandSummary } from './schema.js';
+export { MAX_UNDO_COMMANDS } from './schema.js';
@@ -0,0 +1,65 @@
+/**
+ * Command Stack Schema
+ *
+ * Types for undoing and redoing registry edits. A command is one user
+ * action (register, update, remove, import...) together with the symbol
+ * revisions it wrote; its inverse is derived from those revisions.
+ */
+
+import type { SymbolRevision } from '../../domain/symbol/index.js';
+
+// =============================================================================
+// Service Interface
+// =============================================================================
+
+/**
+ * Command stack service public API contract.
+ *
+ * Undo and redo write new revisions themselves, so the change history keeps
+ * a complete record of what happened.
+ */
+export interface CommandStackService {
+  record<T>(label: string, fn: () => T): T;
+  undo(): CommandSummary | undefined;
+  redo(): CommandSummary | undefined;
+  getState(): CommandStackState;
+  clear(): void;
+}
+
+// =============================================================================
+// Commands
+// =============================================================================
+
+/** Most commands kept for undo; older ones are dropped */
+export const MAX_UNDO_COMMANDS = 100;
+
+/**
+ * A recorded edit: the revisions written while it ran, oldest first.
+ */
+export interface SymbolCommand {
+  /** Sequence number, unique for the lifetime of the stack */
+  id: number;
+  /** Human-readable description, e.g. "Remove core/Logger@1.0.0" */
+  label: string;
+  executedAt: Date;
+  revisions: SymbolRevision[];
+}
+
+/**
+ * A command as listed in the edit history.
+ */
+export interface CommandSummary {
+  id: number;
+  label: string;
+  executedAt: Date;
+  /** Symbols the command changed, in the order they were first written */
+  symbolIds: string[];
+}
+
+/**
+ * The edit history: what undo and redo would apply next come first.
+ */
+export interface CommandStackState {
+  undo: CommandSummary[];
+  redo: CommandSummary[];
+}
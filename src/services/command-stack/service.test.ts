@@ -0,0 +1,144 @@
+/**
+ * Command Stack Service Tests
+ *
+ * Undo and redo against the history the SQLite repository records.
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import {
+  initMemoryDatabase,
+  closeDatabase,
+} from '../../repositories/persistence.js';
+import { SqliteSymbolRepository } from '../../repositories/symbol-repository.js';
+import { SqliteSymbolHistoryRepository } from '../../repositories/symbol-history-repository.js';
+import type { SymbolHistoryRepository, SymbolRepository } from '../../domain/symbol/index.js';
+import { createSymbol } from '../../testing/fixtures.js';
+import { CommandStackService } from './service.js';
+import { MAX_UNDO_COMMANDS } from './schema.js';
+
+const LOGGER = 'core/Logger@1.0.0';
+const FILE_LOGGER = 'core/FileLogger@1.0.0';
+
+describe('CommandStackService', () => {
+  let repo: SymbolRepository;
+  let history: SymbolHistoryRepository;
+  let stack: CommandStackService;
+
+  const logger = createSymbol({ id: LOGGER, name: 'Logger', namespace: 'core' });
+  const fileLogger = createSymbol({ id: FILE_LOGGER, name: 'FileLogger', extends: LOGGER });
+
+  beforeEach(() => {
+    const db = initMemoryDatabase();
+    repo = new SqliteSymbolRepository(db);
+    history = new SqliteSymbolHistoryRepository(db);
+    stack = new CommandStackService(repo, history);
+  });
+
+  afterEach(() => {
+    closeDatabase();
+  });
+
+  it('should only record commands that write', () => {
+    const result = stack.record('Register Logger', () => {
+      repo.insert(logger);
+      return 'done';
+    });
+    stack.record('Look up Logger', () => repo.find(LOGGER));
+
+    assert.strictEqual(result, 'done');
+    const { undo, redo } = stack.getState();
+    assert.deepStrictEqual(
+      undo.map((c) => [c.label, c.symbolIds]),
+      [['Register Logger', [LOGGER]]]
+    );
+    assert.deepStrictEqual(redo, []);
+  });
+
+  it('should undo and redo a registration', () => {
+    stack.record('Register Logger', () => repo.insert(logger));
+    const registered = repo.find(LOGGER);
+
+    assert.strictEqual(stack.undo()?.label, 'Register Logger');
+    assert.strictEqual(repo.find(LOGGER), undefined);
+
+    assert.strictEqual(stack.redo()?.label, 'Register Logger');
+    assert.deepStrictEqual(repo.find(LOGGER), registered);
+    assert.strictEqual(stack.redo(), undefined);
+  });
+
+  it('should restore a removed symbol and the extends it cleared', () => {
+    repo.insert(logger);
+    repo.insert(fileLogger);
+    stack.record(`Remove ${LOGGER}`, () => repo.delete(LOGGER));
+    assert.strictEqual(repo.find(FILE_LOGGER)?.extends, undefined);
+
+    stack.undo();
+
+    assert.deepStrictEqual(repo.find(LOGGER), logger);
+    assert.strictEqual(repo.find(FILE_LOGGER)?.extends, LOGGER);
+    const [last] = history.listForSymbol(LOGGER).reverse();
+    assert.strictEqual(last?.reason, `Undo Remove ${LOGGER}`);
+  });
+
+  it('should undo several updates in order and drop redo on a new edit', () => {
+    repo.insert(logger);
+    stack.record('Describe', () => repo.update(LOGGER, { ...logger, description: 'First' }));
+    stack.record('Redescribe', () => repo.update(LOGGER, { ...logger, description: 'Second' }));
+
+    stack.undo();
+    assert.strictEqual(repo.find(LOGGER)?.description, 'First');
+    stack.undo();
+    assert.strictEqual(repo.find(LOGGER)?.description, 'Test component');
+    assert.strictEqual(stack.undo(), undefined);
+
+    stack.redo();
+    assert.deepStrictEqual(
+      stack.getState().redo.map((c) => c.label),
+      ['Redescribe']
+    );
+    stack.record('Tag', () => repo.update(LOGGER, { ...logger, tags: ['io'] }));
+    assert.deepStrictEqual(stack.getState().redo, []);
+    assert.deepStrictEqual(
+      stack.getState().undo.map((c) => c.label),
+      ['Tag', 'Describe']
+    );
+  });
+
+  it('should refuse to undo over an untracked change and clear the stacks', () => {
+    repo.insert(logger);
+    stack.record('Describe', () => repo.update(LOGGER, { ...logger, description: 'First' }));
+    stack.record('Redescribe', () => repo.update(LOGGER, { ...logger, description: 'Second' }));
+    const statusInfo = { updatedAt: new Date(), source: 'coverage' as const, testedBy: ['lcov.info'] };
+    repo.update(LOGGER, { ...repo.find(LOGGER)!, status: 'tested', statusInfo });
+
+    assert.throws(() => stack.undo(), /Cannot undo 'Redescribe': core\/Logger@1\.0\.0 changed since/);
+
+    const current = repo.find(LOGGER);
+    assert.strictEqual(current?.description, 'Second');
+    assert.strictEqual(current?.status, 'tested');
+    assert.deepStrictEqual(current?.statusInfo?.testedBy, ['lcov.info']);
+    assert.deepStrictEqual(stack.getState(), { undo: [], redo: [] });
+  });
+
+  it('should refuse to redo over a change made after the undo', () => {
+    stack.record('Register Logger', () => repo.insert(logger));
+    stack.undo();
+    repo.insert({ ...logger, description: 'Registered again' });
+
+    assert.throws(() => stack.redo(), /Cannot redo 'Register Logger'/);
+    assert.strictEqual(repo.find(LOGGER)?.description, 'Registered again');
+    assert.deepStrictEqual(stack.getState().redo, []);
+  });
+
+  it('should keep a bounded number of commands', () => {
+    repo.insert(logger);
+    for (let i = 0; i <= MAX_UNDO_COMMANDS; i++) {
+      stack.record(`Edit ${i}`, () => repo.update(LOGGER, { ...logger, description: `v${i}` }));
+    }
+
+    const { undo } = stack.getState();
+    assert.strictEqual(undo.length, MAX_UNDO_COMMANDS);
+    assert.strictEqual(undo[undo.length - 1]?.label, 'Edit 1');
+  });
+});
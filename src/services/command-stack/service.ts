@@ -0,0 +1,225 @@
+/**
+ * Command Stack Service
+ *
+ * Undo/redo for registry edits. Rather than every edit describing its own
+ * inverse, a command remembers the revisions the symbol repository wrote
+ * while it ran: undo puts each symbol back in its state before the first of
+ * them, redo in its state after the last. Removing a symbol, which also
+ * clears `extends` on its subclasses, is undone as a whole.
+ *
+ * Both only apply while the symbols are still in the state the command left
+ * them in (or, for redo, found them in). If something else changed them in
+ * between, applying the stored states would silently discard that change,
+ * so the command is refused and the stacks are cleared.
+ */
+
+import type {
+  ComponentSymbol,
+  SymbolHistoryRepository,
+  SymbolRepository,
+} from '../../domain/symbol/index.js';
+import { orderByExtends } from '../../domain/symbol/index.js';
+import {
+  MAX_UNDO_COMMANDS,
+  type CommandStackService as ICommandStackService,
+  type CommandStackState,
+  type CommandSummary,
+  type SymbolCommand,
+} from './schema.js';
+
+/** State each symbol is set to; undefined means it must not exist */
+type SymbolStates = Map<string, ComponentSymbol | undefined>;
+
+// =============================================================================
+// Service Class
+// =============================================================================
+
+export class CommandStackService implements ICommandStackService {
+  private readonly repo: SymbolRepository;
+  private readonly history: SymbolHistoryRepository;
+  private undoStack: SymbolCommand[] = [];
+  private redoStack: SymbolCommand[] = [];
+  private nextId = 1;
+
+  constructor(repo: SymbolRepository, history: SymbolHistoryRepository) {
+    this.repo = repo;
+    this.history = history;
+  }
+
+  /**
+   * Run an edit and record it for undo. Edits that write nothing (including
+   * ones that fail before writing) are not recorded. Recording an edit
+   * discards what could have been redone.
+   */
+  record<T>(label: string, fn: () => T): T {
+    const start = this.history.latestRevision();
+    const result = fn();
+    const revisions = this.history.listAfter(start);
+
+    if (revisions.length > 0) {
+      this.undoStack.push({ id: this.nextId++, label, executedAt: new Date(), revisions });
+      if (this.undoStack.length > MAX_UNDO_COMMANDS) {
+        this.undoStack.shift();
+      }
+      this.redoStack = [];
+    }
+    return result;
+  }
+
+  /**
+   * Revert the most recent command.
+   *
+   * @returns The reverted command, or undefined if there is nothing to undo
+   * @throws Error if its symbols changed since; the stacks are cleared
+   */
+  undo(): CommandSummary | undefined {
+    const command = this.undoStack.pop();
+    if (!command) {
+      return undefined;
+    }
+
+    this.assertUnchanged(statesAfter(command), `undo '${command.label}'`);
+    try {
+      this.apply(statesBefore(command), `Undo ${command.label}`);
+    } catch (error) {
+      this.undoStack.push(command);
+      throw error;
+    }
+    this.redoStack.push(command);
+    return summarize(command);
+  }
+
+  /**
+   * Apply the most recently undone command again.
+   *
+   * @returns The re-applied command, or undefined if there is nothing to redo
+   * @throws Error if its symbols changed since it was undone; the stacks are cleared
+   */
+  redo(): CommandSummary | undefined {
+    const command = this.redoStack.pop();
+    if (!command) {
+      return undefined;
+    }
+
+    this.assertUnchanged(statesBefore(command), `redo '${command.label}'`);
+    try {
+      this.apply(statesAfter(command), `Redo ${command.label}`);
+    } catch (error) {
+      this.redoStack.push(command);
+      throw error;
+    }
+    this.undoStack.push(command);
+    return summarize(command);
+  }
+
+  /**
+   * List the commands that can be undone and redone, next first.
+   */
+  getState(): CommandStackState {
+    return {
+      undo: [...this.undoStack].reverse().map(summarize),
+      redo: [...this.redoStack].reverse().map(summarize),
+    };
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+
+  // ===========================================================================
+  // Internal Helpers
+  // ===========================================================================
+
+  /**
+   * Refuse a command whose symbols are no longer in the expected states.
+   * Older commands build on the same states, so none of them can be applied
+   * either and both stacks are cleared.
+   */
+  private assertUnchanged(expected: SymbolStates, action: string): void {
+    const changed = [...expected]
+      .filter(([id, state]) => !isSameState(this.repo.find(id), state))
+      .map(([id]) => id);
+
+    if (changed.length > 0) {
+      this.clear();
+      throw new Error(
+        `Cannot ${action}: ${changed.join(', ')} changed since. The edit history was cleared.`
+      );
+    }
+  }
+
+  /**
+   * Set symbols to the given states in one transaction. Symbols are created
+   * base classes first and deleted last, so `extends` always points at an
+   * existing symbol.
+   */
+  private apply(states: SymbolStates, reason: string): void {
+    this.repo.withAttribution({ reason }, () => {
+      const creates: ComponentSymbol[] = [];
+      const updates: ComponentSymbol[] = [];
+      const deletes: string[] = [];
+
+      for (const [id, state] of states) {
+        const exists = this.repo.find(id) !== undefined;
+        if (!state) {
+          if (exists) deletes.push(id);
+        } else if (exists) {
+          updates.push(state);
+        } else {
+          creates.push(state);
+        }
+      }
+
+      for (const symbol of orderByExtends(creates, (s) => s)) {
+        this.repo.insert(symbol);
+      }
+      for (const symbol of updates) {
+        this.repo.update(symbol.id, symbol);
+      }
+      for (const id of deletes) {
+        this.repo.delete(id);
+      }
+    });
+  }
+}
+
+/**
+ * Each symbol's state before the first revision of a command.
+ */
+function statesBefore(command: SymbolCommand): SymbolStates {
+  const states: SymbolStates = new Map();
+  for (const revision of command.revisions) {
+    if (!states.has(revision.symbolId)) {
+      states.set(revision.symbolId, revision.before);
+    }
+  }
+  return states;
+}
+
+/**
+ * Each symbol's state after the last revision of a command.
+ */
+function statesAfter(command: SymbolCommand): SymbolStates {
+  const states: SymbolStates = new Map();
+  for (const revision of command.revisions) {
+    states.set(revision.symbolId, revision.after);
+  }
+  return states;
+}
+
+function isSameState(
+  current: ComponentSymbol | undefined,
+  expected: ComponentSymbol | undefined
+): boolean {
+  return JSON.stringify(current ?? null) === JSON.stringify(expected ?? null);
+}
+
+function summarize(command: SymbolCommand): CommandSummary {
+  return {
+    id: command.id,
+    label: command.label,
+    executedAt: command.executedAt,
+    symbolIds: [...new Set(command.revisions.map((r) => r.symbolId))],
+  };
+}
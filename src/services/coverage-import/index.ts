@@ -0,0 +1,12 @@
+/**
+ * Coverage Import Service
+ *
+ * Ingests Istanbul, lcov and Node test runner coverage reports and marks
+ * covered symbols as `tested` (ADR-005).
+ */
+
+// Service (primary API)
+export { CoverageImportService } from './service.js';
+
+// Commonly used types
+export type { CoverageImportOptions, CoverageImportResult } from './schema.js';
@@ -0,0 +1,52 @@
+/**
+ * Coverage Import Schema
+ *
+ * Types for ingesting test coverage reports into symbol status (ADR-005).
+ */
+
+import type { CoverageFormat } from '../../infrastructure/coverage-report/index.js';
+
+// =============================================================================
+// Service Interface
+// =============================================================================
+
+/**
+ * Coverage import service public API contract.
+ *
+ * Matches covered lines and functions to symbol source locations and marks
+ * covered symbols as `tested`.
+ */
+export interface CoverageImportService {
+  importReport(content: string, options: CoverageImportOptions): CoverageImportResult;
+  importFile(reportPath: string, options: CoverageImportOptions): CoverageImportResult;
+}
+
+// =============================================================================
+// Options and Result
+// =============================================================================
+
+export interface CoverageImportOptions {
+  /** Directory that relative report paths and source locations resolve against */
+  projectRoot: string;
+  /** Report format (default: detected from the content) */
+  format?: CoverageFormat;
+  /** Entry recorded in `testedBy` (default: the report path, or 'coverage') */
+  label?: string;
+  /** Report the matches without updating the symbol table (default: false) */
+  dryRun?: boolean;
+}
+
+/**
+ * Result of importing a coverage report.
+ */
+export interface CoverageImportResult {
+  format: CoverageFormat;
+  /** Number of source files in the report */
+  filesInReport: number;
+  /** Symbols with covered code */
+  tested: string[];
+  /** Symbols in a reported file whose code was never run */
+  untested: string[];
+  /** Symbols with a source location whose file is not in the report */
+  missing: string[];
+}
@@ -0,0 +1,254 @@
+/**
+ * Coverage Import Service Tests
+ *
+ * Integration tests ingesting coverage reports into an in-memory symbol table.
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  initMemoryDatabase,
+  closeDatabase,
+} from '../../repositories/persistence.js';
+import { SqliteSymbolRepository } from '../../repositories/symbol-repository.js';
+import { createSymbol } from '../../testing/fixtures.js';
+import type { ComponentSymbol, SymbolRepository } from '../../domain/symbol/index.js';
+import { CoverageImportService } from './service.js';
+
+const ROOT = '/project';
+const AUTH = 'auth/AuthService@1.0.0';
+const SESSION = 'auth/Session@1.0.0';
+const LOGGER = 'core/Logger@1.0.0';
+const CONFIG = 'core/Config@1.0.0';
+
+// AuthService.login ran; Session.refresh did not; Logger's file is not in the report
+const LCOV = [
+  'TN:',
+  'SF:src/auth.ts',
+  'FN:3,login',
+  'FN:12,refresh',
+  'FNDA:4,login',
+  'FNDA:0,refresh',
+  'DA:3,4',
+  'DA:12,0',
+  'end_of_record',
+].join('\n');
+
+function located(id: string, filePath: string, lines: [number, number]): ComponentSymbol {
+  const [namespace, rest] = id.split('/');
+  return createSymbol({
+    id,
+    name: rest!.split('@')[0]!,
+    namespace: namespace!,
+    sourceLocation: { filePath, startLine: lines[0], endLine: lines[1], contentHash: 'hash' },
+  });
+}
+
+describe('CoverageImportService', () => {
+  let repo: SymbolRepository;
+  let service: CoverageImportService;
+
+  beforeEach(() => {
+    const db = initMemoryDatabase();
+    repo = new SqliteSymbolRepository(db);
+    service = new CoverageImportService(repo);
+
+    repo.insert(located(AUTH, 'src/auth.ts', [1, 8]));
+    repo.insert(located(SESSION, '/project/src/auth.ts', [10, 15]));
+    repo.insert(located(LOGGER, 'src/logger.ts', [1, 5]));
+    repo.insert(createSymbol({ id: CONFIG, name: 'Config', namespace: 'core' }));
+  });
+
+  afterEach(() => {
+    closeDatabase();
+  });
+
+  it('should match covered functions to source locations', () => {
+    const result = service.importReport(LCOV, { projectRoot: ROOT, label: 'lcov.info' });
+
+    assert.strictEqual(result.format, 'lcov');
+    assert.strictEqual(result.filesInReport, 1);
+    assert.deepStrictEqual(result.tested, [AUTH]);
+    assert.deepStrictEqual(result.untested, [SESSION]);
+    assert.deepStrictEqual(result.missing, [LOGGER]);
+
+    const auth = repo.find(AUTH);
+    assert.strictEqual(auth?.status, 'tested');
+    assert.strictEqual(auth?.statusInfo?.source, 'coverage');
+    assert.deepStrictEqual(auth?.statusInfo?.testedBy, ['lcov.info']);
+    assert.strictEqual(repo.find(SESSION)?.status, 'declared');
+  });
+
+  it('should fall back to line hits without function data', () => {
+    const report = JSON.stringify({
+      '/project/src/auth.ts': {
+        path: '/project/src/auth.ts',
+        statementMap: { '0': { start: { line: 11 }, end: { line: 11 } } },
+        s: { '0': 1 },
+      },
+    });
+
+    const result = service.importReport(report, { projectRoot: ROOT });
+
+    assert.strictEqual(result.format, 'istanbul');
+    assert.deepStrictEqual(result.tested, [SESSION]);
+    // No statements in AuthService's range: neither tested nor untested
+    assert.deepStrictEqual(result.untested, []);
+    assert.deepStrictEqual(repo.find(SESSION)?.statusInfo?.testedBy, ['coverage']);
+  });
+
+  describe('Node text reports', () => {
+    const GREETER = 'core/Greeter@1.0.0';
+    const GREETER_SOURCE = [
+      'export class Greeter {',
+      '  greet(): string {',
+      "    const greeting = 'hello';",
+      '    return greeting;',
+      '  }',
+      '',
+      '  farewell(): string {',
+      "    return 'bye';",
+      '  }',
+      '}',
+    ].join('\n');
+    let tempDir: string;
+
+    const nodeReport = (uncovered: string): string =>
+      [
+        '# start of coverage report',
+        '# file            | line % | branch % | funcs % | uncovered lines',
+        `# src/greeter.ts |  50.00 |   100.00 |    0.00 | ${uncovered}`,
+        '# end of coverage report',
+      ].join('\n');
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'coverage-import-test-'));
+      fs.mkdirSync(path.join(tempDir, 'src'));
+      fs.writeFileSync(path.join(tempDir, 'src', 'greeter.ts'), GREETER_SOURCE);
+      repo.insert(located(GREETER, 'src/greeter.ts', [1, 10]));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should count statement lines missing from the report as covered', () => {
+      const result = service.importReport(nodeReport('8'), { projectRoot: tempDir });
+
+      assert.strictEqual(result.format, 'node');
+      assert.deepStrictEqual(result.tested, [GREETER]);
+    });
+
+    it('should not count signatures and braces of a fully uncovered body', () => {
+      const result = service.importReport(nodeReport('3-4 8'), { projectRoot: tempDir });
+
+      assert.deepStrictEqual(result.tested, []);
+      assert.deepStrictEqual(result.untested, [GREETER]);
+      assert.strictEqual(repo.find(GREETER)?.status, 'declared');
+    });
+
+    it('should count control flow headers as statements', () => {
+      const source = [
+        'export class Greeter {',
+        '  greet(name?: string): string {',
+        '    if (name) {',
+        '      return name;',
+        '    }',
+        "    return 'hello';",
+        '  }',
+        '}',
+      ].join('\n');
+      fs.writeFileSync(path.join(tempDir, 'src', 'greeter.ts'), source);
+
+      assert.deepStrictEqual(
+        service.importReport(nodeReport('4 6'), { projectRoot: tempDir, dryRun: true }).tested,
+        [GREETER]
+      );
+      assert.deepStrictEqual(
+        service.importReport(nodeReport('3-4 6'), { projectRoot: tempDir, dryRun: true }).untested,
+        [GREETER]
+      );
+    });
+
+    it('should be inconclusive without the source', () => {
+      fs.rmSync(path.join(tempDir, 'src', 'greeter.ts'));
+
+      const result = service.importReport(nodeReport('8'), { projectRoot: tempDir });
+
+      assert.deepStrictEqual(result.tested, []);
+      assert.deepStrictEqual(result.untested, []);
+    });
+  });
+
+  it('should demote symbols that coverage no longer reaches', () => {
+    service.importReport(LCOV, { projectRoot: ROOT, label: 'lcov.info' });
+    service.importReport(LCOV.replace('FNDA:4,login', 'FNDA:0,login'), {
+      projectRoot: ROOT,
+      label: 'lcov.info',
+    });
+
+    const auth = repo.find(AUTH);
+    assert.strictEqual(auth?.status, 'declared');
+    assert.deepStrictEqual(auth?.statusInfo?.testedBy, []);
+  });
+
+  it('should keep the executed status', () => {
+    const auth = repo.find(AUTH)!;
+    repo.update(AUTH, {
+      ...auth,
+      status: 'executed',
+      statusInfo: { updatedAt: new Date(), source: 'runtime' },
+    });
+
+    service.importReport(LCOV, { projectRoot: ROOT, label: 'lcov.info' });
+
+    assert.strictEqual(repo.find(AUTH)?.status, 'executed');
+    assert.strictEqual(repo.find(AUTH)?.statusInfo?.source, 'runtime');
+    assert.deepStrictEqual(repo.find(AUTH)?.statusInfo?.testedBy, ['lcov.info']);
+  });
+
+  it('should apply all updates in one transaction', () => {
+    const twoCovered = LCOV.replace('FNDA:0,refresh', 'FNDA:1,refresh');
+    const update = repo.update.bind(repo);
+    let calls = 0;
+    repo.update = (id, symbol) => {
+      if (++calls === 2) throw new Error('disk full');
+      update(id, symbol);
+    };
+
+    assert.throws(() => service.importReport(twoCovered, { projectRoot: ROOT }), /disk full/);
+    repo.update = update;
+
+    assert.strictEqual(repo.find(AUTH)?.status, 'declared');
+    assert.strictEqual(repo.find(SESSION)?.status, 'declared');
+  });
+
+  it('should not update symbols on a dry run', () => {
+    const result = service.importReport(LCOV, { projectRoot: ROOT, dryRun: true });
+
+    assert.deepStrictEqual(result.tested, [AUTH]);
+    assert.strictEqual(repo.find(AUTH)?.status, 'declared');
+  });
+
+  it('should import a report file and label entries with its path', () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'coverage-import-test-'));
+    try {
+      fs.mkdirSync(path.join(tempDir, 'coverage'));
+      fs.writeFileSync(path.join(tempDir, 'coverage', 'lcov.info'), LCOV);
+      const auth = repo.find(AUTH)!;
+      repo.update(AUTH, {
+        ...auth,
+        sourceLocation: { ...auth.sourceLocation!, filePath: path.join(tempDir, 'src/auth.ts') },
+      });
+
+      service.importFile('coverage/lcov.info', { projectRoot: tempDir });
+
+      assert.deepStrictEqual(repo.find(AUTH)?.statusInfo?.testedBy, ['coverage/lcov.info']);
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * Coverage Import Service
+ *
+ * Ingests a test coverage report into the symbol table (ADR-005). Each
+ * symbol's source location is matched against the report: a symbol is
+ * covered when one of its functions ran, or, for reports without function
+ * data, when one of its lines ran. Node's text report only lists uncovered
+ * lines, so there the symbol's source decides which lines hold statements.
+ * Covered symbols become `tested` and get the report in `testedBy`; all
+ * updates are written in one transaction.
+ */
+
+import * as path from 'path';
+import type {
+  ComponentSymbol,
+  StatusInfo,
+  SymbolRepository,
+  SymbolStatus,
+} from '../../domain/symbol/index.js';
+import {
+  detectCoverageFormat,
+  parseCoverageReport,
+  type FileCoverage,
+} from '../../infrastructure/coverage-report/index.js';
+import { fileExists, readFile } from '../../infrastructure/file-system/index.js';
+import type {
+  CoverageImportService as ICoverageImportService,
+  CoverageImportOptions,
+  CoverageImportResult,
+} from './schema.js';
+
+// =============================================================================
+// Service Class
+// =============================================================================
+
+export class CoverageImportService implements ICoverageImportService {
+  private readonly repo: SymbolRepository;
+
+  constructor(repo: SymbolRepository) {
+    this.repo = repo;
+  }
+
+  /**
+   * Import a coverage report file. Its path is the default `testedBy` entry.
+   */
+  importFile(reportPath: string, options: CoverageImportOptions): CoverageImportResult {
+    const content = readFile(path.resolve(options.projectRoot, reportPath));
+    return this.importReport(content, { ...options, label: options.label ?? reportPath });
+  }
+
+  /**
+   * Import coverage report content.
+   *
+   * Only statuses this import owns change: covered symbols are promoted to
+   * `tested` (an `executed` status is kept), and symbols no longer covered
+   * are demoted only if coverage was what made them `tested`.
+   *
+   * @throws Error if the report cannot be parsed
+   */
+  importReport(content: string, options: CoverageImportOptions): CoverageImportResult {
+    const format = options.format ?? detectCoverageFormat(content);
+    const files = parseCoverageReport(content, format);
+    const resolve = (filePath: string): string => path.resolve(options.projectRoot, filePath);
+    const byPath = new Map(files.map((file) => [resolve(file.filePath), file]));
+
+    const label = options.label ?? 'coverage';
+    const now = new Date();
+    const result: CoverageImportResult = {
+      format,
+      filesInReport: files.length,
+      tested: [],
+      untested: [],
+      missing: [],
+    };
+    const updates: ComponentSymbol[] = [];
+    const sources = new Map<string, string[] | undefined>();
+    const readSource = (filePath: string): string[] | undefined => {
+      if (!sources.has(filePath)) {
+        sources.set(filePath, fileExists(filePath) ? readFile(filePath).split(/\r?\n/) : undefined);
+      }
+      return sources.get(filePath);
+    };
+
+    for (const symbol of this.repo.list()) {
+      const location = symbol.sourceLocation;
+      if (!location) continue;
+
+      const filePath = resolve(location.filePath);
+      const file = byPath.get(filePath);
+      if (!file) {
+        result.missing.push(symbol.id);
+        continue;
+      }
+
+      const source = file.uncoveredOnly ? readSource(filePath) : undefined;
+      const covered = isCovered(file, location.startLine, location.endLine, source);
+      if (covered === undefined) continue;
+
+      (covered ? result.tested : result.untested).push(symbol.id);
+      const updated = applyCoverage(symbol, covered, label, now);
+      if (updated) updates.push(updated);
+    }
+
+    if (!options.dryRun) {
+      this.repo.transaction(() => {
+        for (const symbol of updates) {
+          this.repo.update(symbol.id, symbol);
+        }
+      });
+    }
+
+    return result;
+  }
+}
+
+// =============================================================================
+// Module Helpers
+// =============================================================================
+
+/**
+ * Whether any code in a line range ran, or undefined if the report has no
+ * executable code there (e.g., an interface).
+ */
+function isCovered(
+  file: FileCoverage,
+  startLine: number,
+  endLine: number,
+  source: string[] | undefined
+): boolean | undefined {
+  const inRange = (line: number): boolean => line >= startLine && line <= endLine;
+
+  const functions = file.functions.filter((fn) => inRange(fn.line));
+  if (functions.length > 0) {
+    return functions.some((fn) => fn.hits > 0);
+  }
+
+  if (file.uncoveredOnly) {
+    return isBodyCovered(file.lines, startLine, endLine, source);
+  }
+
+  const hits = Array.from(file.lines).filter(([line]) => inRange(line));
+  if (hits.length === 0) return undefined;
+  return hits.some(([, count]) => count > 0);
+}
+
+/**
+ * Coverage from a report that only lists uncovered lines. A line missing
+ * from it may have run, or may be a signature, brace or blank line, so only
+ * statement lines of the body count: the symbol is covered if one of them
+ * is not listed and not covered if all are. Without the source no line can
+ * be confirmed as run, and the result is inconclusive.
+ */
+function isBodyCovered(
+  uncovered: Map<number, number>,
+  startLine: number,
+  endLine: number,
+  source: string[] | undefined
+): boolean | undefined {
+  const body: number[] = [];
+  // Exclude the declaration line and the closing brace
+  for (let line = startLine + 1; line < endLine; line++) body.push(line);
+  if (startLine === endLine) body.push(startLine);
+
+  const statements = source ? body.filter((line) => isStatementLine(source[line - 1] ?? '')) : body;
+  if (statements.length === 0) return undefined;
+  if (statements.every((line) => uncovered.has(line))) return false;
+  return source ? true : undefined;
+}
+
+/** Lines opening a control flow block, e.g. `if (x) {` or `} else {` */
+const CONTROL_FLOW_HEADER = /^(\}\s*)?(if|else|for|while|do|switch|try|catch|finally)\b/;
+
+/** Lines opening a declaration: functions, classes, methods, or the end of a multi-line signature */
+const DECLARATION_HEADER =
+  /^((export|default|declare|abstract|async|static|public|private|protected|readonly|override|get|set)\s+)*(function\b|class\b|interface\b|namespace\b|enum\b|constructor\b|[\w$]*\s*(<.*>)?\s*\(.*\)\s*(:[^=]*)?\{$|\)\s*(:[^=]*)?\{$)/;
+
+/**
+ * Whether a source line holds a statement. Blank lines, comments, lone
+ * brackets and lines opening a declaration do not; control flow headers
+ * and other lines opening a block (e.g. `const user = {`) do.
+ */
+function isStatementLine(text: string): boolean {
+  const line = text.trim();
+  if (line === '' || /^(\/\/|\/\*|\*)/.test(line)) return false;
+  if (/^[{}()[\];,]+$/.test(line)) return false;
+  if (!line.endsWith('{') || CONTROL_FLOW_HEADER.test(line)) return true;
+  return !DECLARATION_HEADER.test(line);
+}
+
+/**
+ * Apply a coverage result to a symbol, or return null if nothing changes.
+ */
+function applyCoverage(
+  symbol: ComponentSymbol,
+  covered: boolean,
+  label: string,
+  now: Date
+): ComponentSymbol | null {
+  const info = symbol.statusInfo;
+  const testedBy = info?.testedBy ?? [];
+
+  if (covered) {
+    if (symbol.status === 'executed') {
+      if (testedBy.includes(label)) return null;
+      const source = info?.source ?? 'runtime';
+      return {
+        ...symbol,
+        statusInfo: { ...info, source, updatedAt: now, testedBy: [...testedBy, label] },
+      };
+    }
+    return {
+      ...symbol,
+      status: 'tested',
+      statusInfo: {
+        ...info,
+        updatedAt: now,
+        source: 'coverage',
+        testedBy: testedBy.includes(label) ? testedBy : [...testedBy, label],
+      },
+    };
+  }
+
+  if (!info || !testedBy.includes(label)) return null;
+
+  const remaining = testedBy.filter((entry) => entry !== label);
+  const statusInfo: StatusInfo = { ...info, updatedAt: now, testedBy: remaining };
+  if (symbol.status !== 'tested' || info.source !== 'coverage' || remaining.length > 0) {
+    return { ...symbol, statusInfo };
+  }
+
+  const status: SymbolStatus = info.referencedBy?.length ? 'referenced' : 'declared';
+  return { ...symbol, status, statusInfo };
+}
@@ -0,0 +1,18 @@
+/**
+ * Dead Code Service
+ *
+ * Ranks symbols unreachable from entry points as dead code candidates and
+ * removes them in an order that never leaves a dangling reference (ADR-005).
+ */
+
+// Service (primary API)
+export { DeadCodeService } from './service.js';
+
+// Commonly used types
+export type {
+  DeadCodeCandidate,
+  DeadCodeConfidence,
+  DeadCodeOptions,
+  DeadCodeRemovalResult,
+  DeadCodeReport,
+} from './schema.js';
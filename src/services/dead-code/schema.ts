@@ -0,0 +1,84 @@
+/**
+ * Dead Code Schema
+ *
+ * Types for ranking dead code candidates and removing them safely (ADR-005).
+ */
+
+import type { AbstractionLevel, SymbolStatus } from '../../domain/symbol/index.js';
+
+// =============================================================================
+// Service Interface
+// =============================================================================
+
+/**
+ * Dead code service public API contract.
+ */
+export interface DeadCodeService {
+  analyze(options?: DeadCodeOptions): DeadCodeReport;
+  remove(symbolIds: string[]): DeadCodeRemovalResult;
+}
+
+// =============================================================================
+// Options
+// =============================================================================
+
+export interface DeadCodeOptions {
+  /** Tags that mark a symbol as an entry point (default: ['entry']) */
+  entryTags?: string[];
+}
+
+export const DEFAULT_ENTRY_TAGS = ['entry'];
+
+// =============================================================================
+// Report
+// =============================================================================
+
+/**
+ * How sure the report is that a candidate is dead.
+ *
+ * - high: no references, tests or executions at all
+ * - medium: only referenced by tests or by other dead symbols
+ * - low: referenced from files outside the symbol table, whose liveness is unknown
+ */
+export type DeadCodeConfidence = 'high' | 'medium' | 'low';
+
+/**
+ * A symbol that is not reachable from any entry point.
+ */
+export interface DeadCodeCandidate {
+  symbolId: string;
+  name: string;
+  namespace: string;
+  level: AbstractionLevel;
+  status: SymbolStatus;
+  confidence: DeadCodeConfidence;
+  /** Why the symbol is considered dead, and what argues against it */
+  reasons: string[];
+  referencedBy: string[];
+  testedBy: string[];
+}
+
+/**
+ * Dead code candidates and a safe order to remove them in.
+ */
+export interface DeadCodeReport {
+  /** Tagged roots, L4 contracts and traced symbols that liveness starts from */
+  entryPoints: string[];
+  /** Candidates ranked by confidence, then by how little references them */
+  candidates: DeadCodeCandidate[];
+  /**
+   * Candidate IDs ordered so each symbol is removed before anything it
+   * points at; no remaining symbol ever references a removed one.
+   */
+  removalOrder: string[];
+  /** Candidate cycles, which can only be removed together */
+  cycles: string[][];
+}
+
+/**
+ * Result of removing dead code candidates.
+ */
+export interface DeadCodeRemovalResult {
+  /** Removed symbol IDs, in removal order */
+  removed: string[];
+}
@@ -0,0 +1,154 @@
+/**
+ * Dead Code Service Tests
+ *
+ * Integration tests ranking and removing dead code in an in-memory symbol table.
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import {
+  initMemoryDatabase,
+  closeDatabase,
+} from '../../repositories/persistence.js';
+import { SqliteSymbolRepository } from '../../repositories/symbol-repository.js';
+import { createSymbol, createDependency } from '../../testing/fixtures.js';
+import type { ComponentSymbol, SymbolRepository } from '../../domain/symbol/index.js';
+import { DeadCodeService } from './service.js';
+
+const APP = 'app/Main@1.0.0';
+const AUTH = 'auth/AuthService@1.0.0';
+const LOGGER = 'core/Logger@1.0.0';
+const OLD_AUTH = 'legacy/OldAuth@1.0.0';
+const LEGACY_UTIL = 'legacy/Util@1.0.0';
+const ORPHAN = 'util/Orphan@1.0.0';
+const SCRIPT = 'util/Script@1.0.0';
+
+function symbol(id: string, overrides: Partial<ComponentSymbol> = {}): ComponentSymbol {
+  const [namespace, rest] = id.split('/');
+  return createSymbol({ id, name: rest!.split('@')[0]!, namespace: namespace!, ...overrides });
+}
+
+function dependsOn(...symbolIds: string[]): Partial<ComponentSymbol> {
+  return {
+    dependencies: symbolIds.map((symbolId, i) =>
+      createDependency({ symbolId, name: `dep${i}`, kind: 'constructor' })
+    ),
+  };
+}
+
+function usage(referencedBy: string[], testedBy: string[] = []): Partial<ComponentSymbol> {
+  return { statusInfo: { updatedAt: new Date(), source: 'static', referencedBy, testedBy } };
+}
+
+describe('DeadCodeService', () => {
+  let repo: SymbolRepository;
+  let service: DeadCodeService;
+
+  beforeEach(() => {
+    const db = initMemoryDatabase();
+    repo = new SqliteSymbolRepository(db);
+    service = new DeadCodeService(repo);
+
+    // Main → AuthService → Logger is live; the legacy pair and the utilities are not
+    repo.insert(symbol(APP, { tags: ['entry'], ...dependsOn(AUTH) }));
+    repo.insert(symbol(AUTH, dependsOn('core/Logger@^1.0.0')));
+    repo.insert(symbol(LOGGER));
+    repo.insert(symbol(OLD_AUTH, { ...dependsOn(LEGACY_UTIL, LOGGER), ...usage([], ['old.test.ts']) }));
+    repo.insert(symbol(LEGACY_UTIL, usage([OLD_AUTH])));
+    repo.insert(symbol(ORPHAN));
+    repo.insert(symbol(SCRIPT, usage(['scripts/run.ts'])));
+  });
+
+  afterEach(() => {
+    closeDatabase();
+  });
+
+  describe('analyze', () => {
+    it('should rank unreachable symbols by confidence', () => {
+      const report = service.analyze();
+
+      assert.deepStrictEqual(report.entryPoints, [APP]);
+      assert.deepStrictEqual(
+        report.candidates.map((c) => [c.symbolId, c.confidence]),
+        [
+          [ORPHAN, 'high'],
+          [OLD_AUTH, 'medium'],
+          [LEGACY_UTIL, 'medium'],
+          [SCRIPT, 'low'],
+        ]
+      );
+      assert.deepStrictEqual(report.candidates[2]?.reasons, [
+        'Not reachable from any entry point',
+        `Referenced by dead symbols: ${OLD_AUTH}`,
+      ]);
+    });
+
+    it('should start from L4 contracts, traced symbols and custom entry tags', () => {
+      repo.insert(symbol('api/Contract@1.0.0', { level: 'L4', kind: 'contract', ...dependsOn(ORPHAN) }));
+      repo.update(SCRIPT, {
+        ...repo.find(SCRIPT)!,
+        status: 'executed',
+        statusInfo: {
+          updatedAt: new Date(),
+          source: 'runtime',
+          executionInfo: { firstSeen: new Date(), lastSeen: new Date(), count: 1, contexts: ['test'] },
+        },
+      });
+      repo.update(OLD_AUTH, { ...repo.find(OLD_AUTH)!, tags: ['cli'] });
+
+      const report = service.analyze({ entryTags: ['cli'] });
+
+      assert.deepStrictEqual(report.entryPoints.sort(), ['api/Contract@1.0.0', OLD_AUTH, SCRIPT]);
+      assert.deepStrictEqual(report.candidates.map((c) => c.symbolId).sort(), [APP, AUTH]);
+    });
+
+    it('should keep symbols referenced by live code alive', () => {
+      repo.update(ORPHAN, { ...repo.find(ORPHAN)!, ...usage([AUTH]) });
+
+      const report = service.analyze();
+
+      assert.ok(!report.candidates.some((c) => c.symbolId === ORPHAN));
+    });
+
+    it('should order removal so nothing points at a removed symbol', () => {
+      const { removalOrder, cycles } = service.analyze();
+
+      assert.strictEqual(removalOrder.length, 4);
+      assert.ok(removalOrder.indexOf(OLD_AUTH) < removalOrder.indexOf(LEGACY_UTIL));
+      assert.deepStrictEqual(cycles, []);
+    });
+
+    it('should report cycles among candidates', () => {
+      repo.update(LEGACY_UTIL, { ...repo.find(LEGACY_UTIL)!, ...dependsOn(OLD_AUTH) });
+
+      const { removalOrder, cycles } = service.analyze();
+
+      assert.strictEqual(cycles.length, 1);
+      assert.deepStrictEqual([...cycles[0]!].sort(), [OLD_AUTH, LEGACY_UTIL]);
+      assert.strictEqual(removalOrder.length, 4);
+    });
+  });
+
+  describe('remove', () => {
+    it('should remove symbols in a safe order', () => {
+      const result = service.remove([LEGACY_UTIL, OLD_AUTH]);
+
+      assert.deepStrictEqual(result.removed, [OLD_AUTH, LEGACY_UTIL]);
+      assert.strictEqual(repo.find(OLD_AUTH), undefined);
+      assert.strictEqual(repo.find(LEGACY_UTIL), undefined);
+    });
+
+    it('should refuse to leave a remaining symbol pointing at a removed one', () => {
+      assert.throws(
+        () => service.remove([LEGACY_UTIL]),
+        new RegExp(`Cannot remove '${LEGACY_UTIL}': still referenced by '${OLD_AUTH}'`)
+      );
+      assert.throws(() => service.remove([LOGGER]), /still referenced by/);
+      assert.ok(repo.find(LEGACY_UTIL));
+    });
+
+    it('should reject unknown symbols', () => {
+      assert.throws(() => service.remove(['gone/Removed@1.0.0']), /not found/);
+    });
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * Dead Code Service
+ *
+ * Ranks dead code candidates and removes them safely (ADR-005).
+ *
+ * Liveness starts at entry points (symbols with an entry tag, L4 contracts
+ * and anything the runtime tracer saw execute) and spreads along
+ * relationships and static references. Everything it never reaches is a
+ * candidate; status, `referencedBy`, `testedBy` and `executionInfo` decide
+ * how confident the report is.
+ */
+
+import type {
+  ComponentSymbol,
+  SymbolRepository,
+  VersionLockRepository,
+} from '../../domain/symbol/index.js';
+import {
+  buildDependencyGraph,
+  detectCycles,
+  topologicalSort,
+} from '../dependency-graph/algorithms.js';
+import type { DependencyGraph, GraphEdge } from '../dependency-graph/schema.js';
+import { ReferenceResolver } from '../symbol-table/index.js';
+import {
+  DEFAULT_ENTRY_TAGS,
+  type DeadCodeService as IDeadCodeService,
+  type DeadCodeCandidate,
+  type DeadCodeConfidence,
+  type DeadCodeOptions,
+  type DeadCodeRemovalResult,
+  type DeadCodeReport,
+} from './schema.js';
+
+const CONFIDENCE_RANK: Record<DeadCodeConfidence, number> = { high: 0, medium: 1, low: 2 };
+
+// =============================================================================
+// Service Class
+// =============================================================================
+
+export class DeadCodeService implements IDeadCodeService {
+  private readonly repo: SymbolRepository;
+  private readonly resolver: ReferenceResolver;
+
+  /**
+   * @param repo - Symbol repository to analyze
+   * @param locks - Version locks, so range references resolve as they would at generate time
+   */
+  constructor(repo: SymbolRepository, locks?: VersionLockRepository) {
+    this.repo = repo;
+    this.resolver = new ReferenceResolver(repo, locks);
+  }
+
+  /**
+   * Find symbols no entry point reaches, ranked by confidence.
+   */
+  analyze(options: DeadCodeOptions = {}): DeadCodeReport {
+    const entryTags = options.entryTags ?? DEFAULT_ENTRY_TAGS;
+    const symbols = this.repo.list();
+    const edges = this.buildEdges(symbols);
+
+    const entryPoints = symbols
+      .filter(
+        (s) =>
+          s.level === 'L4' ||
+          s.statusInfo?.executionInfo !== undefined ||
+          s.tags.some((tag) => entryTags.includes(tag))
+      )
+      .map((s) => s.id);
+    const live = findReachable(entryPoints, edges);
+
+    const dead = symbols.filter((s) => !live.has(s.id));
+    const knownIds = new Set(symbols.map((s) => s.id));
+    const deadIds = new Set(dead.map((s) => s.id));
+    const usage = (c: DeadCodeCandidate): number => c.referencedBy.length + c.testedBy.length;
+    const candidates = dead
+      .map((symbol) => toCandidate(symbol, deadIds, knownIds))
+      .sort(
+        (a, b) =>
+          CONFIDENCE_RANK[a.confidence] - CONFIDENCE_RANK[b.confidence] ||
+          usage(a) - usage(b) ||
+          a.symbolId.localeCompare(b.symbolId)
+      );
+
+    const { removalOrder, cycles } = orderRemoval(dead, edges);
+    return { entryPoints, candidates, removalOrder, cycles };
+  }
+
+  /**
+   * Remove symbols in one transaction, each before anything it points at.
+   *
+   * @throws Error if a symbol does not exist, or a symbol that stays still
+   *   points at one being removed
+   */
+  remove(symbolIds: string[]): DeadCodeRemovalResult {
+    const symbols = this.repo.list();
+    const known = new Set(symbols.map((s) => s.id));
+    const removing = new Set(symbolIds);
+
+    for (const id of removing) {
+      if (!known.has(id)) {
+        throw new Error(`Symbol '${id}' not found`);
+      }
+    }
+
+    const edges = this.buildEdges(symbols);
+    for (const edge of edges) {
+      if (removing.has(edge.to) && !removing.has(edge.from)) {
+        throw new Error(`Cannot remove '${edge.to}': still referenced by '${edge.from}'`);
+      }
+    }
+
+    const { removalOrder } = orderRemoval(
+      symbols.filter((s) => removing.has(s.id)),
+      edges
+    );
+    this.repo.transaction(() => {
+      for (const id of removalOrder) {
+        this.repo.delete(id);
+      }
+    });
+
+    return { removed: removalOrder };
+  }
+
+  // ===========================================================================
+  // Internal Helpers
+  // ===========================================================================
+
+  /**
+   * Collect relationship edges and static references between registered
+   * symbols, with range references resolved to the symbol they select.
+   * A static reference is an edge from the referencing symbol.
+   */
+  private buildEdges(symbols: ComponentSymbol[]): GraphEdge[] {
+    const known = new Set(symbols.map((s) => s.id));
+    const edges: GraphEdge[] = [];
+
+    const graph = buildDependencyGraph(symbols);
+    for (const outgoing of graph.edges.values()) {
+      for (const edge of outgoing) {
+        const to = this.resolver.resolve(edge.to)?.id ?? edge.to;
+        if (known.has(to)) edges.push({ ...edge, to });
+      }
+    }
+
+    for (const symbol of symbols) {
+      for (const referrer of symbol.statusInfo?.referencedBy ?? []) {
+        if (known.has(referrer) && referrer !== symbol.id) {
+          edges.push({ from: referrer, to: symbol.id, type: 'dependency' });
+        }
+      }
+    }
+
+    return edges;
+  }
+}
+
+// =============================================================================
+// Module Helpers
+// =============================================================================
+
+/**
+ * Walk edges forward from the entry points.
+ */
+function findReachable(entryPoints: string[], edges: GraphEdge[]): Set<string> {
+  const outgoing = new Map<string, string[]>();
+  for (const edge of edges) {
+    const targets = outgoing.get(edge.from) ?? [];
+    targets.push(edge.to);
+    outgoing.set(edge.from, targets);
+  }
+
+  const reached = new Set(entryPoints);
+  const queue = [...entryPoints];
+  while (queue.length > 0) {
+    for (const next of outgoing.get(queue.shift()!) ?? []) {
+      if (!reached.has(next)) {
+        reached.add(next);
+        queue.push(next);
+      }
+    }
+  }
+  return reached;
+}
+
+/**
+ * Grade an unreachable symbol by the evidence that it is still in use.
+ */
+function toCandidate(
+  symbol: ComponentSymbol,
+  deadIds: Set<string>,
+  knownIds: Set<string>
+): DeadCodeCandidate {
+  const referencedBy = symbol.statusInfo?.referencedBy ?? [];
+  const testedBy = symbol.statusInfo?.testedBy ?? [];
+  const fileReferences = referencedBy.filter((ref) => !knownIds.has(ref));
+  const deadReferences = referencedBy.filter((ref) => deadIds.has(ref));
+
+  const reasons = ['Not reachable from any entry point'];
+  if (deadReferences.length > 0) {
+    reasons.push(`Referenced by dead symbols: ${deadReferences.join(', ')}`);
+  }
+  if (testedBy.length > 0) {
+    reasons.push(`Used by tests: ${testedBy.join(', ')}`);
+  }
+  if (fileReferences.length > 0) {
+    reasons.push(`Referenced from unregistered files: ${fileReferences.join(', ')}`);
+  }
+
+  let confidence: DeadCodeConfidence = 'high';
+  if (fileReferences.length > 0) {
+    confidence = 'low';
+  } else if (deadReferences.length > 0 || testedBy.length > 0) {
+    confidence = 'medium';
+  }
+
+  return {
+    symbolId: symbol.id,
+    name: symbol.name,
+    namespace: symbol.namespace,
+    level: symbol.level,
+    status: symbol.status,
+    confidence,
+    reasons,
+    referencedBy,
+    testedBy,
+  };
+}
+
+/**
+ * Order symbols for removal with a topological sort of the subgraph they
+ * form: each symbol precedes what it points at. Edges within a cycle are
+ * ignored for ordering, since a cycle can only be removed as a whole.
+ */
+function orderRemoval(
+  symbols: ComponentSymbol[],
+  edges: GraphEdge[]
+): { removalOrder: string[]; cycles: string[][] } {
+  const graph: DependencyGraph = {
+    nodes: buildDependencyGraph(symbols).nodes,
+    edges: new Map(),
+    topologicalOrder: null,
+    cycles: [],
+  };
+  const addEdges = (include: (edge: GraphEdge) => boolean): void => {
+    graph.edges.clear();
+    for (const edge of edges) {
+      if (!graph.nodes.has(edge.from) || !graph.nodes.has(edge.to) || !include(edge)) continue;
+      graph.edges.set(edge.from, [...(graph.edges.get(edge.from) ?? []), edge]);
+    }
+  };
+
+  addEdges(() => true);
+  const cycles = detectCycles(graph);
+
+  const cycleOf = new Map<string, number>();
+  cycles.forEach((cycle, index) => cycle.forEach((id) => cycleOf.set(id, index)));
+  addEdges((edge) => cycleOf.get(edge.from) === undefined || cycleOf.get(edge.from) !== cycleOf.get(edge.to));
+
+  return {
+    removalOrder: topologicalSort(graph) ?? Array.from(graph.nodes.keys()),
+    cycles,
+  };
+}
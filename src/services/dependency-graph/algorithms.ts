@@ -90,6 +90,7 @@ export function buildDependencyGraph(symbols: ComponentSymbol[]): DependencyGrap
           to: ref.symbolId,
           type: 'composes',
           fieldName: ref.fieldName,
+          multiplicity: ref.multiplicity,
         });
       }
     }
@@ -102,6 +103,7 @@ export function buildDependencyGraph(symbols: ComponentSymbol[]): DependencyGrap
           to: ref.symbolId,
           type: 'aggregates',
           fieldName: ref.fieldName,
+          multiplicity: ref.multiplicity,
         });
       }
     }
@@ -114,6 +116,8 @@ export function buildDependencyGraph(symbols: ComponentSymbol[]): DependencyGrap
           to: dep.symbolId,
           type: 'dependency',
           fieldName: dep.name,
+          dependencyKind: dep.kind,
+          optional: dep.optional,
         });
       }
     }
@@ -5,7 +5,7 @@
  * Graphs are built from UML relationships (dependencies, extends, implements, etc.)
  */
 
-import type { AbstractionLevel, ComponentKind } from '../../domain/symbol/index.js';
+import type { AbstractionLevel, ComponentKind, DependencyKind } from '../../domain/symbol/index.js';
 
 // ============================================================================
 // Graph Nodes
@@ -48,6 +48,12 @@ export interface GraphEdge {
   type: EdgeType;
   /** Optional field name (for composes/aggregates) */
   fieldName?: string;
+  /** Injection kind (for dependency) */
+  dependencyKind?: DependencyKind;
+  /** Whether the dependency is optional (for dependency) */
+  optional?: boolean;
+  /** Multiplicity (for composes/aggregates) */
+  multiplicity?: '1' | '*';
 }
 
 // ============================================================================
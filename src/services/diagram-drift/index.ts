@@ -0,0 +1,19 @@
+/**
+ * Diagram Drift Service
+ *
+ * Reports where a diagram and the symbol table disagree and resolves
+ * each difference in favour of the diagram or the registry.
+ */
+
+// Service (primary API)
+export { DiagramDriftService } from './service.js';
+
+// Commonly used types
+export type {
+  DiagramDriftOptions,
+  DiagramDriftReport,
+  DiagramDriftResolution,
+  DriftItem,
+  DriftKind,
+  DriftResolution,
+} from './schema.js';
@@ -0,0 +1,115 @@
+/**
+ * Diagram Drift Schema
+ *
+ * Types for comparing a diagram with the symbol table and reconciling
+ * the differences.
+ */
+
+import type { Diagram } from '../../infrastructure/drawio/index.js';
+
+// =============================================================================
+// Service Interface
+// =============================================================================
+
+/**
+ * Diagram drift service public API contract.
+ *
+ * Reports where a diagram and the registry disagree, and resolves each
+ * difference in favour of one side.
+ */
+export interface DiagramDriftService {
+  report(diagram: Diagram, options?: DiagramDriftOptions): DiagramDriftReport;
+  resolve(
+    diagram: Diagram,
+    itemId: string,
+    resolution: DriftResolution,
+    options?: DiagramDriftOptions
+  ): DiagramDriftResolution;
+}
+
+// =============================================================================
+// Options
+// =============================================================================
+
+/**
+ * Options for drift detection.
+ */
+export interface DiagramDriftOptions {
+  /**
+   * Namespace for unbound elements. Also added to the namespaces compared
+   * against the diagram, which otherwise come from bound elements only.
+   */
+  namespace?: string;
+}
+
+// =============================================================================
+// Drift Report
+// =============================================================================
+
+/**
+ * Kind of difference between diagram and registry.
+ *
+ * - unbound-element: shape has no `cyrus-symbolId`
+ * - unknown-symbol: shape is bound to a symbol the registry does not have
+ * - missing-element: registry symbol is not shown on the diagram
+ * - relationship-mismatch: edges between two shapes disagree with the
+ *   relationships stored on the symbol
+ * - level-mismatch: shape level differs from the symbol's level
+ */
+export type DriftKind =
+  | 'unbound-element'
+  | 'unknown-symbol'
+  | 'missing-element'
+  | 'relationship-mismatch'
+  | 'level-mismatch';
+
+/**
+ * Which side wins when resolving a drift item.
+ *
+ * - accept-diagram: change the registry to match the diagram
+ * - accept-registry: change the diagram to match the registry
+ */
+export type DriftResolution = 'accept-diagram' | 'accept-registry';
+
+/**
+ * A single difference between diagram and registry.
+ */
+export interface DriftItem {
+  /** Stable identifier used to resolve the item */
+  id: string;
+  kind: DriftKind;
+  /** Diagram element involved (source element for relationships) */
+  elementId?: string;
+  /** Symbol involved (source symbol for relationships) */
+  symbolId?: string;
+  /** Target symbol (relationship-mismatch only) */
+  targetSymbolId?: string;
+  /** What the diagram shows, e.g. "extends, dependency" or "L2" */
+  diagramValue?: string;
+  /** What the registry holds */
+  registryValue?: string;
+  message: string;
+}
+
+/**
+ * Structured drift report for one diagram.
+ */
+export interface DiagramDriftReport {
+  diagramId: string;
+  diagramName: string;
+  /** Namespaces whose symbols were compared */
+  namespaces: string[];
+  items: DriftItem[];
+}
+
+/**
+ * Result of resolving a drift item.
+ */
+export interface DiagramDriftResolution {
+  /** Diagram after resolution (unchanged for registry-side fixes) */
+  diagram: Diagram;
+  /** Whether the diagram was modified and needs to be reloaded/saved */
+  diagramChanged: boolean;
+  /** Fresh report for the resolved state */
+  report: DiagramDriftReport;
+}
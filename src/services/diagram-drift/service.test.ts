@@ -0,0 +1,248 @@
+/**
+ * Diagram Drift Service Tests
+ *
+ * Integration tests comparing diagrams with an in-memory symbol table.
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import {
+  initMemoryDatabase,
+  closeDatabase,
+} from '../../repositories/persistence.js';
+import { SqliteSymbolRepository } from '../../repositories/symbol-repository.js';
+import { parseDrawioXml } from '../../infrastructure/drawio/index.js';
+import { createSymbol } from '../../testing/fixtures.js';
+import type { SymbolRepository } from '../../domain/symbol/index.js';
+import { DiagramDriftService } from './service.js';
+
+/**
+ * Wrap cells in a minimal Draw.io document.
+ */
+function drawio(cells: string): string {
+  return `<mxfile>
+  <diagram id="d1" name="Auth">
+    <mxGraphModel>
+      <root>
+        <mxCell id="0"/>
+        <mxCell id="1" parent="0"/>
+        ${cells}
+      </root>
+    </mxGraphModel>
+  </diagram>
+</mxfile>`;
+}
+
+function shape(id: string, label: string, stereotype: string, extra = ''): string {
+  return `<object id="${id}" label="${label}" cyrus-stereotype="${stereotype}" ${extra}>
+    <mxCell style="rounded=1;" vertex="1" parent="1">
+      <mxGeometry x="0" y="0" width="120" height="60" as="geometry"/>
+    </mxCell>
+  </object>`;
+}
+
+function edge(id: string, source: string, target: string, type: string): string {
+  return `<object id="${id}" label="" cyrus-type="${type}">
+    <mxCell style="endArrow=open;" edge="1" parent="1" source="${source}" target="${target}">
+      <mxGeometry relative="1" as="geometry"/>
+    </mxCell>
+  </object>`;
+}
+
+const AUTH = 'auth/AuthService@1.0.0';
+const BASE = 'auth/BaseService@1.0.0';
+const LOGGER = 'auth/Logger@1.0.0';
+
+describe('DiagramDriftService', () => {
+  let repo: SymbolRepository;
+  let service: DiagramDriftService;
+
+  beforeEach(() => {
+    const db = initMemoryDatabase();
+    repo = new SqliteSymbolRepository(db);
+    service = new DiagramDriftService(repo);
+
+    repo.insert(createSymbol({ id: BASE, name: 'BaseService', namespace: 'auth', kind: 'class' }));
+    repo.insert(createSymbol({ id: LOGGER, name: 'Logger', namespace: 'auth', kind: 'service' }));
+    repo.insert(
+      createSymbol({
+        id: AUTH,
+        name: 'AuthService',
+        namespace: 'auth',
+        kind: 'service',
+        dependencies: [{ symbolId: LOGGER, name: 'logger', kind: 'constructor', optional: false }],
+      })
+    );
+  });
+
+  afterEach(() => {
+    closeDatabase();
+  });
+
+  describe('report', () => {
+    it('should report nothing for a diagram matching the registry', () => {
+      const xml = drawio(
+        shape('a', 'AuthService', 'service', `cyrus-symbolId="${AUTH}"`) +
+          shape('b', 'BaseService', 'class', `cyrus-symbolId="${BASE}"`) +
+          shape('l', 'Logger', 'service', `cyrus-symbolId="${LOGGER}"`) +
+          edge('e1', 'a', 'l', 'dependency')
+      );
+
+      const report = service.report(parseDrawioXml(xml));
+
+      assert.deepStrictEqual(report.namespaces, ['auth']);
+      assert.deepStrictEqual(report.items, []);
+    });
+
+    it('should count any shown version of a symbol as shown', () => {
+      repo.insert(createSymbol({ id: 'auth/Logger@2.0.0', name: 'Logger', namespace: 'auth', kind: 'service' }));
+      const xml = drawio(
+        shape('a', 'AuthService', 'service', `cyrus-symbolId="${AUTH}"`) +
+          shape('b', 'BaseService', 'class', `cyrus-symbolId="${BASE}"`) +
+          shape('l', 'Logger', 'service', 'cyrus-symbolId="auth/Logger@2.0.0"')
+      );
+
+      const report = service.report(parseDrawioXml(xml));
+
+      assert.deepStrictEqual(
+        report.items.filter((i) => i.kind === 'missing-element'),
+        []
+      );
+    });
+
+    it('should report each kind of drift', () => {
+      const xml = drawio(
+        shape('a', 'AuthService', 'service', `cyrus-symbolId="${AUTH}"`) +
+          shape('b', 'BaseService', 'module', `cyrus-symbolId="${BASE}"`) +
+          shape('n', 'Mailer', 'service') +
+          shape('g', 'Ghost', 'service', 'cyrus-symbolId="auth/Ghost@1.0.0"') +
+          shape('db', 'Postgres', 'database') +
+          edge('e1', 'a', 'b', 'extends')
+      );
+
+      const report = service.report(parseDrawioXml(xml));
+      const byId = new Map(report.items.map((i) => [i.id, i]));
+
+      assert.deepStrictEqual(
+        report.items.map((i) => i.kind).sort(),
+        ['level-mismatch', 'missing-element', 'relationship-mismatch', 'unbound-element', 'unknown-symbol']
+      );
+      assert.strictEqual(byId.get('level-mismatch:b')?.diagramValue, 'L2');
+      assert.strictEqual(byId.get('level-mismatch:b')?.registryValue, 'L1');
+      assert.strictEqual(byId.get(`missing-element:${LOGGER}`)?.symbolId, LOGGER);
+
+      const rel = byId.get(`relationship-mismatch:${AUTH}:${BASE}`);
+      assert.strictEqual(rel?.diagramValue, 'extends');
+      assert.strictEqual(rel?.registryValue, 'none');
+    });
+  });
+
+  describe('resolve', () => {
+    it('should accept a drawn relationship into the registry', () => {
+      const diagram = parseDrawioXml(
+        drawio(
+          shape('a', 'AuthService', 'service', `cyrus-symbolId="${AUTH}"`) +
+            shape('b', 'BaseService', 'class', `cyrus-symbolId="${BASE}"`) +
+            shape('l', 'Logger', 'service', `cyrus-symbolId="${LOGGER}"`) +
+            edge('e1', 'a', 'b', 'extends') +
+            edge('e2', 'a', 'l', 'dependency')
+        )
+      );
+
+      const result = service.resolve(diagram, `relationship-mismatch:${AUTH}:${BASE}`, 'accept-diagram');
+
+      assert.strictEqual(result.diagramChanged, false);
+      assert.deepStrictEqual(result.report.items, []);
+      // Relationships to other symbols are left alone
+      assert.strictEqual(repo.find(AUTH)?.extends, BASE);
+      assert.strictEqual(repo.find(AUTH)?.dependencies?.length, 1);
+    });
+
+    it('should redraw relationships from the registry', () => {
+      const diagram = parseDrawioXml(
+        drawio(
+          shape('a', 'AuthService', 'service', `cyrus-symbolId="${AUTH}"`) +
+            shape('b', 'BaseService', 'class', `cyrus-symbolId="${BASE}"`) +
+            shape('l', 'Logger', 'service', `cyrus-symbolId="${LOGGER}"`) +
+            edge('e1', 'a', 'l', 'implements')
+        )
+      );
+
+      const result = service.resolve(diagram, `relationship-mismatch:${AUTH}:${LOGGER}`, 'accept-registry');
+
+      assert.strictEqual(result.diagramChanged, true);
+      assert.deepStrictEqual(
+        result.diagram.relationships.map((r) => [r.sourceId, r.targetId, r.type, r.label]),
+        [['a', 'l', 'dependency', 'logger']]
+      );
+      assert.deepStrictEqual(result.report.items, []);
+    });
+
+    it('should register an unbound shape and bind it', () => {
+      const diagram = parseDrawioXml(
+        drawio(
+          shape('a', 'AuthService', 'service', `cyrus-symbolId="${AUTH}"`) +
+            shape('b', 'BaseService', 'class', `cyrus-symbolId="${BASE}"`) +
+            shape('l', 'Logger', 'service', `cyrus-symbolId="${LOGGER}"`) +
+            edge('e1', 'a', 'l', 'dependency') +
+            shape('n', 'Mailer', 'service')
+        )
+      );
+
+      const result = service.resolve(diagram, 'unbound-element:n', 'accept-diagram', { namespace: 'auth' });
+
+      assert.ok(repo.find('auth/Mailer@1.0.0'));
+      assert.strictEqual(
+        result.diagram.elements.find((e) => e.id === 'n')?.symbolId,
+        'auth/Mailer@1.0.0'
+      );
+      assert.deepStrictEqual(result.report.items, []);
+    });
+
+    it('should add missing symbols to the diagram or remove them from the registry', () => {
+      const diagram = parseDrawioXml(
+        drawio(
+          shape('a', 'AuthService', 'service', `cyrus-symbolId="${AUTH}"`) +
+            shape('l', 'Logger', 'service', `cyrus-symbolId="${LOGGER}"`) +
+            edge('e1', 'a', 'l', 'dependency')
+        )
+      );
+
+      const drawn = service.resolve(diagram, `missing-element:${BASE}`, 'accept-registry');
+      const added = drawn.diagram.elements.find((e) => e.symbolId === BASE);
+      assert.ok(added);
+      assert.strictEqual(added.level, 'L1');
+      assert.deepStrictEqual(drawn.report.items, []);
+
+      const removed = service.resolve(diagram, `missing-element:${BASE}`, 'accept-diagram');
+      assert.strictEqual(repo.find(BASE), undefined);
+      assert.deepStrictEqual(removed.report.items, []);
+    });
+
+    it('should fix level mismatches on either side', () => {
+      const diagram = parseDrawioXml(
+        drawio(
+          shape('a', 'AuthService', 'service', `cyrus-symbolId="${AUTH}" cyrus-level="L2"`) +
+            shape('b', 'BaseService', 'class', `cyrus-symbolId="${BASE}"`) +
+            shape('l', 'Logger', 'service', `cyrus-symbolId="${LOGGER}"`) +
+            edge('e1', 'a', 'l', 'dependency')
+        )
+      );
+
+      const redrawn = service.resolve(diagram, 'level-mismatch:a', 'accept-registry');
+      assert.strictEqual(redrawn.diagram.elements[0]?.level, 'L1');
+      assert.deepStrictEqual(redrawn.report.items, []);
+
+      // A service cannot live at L2
+      assert.throws(
+        () => service.resolve(diagram, 'level-mismatch:a', 'accept-diagram'),
+        /not valid for level 'L2'/
+      );
+    });
+
+    it('should reject unknown items', () => {
+      const diagram = parseDrawioXml(drawio(''));
+      assert.throws(() => service.resolve(diagram, 'nope', 'accept-diagram'), /not found/);
+    });
+  });
+});
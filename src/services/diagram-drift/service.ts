@@ -0,0 +1,542 @@
+/**
+ * Diagram Drift Service
+ *
+ * Compares a diagram with the symbol table and reports where they disagree:
+ * unbound shapes, shapes bound to deleted symbols, registry symbols the
+ * diagram does not show, relationship disagreements and level mismatches.
+ * Each item can be resolved in favour of either side.
+ */
+
+import type { ComponentSymbol, SymbolRepository } from '../../domain/symbol/index.js';
+import { parseSymbolId } from '../../domain/symbol/index.js';
+import type {
+  Diagram,
+  DiagramElement,
+  DiagramRelationship,
+} from '../../infrastructure/drawio/index.js';
+import { buildDependencyGraph } from '../dependency-graph/algorithms.js';
+import type { EdgeType, GraphEdge } from '../dependency-graph/schema.js';
+import { DiagramSyncService } from '../diagram-sync/index.js';
+import { edgeToRelationship, nodeToElement } from '../diagram-sync/exporter.js';
+import {
+  diagramLevelToLevel,
+  relationshipTypeToEdgeType,
+  shapeTypeToKind,
+  toFieldName,
+  toMultiplicity,
+} from '../diagram-sync/mapper.js';
+import { SymbolTableService } from '../symbol-table/index.js';
+import type {
+  DiagramDriftService as IDiagramDriftService,
+  DiagramDriftOptions,
+  DiagramDriftReport,
+  DiagramDriftResolution,
+  DriftItem,
+  DriftResolution,
+} from './schema.js';
+
+/** Vertical gap between existing shapes and shapes added by a resolution */
+const ADDED_SHAPE_GAP = 100;
+
+/**
+ * Stored relationships between one source and one target symbol,
+ * as drawn on the diagram and as held by the registry.
+ */
+interface RelationshipPair {
+  sourceSymbolId: string;
+  targetSymbolId: string;
+  sourceElementId: string;
+  targetElementId: string;
+  diagramTypes: Set<EdgeType>;
+  registryTypes: Set<EdgeType>;
+}
+
+// =============================================================================
+// Service Class
+// =============================================================================
+
+export class DiagramDriftService implements IDiagramDriftService {
+  private readonly repo: SymbolRepository;
+  private readonly symbolTable: SymbolTableService;
+  private readonly syncService: DiagramSyncService;
+
+  /**
+   * Create a DiagramDriftService with dependency injection.
+   * @param repo - The symbol repository to use for data access
+   */
+  constructor(repo: SymbolRepository) {
+    this.repo = repo;
+    this.symbolTable = new SymbolTableService(repo);
+    this.syncService = new DiagramSyncService(repo);
+  }
+
+  // ===========================================================================
+  // Report
+  // ===========================================================================
+
+  /**
+   * Build a drift report without modifying diagram or registry.
+   *
+   * Symbols are compared for the namespaces that bound shapes belong to,
+   * plus `options.namespace` when given.
+   */
+  report(diagram: Diagram, options: DiagramDriftOptions = {}): DiagramDriftReport {
+    const items: DriftItem[] = [];
+    const namespaces = new Set<string>(options.namespace ? [options.namespace] : []);
+    // Namespace/name of shown symbols; any version of a shown symbol counts
+    const shown = new Set<string>();
+    // Symbol ID → first element bound to it (only for symbols that exist)
+    const boundElements = new Map<string, DiagramElement>();
+    const symbols = new Map<string, ComponentSymbol>();
+
+    for (const element of diagram.elements) {
+      // Infrastructure, boundary and UI shapes are outside the symbol model
+      if (!shapeTypeToKind(element.type)) continue;
+
+      if (!element.symbolId) {
+        items.push({
+          id: `unbound-element:${element.id}`,
+          kind: 'unbound-element',
+          elementId: element.id,
+          message: `Shape '${element.name}' is not bound to a symbol`,
+        });
+        continue;
+      }
+
+      const parsed = parseSymbolId(element.symbolId);
+      if (parsed) {
+        namespaces.add(parsed.namespace);
+        shown.add(qualifiedName(parsed.namespace, parsed.name));
+      }
+
+      const symbol = this.repo.find(element.symbolId);
+      if (!symbol) {
+        items.push({
+          id: `unknown-symbol:${element.id}`,
+          kind: 'unknown-symbol',
+          elementId: element.id,
+          symbolId: element.symbolId,
+          message: `Shape '${element.name}' is bound to '${element.symbolId}', which is not in the registry`,
+        });
+        continue;
+      }
+
+      if (boundElements.has(symbol.id)) continue;
+      boundElements.set(symbol.id, element);
+      symbols.set(symbol.id, symbol);
+
+      const level = diagramLevelToLevel(element.level);
+      if (level !== symbol.level) {
+        items.push({
+          id: `level-mismatch:${element.id}`,
+          kind: 'level-mismatch',
+          elementId: element.id,
+          symbolId: symbol.id,
+          diagramValue: element.level,
+          registryValue: symbol.level,
+          message: `Shape is drawn at ${element.level} but '${symbol.id}' is ${symbol.level}`,
+        });
+      }
+    }
+
+    for (const pair of this.collectRelationshipPairs(diagram, boundElements, symbols).values()) {
+      if (sameTypes(pair.diagramTypes, pair.registryTypes)) continue;
+
+      const diagramValue = formatTypes(pair.diagramTypes);
+      const registryValue = formatTypes(pair.registryTypes);
+      items.push({
+        id: relationshipItemId(pair.sourceSymbolId, pair.targetSymbolId),
+        kind: 'relationship-mismatch',
+        elementId: pair.sourceElementId,
+        symbolId: pair.sourceSymbolId,
+        targetSymbolId: pair.targetSymbolId,
+        diagramValue,
+        registryValue,
+        message: `'${pair.sourceSymbolId}' → '${pair.targetSymbolId}': diagram shows ${diagramValue}, registry has ${registryValue}`,
+      });
+    }
+
+    for (const symbol of this.repo.list()) {
+      if (!namespaces.has(symbol.namespace)) continue;
+      if (shown.has(qualifiedName(symbol.namespace, symbol.name))) continue;
+      items.push({
+        id: `missing-element:${symbol.id}`,
+        kind: 'missing-element',
+        symbolId: symbol.id,
+        registryValue: symbol.level,
+        message: `Symbol '${symbol.id}' is not shown on the diagram`,
+      });
+    }
+
+    return {
+      diagramId: diagram.id,
+      diagramName: diagram.name,
+      namespaces: [...namespaces].sort(),
+      items,
+    };
+  }
+
+  // ===========================================================================
+  // Resolution
+  // ===========================================================================
+
+  /**
+   * Resolve one drift item in favour of the diagram or the registry.
+   *
+   * Accepting the diagram updates the registry; accepting the registry
+   * returns a modified copy of the diagram. Registering an unbound shape
+   * does both, since the shape is bound to the new symbol.
+   */
+  resolve(
+    diagram: Diagram,
+    itemId: string,
+    resolution: DriftResolution,
+    options: DiagramDriftOptions = {}
+  ): DiagramDriftResolution {
+    const item = this.report(diagram, options).items.find((i) => i.id === itemId);
+    if (!item) {
+      throw new Error(`Drift item '${itemId}' not found`);
+    }
+
+    let next = diagram;
+    const acceptDiagram = resolution === 'accept-diagram';
+
+    switch (item.kind) {
+      case 'unbound-element':
+      case 'unknown-symbol': {
+        const element = requireElement(diagram, item.elementId);
+        next = acceptDiagram
+          ? this.registerElement(diagram, element, options)
+          : removeElement(diagram, element.id);
+        break;
+      }
+
+      case 'missing-element': {
+        const symbol = this.requireSymbol(item.symbolId);
+        if (acceptDiagram) {
+          this.symbolTable.remove(symbol.id);
+        } else {
+          next = addSymbolElement(diagram, symbol);
+        }
+        break;
+      }
+
+      case 'level-mismatch': {
+        const element = requireElement(diagram, item.elementId);
+        const symbol = this.requireSymbol(item.symbolId);
+        if (acceptDiagram) {
+          const level = diagramLevelToLevel(element.level);
+          if (!level) {
+            throw new Error(`Level '${element.level}' has no symbol table equivalent`);
+          }
+          this.symbolTable.update(symbol.id, { level });
+        } else {
+          next = replaceElement(diagram, { ...element, level: symbol.level });
+        }
+        break;
+      }
+
+      case 'relationship-mismatch': {
+        const source = this.requireSymbol(item.symbolId);
+        const target = this.requireSymbol(item.targetSymbolId);
+        if (acceptDiagram) {
+          this.applyDiagramRelationships(diagram, source, target);
+        } else {
+          next = this.applyRegistryRelationships(diagram, source, target);
+        }
+        break;
+      }
+    }
+
+    return {
+      diagram: next,
+      diagramChanged: next !== diagram,
+      report: this.report(next, options),
+    };
+  }
+
+  // ===========================================================================
+  // Helpers
+  // ===========================================================================
+
+  /**
+   * Pair up diagram edges and registry relationships between shown symbols.
+   */
+  private collectRelationshipPairs(
+    diagram: Diagram,
+    boundElements: Map<string, DiagramElement>,
+    symbols: Map<string, ComponentSymbol>
+  ): Map<string, RelationshipPair> {
+    const pairs = new Map<string, RelationshipPair>();
+    const elementSymbols = new Map<string, string>();
+    for (const [symbolId, element] of boundElements) {
+      elementSymbols.set(element.id, symbolId);
+    }
+
+    const pairFor = (sourceSymbolId: string, targetSymbolId: string): RelationshipPair | undefined => {
+      const sourceElement = boundElements.get(sourceSymbolId);
+      const targetElement = boundElements.get(targetSymbolId);
+      if (!sourceElement || !targetElement || sourceSymbolId === targetSymbolId) return undefined;
+
+      const key = relationshipItemId(sourceSymbolId, targetSymbolId);
+      let pair = pairs.get(key);
+      if (!pair) {
+        pair = {
+          sourceSymbolId,
+          targetSymbolId,
+          sourceElementId: sourceElement.id,
+          targetElementId: targetElement.id,
+          diagramTypes: new Set(),
+          registryTypes: new Set(),
+        };
+        pairs.set(key, pair);
+      }
+      return pair;
+    };
+
+    for (const rel of diagram.relationships) {
+      const type = relationshipTypeToEdgeType(rel.type);
+      const sourceSymbolId = elementSymbols.get(rel.sourceId);
+      const targetSymbolId = elementSymbols.get(rel.targetId);
+      if (!type || !sourceSymbolId || !targetSymbolId) continue;
+      pairFor(sourceSymbolId, targetSymbolId)?.diagramTypes.add(type);
+    }
+
+    // Nested shapes imply containment
+    for (const element of diagram.elements) {
+      const childSymbolId = elementSymbols.get(element.id);
+      const parentSymbolId = element.parentId ? elementSymbols.get(element.parentId) : undefined;
+      if (!childSymbolId || !parentSymbolId) continue;
+      pairFor(parentSymbolId, childSymbolId)?.diagramTypes.add('contains');
+    }
+
+    for (const symbol of symbols.values()) {
+      for (const edge of registryEdges(symbol)) {
+        pairFor(edge.from, edge.to)?.registryTypes.add(edge.type);
+      }
+    }
+
+    return pairs;
+  }
+
+  /**
+   * Register (or bind) a shape and return the diagram with the shape bound.
+   */
+  private registerElement(
+    diagram: Diagram,
+    element: DiagramElement,
+    options: DiagramDriftOptions
+  ): Diagram {
+    const namespace =
+      element.customProperties?.['cyrus-namespace'] ??
+      options.namespace ??
+      (element.symbolId ? parseSymbolId(element.symbolId)?.namespace : undefined);
+    if (!namespace) {
+      throw new Error(`No namespace given for shape '${element.name}'`);
+    }
+
+    const single: Diagram = { ...diagram, elements: [element], relationships: [] };
+    const preview = this.syncService.preview(single, { namespace });
+    const conflict = preview.conflicts[0];
+    if (conflict) {
+      throw new Error(conflict.message);
+    }
+
+    const change = [...preview.creates, ...preview.updates, ...preview.unchanged][0];
+    if (!change) {
+      throw new Error(`Shape '${element.name}' cannot be registered`);
+    }
+
+    const result = this.syncService.apply(single, { namespace });
+    const error = result.errors[0];
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return replaceElement(diagram, { ...element, symbolId: change.symbolId });
+  }
+
+  /**
+   * Rewrite the source symbol's relationships to the target as drawn.
+   */
+  private applyDiagramRelationships(
+    diagram: Diagram,
+    source: ComponentSymbol,
+    target: ComponentSymbol
+  ): void {
+    const sourceIds = elementIdsFor(diagram, source.id);
+    const targetIds = elementIdsFor(diagram, target.id);
+    const edges = diagram.relationships.filter(
+      (rel) => sourceIds.has(rel.sourceId) && targetIds.has(rel.targetId)
+    );
+    const edgeOf = (type: EdgeType): DiagramRelationship | undefined =>
+      edges.find((rel) => relationshipTypeToEdgeType(rel.type) === type);
+    const nested = diagram.elements.some(
+      (e) => targetIds.has(e.id) && e.parentId !== undefined && sourceIds.has(e.parentId)
+    );
+
+    // Drop every stored relationship to the target, then add what is drawn
+    const { extends: extendsId, ...rest } = source;
+    const updated: ComponentSymbol = {
+      ...rest,
+      implements: (source.implements ?? []).filter((id) => id !== target.id),
+      dependencies: (source.dependencies ?? []).filter((d) => d.symbolId !== target.id),
+      composes: (source.composes ?? []).filter((r) => r.symbolId !== target.id),
+      aggregates: (source.aggregates ?? []).filter((r) => r.symbolId !== target.id),
+      contains: (source.contains ?? []).filter((id) => id !== target.id),
+      updatedAt: new Date(),
+    };
+    if (extendsId && extendsId !== target.id) updated.extends = extendsId;
+
+    if (edgeOf('extends')) updated.extends = target.id;
+    if (edgeOf('implements')) updated.implements?.push(target.id);
+    if (edgeOf('contains') || nested) updated.contains?.push(target.id);
+
+    const dependency = edgeOf('dependency');
+    if (dependency) {
+      updated.dependencies?.push({
+        symbolId: target.id,
+        name: toFieldName(target.name, dependency.label),
+        kind: dependency.injectionKind ?? 'constructor',
+        optional: dependency.optional ?? false,
+      });
+    }
+
+    const composition = edgeOf('composes');
+    if (composition) {
+      updated.composes?.push({
+        symbolId: target.id,
+        fieldName: toFieldName(target.name, composition.label),
+        multiplicity: toMultiplicity(composition.targetLabel),
+      });
+    }
+
+    const aggregation = edgeOf('aggregates');
+    if (aggregation) {
+      updated.aggregates?.push({
+        symbolId: target.id,
+        fieldName: toFieldName(target.name, aggregation.label),
+        multiplicity: toMultiplicity(aggregation.targetLabel),
+      });
+    }
+
+    this.repo.update(source.id, updated);
+  }
+
+  /**
+   * Redraw the edges between source and target from the registry.
+   */
+  private applyRegistryRelationships(
+    diagram: Diagram,
+    source: ComponentSymbol,
+    target: ComponentSymbol
+  ): Diagram {
+    const sourceIds = elementIdsFor(diagram, source.id);
+    const targetIds = elementIdsFor(diagram, target.id);
+    const sourceElementId = [...sourceIds][0];
+    const targetElementId = [...targetIds][0];
+    if (!sourceElementId || !targetElementId) {
+      throw new Error(`'${source.id}' or '${target.id}' is not shown on the diagram`);
+    }
+
+    const relationships = diagram.relationships.filter(
+      (rel) =>
+        !(sourceIds.has(rel.sourceId) && targetIds.has(rel.targetId)) ||
+        relationshipTypeToEdgeType(rel.type) === undefined
+    );
+
+    const edges = registryEdges(source).filter((edge) => edge.to === target.id);
+    for (const edge of edges) {
+      relationships.push(edgeToRelationship(edge, sourceElementId, targetElementId));
+    }
+
+    // Un-nest the target when the registry has no containment
+    const keepNesting = edges.some((edge) => edge.type === 'contains');
+    const elements = diagram.elements.map((element) => {
+      if (keepNesting || !targetIds.has(element.id) || !element.parentId) return element;
+      if (!sourceIds.has(element.parentId)) return element;
+      const { parentId: _parentId, ...unnested } = element;
+      return unnested;
+    });
+
+    return { ...diagram, elements, relationships };
+  }
+
+  private requireSymbol(symbolId: string | undefined): ComponentSymbol {
+    const symbol = symbolId ? this.repo.find(symbolId) : undefined;
+    if (!symbol) {
+      throw new Error(`Symbol '${symbolId}' not found`);
+    }
+    return symbol;
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function qualifiedName(namespace: string, name: string): string {
+  return namespace ? `${namespace}/${name}` : name;
+}
+
+function relationshipItemId(sourceSymbolId: string, targetSymbolId: string): string {
+  return `relationship-mismatch:${sourceSymbolId}:${targetSymbolId}`;
+}
+
+/**
+ * Stored relationships of one symbol as graph edges.
+ */
+function registryEdges(symbol: ComponentSymbol): GraphEdge[] {
+  return buildDependencyGraph([symbol]).edges.get(symbol.id) ?? [];
+}
+
+function sameTypes(a: Set<EdgeType>, b: Set<EdgeType>): boolean {
+  return a.size === b.size && [...a].every((type) => b.has(type));
+}
+
+function formatTypes(types: Set<EdgeType>): string {
+  return types.size > 0 ? [...types].sort().join(', ') : 'none';
+}
+
+function elementIdsFor(diagram: Diagram, symbolId: string): Set<string> {
+  return new Set(diagram.elements.filter((e) => e.symbolId === symbolId).map((e) => e.id));
+}
+
+function requireElement(diagram: Diagram, elementId: string | undefined): DiagramElement {
+  const element = diagram.elements.find((e) => e.id === elementId);
+  if (!element) {
+    throw new Error(`Diagram element '${elementId}' not found`);
+  }
+  return element;
+}
+
+function replaceElement(diagram: Diagram, element: DiagramElement): Diagram {
+  return {
+    ...diagram,
+    elements: diagram.elements.map((e) => (e.id === element.id ? element : e)),
+  };
+}
+
+function removeElement(diagram: Diagram, elementId: string): Diagram {
+  return {
+    ...diagram,
+    elements: diagram.elements.filter((e) => e.id !== elementId),
+    relationships: diagram.relationships.filter(
+      (rel) => rel.sourceId !== elementId && rel.targetId !== elementId
+    ),
+  };
+}
+
+/**
+ * Add a shape for a registry symbol below the existing shapes.
+ */
+function addSymbolElement(diagram: Diagram, symbol: ComponentSymbol): Diagram {
+  const bottom = Math.max(0, ...diagram.elements.map((e) => e.position.y + e.size.height));
+  const y = diagram.elements.length > 0 ? bottom + ADDED_SHAPE_GAP : 0;
+
+  const element = nodeToElement(
+    { id: symbol.id, name: symbol.name, namespace: symbol.namespace, level: symbol.level, kind: symbol.kind },
+    { x: 0, y }
+  );
+  return { ...diagram, elements: [...diagram.elements, element] };
+}
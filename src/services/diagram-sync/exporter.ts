@@ -0,0 +1,139 @@
+/**
+ * Diagram Exporter
+ *
+ * Renders a dependency graph (the full registry or a subgraph) as a
+ * Diagram that writeDrawioXml can serialize. Every shape carries its
+ * symbol ID, so importing the result updates symbols instead of
+ * duplicating them.
+ */
+
+import type { AbstractionLevel } from '../../domain/symbol/index.js';
+import type {
+  Diagram,
+  DiagramElement,
+  DiagramRelationship,
+  Position,
+} from '../../infrastructure/drawio/index.js';
+import type { DependencyGraph, GraphEdge, GraphNode } from '../dependency-graph/schema.js';
+import { edgeTypeToRelationshipType, kindToShapeType } from './mapper.js';
+import type { DiagramExportOptions } from './schema.js';
+
+/** Shape size used for exported symbols */
+const SHAPE_WIDTH = 160;
+const SHAPE_HEIGHT = 60;
+
+/** Spacing between shapes in a row and between level rows */
+const COLUMN_GAP = 40;
+const ROW_GAP = 100;
+
+/** Levels from top (contracts) to bottom (types) */
+const LEVEL_ROWS: AbstractionLevel[] = ['L4', 'L3', 'L2', 'L1', 'L0'];
+
+/**
+ * Fill colors per level. These match the color inference in the Draw.io
+ * parser, so the style alone identifies the level of an exported shape.
+ */
+const LEVEL_FILL_COLORS: Record<AbstractionLevel, string> = {
+  L0: '#6a9955',
+  L1: '#4ec9b0',
+  L2: '#dcdcaa',
+  L3: '#ce9178',
+  L4: '#c586c0',
+};
+
+/**
+ * Convert a dependency graph into a Diagram.
+ *
+ * Shapes are laid out in one row per abstraction level and use the symbol
+ * ID as cell ID. Edges whose endpoints are outside the graph are dropped.
+ */
+export function graphToDiagram(graph: DependencyGraph, options: DiagramExportOptions = {}): Diagram {
+  const elements = layoutNodes(Array.from(graph.nodes.values()));
+
+  const relationships: DiagramRelationship[] = [];
+  for (const edges of graph.edges.values()) {
+    for (const edge of edges) {
+      if (!graph.nodes.has(edge.from) || !graph.nodes.has(edge.to)) continue;
+      relationships.push(edgeToRelationship(edge, edge.from, edge.to));
+    }
+  }
+
+  const now = new Date();
+  return {
+    id: 'cyrus-registry',
+    name: options.name ?? 'Symbol Registry',
+    diagramType: 'architecture',
+    elements,
+    relationships,
+    version: '1.0.0',
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Draw a graph node as a shape bound to its symbol.
+ */
+export function nodeToElement(node: GraphNode, position: Position): DiagramElement {
+  const type = kindToShapeType(node.kind);
+  return {
+    id: node.id,
+    symbolId: node.id,
+    type,
+    stereotype: type,
+    level: node.level,
+    position,
+    size: { width: SHAPE_WIDTH, height: SHAPE_HEIGHT },
+    style: { rounded: true, fillColor: LEVEL_FILL_COLORS[node.level], fontColor: '#1e1e1e' },
+    name: node.name,
+  };
+}
+
+/**
+ * Draw a graph edge as a relationship between two diagram elements.
+ */
+export function edgeToRelationship(
+  edge: GraphEdge,
+  sourceElementId: string,
+  targetElementId: string
+): DiagramRelationship {
+  const type = edgeTypeToRelationshipType(edge.type);
+  return {
+    id: `${edge.type}:${edge.from}:${edge.to}`,
+    sourceId: sourceElementId,
+    targetId: targetElementId,
+    type,
+    ...(edge.fieldName ? { label: edge.fieldName } : {}),
+    ...(edge.dependencyKind ? { injectionKind: edge.dependencyKind } : {}),
+    ...(edge.optional ? { optional: true } : {}),
+    ...(edge.multiplicity ? { targetLabel: edge.multiplicity } : {}),
+    style: { dashed: type === 'dependency' || type === 'implements' },
+  };
+}
+
+/**
+ * Place nodes in level rows, sorted by symbol ID for a stable layout.
+ */
+function layoutNodes(nodes: GraphNode[]): DiagramElement[] {
+  const elements: DiagramElement[] = [];
+  let row = 0;
+
+  for (const level of LEVEL_ROWS) {
+    const rowNodes = nodes
+      .filter((node) => node.level === level)
+      .sort((a, b) => a.id.localeCompare(b.id));
+    if (rowNodes.length === 0) continue;
+
+    rowNodes.forEach((node, column) => {
+      elements.push(
+        nodeToElement(node, {
+          x: column * (SHAPE_WIDTH + COLUMN_GAP),
+          y: row * (SHAPE_HEIGHT + ROW_GAP),
+        })
+      );
+    });
+    row++;
+  }
+
+  return elements;
+}
@@ -0,0 +1,26 @@
+/**
+ * Diagram Sync Service
+ *
+ * Imports Draw.io diagrams into the symbol table.
+ * Architects draw first; the sync registers or updates the drawn components.
+ * The exporter renders the registry back out as a diagram.
+ */
+
+// Service (primary API)
+export { DiagramSyncService } from './service.js';
+
+// Registry → diagram export
+export { graphToDiagram } from './exporter.js';
+
+// Commonly used types
+export type {
+  DiagramSyncOptions,
+  DiagramExportOptions,
+  DiagramSyncAction,
+  DiagramSyncChange,
+  DiagramSyncConflict,
+  DiagramSyncConflictReason,
+  DiagramSyncSkip,
+  DiagramSyncPreview,
+  DiagramSyncResult,
+} from './schema.js';
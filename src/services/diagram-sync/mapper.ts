@@ -0,0 +1,196 @@
+/**
+ * Diagram Element Mapper
+ *
+ * Pure mapping from Draw.io diagram vocabulary (ShapeType, DiagramLevel,
+ * labels) to symbol table vocabulary (ComponentKind, AbstractionLevel, names).
+ */
+
+import type { AbstractionLevel, ComponentKind } from '../../domain/symbol/index.js';
+import type {
+  DiagramLevel,
+  RelationshipType,
+  ShapeType,
+} from '../../infrastructure/drawio/index.js';
+import type { EdgeType } from '../dependency-graph/schema.js';
+
+/**
+ * Shape types that have a ComponentKind equivalent.
+ * Infrastructure, boundary and UI shapes are intentionally absent.
+ */
+const SHAPE_TO_KIND: Partial<Record<ShapeType, ComponentKind>> = {
+  // L0
+  primitive: 'type',
+  interface: 'type',
+  dto: 'type',
+  type: 'type',
+  branded: 'type',
+  enum: 'enum',
+  // L1
+  class: 'class',
+  factory: 'class',
+  validator: 'class',
+  mapper: 'class',
+  service: 'service',
+  controller: 'service',
+  repository: 'service',
+  middleware: 'service',
+  handler: 'service',
+  // L2
+  module: 'module',
+  feature: 'module',
+  library: 'module',
+  // L3
+  subsystem: 'subsystem',
+  domain: 'subsystem',
+  layer: 'subsystem',
+  // L4
+  api: 'contract',
+  events: 'contract',
+  graphql: 'contract',
+};
+
+/**
+ * Map a diagram shape type to a component kind.
+ * Returns undefined for shapes outside the symbol model.
+ */
+export function shapeTypeToKind(shapeType: ShapeType): ComponentKind | undefined {
+  return SHAPE_TO_KIND[shapeType];
+}
+
+/**
+ * Shape used to draw each component kind.
+ * Kinds without a dedicated shape use the closest shape at their level.
+ */
+const KIND_TO_SHAPE: Record<ComponentKind, ShapeType> = {
+  type: 'type',
+  enum: 'enum',
+  constant: 'primitive',
+  function: 'handler',
+  class: 'class',
+  service: 'service',
+  module: 'module',
+  subsystem: 'subsystem',
+  contract: 'api',
+};
+
+/**
+ * Map a component kind to the shape type used to draw it.
+ */
+export function kindToShapeType(kind: ComponentKind): ShapeType {
+  return KIND_TO_SHAPE[kind];
+}
+
+/**
+ * Map a diagram level to an abstraction level.
+ * Returns undefined for infra, boundary and UI levels.
+ */
+export function diagramLevelToLevel(level: DiagramLevel): AbstractionLevel | undefined {
+  switch (level) {
+    case 'L0':
+    case 'L1':
+    case 'L2':
+    case 'L3':
+    case 'L4':
+      return level;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Graph edge type → diagram relationship type.
+ */
+const EDGE_TO_RELATIONSHIP: Record<EdgeType, RelationshipType> = {
+  dependency: 'dependency',
+  extends: 'extends',
+  implements: 'implements',
+  composes: 'composition',
+  aggregates: 'aggregation',
+  contains: 'contains',
+};
+
+/**
+ * Map a stored relationship (graph edge type) to the diagram relationship type.
+ */
+export function edgeTypeToRelationshipType(type: EdgeType): RelationshipType {
+  return EDGE_TO_RELATIONSHIP[type];
+}
+
+/**
+ * Map a diagram relationship type to the stored relationship it represents.
+ * Returns undefined for behavioral and data-flow relationships.
+ */
+export function relationshipTypeToEdgeType(type: RelationshipType): EdgeType | undefined {
+  const entry = Object.entries(EDGE_TO_RELATIONSHIP).find(([, rel]) => rel === type);
+  return entry?.[0] as EdgeType | undefined;
+}
+
+/**
+ * Convert a Draw.io label into plain text.
+ * Labels may contain HTML markup and XML entities when edited in Draw.io.
+ */
+export function labelToText(label: string): string {
+  const decoded = label
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+
+  return decoded
+    .replace(/<<([^<>]*)>>/g, '«$1»')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(div|p)>/gi, '\n')
+    .replace(/<[^>]+>/g, '');
+}
+
+/**
+ * Derive a symbol name from an element label.
+ *
+ * Uses the first line that is not a stereotype (`<<service>>`, `«service»`)
+ * and joins its words in PascalCase: "user service" → "UserService".
+ */
+export function labelToSymbolName(label: string): string {
+  const lines = labelToText(label)
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !/^«.*»$/.test(line));
+
+  const words = (lines[0] ?? '').split(/[^A-Za-z0-9_$]+/).filter((w) => w.length > 0);
+  return words.map((w) => w.charAt(0).toUpperCase() + w.slice(1)).join('');
+}
+
+/**
+ * Derive a field name for a relationship.
+ * Uses the edge label when it is a valid identifier, otherwise the
+ * camelCase form of the target symbol name.
+ */
+export function toFieldName(targetName: string, label?: string): string {
+  const text = label ? labelToText(label).trim() : '';
+  if (/^[A-Za-z_$][A-Za-z0-9_$]*$/.test(text)) {
+    return text;
+  }
+  return targetName.charAt(0).toLowerCase() + targetName.slice(1);
+}
+
+/**
+ * Derive a composition/aggregation multiplicity from an edge end label
+ * ("*", "0..*", "1..*", "many" → '*'; anything else → '1').
+ */
+export function toMultiplicity(label?: string): '1' | '*' {
+  if (!label) return '1';
+  const text = label.trim().toLowerCase();
+  return text.includes('*') || text === 'many' || text === 'n' ? '*' : '1';
+}
+
+/**
+ * Parse a comma-separated `cyrus-tags` value.
+ */
+export function parseTagList(value?: string): string[] {
+  if (!value) return [];
+  return value
+    .split(',')
+    .map((tag) => tag.trim())
+    .filter((tag) => tag.length > 0);
+}
@@ -0,0 +1,184 @@
+/**
+ * Diagram Sync Schema
+ *
+ * Types for synchronizing Draw.io diagrams into the symbol table.
+ * A sync is planned first (preview) and then applied (commit).
+ */
+
+import type {
+  AbstractionLevel,
+  ComponentKind,
+  SemVer,
+} from '../../domain/symbol/index.js';
+import type { Diagram } from '../../infrastructure/drawio/index.js';
+
+// =============================================================================
+// Service Interface
+// =============================================================================
+
+/**
+ * Diagram sync service public API contract.
+ *
+ * Maps diagram elements to ComponentSymbols and registers or updates
+ * them in the symbol table.
+ */
+export interface DiagramSyncService {
+  preview(diagram: Diagram, options: DiagramSyncOptions): DiagramSyncPreview;
+  apply(diagram: Diagram, options: DiagramSyncOptions): DiagramSyncResult;
+}
+
+// =============================================================================
+// Sync Options
+// =============================================================================
+
+/**
+ * Options for diagram synchronization.
+ *
+ * Elements can override namespace and version with `cyrus-namespace`
+ * and `cyrus-version`, or bind to an existing symbol with `cyrus-symbolId`.
+ */
+export interface DiagramSyncOptions {
+  /** Namespace for elements that do not declare one */
+  namespace: string;
+
+  /** Version for elements that do not declare one (default: 1.0.0) */
+  version?: SemVer;
+
+  /** Tags added to every synchronized symbol */
+  tags?: string[];
+}
+
+/**
+ * Options for exporting the registry as a diagram.
+ */
+export interface DiagramExportOptions {
+  /** Diagram (page) name (default: "Symbol Registry") */
+  name?: string;
+}
+
+// =============================================================================
+// Sync Preview
+// =============================================================================
+
+/**
+ * What the sync will do with a mapped element.
+ */
+export type DiagramSyncAction = 'create' | 'update' | 'unchanged';
+
+/**
+ * A planned change for one diagram element.
+ */
+export interface DiagramSyncChange {
+  /** Planned action */
+  action: DiagramSyncAction;
+
+  /** Diagram element (cell) ID */
+  elementId: string;
+
+  /** Target symbol ID */
+  symbolId: string;
+
+  /** Symbol name derived from the element label */
+  name: string;
+
+  /** Component kind derived from the shape type */
+  kind: ComponentKind;
+
+  /** Abstraction level derived from the diagram level */
+  level: AbstractionLevel;
+
+  /** Symbol fields that differ from the registry (updates only) */
+  changedFields: string[];
+}
+
+/**
+ * Why an element could not be synchronized.
+ */
+export type DiagramSyncConflictReason =
+  | 'duplicate-symbol'
+  | 'kind-level-mismatch'
+  | 'kind-changed'
+  | 'level-changed'
+  | 'multiple-extends'
+  | 'invalid-symbol';
+
+/**
+ * An element that maps to a symbol but cannot be applied safely.
+ */
+export interface DiagramSyncConflict {
+  /** Diagram element (cell) ID */
+  elementId: string;
+
+  /** Target symbol ID, when one could be derived */
+  symbolId?: string;
+
+  /** Conflict classification */
+  reason: DiagramSyncConflictReason;
+
+  /** Human-readable explanation */
+  message: string;
+}
+
+/**
+ * A diagram cell that has no symbol table equivalent.
+ */
+export interface DiagramSyncSkip {
+  /** Diagram element or relationship ID */
+  cellId: string;
+
+  /** Human-readable explanation */
+  reason: string;
+}
+
+/**
+ * Result of planning a sync without touching the registry.
+ */
+export interface DiagramSyncPreview {
+  /** Diagram ID */
+  diagramId: string;
+
+  /** Diagram name */
+  diagramName: string;
+
+  /** Symbols that will be registered */
+  creates: DiagramSyncChange[];
+
+  /** Existing symbols that will be updated */
+  updates: DiagramSyncChange[];
+
+  /** Existing symbols that already match the diagram */
+  unchanged: DiagramSyncChange[];
+
+  /** Elements that will not be applied */
+  conflicts: DiagramSyncConflict[];
+
+  /** Cells outside the symbol model (infra, boundary, UI, behavioral edges) */
+  skipped: DiagramSyncSkip[];
+}
+
+// =============================================================================
+// Sync Result
+// =============================================================================
+
+/**
+ * Result of applying a sync to the registry.
+ */
+export interface DiagramSyncResult {
+  /** Whether every planned change was applied; if not, none were */
+  success: boolean;
+
+  /** IDs of registered symbols (empty if the sync failed) */
+  created: string[];
+
+  /** IDs of updated symbols (empty if the sync failed) */
+  updated: string[];
+
+  /** Elements that were not applied */
+  conflicts: DiagramSyncConflict[];
+
+  /** Cells outside the symbol model */
+  skipped: DiagramSyncSkip[];
+
+  /** Registry errors raised while applying planned changes */
+  errors: Array<{ symbolId: string; message: string }>;
+}
@@ -0,0 +1,291 @@
+/**
+ * Diagram Sync Service Tests
+ *
+ * Integration tests for importing Draw.io diagrams into an in-memory symbol table.
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import {
+  initMemoryDatabase,
+  closeDatabase,
+} from '../../repositories/persistence.js';
+import { SqliteSymbolRepository } from '../../repositories/symbol-repository.js';
+import { parseDrawioXml, writeDrawioXml } from '../../infrastructure/drawio/index.js';
+import { DependencyGraphService } from '../dependency-graph/service.js';
+import { createSymbol } from '../../testing/fixtures.js';
+import type { SymbolRepository } from '../../domain/symbol/index.js';
+import { DiagramSyncService } from './service.js';
+import { graphToDiagram } from './exporter.js';
+import { labelToSymbolName, shapeTypeToKind } from './mapper.js';
+
+/**
+ * Wrap cells in a minimal Draw.io document.
+ */
+function drawio(cells: string): string {
+  return `<mxfile>
+  <diagram id="d1" name="Auth">
+    <mxGraphModel>
+      <root>
+        <mxCell id="0"/>
+        <mxCell id="1" parent="0"/>
+        ${cells}
+      </root>
+    </mxGraphModel>
+  </diagram>
+</mxfile>`;
+}
+
+function shape(id: string, label: string, stereotype: string, extra = ''): string {
+  return `<object id="${id}" label="${label}" cyrus-stereotype="${stereotype}" ${extra}>
+    <mxCell style="rounded=1;" vertex="1" parent="1">
+      <mxGeometry x="0" y="0" width="120" height="60" as="geometry"/>
+    </mxCell>
+  </object>`;
+}
+
+function edge(id: string, source: string, target: string, type: string, extra = ''): string {
+  return `<object id="${id}" label="" cyrus-type="${type}" ${extra}>
+    <mxCell style="endArrow=open;" edge="1" parent="1" source="${source}" target="${target}">
+      <mxGeometry relative="1" as="geometry"/>
+    </mxCell>
+  </object>`;
+}
+
+const AUTH_DIAGRAM = drawio(
+  shape('svc', 'AuthService', 'service') +
+    shape('repo', 'User Repository', 'repository') +
+    shape('base', 'BaseService', 'class') +
+    shape('iface', 'IAuth', 'interface') +
+    shape('db', 'Postgres', 'database') +
+    edge('e1', 'svc', 'repo', 'dependency', 'cyrus-kind="property" cyrus-optional="true"') +
+    edge('e2', 'svc', 'base', 'extends') +
+    edge('e3', 'svc', 'iface', 'implements') +
+    edge('e4', 'repo', 'db', 'writes')
+);
+
+describe('DiagramSyncService', () => {
+  let repo: SymbolRepository;
+  let service: DiagramSyncService;
+
+  beforeEach(() => {
+    const db = initMemoryDatabase();
+    repo = new SqliteSymbolRepository(db);
+    service = new DiagramSyncService(repo);
+  });
+
+  afterEach(() => {
+    closeDatabase();
+  });
+
+  describe('preview', () => {
+    it('should plan creates with kind and level mapped from shapes', () => {
+      const preview = service.preview(parseDrawioXml(AUTH_DIAGRAM), { namespace: 'auth' });
+
+      const byId = new Map(preview.creates.map((c) => [c.symbolId, c]));
+      assert.strictEqual(preview.creates.length, 4);
+      assert.strictEqual(byId.get('auth/AuthService@1.0.0')?.kind, 'service');
+      assert.strictEqual(byId.get('auth/UserRepository@1.0.0')?.kind, 'service');
+      assert.strictEqual(byId.get('auth/BaseService@1.0.0')?.kind, 'class');
+      assert.strictEqual(byId.get('auth/IAuth@1.0.0')?.level, 'L0');
+      assert.strictEqual(preview.updates.length, 0);
+      assert.strictEqual(preview.conflicts.length, 0);
+    });
+
+    it('should skip cells outside the symbol model', () => {
+      const preview = service.preview(parseDrawioXml(AUTH_DIAGRAM), { namespace: 'auth' });
+
+      const skippedIds = preview.skipped.map((s) => s.cellId).sort();
+      assert.deepStrictEqual(skippedIds, ['db', 'e4']);
+    });
+
+    it('should not modify the registry', () => {
+      service.preview(parseDrawioXml(AUTH_DIAGRAM), { namespace: 'auth' });
+      assert.strictEqual(repo.list().length, 0);
+    });
+
+    it('should report duplicate symbols', () => {
+      const xml = drawio(shape('a', 'Logger', 'service') + shape('b', 'Logger', 'service'));
+      const preview = service.preview(parseDrawioXml(xml), { namespace: 'core' });
+
+      assert.strictEqual(preview.creates.length, 1);
+      assert.strictEqual(preview.conflicts.length, 1);
+      assert.strictEqual(preview.conflicts[0]?.reason, 'duplicate-symbol');
+      assert.strictEqual(preview.conflicts[0]?.elementId, 'b');
+    });
+
+    it('should report kind changes against the registry', () => {
+      repo.insert(createSymbol({ id: 'core/Logger@1.0.0', name: 'Logger', namespace: 'core', kind: 'class' }));
+      const xml = drawio(shape('a', 'Logger', 'service'));
+
+      const preview = service.preview(parseDrawioXml(xml), { namespace: 'core' });
+
+      assert.strictEqual(preview.conflicts.length, 1);
+      assert.strictEqual(preview.conflicts[0]?.reason, 'kind-changed');
+    });
+
+    it('should honour cyrus-namespace, cyrus-version and cyrus-tags', () => {
+      const xml = drawio(
+        shape('a', 'Mailer', 'service', 'cyrus-namespace="notify" cyrus-version="2.1.0" cyrus-tags="email, io"')
+      );
+
+      service.apply(parseDrawioXml(xml), { namespace: 'core', tags: ['drawn'] });
+
+      const symbol = repo.find('notify/Mailer@2.1.0');
+      assert.ok(symbol);
+      assert.deepStrictEqual(symbol.tags, ['drawn', 'email', 'io']);
+    });
+  });
+
+  describe('apply', () => {
+    it('should register symbols with relationships', () => {
+      const result = service.apply(parseDrawioXml(AUTH_DIAGRAM), { namespace: 'auth' });
+
+      assert.strictEqual(result.success, true);
+      assert.strictEqual(result.created.length, 4);
+
+      const svc = repo.find('auth/AuthService@1.0.0');
+      assert.ok(svc);
+      assert.strictEqual(svc.extends, 'auth/BaseService@1.0.0');
+      assert.deepStrictEqual(svc.implements, ['auth/IAuth@1.0.0']);
+      assert.deepStrictEqual(svc.dependencies, [
+        {
+          symbolId: 'auth/UserRepository@1.0.0',
+          name: 'userRepository',
+          kind: 'property',
+          optional: true,
+        },
+      ]);
+      assert.strictEqual(svc.origin, 'manual');
+      assert.strictEqual(svc.status, 'declared');
+    });
+
+    it('should be idempotent', () => {
+      const diagram = parseDrawioXml(AUTH_DIAGRAM);
+      service.apply(diagram, { namespace: 'auth' });
+
+      const preview = service.preview(diagram, { namespace: 'auth' });
+      assert.strictEqual(preview.creates.length, 0);
+      assert.strictEqual(preview.updates.length, 0);
+      assert.strictEqual(preview.unchanged.length, 4);
+    });
+
+    it('should roll back every write if one fails', () => {
+      const insert = repo.insert.bind(repo);
+      repo.insert = (symbol) => {
+        if (symbol.name === 'IAuth') throw new Error('disk full');
+        insert(symbol);
+      };
+
+      const result = service.apply(parseDrawioXml(AUTH_DIAGRAM), { namespace: 'auth' });
+      repo.insert = insert;
+
+      assert.strictEqual(result.success, false);
+      assert.deepStrictEqual(result.errors, [{ symbolId: 'auth/IAuth@1.0.0', message: 'disk full' }]);
+      assert.deepStrictEqual(result.created, []);
+      assert.strictEqual(repo.list().length, 0);
+    });
+
+    it('should merge new relationships into bound symbols', () => {
+      repo.insert(createSymbol({ id: 'auth/AuthService@1.0.0', name: 'AuthService', namespace: 'auth' }));
+      repo.insert(createSymbol({ id: 'auth/Clock@1.0.0', name: 'Clock', namespace: 'auth' }));
+      const xml = drawio(
+        shape('a', 'Anything', 'service', 'cyrus-symbolId="auth/AuthService@1.0.0"') +
+          shape('b', 'Clock', 'service') +
+          edge('e1', 'a', 'b', 'dependency')
+      );
+
+      const preview = service.preview(parseDrawioXml(xml), { namespace: 'auth' });
+      assert.strictEqual(preview.updates.length, 1);
+      assert.deepStrictEqual(preview.updates[0]?.changedFields, ['dependencies']);
+
+      const result = service.apply(parseDrawioXml(xml), { namespace: 'auth' });
+      assert.deepStrictEqual(result.updated, ['auth/AuthService@1.0.0']);
+      assert.strictEqual(repo.find('auth/AuthService@1.0.0')?.dependencies?.[0]?.kind, 'constructor');
+    });
+
+    it('should leave conflicting elements untouched', () => {
+      const xml = drawio(
+        shape('a', 'Orders', 'module') +
+          shape('b', 'Base1', 'class') +
+          shape('c', 'Base2', 'class') +
+          shape('d', 'Child', 'class') +
+          edge('e1', 'd', 'b', 'extends') +
+          edge('e2', 'd', 'c', 'extends')
+      );
+
+      const result = service.apply(parseDrawioXml(xml), { namespace: 'shop' });
+
+      assert.strictEqual(result.conflicts.length, 1);
+      assert.strictEqual(result.conflicts[0]?.reason, 'multiple-extends');
+      assert.strictEqual(repo.find('shop/Child@1.0.0'), undefined);
+      assert.ok(repo.find('shop/Orders@1.0.0'));
+    });
+  });
+});
+
+describe('graphToDiagram', () => {
+  let repo: SymbolRepository;
+
+  beforeEach(() => {
+    const db = initMemoryDatabase();
+    repo = new SqliteSymbolRepository(db);
+  });
+
+  afterEach(() => {
+    closeDatabase();
+  });
+
+  it('should draw one bound shape per symbol, laid out by level', () => {
+    repo.insert(createSymbol({ id: 'core/Id@1.0.0', name: 'Id', namespace: 'core', kind: 'type', level: 'L0' }));
+    repo.insert(createSymbol({ id: 'core/Auth@1.0.0', name: 'Auth', namespace: 'core', kind: 'service' }));
+
+    const diagram = graphToDiagram(new DependencyGraphService(repo).buildGraph());
+
+    assert.deepStrictEqual(
+      diagram.elements.map((e) => [e.id, e.symbolId, e.type, e.level]),
+      [
+        ['core/Auth@1.0.0', 'core/Auth@1.0.0', 'service', 'L1'],
+        ['core/Id@1.0.0', 'core/Id@1.0.0', 'type', 'L0'],
+      ]
+    );
+    assert.ok(diagram.elements[0]!.position.y < diagram.elements[1]!.position.y);
+  });
+
+  it('should re-import as unchanged', () => {
+    repo.insert(createSymbol({ id: 'core/Base@1.0.0', name: 'Base', namespace: 'core', kind: 'class' }));
+    repo.insert(createSymbol({ id: 'core/MAX_USERS@1.0.0', name: 'MAX_USERS', namespace: 'core', kind: 'constant', level: 'L0' }));
+    repo.insert(createSymbol({ id: 'core/Logger@1.0.0', name: 'Logger', namespace: 'core', kind: 'service' }));
+    repo.insert(
+      createSymbol({
+        id: 'core/Auth@1.0.0',
+        name: 'Auth',
+        namespace: 'core',
+        kind: 'service',
+        extends: 'core/Base@1.0.0',
+        dependencies: [{ symbolId: 'core/Logger@1.0.0', name: 'log', kind: 'property', optional: true }],
+        composes: [{ symbolId: 'core/MAX_USERS@1.0.0', fieldName: 'limits', multiplicity: '*' }],
+      })
+    );
+
+    const xml = writeDrawioXml(graphToDiagram(new DependencyGraphService(repo).buildGraph()));
+    const preview = new DiagramSyncService(repo).preview(parseDrawioXml(xml), { namespace: 'other' });
+
+    assert.strictEqual(preview.creates.length, 0);
+    assert.strictEqual(preview.updates.length, 0);
+    assert.strictEqual(preview.conflicts.length, 0);
+    assert.strictEqual(preview.unchanged.length, 4);
+  });
+});
+
+describe('diagram mapper', () => {
+  it('should derive symbol names from HTML labels', () => {
+    assert.strictEqual(labelToSymbolName('&lt;&lt;service&gt;&gt;&lt;br&gt;&lt;b&gt;user auth&lt;/b&gt;'), 'UserAuth');
+    assert.strictEqual(labelToSymbolName('JwtService'), 'JwtService');
+  });
+
+  it('should have no kind for infrastructure shapes', () => {
+    assert.strictEqual(shapeTypeToKind('database'), undefined);
+    assert.strictEqual(shapeTypeToKind('api'), 'contract');
+  });
+});
@@ -0,0 +1,585 @@
+/**
+ * Diagram Sync Service
+ *
+ * Synchronizes Draw.io diagrams into the symbol table.
+ * Elements become ComponentSymbols; relationships become
+ * dependencies, extends, implements, composes, aggregates and contains.
+ *
+ * Relationships are merged: the diagram adds or updates edges but never
+ * removes registry edges that it does not show.
+ */
+
+import type {
+  AbstractionLevel,
+  AggregationRef,
+  ComponentKind,
+  ComponentSymbol,
+  CompositionRef,
+  DependencyRef,
+  SemVer,
+  SymbolRepository,
+} from '../../domain/symbol/index.js';
+import {
+  ComponentSymbolSchema,
+  buildSymbolId,
+  orderByExtends,
+  parseSemVer,
+  parseSymbolId,
+  unique,
+  validateKindLevel,
+} from '../../domain/symbol/index.js';
+import type { Diagram, DiagramElement } from '../../infrastructure/drawio/index.js';
+import { extractErrorMessage } from '../../infrastructure/errors.js';
+import { SymbolTableService } from '../symbol-table/index.js';
+import {
+  shapeTypeToKind,
+  kindToShapeType,
+  diagramLevelToLevel,
+  labelToSymbolName,
+  toFieldName,
+  parseTagList,
+  toMultiplicity,
+} from './mapper.js';
+import type {
+  DiagramSyncService as IDiagramSyncService,
+  DiagramSyncOptions,
+  DiagramSyncPreview,
+  DiagramSyncResult,
+  DiagramSyncChange,
+  DiagramSyncConflict,
+  DiagramSyncSkip,
+} from './schema.js';
+
+// =============================================================================
+// Internal Types
+// =============================================================================
+
+/**
+ * An element resolved to a symbol identity.
+ */
+interface ResolvedElement {
+  element: DiagramElement;
+  symbolId: string;
+  name: string;
+  namespace: string;
+  version: SemVer;
+  kind: ComponentKind;
+  level: AbstractionLevel;
+  existing: ComponentSymbol | undefined;
+}
+
+/**
+ * Relationship fields collected from diagram edges for one element.
+ */
+interface RelationshipDraft {
+  extends: string[];
+  implements: string[];
+  composes: CompositionRef[];
+  aggregates: AggregationRef[];
+  dependencies: DependencyRef[];
+  contains: string[];
+}
+
+/**
+ * A change ready to be applied to the registry.
+ */
+interface PlannedChange {
+  change: DiagramSyncChange;
+  symbol?: ComponentSymbol;
+  updates?: Partial<ComponentSymbol>;
+}
+
+interface SyncPlan {
+  changes: PlannedChange[];
+  conflicts: DiagramSyncConflict[];
+  skipped: DiagramSyncSkip[];
+}
+
+const DEFAULT_VERSION: SemVer = { major: 1, minor: 0, patch: 0 };
+
+/** Thrown inside the apply transaction to undo writes after a failed change */
+class SyncRollback extends Error {}
+
+// =============================================================================
+// Service Class
+// =============================================================================
+
+export class DiagramSyncService implements IDiagramSyncService {
+  private readonly repo: SymbolRepository;
+  private readonly symbolTable: SymbolTableService;
+
+  /**
+   * Create a DiagramSyncService with dependency injection.
+   * @param repo - The symbol repository to use for data access
+   */
+  constructor(repo: SymbolRepository) {
+    this.repo = repo;
+    this.symbolTable = new SymbolTableService(repo);
+  }
+
+  /**
+   * Plan a sync without modifying the registry.
+   */
+  preview(diagram: Diagram, options: DiagramSyncOptions): DiagramSyncPreview {
+    const plan = this.plan(diagram, options);
+    const changes = plan.changes.map((p) => p.change);
+
+    return {
+      diagramId: diagram.id,
+      diagramName: diagram.name,
+      creates: changes.filter((c) => c.action === 'create'),
+      updates: changes.filter((c) => c.action === 'update'),
+      unchanged: changes.filter((c) => c.action === 'unchanged'),
+      conflicts: plan.conflicts,
+      skipped: plan.skipped,
+    };
+  }
+
+  /**
+   * Register new symbols and update existing ones, all or nothing: if any
+   * write fails, the others are rolled back and every error is reported.
+   * Conflicting elements are left untouched and reported.
+   */
+  apply(diagram: Diagram, options: DiagramSyncOptions): DiagramSyncResult {
+    const plan = this.plan(diagram, options);
+    const created: string[] = [];
+    const updated: string[] = [];
+    const errors: DiagramSyncResult['errors'] = [];
+
+    // Creates first so that updates never reference missing symbols
+    const ordered = [
+      ...orderByExtends(
+        plan.changes.filter((p) => p.change.action === 'create'),
+        (p) => ({ id: p.change.symbolId, extends: p.symbol?.extends })
+      ),
+      ...plan.changes.filter((p) => p.change.action === 'update'),
+    ];
+
+    try {
+      this.repo.transaction(() => {
+        this.applyChanges(ordered, created, updated, errors);
+        if (errors.length > 0) {
+          throw new SyncRollback();
+        }
+      });
+    } catch (error) {
+      if (!(error instanceof SyncRollback)) throw error;
+      created.length = 0;
+      updated.length = 0;
+    }
+
+    return {
+      success: errors.length === 0,
+      created,
+      updated,
+      conflicts: plan.conflicts,
+      skipped: plan.skipped,
+      errors,
+    };
+  }
+
+  /**
+   * Write planned changes, collecting each failure instead of stopping so
+   * that all of them can be reported.
+   */
+  private applyChanges(
+    ordered: PlannedChange[],
+    created: string[],
+    updated: string[],
+    errors: DiagramSyncResult['errors']
+  ): void {
+    for (const planned of ordered) {
+      const { symbolId } = planned.change;
+      try {
+        if (planned.symbol) {
+          this.symbolTable.register(planned.symbol);
+          created.push(symbolId);
+        } else if (planned.updates) {
+          this.symbolTable.update(symbolId, planned.updates);
+          updated.push(symbolId);
+        }
+      } catch (error) {
+        errors.push({
+          symbolId,
+          message: extractErrorMessage(error),
+        });
+      }
+    }
+  }
+
+  // ===========================================================================
+  // Planning
+  // ===========================================================================
+
+  private plan(diagram: Diagram, options: DiagramSyncOptions): SyncPlan {
+    const conflicts: DiagramSyncConflict[] = [];
+    const skipped: DiagramSyncSkip[] = [];
+
+    // Element ID → resolved symbol (usable as a relationship endpoint)
+    const resolved = new Map<string, ResolvedElement>();
+    // Element IDs whose symbols will be created or updated
+    const syncable = new Set<string>();
+    const claimed = new Map<string, string>();
+
+    for (const element of diagram.elements) {
+      const kind = shapeTypeToKind(element.type);
+      const level = diagramLevelToLevel(element.level);
+      if (!kind || !level) {
+        skipped.push({
+          cellId: element.id,
+          reason: `Shape '${element.type}' at level '${element.level}' has no symbol table equivalent`,
+        });
+        continue;
+      }
+
+      if (!validateKindLevel(kind, level)) {
+        conflicts.push({
+          elementId: element.id,
+          reason: 'kind-level-mismatch',
+          message: `Shape '${element.type}' maps to kind '${kind}', which is not valid for level '${level}'`,
+        });
+        continue;
+      }
+
+      const identity = this.resolveIdentity(element, options);
+      if (!identity) {
+        conflicts.push({
+          elementId: element.id,
+          ...(element.symbolId ? { symbolId: element.symbolId } : {}),
+          reason: 'invalid-symbol',
+          message: element.symbolId
+            ? `Invalid cyrus-symbolId '${element.symbolId}'`
+            : 'Element has no label to derive a symbol name from',
+        });
+        continue;
+      }
+
+      const existing = this.repo.find(identity.symbolId);
+      // Kinds without a dedicated shape (constant, function) are drawn with
+      // a stand-in shape; keep the registry kind when the shape matches it.
+      const boundKind =
+        existing && kindToShapeType(existing.kind) === element.type ? existing.kind : kind;
+      resolved.set(element.id, { element, ...identity, kind: boundKind, level, existing });
+
+      const owner = claimed.get(identity.symbolId);
+      if (owner) {
+        conflicts.push({
+          elementId: element.id,
+          symbolId: identity.symbolId,
+          reason: 'duplicate-symbol',
+          message: `Symbol '${identity.symbolId}' is already mapped from element '${owner}'`,
+        });
+        continue;
+      }
+      claimed.set(identity.symbolId, element.id);
+
+      if (existing && existing.kind !== boundKind) {
+        conflicts.push({
+          elementId: element.id,
+          symbolId: identity.symbolId,
+          reason: 'kind-changed',
+          message: `Registry has kind '${existing.kind}' but diagram shows '${boundKind}'`,
+        });
+        continue;
+      }
+
+      if (existing && existing.level !== level) {
+        conflicts.push({
+          elementId: element.id,
+          symbolId: identity.symbolId,
+          reason: 'level-changed',
+          message: `Registry has level '${existing.level}' but diagram shows '${level}'`,
+        });
+        continue;
+      }
+
+      syncable.add(element.id);
+    }
+
+    const drafts = this.collectRelationships(diagram, resolved, syncable, skipped);
+
+    const changes: PlannedChange[] = [];
+    for (const elementId of syncable) {
+      const entry = resolved.get(elementId);
+      const draft = drafts.get(elementId);
+      if (!entry || !draft) continue;
+
+      const extendsIds = unique(draft.extends);
+      if (extendsIds.length > 1) {
+        conflicts.push({
+          elementId,
+          symbolId: entry.symbolId,
+          reason: 'multiple-extends',
+          message: `Element extends more than one symbol: ${extendsIds.join(', ')}`,
+        });
+        continue;
+      }
+
+      const planned = entry.existing
+        ? this.planUpdate(entry, entry.existing, draft, options)
+        : this.planCreate(entry, draft, options);
+
+      if ('conflict' in planned) {
+        conflicts.push(planned.conflict);
+      } else {
+        changes.push(planned);
+      }
+    }
+
+    return { changes, conflicts, skipped };
+  }
+
+  /**
+   * Resolve the symbol ID, name, namespace and version for an element.
+   * An explicit `cyrus-symbolId` binding takes precedence over the label.
+   */
+  private resolveIdentity(
+    element: DiagramElement,
+    options: DiagramSyncOptions
+  ): Pick<ResolvedElement, 'symbolId' | 'name' | 'namespace' | 'version'> | null {
+    if (element.symbolId) {
+      const parsed = parseSymbolId(element.symbolId);
+      const version = parsed ? parseSemVer(parsed.version) : null;
+      if (!parsed || !version) return null;
+      return {
+        symbolId: element.symbolId,
+        name: parsed.name,
+        namespace: parsed.namespace,
+        version,
+      };
+    }
+
+    const name = labelToSymbolName(element.name);
+    if (!name) return null;
+
+    const props = element.customProperties ?? {};
+    const namespace = props['cyrus-namespace'] ?? options.namespace;
+    const versionStr = props['cyrus-version'];
+    const version =
+      (versionStr ? parseSemVer(versionStr) : null) ?? options.version ?? DEFAULT_VERSION;
+
+    return {
+      symbolId: buildSymbolId(namespace, name, version),
+      name,
+      namespace,
+      version,
+    };
+  }
+
+  /**
+   * Translate diagram edges and nesting into relationship drafts,
+   * keyed by source element ID.
+   */
+  private collectRelationships(
+    diagram: Diagram,
+    resolved: Map<string, ResolvedElement>,
+    syncable: Set<string>,
+    skipped: DiagramSyncSkip[]
+  ): Map<string, RelationshipDraft> {
+    const drafts = new Map<string, RelationshipDraft>();
+    for (const elementId of syncable) {
+      drafts.set(elementId, {
+        extends: [],
+        implements: [],
+        composes: [],
+        aggregates: [],
+        dependencies: [],
+        contains: [],
+      });
+    }
+
+    for (const rel of diagram.relationships) {
+      const source = resolved.get(rel.sourceId);
+      const target = resolved.get(rel.targetId);
+      if (!source || !target) {
+        skipped.push({
+          cellId: rel.id,
+          reason: 'Relationship endpoints are not symbols',
+        });
+        continue;
+      }
+
+      const draft = drafts.get(rel.sourceId);
+      if (!draft || source.symbolId === target.symbolId) continue;
+
+      switch (rel.type) {
+        case 'dependency':
+          draft.dependencies.push({
+            symbolId: target.symbolId,
+            name: toFieldName(target.name, rel.label),
+            kind: rel.injectionKind ?? 'constructor',
+            optional: rel.optional ?? false,
+          });
+          break;
+        case 'extends':
+          draft.extends.push(target.symbolId);
+          break;
+        case 'implements':
+          draft.implements.push(target.symbolId);
+          break;
+        case 'composition':
+          draft.composes.push({
+            symbolId: target.symbolId,
+            fieldName: toFieldName(target.name, rel.label),
+            multiplicity: toMultiplicity(rel.targetLabel),
+          });
+          break;
+        case 'aggregation':
+          draft.aggregates.push({
+            symbolId: target.symbolId,
+            fieldName: toFieldName(target.name, rel.label),
+            multiplicity: toMultiplicity(rel.targetLabel),
+          });
+          break;
+        case 'contains':
+          draft.contains.push(target.symbolId);
+          break;
+        default:
+          skipped.push({
+            cellId: rel.id,
+            reason: `'${rel.type}' relationships are not stored in the symbol table`,
+          });
+      }
+    }
+
+    // Nested shapes (containers/swimlanes) imply C4 containment
+    for (const child of resolved.values()) {
+      const parentId = child.element.parentId;
+      if (!parentId) continue;
+      const parent = resolved.get(parentId);
+      const draft = drafts.get(parentId);
+      if (parent && draft && parent.symbolId !== child.symbolId) {
+        draft.contains.push(child.symbolId);
+      }
+    }
+
+    return drafts;
+  }
+
+  private planCreate(
+    entry: ResolvedElement,
+    draft: RelationshipDraft,
+    options: DiagramSyncOptions
+  ): PlannedChange | { conflict: DiagramSyncConflict } {
+    const props = entry.element.customProperties ?? {};
+    const now = new Date();
+
+    const symbol: ComponentSymbol = {
+      id: entry.symbolId,
+      name: entry.name,
+      namespace: entry.namespace,
+      level: entry.level,
+      kind: entry.kind,
+      language: 'typescript',
+      version: entry.version,
+      tags: unique([...(options.tags ?? []), ...parseTagList(props['cyrus-tags'])]),
+      description: props['cyrus-description'] ?? '',
+      createdAt: now,
+      updatedAt: now,
+      status: 'declared',
+      origin: 'manual',
+    };
+
+    const extendsId = draft.extends[0];
+    if (extendsId) symbol.extends = extendsId;
+    if (draft.implements.length > 0) symbol.implements = unique(draft.implements);
+    if (draft.composes.length > 0) symbol.composes = mergeBy([], draft.composes, (r) => r.symbolId);
+    if (draft.aggregates.length > 0) symbol.aggregates = mergeBy([], draft.aggregates, (r) => r.symbolId);
+    if (draft.dependencies.length > 0) symbol.dependencies = mergeBy([], draft.dependencies, (r) => r.symbolId);
+    if (draft.contains.length > 0) symbol.contains = unique(draft.contains);
+
+    const parseResult = ComponentSymbolSchema.safeParse(symbol);
+    if (!parseResult.success) {
+      return {
+        conflict: {
+          elementId: entry.element.id,
+          symbolId: entry.symbolId,
+          reason: 'invalid-symbol',
+          message: parseResult.error.errors.map((e) => e.message).join(', '),
+        },
+      };
+    }
+
+    return {
+      change: toChange('create', entry, []),
+      symbol,
+    };
+  }
+
+  private planUpdate(
+    entry: ResolvedElement,
+    existing: ComponentSymbol,
+    draft: RelationshipDraft,
+    options: DiagramSyncOptions
+  ): PlannedChange {
+    const props = entry.element.customProperties ?? {};
+    const candidate: Partial<ComponentSymbol> = {
+      tags: unique([
+        ...existing.tags,
+        ...(options.tags ?? []),
+        ...parseTagList(props['cyrus-tags']),
+      ]),
+      implements: unique([...(existing.implements ?? []), ...draft.implements]),
+      composes: mergeBy(existing.composes ?? [], draft.composes, (r) => r.symbolId),
+      aggregates: mergeBy(existing.aggregates ?? [], draft.aggregates, (r) => r.symbolId),
+      dependencies: mergeBy(existing.dependencies ?? [], draft.dependencies, (r) => r.symbolId),
+      contains: unique([...(existing.contains ?? []), ...draft.contains]),
+    };
+
+    const extendsId = draft.extends[0];
+    if (extendsId) candidate.extends = extendsId;
+    const description = props['cyrus-description'];
+    if (description !== undefined) candidate.description = description;
+
+    // Keep only fields that actually change, ignoring empty arrays for unset fields
+    const updates: Partial<ComponentSymbol> = {};
+    const changedFields: string[] = [];
+    for (const [field, value] of Object.entries(candidate) as [keyof ComponentSymbol, unknown][]) {
+      const current = existing[field];
+      if (Array.isArray(value) && value.length === 0 && current === undefined) continue;
+      if (JSON.stringify(value) === JSON.stringify(current)) continue;
+      (updates as Record<string, unknown>)[field] = value;
+      changedFields.push(field);
+    }
+
+    if (changedFields.length === 0) {
+      return { change: toChange('unchanged', entry, []) };
+    }
+
+    return {
+      change: toChange('update', entry, changedFields),
+      updates,
+    };
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function toChange(
+  action: DiagramSyncChange['action'],
+  entry: ResolvedElement,
+  changedFields: string[]
+): DiagramSyncChange {
+  return {
+    action,
+    elementId: entry.element.id,
+    symbolId: entry.symbolId,
+    name: entry.name,
+    kind: entry.kind,
+    level: entry.level,
+    changedFields,
+  };
+}
+
+/**
+ * Merge two lists keyed by `key`. Existing order is preserved;
+ * incoming entries replace matches and new entries are appended.
+ */
+function mergeBy<T>(existing: T[], incoming: T[], key: (item: T) => string): T[] {
+  const merged = new Map<string, T>();
+  for (const item of existing) merged.set(key(item), item);
+  for (const item of incoming) merged.set(key(item), item);
+  return [...merged.values()];
+}
@@ -0,0 +1,17 @@
+/**
+ * Impact Analysis Service
+ *
+ * Previews which symbols and generated files a proposed symbol update
+ * or removal would affect.
+ */
+
+// Service (primary API)
+export { ImpactAnalysisService } from './service.js';
+
+// Commonly used types
+export type {
+  ImpactEffect,
+  ImpactedSymbol,
+  ImpactReport,
+  ProposedChange,
+} from './schema.js';
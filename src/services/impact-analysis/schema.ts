@@ -0,0 +1,75 @@
+/**
+ * Impact Analysis Schema
+ *
+ * Types for previewing how a proposed symbol change affects the rest of
+ * the registry before it is committed.
+ */
+
+import type {
+  ComponentSymbol,
+  SymbolChange,
+  VersionBump,
+} from '../../domain/symbol/index.js';
+import type { GraphEdge } from '../dependency-graph/schema.js';
+
+// =============================================================================
+// Service Interface
+// =============================================================================
+
+/**
+ * Impact analysis service public API contract.
+ */
+export interface ImpactAnalysisService {
+  analyze(symbolId: string, change: ProposedChange): ImpactReport;
+}
+
+// =============================================================================
+// Proposed Change
+// =============================================================================
+
+/**
+ * A change to a registered symbol that has not been committed yet.
+ */
+export type ProposedChange =
+  | { type: 'update'; updates: Partial<ComponentSymbol> }
+  | { type: 'remove' };
+
+// =============================================================================
+// Impact Report
+// =============================================================================
+
+/**
+ * How a dependent is affected.
+ *
+ * - breaks: its code uses the changed API, which no longer compiles
+ * - regenerate: it still compiles but its generated code is stale
+ */
+export type ImpactEffect = 'breaks' | 'regenerate';
+
+/**
+ * A symbol reached from the changed symbol through reverse relationships.
+ */
+export interface ImpactedSymbol {
+  symbolId: string;
+  /** Relationship edges from this symbol to the changed symbol, in order */
+  path: GraphEdge[];
+  effect: ImpactEffect;
+  /** Generated files that would change (from the last generation) */
+  generatedFiles: string[];
+}
+
+/**
+ * Everything a proposed change would affect.
+ */
+export interface ImpactReport {
+  symbolId: string;
+  changeType: ProposedChange['type'];
+  /** Changes to the symbol itself (a removal is a single major change) */
+  changes: SymbolChange[];
+  /** SemVer bump the changes require */
+  requiredBump: VersionBump;
+  /** Transitive dependents, nearest first */
+  affected: ImpactedSymbol[];
+  /** Every generated file that would change, including the symbol's own */
+  generatedFiles: string[];
+}
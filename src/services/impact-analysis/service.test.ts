@@ -0,0 +1,176 @@
+/**
+ * Impact Analysis Service Tests
+ *
+ * Integration tests previewing symbol changes against an in-memory registry.
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import {
+  initMemoryDatabase,
+  closeDatabase,
+} from '../../repositories/persistence.js';
+import { SqliteSymbolRepository } from '../../repositories/symbol-repository.js';
+import { createSymbol, createDependency } from '../../testing/fixtures.js';
+import type { SymbolRepository } from '../../domain/symbol/index.js';
+import { ImpactAnalysisService } from './service.js';
+
+const LOGGER = 'core/Logger@1.0.0';
+const AUTH = 'auth/AuthService@1.0.0';
+const ADMIN = 'auth/AdminService@1.0.0';
+const API = 'api/AuthController@1.0.0';
+const AUDIT = 'audit/AuditService@1.0.0';
+const MODULE = 'auth/AuthModule@1.0.0';
+
+function generated(path: string): ReturnType<typeof createSymbol>['generationMeta'] {
+  return {
+    templateId: 'typescript/generation-gap',
+    generatedAt: new Date(),
+    contentHash: 'abc',
+    generatedPath: path,
+  };
+}
+
+describe('ImpactAnalysisService', () => {
+  let repo: SymbolRepository;
+  let service: ImpactAnalysisService;
+
+  beforeEach(() => {
+    const db = initMemoryDatabase();
+    repo = new SqliteSymbolRepository(db);
+    service = new ImpactAnalysisService(repo);
+
+    // AuthModule ⊃ AuthService → Logger, AdminService ▷ AuthService,
+    // AuthController → AuthService, AuditService → Logger@^1.0.0
+    const logger = createDependency({ symbolId: LOGGER, name: 'logger', kind: 'constructor' });
+    const auth = createDependency({ symbolId: AUTH, name: 'auth', kind: 'constructor' });
+    repo.insert(
+      createSymbol({
+        id: LOGGER,
+        name: 'Logger',
+        namespace: 'core',
+        generationMeta: generated('/out/core/Logger.generated.ts'),
+      })
+    );
+    repo.insert(
+      createSymbol({
+        id: AUTH,
+        name: 'AuthService',
+        namespace: 'auth',
+        dependencies: [logger],
+        generationMeta: generated('/out/auth/AuthService.generated.ts'),
+      })
+    );
+    repo.insert(
+      createSymbol({
+        id: ADMIN,
+        name: 'AdminService',
+        namespace: 'auth',
+        kind: 'class',
+        extends: AUTH,
+        generationMeta: generated('/out/auth/AdminService.generated.ts'),
+      })
+    );
+    repo.insert(
+      createSymbol({ id: API, name: 'AuthController', namespace: 'api', dependencies: [auth] })
+    );
+    repo.insert(
+      createSymbol({
+        id: AUDIT,
+        name: 'AuditService',
+        namespace: 'audit',
+        dependencies: [{ ...logger, symbolId: 'core/Logger@^1.0.0' }],
+      })
+    );
+    repo.insert(
+      createSymbol({
+        id: MODULE,
+        name: 'AuthModule',
+        namespace: 'auth',
+        level: 'L2',
+        kind: 'module',
+        contains: [AUTH],
+      })
+    );
+  });
+
+  afterEach(() => {
+    closeDatabase();
+  });
+
+  it('should report breaking and regenerate effects for a removal', () => {
+    const report = service.analyze(LOGGER, { type: 'remove' });
+
+    assert.strictEqual(report.requiredBump, 'major');
+    assert.deepStrictEqual(
+      report.affected.map((a) => [a.symbolId, a.effect]),
+      [
+        [AUDIT, 'breaks'],
+        [AUTH, 'breaks'],
+        [API, 'regenerate'],
+        [ADMIN, 'breaks'],
+        [MODULE, 'regenerate'],
+      ]
+    );
+  });
+
+  it('should record the edge path to each dependent', () => {
+    const report = service.analyze(LOGGER, { type: 'remove' });
+    const api = report.affected.find((a) => a.symbolId === API);
+
+    assert.deepStrictEqual(
+      api?.path.map((edge) => [edge.from, edge.type, edge.to]),
+      [
+        [API, 'dependency', AUTH],
+        [AUTH, 'dependency', LOGGER],
+      ]
+    );
+  });
+
+  it('should list the generated files that would change', () => {
+    const report = service.analyze(LOGGER, { type: 'remove' });
+
+    assert.deepStrictEqual(report.generatedFiles, [
+      '/out/core/Logger.generated.ts',
+      '/out/auth/AuthService.generated.ts',
+      '/out/auth/AdminService.generated.ts',
+    ]);
+  });
+
+  it('should only require regeneration for minor changes', () => {
+    const report = service.analyze(LOGGER, {
+      type: 'update',
+      updates: { implements: ['core/Flushable@1.0.0'] },
+    });
+
+    assert.strictEqual(report.requiredBump, 'minor');
+    assert.strictEqual(report.affected.length, 5);
+    assert.ok(report.affected.every((a) => a.effect === 'regenerate'));
+  });
+
+  it('should not reach dependents for documentation changes', () => {
+    const report = service.analyze(LOGGER, {
+      type: 'update',
+      updates: { description: 'Writes log entries' },
+    });
+
+    assert.strictEqual(report.requiredBump, 'patch');
+    assert.deepStrictEqual(report.affected, []);
+    assert.deepStrictEqual(report.generatedFiles, ['/out/core/Logger.generated.ts']);
+  });
+
+  it('should not change the registry', () => {
+    service.analyze(LOGGER, { type: 'remove' });
+    service.analyze(AUTH, { type: 'update', updates: { dependencies: [] } });
+
+    assert.ok(repo.find(LOGGER));
+    assert.strictEqual(repo.find(AUTH)?.dependencies?.length, 1);
+  });
+
+  it('should throw for an unknown symbol', () => {
+    assert.throws(
+      () => service.analyze('core/Missing@1.0.0', { type: 'remove' }),
+      /Symbol 'core\/Missing@1.0.0' not found/
+    );
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Impact Analysis Service
+ *
+ * Previews a proposed update or removal of a symbol: what changes, which
+ * symbols depend on it (transitively), whether each dependent breaks or
+ * only needs regeneration, and which generated files would change.
+ */
+
+import type {
+  ComponentSymbol,
+  SymbolChange,
+  SymbolRepository,
+  VersionLockRepository,
+} from '../../domain/symbol/index.js';
+import { diffSymbols, getRequiredBump } from '../../domain/symbol/index.js';
+import { buildDependencyGraph } from '../dependency-graph/algorithms.js';
+import type { GraphEdge } from '../dependency-graph/schema.js';
+import { ReferenceResolver } from '../symbol-table/index.js';
+import type {
+  ImpactAnalysisService as IImpactAnalysisService,
+  ImpactEffect,
+  ImpactedSymbol,
+  ImpactReport,
+  ProposedChange,
+} from './schema.js';
+
+// =============================================================================
+// Service Class
+// =============================================================================
+
+export class ImpactAnalysisService implements IImpactAnalysisService {
+  private readonly repo: SymbolRepository;
+  private readonly resolver: ReferenceResolver;
+
+  /**
+   * @param repo - Symbol repository to analyze
+   * @param locks - Version locks, so range references resolve as they would at generate time
+   */
+  constructor(repo: SymbolRepository, locks?: VersionLockRepository) {
+    this.repo = repo;
+    this.resolver = new ReferenceResolver(repo, locks);
+  }
+
+  /**
+   * Analyze the impact of a proposed change without applying it.
+   *
+   * Changes that need at least a minor bump reach every transitive dependent.
+   * With a major change, direct dependents (and subclasses of breaking
+   * symbols) break; everything else only needs regeneration. Containment is
+   * not a code reference, so containers are never broken.
+   *
+   * @throws Error if the symbol does not exist
+   */
+  analyze(symbolId: string, change: ProposedChange): ImpactReport {
+    const symbol = this.repo.find(symbolId);
+    if (!symbol) {
+      throw new Error(`Symbol '${symbolId}' not found`);
+    }
+
+    const changes: SymbolChange[] =
+      change.type === 'remove'
+        ? [{ field: 'symbol', description: `Removed symbol '${symbolId}'`, severity: 'major' }]
+        : diffSymbols(symbol, { ...symbol, ...change.updates, id: symbol.id });
+    const requiredBump = getRequiredBump(changes);
+
+    const affected =
+      requiredBump === 'major' || requiredBump === 'minor'
+        ? this.findDependents(symbolId, requiredBump === 'major')
+        : [];
+
+    const generatedFiles = new Set(changes.length > 0 ? getGeneratedFiles(symbol) : []);
+    for (const impacted of affected) {
+      impacted.generatedFiles.forEach((file) => generatedFiles.add(file));
+    }
+
+    return {
+      symbolId,
+      changeType: change.type,
+      changes,
+      requiredBump,
+      affected,
+      generatedFiles: Array.from(generatedFiles),
+    };
+  }
+
+  // ===========================================================================
+  // Internal Helpers
+  // ===========================================================================
+
+  /**
+   * Walk relationships backwards from a symbol, breadth first, recording the
+   * shortest path to each dependent. A dependent first reached through a
+   * non-breaking path is revisited if a breaking path to it turns up.
+   */
+  private findDependents(symbolId: string, breaking: boolean): ImpactedSymbol[] {
+    const symbols = this.repo.list();
+    const byId = new Map(symbols.map((s) => [s.id, s]));
+    const incoming = this.buildIncomingEdges(symbols);
+
+    const impacts = new Map<string, ImpactedSymbol>();
+    const queue = [symbolId];
+
+    while (queue.length > 0) {
+      const targetId = queue.shift()!;
+      const target = impacts.get(targetId);
+
+      for (const edge of incoming.get(targetId) ?? []) {
+        if (edge.from === symbolId) continue;
+
+        const effect: ImpactEffect =
+          breaking &&
+          edge.type !== 'contains' &&
+          (target === undefined || (edge.type === 'extends' && target.effect === 'breaks'))
+            ? 'breaks'
+            : 'regenerate';
+
+        const existing = impacts.get(edge.from);
+        if (existing && (existing.effect === 'breaks' || effect === 'regenerate')) continue;
+
+        const dependent = byId.get(edge.from);
+        impacts.set(edge.from, {
+          symbolId: edge.from,
+          path: [edge, ...(target?.path ?? [])],
+          effect,
+          generatedFiles: dependent ? getGeneratedFiles(dependent) : [],
+        });
+        queue.push(edge.from);
+      }
+    }
+
+    return Array.from(impacts.values()).sort(
+      (a, b) => a.path.length - b.path.length || a.symbolId.localeCompare(b.symbolId)
+    );
+  }
+
+  /**
+   * Index relationship edges by the symbol they resolve to.
+   */
+  private buildIncomingEdges(symbols: ComponentSymbol[]): Map<string, GraphEdge[]> {
+    const graph = buildDependencyGraph(symbols);
+    const incoming = new Map<string, GraphEdge[]>();
+
+    for (const edges of graph.edges.values()) {
+      for (const edge of edges) {
+        const targetId = this.resolver.resolve(edge.to)?.id ?? edge.to;
+        const existing = incoming.get(targetId) ?? [];
+        existing.push(edge);
+        incoming.set(targetId, existing);
+      }
+    }
+
+    return incoming;
+  }
+}
+
+/**
+ * Get the generated files recorded for a symbol.
+ */
+function getGeneratedFiles(symbol: ComponentSymbol): string[] {
+  return symbol.generationMeta ? [symbol.generationMeta.generatedPath] : [];
+}
@@ -0,0 +1,11 @@
+/**
+ * Mermaid Import Service
+ *
+ * Imports Mermaid flowchart, classDiagram and C4 text into the symbol table.
+ */
+
+// Service (primary API)
+export { MermaidImportService } from './service.js';
+
+// Commonly used types
+export type { MermaidImportOptions } from './schema.js';
@@ -0,0 +1,51 @@
+/**
+ * Mermaid Import Schema
+ *
+ * Types for importing Mermaid diagram text into the symbol table.
+ */
+
+import type { SemVer } from '../../domain/symbol/index.js';
+import type {
+  DiagramSyncPreview,
+  DiagramSyncResult,
+} from '../diagram-sync/index.js';
+
+// =============================================================================
+// Service Interface
+// =============================================================================
+
+/**
+ * Mermaid import service public API contract.
+ *
+ * Parses flowchart, classDiagram and C4 text and registers the
+ * described components through the diagram sync service.
+ */
+export interface MermaidImportService {
+  preview(text: string, options?: MermaidImportOptions): DiagramSyncPreview;
+  import(text: string, options?: MermaidImportOptions): DiagramSyncResult;
+}
+
+// =============================================================================
+// Import Options
+// =============================================================================
+
+/**
+ * Options for Mermaid import.
+ *
+ * Every option can also be set inside the text with a directive, e.g.
+ * `%% cyrus: namespace=auth version=1.2.0 tags=auth,core`.
+ * Explicit options take precedence over directives.
+ */
+export interface MermaidImportOptions {
+  /** Namespace for nodes that do not declare one */
+  namespace?: string;
+
+  /** Version for nodes that do not declare one (default: 1.0.0) */
+  version?: SemVer;
+
+  /** Tags added to every imported symbol */
+  tags?: string[];
+
+  /** Diagram name used in previews */
+  name?: string;
+}
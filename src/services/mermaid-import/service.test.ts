@@ -0,0 +1,107 @@
+/**
+ * Mermaid Import Service Tests
+ *
+ * Integration tests for importing Mermaid text into an in-memory symbol table.
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import {
+  initMemoryDatabase,
+  closeDatabase,
+} from '../../repositories/persistence.js';
+import { SqliteSymbolRepository } from '../../repositories/symbol-repository.js';
+import type { SymbolRepository } from '../../domain/symbol/index.js';
+import { MermaidImportService } from './service.js';
+
+describe('MermaidImportService', () => {
+  let repo: SymbolRepository;
+  let service: MermaidImportService;
+
+  beforeEach(() => {
+    const db = initMemoryDatabase();
+    repo = new SqliteSymbolRepository(db);
+    service = new MermaidImportService(repo);
+  });
+
+  afterEach(() => {
+    closeDatabase();
+  });
+
+  it('should import a class diagram using cyrus directives', () => {
+    const text = `
+%% cyrus: namespace=auth version=2.0.0 tags=auth,core
+classDiagram
+    class IUserRepository {
+        <<interface>>
+    }
+    class AuthService {
+        <<service>>
+    }
+    AuthService ..> IUserRepository : users
+    IUserRepository <|.. UserRepository
+    `;
+
+    const result = service.import(text);
+
+    assert.strictEqual(result.success, true);
+    assert.strictEqual(result.created.length, 3);
+
+    const auth = repo.find('auth/AuthService@2.0.0');
+    assert.ok(auth);
+    assert.deepStrictEqual(auth.tags, ['auth', 'core']);
+    assert.deepStrictEqual(auth.dependencies, [
+      { symbolId: 'auth/IUserRepository@2.0.0', name: 'users', kind: 'constructor', optional: false },
+    ]);
+    assert.deepStrictEqual(repo.find('auth/UserRepository@2.0.0')?.implements, [
+      'auth/IUserRepository@2.0.0',
+    ]);
+    assert.strictEqual(repo.find('auth/IUserRepository@2.0.0')?.kind, 'type');
+  });
+
+  it('should import C4 containers with containment', () => {
+    const text = `
+C4Container
+    Person(user, "Customer")
+    System_Boundary(shop, "Shop") {
+        Container(web, "Web App", "React")
+        ContainerDb(db, "Orders DB", "Postgres")
+    }
+    Rel(user, web, "Uses")
+    Rel(web, db, "Reads")
+    `;
+
+    const preview = service.preview(text, { namespace: 'shop' });
+
+    assert.deepStrictEqual(
+      preview.creates.map((c) => [c.symbolId, c.kind]),
+      [
+        ['shop/Shop@1.0.0', 'subsystem'],
+        ['shop/WebApp@1.0.0', 'module'],
+      ]
+    );
+    assert.deepStrictEqual(
+      preview.skipped.map((s) => s.cellId).sort(),
+      ['db', 'edge-0', 'edge-1', 'user']
+    );
+
+    service.import(text, { namespace: 'shop' });
+    assert.deepStrictEqual(repo.find('shop/Shop@1.0.0')?.contains, ['shop/WebApp@1.0.0']);
+  });
+
+  it('should prefer explicit options over directives', () => {
+    const text = `
+%% cyrus: namespace=ignored
+flowchart TD
+    A([Mailer])
+    `;
+
+    const preview = service.preview(text, { namespace: 'notify' });
+
+    assert.strictEqual(preview.creates[0]?.symbolId, 'notify/Mailer@1.0.0');
+  });
+
+  it('should require a namespace', () => {
+    assert.throws(() => service.preview('flowchart TD\n    A[A]'), /No namespace given/);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Mermaid Import Service
+ *
+ * Imports Mermaid flowchart, classDiagram and C4 text into the symbol table.
+ * Parsing is delegated to the Mermaid infrastructure parser; registration
+ * reuses the diagram sync service so Mermaid and Draw.io behave identically.
+ */
+
+import type { SymbolRepository } from '../../domain/symbol/index.js';
+import { parseSemVer } from '../../domain/symbol/index.js';
+import { parseMermaidText, parseCyrusDirectives } from '../../infrastructure/mermaid/index.js';
+import {
+  DiagramSyncService,
+  type DiagramSyncOptions,
+  type DiagramSyncPreview,
+  type DiagramSyncResult,
+} from '../diagram-sync/index.js';
+import type {
+  MermaidImportService as IMermaidImportService,
+  MermaidImportOptions,
+} from './schema.js';
+
+// =============================================================================
+// Service Class
+// =============================================================================
+
+export class MermaidImportService implements IMermaidImportService {
+  private readonly syncService: DiagramSyncService;
+
+  /**
+   * Create a MermaidImportService with dependency injection.
+   * @param repo - The symbol repository to use for data access
+   */
+  constructor(repo: SymbolRepository) {
+    this.syncService = new DiagramSyncService(repo);
+  }
+
+  /**
+   * Plan an import without modifying the registry.
+   */
+  preview(text: string, options: MermaidImportOptions = {}): DiagramSyncPreview {
+    const diagram = parseMermaidText(text, options.name);
+    return this.syncService.preview(diagram, resolveSyncOptions(text, options));
+  }
+
+  /**
+   * Register or update the symbols described by the text.
+   */
+  import(text: string, options: MermaidImportOptions = {}): DiagramSyncResult {
+    const diagram = parseMermaidText(text, options.name);
+    return this.syncService.apply(diagram, resolveSyncOptions(text, options));
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Merge explicit options with `%% cyrus:` directives from the text.
+ */
+function resolveSyncOptions(text: string, options: MermaidImportOptions): DiagramSyncOptions {
+  const directives = parseCyrusDirectives(text);
+
+  const namespace = options.namespace ?? directives['namespace'];
+  if (namespace === undefined) {
+    throw new Error(
+      "No namespace given: pass one or add '%% cyrus: namespace=<name>' to the diagram"
+    );
+  }
+
+  const syncOptions: DiagramSyncOptions = { namespace };
+
+  const directiveVersion = directives['version'];
+  if (options.version) {
+    syncOptions.version = options.version;
+  } else if (directiveVersion) {
+    const version = parseSemVer(directiveVersion);
+    if (!version) {
+      throw new Error(`Invalid version directive '${directiveVersion}'`);
+    }
+    syncOptions.version = version;
+  }
+
+  const tags = options.tags ?? directives['tags']?.split(',').map((t) => t.trim()).filter(Boolean);
+  if (tags && tags.length > 0) {
+    syncOptions.tags = tags;
+  }
+
+  return syncOptions;
+}
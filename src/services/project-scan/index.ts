@@ -0,0 +1,13 @@
+/**
+ * Project Scan Service
+ *
+ * Reverse-engineers symbols from an existing TypeScript codebase: exported
+ * classes, interfaces, enums and type aliases become symbols with source
+ * locations, heritage relationships and constructor dependencies.
+ */
+
+// Service (primary API)
+export { ProjectScanService, createProjectScanService } from './service.js';
+
+// Commonly used types
+export type { ProjectScanOptions, ProjectScanResult } from './schema.js';
@@ -0,0 +1,63 @@
+/**
+ * Project Scan Schema
+ *
+ * Types for reverse-engineering symbols from an existing TypeScript codebase.
+ */
+
+import type { SemVer } from '../../domain/symbol/index.js';
+
+// =============================================================================
+// Service Interface
+// =============================================================================
+
+/**
+ * Project scan service public API contract.
+ *
+ * Registers a symbol for every exported class, interface, enum and type
+ * alias in the project, and updates symbols whose source has changed.
+ */
+export interface ProjectScanService {
+  scan(options?: ProjectScanOptions): ProjectScanResult;
+}
+
+// =============================================================================
+// Options
+// =============================================================================
+
+export interface ProjectScanOptions {
+  /**
+   * Namespace prefix. Each symbol's namespace is the prefix followed by the
+   * directory of its file relative to the project root, without a leading
+   * `src/` (e.g., `src/auth/jwt/token.ts` → `<prefix>/auth/jwt`).
+   */
+  namespace?: string;
+
+  /** Version of newly registered symbols (default: 1.0.0) */
+  version?: SemVer;
+
+  /** Tags added to newly registered symbols */
+  tags?: string[];
+
+  /** Report the changes without updating the symbol table (default: false) */
+  dryRun?: boolean;
+}
+
+// =============================================================================
+// Scan Result
+// =============================================================================
+
+/**
+ * Result of scanning a project.
+ */
+export interface ProjectScanResult {
+  /** Number of source files scanned (test files are skipped) */
+  filesScanned: number;
+  /** Symbols registered for declarations seen for the first time */
+  created: string[];
+  /** Symbols whose source location or content hash changed */
+  updated: string[];
+  /** Symbols whose declaration is unchanged since the last scan */
+  unchanged: string[];
+  /** Declarations that could not be registered or updated */
+  errors: Array<{ symbolId: string; message: string }>;
+}
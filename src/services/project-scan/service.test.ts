@@ -0,0 +1,199 @@
+/**
+ * Project Scan Service Tests
+ *
+ * Integration tests reverse-engineering symbols from a temporary TypeScript project.
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  initMemoryDatabase,
+  closeDatabase,
+} from '../../repositories/persistence.js';
+import { SqliteSymbolRepository } from '../../repositories/symbol-repository.js';
+import type { SymbolRepository } from '../../domain/symbol/index.js';
+import { createProjectScanService } from './service.js';
+
+const FILES: Record<string, string> = {
+  'src/core/logger.ts': [
+    '/** Writes log lines. */',
+    'export interface Logger {',
+    '  log(message: string): void;',
+    '}',
+    '',
+    'export class ConsoleLogger implements Logger {',
+    '  log(message: string): void {}',
+    '}',
+  ].join('\n'),
+  'src/core/level.ts': [
+    "export enum Level { Debug, Info = 'info' }",
+    "export type LevelName = 'debug' | 'info';",
+  ].join('\n'),
+  'src/auth/base.ts': 'export abstract class BaseService {}',
+  'src/auth/auth-service.ts': [
+    "import type { Logger } from '../core/logger.js';",
+    "import { BaseService } from './base.js';",
+    '',
+    'export class AuthService extends BaseService {',
+    '  constructor(private logger: Logger, private retries?: number) {',
+    '    super();',
+    '  }',
+    '}',
+    '',
+    'class Internal {}',
+  ].join('\n'),
+  'src/auth/auth-service.test.ts': 'export class AuthServiceTest {}',
+  'src/auth/AuthServiceBase.generated.ts': 'export abstract class AuthServiceBase {}',
+};
+
+describe('ProjectScanService', () => {
+  let tempDir: string;
+  let repo: SymbolRepository;
+
+  const write = (filePath: string, content: string): void => {
+    fs.mkdirSync(path.dirname(path.join(tempDir, filePath)), { recursive: true });
+    fs.writeFileSync(path.join(tempDir, filePath), content);
+  };
+  const scan = (options = {}) => createProjectScanService(repo, tempDir).scan(options);
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'project-scan-test-'));
+    for (const [filePath, content] of Object.entries(FILES)) {
+      write(filePath, content);
+    }
+    repo = new SqliteSymbolRepository(initMemoryDatabase());
+  });
+
+  afterEach(() => {
+    closeDatabase();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should register exported declarations', () => {
+    const result = scan();
+
+    assert.strictEqual(result.filesScanned, 4);
+    assert.deepStrictEqual(result.created.sort(), [
+      'auth/AuthService@1.0.0',
+      'auth/BaseService@1.0.0',
+      'core/ConsoleLogger@1.0.0',
+      'core/Level@1.0.0',
+      'core/LevelName@1.0.0',
+      'core/Logger@1.0.0',
+    ]);
+    assert.deepStrictEqual(result.errors, []);
+
+    const logger = repo.find('core/Logger@1.0.0');
+    assert.strictEqual(logger?.kind, 'type');
+    assert.strictEqual(logger?.level, 'L0');
+    assert.strictEqual(logger?.description, 'Writes log lines.');
+    assert.deepStrictEqual(
+      { ...logger?.sourceLocation, contentHash: undefined },
+      { filePath: 'src/core/logger.ts', startLine: 2, endLine: 4, contentHash: undefined }
+    );
+    assert.match(logger?.sourceLocation?.contentHash ?? '', /^[0-9a-f]{16}$/);
+
+    assert.deepStrictEqual(repo.find('core/Level@1.0.0')?.enumMembers, [
+      { name: 'Debug', value: 0 },
+      { name: 'Info', value: 'info' },
+    ]);
+  });
+
+  it('should read heritage clauses and constructor dependencies', () => {
+    scan();
+
+    const auth = repo.find('auth/AuthService@1.0.0');
+    assert.strictEqual(auth?.kind, 'class');
+    assert.strictEqual(auth?.extends, 'auth/BaseService@1.0.0');
+    assert.deepStrictEqual(auth?.dependencies, [
+      { symbolId: 'core/Logger@1.0.0', name: 'logger', kind: 'constructor', optional: false },
+    ]);
+    assert.deepStrictEqual(repo.find('core/ConsoleLogger@1.0.0')?.implements, [
+      'core/Logger@1.0.0',
+    ]);
+  });
+
+  it('should read optional symbol-typed constructor dependencies', () => {
+    write(
+      'src/auth/session.ts',
+      [
+        "import type { Logger } from '../core/logger.js';",
+        '',
+        'export class Session {',
+        '  constructor(private extra?: Logger, private fallback: Logger | null = null) {}',
+        '}',
+      ].join('\n')
+    );
+    scan();
+
+    assert.deepStrictEqual(repo.find('auth/Session@1.0.0')?.dependencies, [
+      { symbolId: 'core/Logger@1.0.0', name: 'extra', kind: 'constructor', optional: true },
+      { symbolId: 'core/Logger@1.0.0', name: 'fallback', kind: 'constructor', optional: true },
+    ]);
+  });
+
+  it('should leave unchanged declarations alone on a rescan', () => {
+    scan();
+    const before = repo.find('auth/AuthService@1.0.0');
+
+    const result = scan();
+
+    assert.deepStrictEqual(result.created, []);
+    assert.deepStrictEqual(result.updated, []);
+    assert.strictEqual(result.unchanged.length, 6);
+    assert.deepStrictEqual(repo.find('auth/AuthService@1.0.0')?.updatedAt, before?.updatedAt);
+  });
+
+  it('should update only declarations whose hash changed', () => {
+    scan();
+    const hash = repo.find('auth/BaseService@1.0.0')?.sourceLocation?.contentHash;
+    repo.update('auth/BaseService@1.0.0', {
+      ...repo.find('auth/BaseService@1.0.0')!,
+      description: 'Edited in the registry',
+    });
+    write('src/auth/base.ts', 'export abstract class BaseService {\n  name = "base";\n}');
+
+    const result = scan();
+
+    assert.deepStrictEqual(result.updated, ['auth/BaseService@1.0.0']);
+    const base = repo.find('auth/BaseService@1.0.0');
+    assert.notStrictEqual(base?.sourceLocation?.contentHash, hash);
+    assert.strictEqual(base?.sourceLocation?.endLine, 3);
+    assert.strictEqual(base?.description, 'Edited in the registry');
+  });
+
+  it('should keep matching a declaration scanned at another version', () => {
+    scan({ version: { major: 2, minor: 0, patch: 0 } });
+
+    const result = scan();
+
+    assert.deepStrictEqual(result.created, []);
+    assert.ok(result.unchanged.includes('auth/AuthService@2.0.0'));
+  });
+
+  it('should prefix namespaces and tag new symbols', () => {
+    const result = scan({ namespace: 'legacy', tags: ['imported'] });
+
+    assert.ok(result.created.includes('legacy/auth/AuthService@1.0.0'));
+    assert.deepStrictEqual(repo.find('legacy/core/Logger@1.0.0')?.tags, ['imported']);
+  });
+
+  it('should report duplicate declarations', () => {
+    write('src/auth/other.ts', 'export class BaseService {}');
+
+    const result = scan();
+
+    assert.strictEqual(result.errors.length, 1);
+    assert.match(result.errors[0]!.message, /already declared/);
+  });
+
+  it('should not register symbols on a dry run', () => {
+    const result = scan({ dryRun: true });
+
+    assert.strictEqual(result.created.length, 6);
+    assert.deepStrictEqual(repo.list(), []);
+  });
+});
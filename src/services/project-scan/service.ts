@@ -0,0 +1,423 @@
+/**
+ * Project Scan Service
+ *
+ * Reverse-engineers symbols from an existing TypeScript codebase. Every
+ * exported class, interface, enum and type alias becomes a symbol with a
+ * `sourceLocation` and content hash; heritage clauses become `extends` and
+ * `implements`, and constructor parameters typed with a scanned declaration
+ * become constructor dependencies.
+ *
+ * Rescans are idempotent: declarations are matched to the symbols of earlier
+ * scans by file and name, and only symbols whose source location or content
+ * hash changed are updated. Like diagram sync, relationships are merged and
+ * registry edges are never removed.
+ */
+
+import * as path from 'path';
+import { Node } from 'ts-morph';
+import type {
+  ClassDeclaration,
+  EnumDeclaration,
+  InterfaceDeclaration,
+  SourceFile,
+  Type,
+  TypeAliasDeclaration,
+} from 'ts-morph';
+import type {
+  ComponentKind,
+  ComponentSymbol,
+  DependencyRef,
+  EnumMember,
+  SemVer,
+  SourceLocation,
+  SymbolRepository,
+} from '../../domain/symbol/index.js';
+import {
+  KIND_TO_LEVEL,
+  buildSymbolId,
+  orderByExtends,
+  unique,
+} from '../../domain/symbol/index.js';
+import { extractErrorMessage } from '../../infrastructure/errors.js';
+import {
+  isTestFile,
+  listSourceFiles,
+  SourceFileManager,
+  type SourceFileManager as ISourceFileManager,
+} from '../../infrastructure/typescript-ast/index.js';
+import { SymbolTableService } from '../symbol-table/index.js';
+import { hashSourceSpan } from '../source-verification/index.js';
+import type {
+  ProjectScanService as IProjectScanService,
+  ProjectScanOptions,
+  ProjectScanResult,
+} from './schema.js';
+
+// =============================================================================
+// Internal Types
+// =============================================================================
+
+type Declaration =
+  | ClassDeclaration
+  | InterfaceDeclaration
+  | EnumDeclaration
+  | TypeAliasDeclaration;
+
+/**
+ * An exported declaration resolved to a symbol identity.
+ */
+interface ScannedDeclaration {
+  declaration: Declaration;
+  kind: ComponentKind;
+  symbolId: string;
+  name: string;
+  namespace: string;
+  sourceLocation: SourceLocation;
+  existing: ComponentSymbol | undefined;
+}
+
+/**
+ * Relationship fields read from one declaration.
+ */
+interface RelationshipDraft {
+  extends: string | undefined;
+  implements: string[];
+  dependencies: DependencyRef[];
+  enumMembers: EnumMember[] | undefined;
+}
+
+const DEFAULT_VERSION: SemVer = { major: 1, minor: 0, patch: 0 };
+
+/** Base classes emitted by code generation belong to already registered symbols */
+const GENERATED_FILE_SUFFIX = '.generated.ts';
+
+// =============================================================================
+// Service Class
+// =============================================================================
+
+export class ProjectScanService implements IProjectScanService {
+  private readonly repo: SymbolRepository;
+  private readonly symbolTable: SymbolTableService;
+  private readonly sourceFileManager: ISourceFileManager;
+
+  constructor(repo: SymbolRepository, sourceFileManager: ISourceFileManager) {
+    this.repo = repo;
+    this.symbolTable = new SymbolTableService(repo);
+    this.sourceFileManager = sourceFileManager;
+  }
+
+  /**
+   * Scan the project, registering new declarations and updating changed ones.
+   * A failed registration is reported and does not stop the scan.
+   */
+  scan(options: ProjectScanOptions = {}): ProjectScanResult {
+    const root = this.sourceFileManager.getProjectRoot();
+    const sourceFiles = listSourceFiles(root)
+      .filter((filePath) => !isTestFile(filePath) && !filePath.endsWith(GENERATED_FILE_SUFFIX))
+      .map((filePath) => this.sourceFileManager.getSourceFile(filePath))
+      .filter((sf): sf is SourceFile => sf !== null);
+
+    const errors: ProjectScanResult['errors'] = [];
+    const scanned = this.resolveDeclarations(sourceFiles, root, options, errors);
+    const symbolIds = new Map<Node, string>(scanned.map((s) => [s.declaration, s.symbolId]));
+
+    const creates: ComponentSymbol[] = [];
+    const updates: Array<{ symbolId: string; updates: Partial<ComponentSymbol> }> = [];
+    const unchanged: string[] = [];
+    const now = new Date();
+
+    for (const entry of scanned) {
+      const draft = readRelationships(entry.declaration, symbolIds);
+      if (!entry.existing) {
+        creates.push(toSymbol(entry, draft, options, now));
+      } else if (isSameLocation(entry.existing.sourceLocation, entry.sourceLocation)) {
+        unchanged.push(entry.symbolId);
+      } else {
+        updates.push({ symbolId: entry.symbolId, updates: mergeDraft(entry, entry.existing, draft) });
+      }
+    }
+
+    const created: string[] = [];
+    const updated: string[] = [];
+    if (options.dryRun) {
+      created.push(...creates.map((s) => s.id));
+      updated.push(...updates.map((u) => u.symbolId));
+    } else {
+      // Creates first, bases before subclasses (`extends` is a foreign key)
+      for (const symbol of orderByExtends(creates, (s) => s)) {
+        try {
+          this.symbolTable.register(symbol);
+          created.push(symbol.id);
+        } catch (error) {
+          errors.push({ symbolId: symbol.id, message: extractErrorMessage(error) });
+        }
+      }
+      for (const { symbolId, updates: changes } of updates) {
+        try {
+          this.symbolTable.update(symbolId, changes);
+          updated.push(symbolId);
+        } catch (error) {
+          errors.push({ symbolId, message: extractErrorMessage(error) });
+        }
+      }
+    }
+
+    return { filesScanned: sourceFiles.length, created, updated, unchanged, errors };
+  }
+
+  // ===========================================================================
+  // Internal Helpers
+  // ===========================================================================
+
+  /**
+   * Give every exported declaration a symbol identity, reusing the symbol
+   * an earlier scan registered for the same file and name.
+   */
+  private resolveDeclarations(
+    sourceFiles: SourceFile[],
+    root: string,
+    options: ProjectScanOptions,
+    errors: ProjectScanResult['errors']
+  ): ScannedDeclaration[] {
+    const byLocation = new Map<string, ComponentSymbol>();
+    for (const symbol of this.repo.list()) {
+      if (symbol.sourceLocation) {
+        byLocation.set(locationKey(symbol.sourceLocation.filePath, symbol.name), symbol);
+      }
+    }
+
+    const scanned: ScannedDeclaration[] = [];
+    const claimed = new Map<string, string>();
+
+    for (const sourceFile of sourceFiles) {
+      const filePath = toPosix(path.relative(root, sourceFile.getFilePath()));
+      const namespace = deriveNamespace(filePath, options.namespace);
+
+      for (const { declaration, kind } of exportedDeclarations(sourceFile)) {
+        const name = declaration.getName();
+        if (!name) continue;
+
+        const newId = buildSymbolId(namespace, name, options.version ?? DEFAULT_VERSION);
+        const existing = byLocation.get(locationKey(filePath, name)) ?? this.repo.find(newId);
+        const symbolId = existing?.id ?? newId;
+
+        const owner = claimed.get(symbolId);
+        if (owner) {
+          errors.push({
+            symbolId,
+            message: `Symbol '${symbolId}' is already declared in '${owner}' (also in '${filePath}')`,
+          });
+          continue;
+        }
+        claimed.set(symbolId, filePath);
+
+        const startLine = declaration.getStartLineNumber();
+        const endLine = declaration.getEndLineNumber();
+        scanned.push({
+          declaration,
+          kind,
+          symbolId,
+          name,
+          namespace,
+          sourceLocation: {
+            filePath,
+            startLine,
+            endLine,
+            contentHash: hashSourceSpan(sourceFile.getFullText(), startLine, endLine),
+          },
+          existing,
+        });
+      }
+    }
+
+    return scanned;
+  }
+}
+
+/**
+ * Create a project scan service for a project root.
+ */
+export function createProjectScanService(
+  repo: SymbolRepository,
+  projectRoot: string
+): ProjectScanService {
+  return new ProjectScanService(repo, new SourceFileManager(projectRoot));
+}
+
+// =============================================================================
+// Module Helpers
+// =============================================================================
+
+/**
+ * Exported declarations of a file with the symbol kind each one maps to.
+ */
+function exportedDeclarations(
+  sourceFile: SourceFile
+): Array<{ declaration: Declaration; kind: ComponentKind }> {
+  const entries: Array<{ declaration: Declaration; kind: ComponentKind }> = [
+    ...sourceFile.getClasses().map((declaration) => ({ declaration, kind: 'class' as const })),
+    ...sourceFile.getInterfaces().map((declaration) => ({ declaration, kind: 'type' as const })),
+    ...sourceFile.getEnums().map((declaration) => ({ declaration, kind: 'enum' as const })),
+    ...sourceFile.getTypeAliases().map((declaration) => ({ declaration, kind: 'type' as const })),
+  ];
+  return entries.filter(({ declaration }) => declaration.isExported());
+}
+
+/**
+ * Read heritage clauses, constructor dependencies and enum members. Only
+ * types that resolve to a scanned declaration become relationships.
+ */
+function readRelationships(
+  declaration: Declaration,
+  symbolIds: Map<Node, string>
+): RelationshipDraft {
+  const draft: RelationshipDraft = {
+    extends: undefined,
+    implements: [],
+    dependencies: [],
+    enumMembers: undefined,
+  };
+  const resolve = (type: Type): string | undefined => {
+    const symbol = type.getSymbol() ?? type.getAliasSymbol();
+    for (const decl of symbol?.getDeclarations() ?? []) {
+      const symbolId = symbolIds.get(decl);
+      if (symbolId) return symbolId;
+    }
+    return undefined;
+  };
+
+  if (Node.isClassDeclaration(declaration)) {
+    const base = declaration.getExtends();
+    draft.extends = base && resolve(base.getType());
+    draft.implements = declaration
+      .getImplements()
+      .map((impl) => resolve(impl.getType()))
+      .filter((id): id is string => id !== undefined);
+
+    const ctor = declaration.getConstructors()[0];
+    for (const param of ctor?.getParameters() ?? []) {
+      // `extra?: Logger` has type `Logger | undefined`
+      const symbolId = resolve(param.getType().getNonNullableType());
+      if (symbolId) {
+        draft.dependencies.push({
+          symbolId,
+          name: param.getName(),
+          kind: 'constructor',
+          optional: param.isOptional(),
+        });
+      }
+    }
+  } else if (Node.isInterfaceDeclaration(declaration)) {
+    // A symbol has a single `extends`; further base interfaces are not recorded
+    draft.extends = declaration
+      .getExtends()
+      .map((base) => resolve(base.getType()))
+      .find((id) => id !== undefined);
+  } else if (Node.isEnumDeclaration(declaration)) {
+    draft.enumMembers = declaration.getMembers().map((member) => {
+      const value = member.getValue();
+      return value === undefined ? { name: member.getName() } : { name: member.getName(), value };
+    });
+  }
+
+  return draft;
+}
+
+/**
+ * Build the symbol for a declaration seen for the first time.
+ */
+function toSymbol(
+  entry: ScannedDeclaration,
+  draft: RelationshipDraft,
+  options: ProjectScanOptions,
+  now: Date
+): ComponentSymbol {
+  return {
+    id: entry.symbolId,
+    name: entry.name,
+    namespace: entry.namespace,
+    level: KIND_TO_LEVEL[entry.kind],
+    kind: entry.kind,
+    language: 'typescript',
+    ...(draft.extends ? { extends: draft.extends } : {}),
+    ...(draft.implements.length > 0 ? { implements: draft.implements } : {}),
+    ...(draft.dependencies.length > 0 ? { dependencies: draft.dependencies } : {}),
+    ...(draft.enumMembers ? { enumMembers: draft.enumMembers } : {}),
+    version: options.version ?? DEFAULT_VERSION,
+    sourceLocation: entry.sourceLocation,
+    tags: options.tags ?? [],
+    description: readDescription(entry.declaration),
+    createdAt: now,
+    updatedAt: now,
+    status: 'declared',
+    origin: 'manual',
+  };
+}
+
+/**
+ * Updates for a changed declaration: the new source location plus any
+ * relationships the registry does not have yet.
+ */
+function mergeDraft(
+  entry: ScannedDeclaration,
+  existing: ComponentSymbol,
+  draft: RelationshipDraft
+): Partial<ComponentSymbol> {
+  const updates: Partial<ComponentSymbol> = { sourceLocation: entry.sourceLocation };
+
+  if (draft.extends && !existing.extends) {
+    updates.extends = draft.extends;
+  }
+
+  const implementsIds = unique([...(existing.implements ?? []), ...draft.implements]);
+  if (implementsIds.length > (existing.implements?.length ?? 0)) {
+    updates.implements = implementsIds;
+  }
+
+  const known = new Set((existing.dependencies ?? []).map((d) => d.name));
+  const added = draft.dependencies.filter((d) => !known.has(d.name));
+  if (added.length > 0) {
+    updates.dependencies = [...(existing.dependencies ?? []), ...added];
+  }
+
+  if (draft.enumMembers) {
+    updates.enumMembers = draft.enumMembers;
+  }
+
+  return updates;
+}
+
+/**
+ * Namespace from the file's directory, without a leading `src/`.
+ */
+function deriveNamespace(filePath: string, prefix: string | undefined): string {
+  const segments = path.posix.dirname(filePath).split('/').filter((s) => s !== '.' && s !== '');
+  if (segments[0] === 'src') segments.shift();
+  return [...(prefix ? [prefix] : []), ...segments].join('/');
+}
+
+/**
+ * First paragraph of the declaration's JSDoc, if any.
+ */
+function readDescription(declaration: Declaration): string {
+  const description = declaration.getJsDocs()[0]?.getDescription().trim() ?? '';
+  return description.split(/\n\s*\n/)[0]?.replace(/\s+/g, ' ') ?? '';
+}
+
+function isSameLocation(a: SourceLocation | undefined, b: SourceLocation): boolean {
+  return (
+    a !== undefined &&
+    a.filePath === b.filePath &&
+    a.startLine === b.startLine &&
+    a.endLine === b.endLine &&
+    a.contentHash === b.contentHash
+  );
+}
+
+function locationKey(filePath: string, name: string): string {
+  return `${toPosix(filePath)}#${name}`;
+}
+
+function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
@@ -0,0 +1,20 @@
+/**
+ * Registry IO Service
+ *
+ * Exports the symbol table as canonical per-namespace registry files
+ * (JSON or YAML) and imports them back with a conflict policy.
+ */
+
+// Service (primary API)
+export { RegistryIoService, getRegistryFilePath, toRegistryEntry } from './service.js';
+
+// Commonly used types
+export type {
+  ImportConflictPolicy,
+  RegistryExportOptions,
+  RegistryExportResult,
+  RegistryFile,
+  RegistryFormat,
+  RegistryImportOptions,
+  RegistryImportResult,
+} from './schema.js';
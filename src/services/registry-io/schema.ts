@@ -0,0 +1,109 @@
+/**
+ * Registry IO Schema
+ *
+ * Types for exporting the symbol table to a portable, diffable file format
+ * and importing it back.
+ */
+
+// =============================================================================
+// Service Interface
+// =============================================================================
+
+/**
+ * Registry IO service public API contract.
+ *
+ * Writes one registry file per namespace so the registry can live in git
+ * next to the code, and merges registry files back into the symbol table.
+ */
+export interface RegistryIoService {
+  exportRegistry(outputDir: string, options?: RegistryExportOptions): RegistryExportResult;
+  importRegistry(sourcePath: string, options?: RegistryImportOptions): RegistryImportResult;
+}
+
+// =============================================================================
+// File Format
+// =============================================================================
+
+export type RegistryFormat = 'json' | 'yaml';
+
+/** Marker identifying a registry file */
+export const REGISTRY_FILE_FORMAT = 'cyrus-registry';
+
+/** Bumped when the file layout changes incompatibly */
+export const REGISTRY_FORMAT_VERSION = 1;
+
+/** Every namespace is written to `<namespace path>/symbols.<ext>` */
+export const REGISTRY_FILE_NAME = 'symbols';
+
+/**
+ * Contents of one registry file.
+ *
+ * Symbols are sorted by ID. Symbol keys follow the schema's field order,
+ * nested object keys are sorted, dates are ISO strings and absent optional
+ * fields are omitted, so unchanged symbols always serialize identically.
+ */
+export interface RegistryFile {
+  format: typeof REGISTRY_FILE_FORMAT;
+  formatVersion: number;
+  namespace: string;
+  symbols: Record<string, unknown>[];
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+export interface RegistryExportOptions {
+  /** File format (default: json) */
+  format?: RegistryFormat;
+
+  /** Only export these namespaces and the namespaces nested under them */
+  namespaces?: string[];
+}
+
+export interface RegistryExportResult {
+  /** Registry files written, relative to the output directory */
+  files: string[];
+  /** Number of symbols exported */
+  symbolCount: number;
+  /** Registry files of namespaces that no longer have symbols, deleted */
+  removed: string[];
+}
+
+// =============================================================================
+// Import
+// =============================================================================
+
+/**
+ * What to do with a symbol that exists in the registry with different contents.
+ *
+ * - skip: keep the registered symbol
+ * - overwrite: replace it with the file's symbol
+ * - fail: abort the whole import without writing anything
+ */
+export type ImportConflictPolicy = 'skip' | 'overwrite' | 'fail';
+
+export interface RegistryImportOptions {
+  /** Conflict handling (default: fail) */
+  onConflict?: ImportConflictPolicy;
+
+  /** Report the changes without updating the symbol table (default: false) */
+  dryRun?: boolean;
+}
+
+export interface RegistryImportResult {
+  /** Symbols not yet registered */
+  created: string[];
+  /** Conflicting symbols replaced by the file's version */
+  updated: string[];
+  /** Conflicting symbols left as registered */
+  skipped: string[];
+  /** Symbols identical to the registered version */
+  unchanged: string[];
+  /** Every symbol whose registered version differs, whatever the policy */
+  conflicts: string[];
+  /** Files or symbols that could not be read, validated or written */
+  errors: Array<{ file: string; symbolId?: string; message: string }>;
+  /** Whether this was a dry run (nothing written) */
+  dryRun: boolean;
+}
@@ -0,0 +1,174 @@
+/**
+ * Registry IO Service Tests
+ *
+ * Round-trips the symbol table through registry files in a temporary directory.
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  initMemoryDatabase,
+  closeDatabase,
+} from '../../repositories/persistence.js';
+import { SqliteSymbolRepository } from '../../repositories/symbol-repository.js';
+import type { SymbolRepository } from '../../domain/symbol/index.js';
+import { createSymbol } from '../../testing/fixtures.js';
+import { RegistryIoService } from './service.js';
+
+const CREATED = new Date('2026-01-02T03:04:05.000Z');
+
+describe('RegistryIoService', () => {
+  let tempDir: string;
+  let repo: SymbolRepository;
+  let service: RegistryIoService;
+
+  const read = (file: string): string => fs.readFileSync(path.join(tempDir, file), 'utf-8');
+  const seed = (): void => {
+    repo.insert(
+      createSymbol({
+        id: 'core/Base@1.0.0',
+        name: 'Base',
+        namespace: 'core',
+        tags: ['io'],
+        createdAt: CREATED,
+        updatedAt: CREATED,
+      })
+    );
+    repo.insert(
+      createSymbol({
+        id: 'core/auth/AuthService@1.0.0',
+        name: 'AuthService',
+        namespace: 'core/auth',
+        extends: 'core/Base@1.0.0',
+        createdAt: CREATED,
+        updatedAt: CREATED,
+        statusInfo: { updatedAt: CREATED, source: 'registration' },
+      })
+    );
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'registry-io-test-'));
+    repo = new SqliteSymbolRepository(initMemoryDatabase());
+    service = new RegistryIoService(repo);
+  });
+
+  afterEach(() => {
+    closeDatabase();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('exportRegistry', () => {
+    it('should write one canonical file per namespace', () => {
+      seed();
+
+      const result = service.exportRegistry(tempDir);
+
+      assert.deepStrictEqual(result.files, ['core/symbols.json', 'core/auth/symbols.json']);
+      assert.strictEqual(result.symbolCount, 2);
+
+      const file = JSON.parse(read('core/auth/symbols.json'));
+      assert.strictEqual(file.format, 'cyrus-registry');
+      assert.strictEqual(file.namespace, 'core/auth');
+      const [symbol] = file.symbols;
+      assert.deepStrictEqual(Object.keys(symbol).slice(0, 7), [
+        'id', 'name', 'namespace', 'level', 'kind', 'language', 'extends',
+      ]);
+      assert.strictEqual(symbol.createdAt, '2026-01-02T03:04:05.000Z');
+      assert.deepStrictEqual(Object.keys(symbol.statusInfo), ['source', 'updatedAt']);
+      assert.ok(!('sourceLocation' in symbol));
+    });
+
+    it('should produce identical output on re-export', () => {
+      seed();
+      service.exportRegistry(tempDir, { format: 'yaml' });
+      const first = read('core/symbols.yaml');
+
+      service.exportRegistry(tempDir, { format: 'yaml' });
+
+      assert.strictEqual(read('core/symbols.yaml'), first);
+      assert.match(first, /^format: cyrus-registry\n/);
+    });
+
+    it('should delete files of namespaces without symbols', () => {
+      seed();
+      service.exportRegistry(tempDir);
+      repo.delete('core/auth/AuthService@1.0.0');
+
+      const result = service.exportRegistry(tempDir);
+
+      assert.deepStrictEqual(result.removed, ['core/auth/symbols.json']);
+      assert.ok(!fs.existsSync(path.join(tempDir, 'core/auth/symbols.json')));
+    });
+  });
+
+  describe('importRegistry', () => {
+    it('should round-trip into an empty registry, bases first', () => {
+      seed();
+      service.exportRegistry(tempDir);
+      const exported = repo.list();
+      closeDatabase();
+      repo = new SqliteSymbolRepository(initMemoryDatabase());
+      service = new RegistryIoService(repo);
+
+      const result = service.importRegistry(tempDir);
+
+      assert.deepStrictEqual(result.created, ['core/Base@1.0.0', 'core/auth/AuthService@1.0.0']);
+      assert.deepStrictEqual(result.errors, []);
+      assert.deepStrictEqual(repo.find('core/Base@1.0.0'), exported.find((s) => s.name === 'Base'));
+    });
+
+    it('should report a dry run without writing', () => {
+      seed();
+      service.exportRegistry(tempDir);
+      repo.delete('core/auth/AuthService@1.0.0');
+
+      const result = service.importRegistry(tempDir, { dryRun: true });
+
+      assert.strictEqual(result.dryRun, true);
+      assert.deepStrictEqual(result.created, ['core/auth/AuthService@1.0.0']);
+      assert.deepStrictEqual(result.unchanged, ['core/Base@1.0.0']);
+      assert.strictEqual(repo.find('core/auth/AuthService@1.0.0'), undefined);
+    });
+
+    it('should apply the conflict policy', () => {
+      seed();
+      service.exportRegistry(tempDir);
+      repo.update('core/Base@1.0.0', { ...repo.find('core/Base@1.0.0')!, description: 'Edited' });
+
+      assert.throws(() => service.importRegistry(tempDir), /1 symbol\(s\) differ.*core\/Base@1\.0\.0/);
+
+      const skipped = service.importRegistry(tempDir, { onConflict: 'skip' });
+      assert.deepStrictEqual(skipped.skipped, ['core/Base@1.0.0']);
+      assert.strictEqual(repo.find('core/Base@1.0.0')?.description, 'Edited');
+
+      const overwritten = service.importRegistry(tempDir, { onConflict: 'overwrite' });
+      assert.deepStrictEqual(overwritten.conflicts, ['core/Base@1.0.0']);
+      assert.deepStrictEqual(overwritten.updated, ['core/Base@1.0.0']);
+      assert.strictEqual(repo.find('core/Base@1.0.0')?.description, 'Test component');
+    });
+
+    it('should report invalid symbols and keep importing the rest', () => {
+      const file = {
+        format: 'cyrus-registry',
+        formatVersion: 1,
+        namespace: 'core',
+        symbols: [
+          { id: 'core/Broken@1.0.0', name: 'Broken', namespace: 'core' },
+          JSON.parse(JSON.stringify(createSymbol({ id: 'core/Ok@1.0.0', namespace: 'core' }))),
+        ],
+      };
+      fs.writeFileSync(path.join(tempDir, 'symbols.json'), JSON.stringify(file));
+
+      const result = service.importRegistry(path.join(tempDir, 'symbols.json'));
+
+      assert.deepStrictEqual(result.created, ['core/Ok@1.0.0']);
+      assert.strictEqual(result.errors.length, 1);
+      assert.strictEqual(result.errors[0]?.symbolId, 'core/Broken@1.0.0');
+      assert.match(result.errors[0]?.message ?? '', /Invalid symbol: level/);
+    });
+  });
+});
@@ -0,0 +1,430 @@
+/**
+ * Registry IO Service
+ *
+ * Exports the symbol table as one canonical registry file per namespace and
+ * imports registry files back. The format is meant to be committed next to
+ * the code: output is deterministic, so a symbol change shows up in a diff
+ * as exactly the lines that changed.
+ *
+ * Imports are classified before anything is written. Symbols identical to
+ * the registered version are left alone; differing ones are conflicts,
+ * resolved by the import's conflict policy. Registry files are the source of
+ * truth on import, so timestamps and status are taken from the file as-is.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'yaml';
+import type { ComponentSymbol, SymbolRepository } from '../../domain/symbol/index.js';
+import {
+  ComponentSymbolSchema,
+  orderByExtends,
+  validateKindLevel,
+} from '../../domain/symbol/index.js';
+import { extractErrorMessage } from '../../infrastructure/errors.js';
+import {
+  REGISTRY_FILE_FORMAT,
+  REGISTRY_FILE_NAME,
+  REGISTRY_FORMAT_VERSION,
+  type RegistryIoService as IRegistryIoService,
+  type RegistryExportOptions,
+  type RegistryExportResult,
+  type RegistryFile,
+  type RegistryFormat,
+  type RegistryImportOptions,
+  type RegistryImportResult,
+} from './schema.js';
+
+// =============================================================================
+// Internal Types
+// =============================================================================
+
+/**
+ * A validated symbol read from a registry file.
+ */
+interface ImportedSymbol {
+  file: string;
+  symbol: ComponentSymbol;
+}
+
+const FILE_EXTENSIONS: Record<RegistryFormat, string> = { json: '.json', yaml: '.yaml' };
+
+const REGISTRY_FILE_PATTERN = new RegExp(`^${REGISTRY_FILE_NAME}\\.(json|ya?ml)$`);
+
+/** Symbol fields in the order they are written */
+const SYMBOL_KEY_ORDER = Object.keys(ComponentSymbolSchema.shape);
+
+// =============================================================================
+// Service Class
+// =============================================================================
+
+export class RegistryIoService implements IRegistryIoService {
+  private readonly repo: SymbolRepository;
+
+  constructor(repo: SymbolRepository) {
+    this.repo = repo;
+  }
+
+  /**
+   * Write every namespace to its own registry file under the output
+   * directory, and delete registry files of exported namespaces that no
+   * longer have symbols.
+   */
+  exportRegistry(outputDir: string, options: RegistryExportOptions = {}): RegistryExportResult {
+    const format = options.format ?? 'json';
+    const inScope = (namespace: string): boolean =>
+      !options.namespaces ||
+      options.namespaces.some((ns) => namespace === ns || namespace.startsWith(`${ns}/`));
+
+    const byNamespace = new Map<string, ComponentSymbol[]>();
+    for (const symbol of this.repo.list()) {
+      if (!inScope(symbol.namespace)) continue;
+      const symbols = byNamespace.get(symbol.namespace) ?? [];
+      symbols.push(symbol);
+      byNamespace.set(symbol.namespace, symbols);
+    }
+
+    const files: string[] = [];
+    let symbolCount = 0;
+    for (const namespace of [...byNamespace.keys()].sort()) {
+      const symbols = byNamespace.get(namespace) ?? [];
+      const file = getRegistryFilePath(namespace, format);
+      const content: RegistryFile = {
+        format: REGISTRY_FILE_FORMAT,
+        formatVersion: REGISTRY_FORMAT_VERSION,
+        namespace,
+        symbols: symbols
+          .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+          .map(toRegistryEntry),
+      };
+
+      const fullPath = path.join(outputDir, file);
+      fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+      fs.writeFileSync(fullPath, formatRegistryFile(content, format), 'utf-8');
+      files.push(file);
+      symbolCount += symbols.length;
+    }
+
+    const written = new Set(files);
+    const removed: string[] = [];
+    for (const file of findRegistryFiles(outputDir)) {
+      const relative = toPosix(path.relative(outputDir, file));
+      if (written.has(relative)) continue;
+      const namespace = readNamespace(file);
+      if (namespace !== undefined && inScope(namespace)) {
+        fs.rmSync(file);
+        removed.push(relative);
+      }
+    }
+
+    return { files, symbolCount, removed };
+  }
+
+  /**
+   * Merge a registry file, or every registry file under a directory, into
+   * the symbol table. Writes happen in one transaction, creates first with
+   * bases before subclasses.
+   *
+   * @throws Error if the policy is `fail` and a symbol conflicts
+   */
+  importRegistry(sourcePath: string, options: RegistryImportOptions = {}): RegistryImportResult {
+    const policy = options.onConflict ?? 'fail';
+    const dryRun = options.dryRun ?? false;
+    const result: RegistryImportResult = {
+      created: [],
+      updated: [],
+      skipped: [],
+      unchanged: [],
+      conflicts: [],
+      errors: [],
+      dryRun,
+    };
+
+    const stat = fs.statSync(sourcePath);
+    const root = stat.isDirectory() ? sourcePath : path.dirname(sourcePath);
+    const filePaths = stat.isDirectory() ? findRegistryFiles(sourcePath) : [sourcePath];
+
+    const imported = new Map<string, ImportedSymbol>();
+    for (const filePath of filePaths) {
+      const file = toPosix(path.relative(root, filePath));
+      for (const entry of this.readRegistryFile(filePath, file, result)) {
+        if (imported.has(entry.symbol.id)) {
+          result.errors.push({
+            file,
+            symbolId: entry.symbol.id,
+            message: `Duplicate symbol, also in ${imported.get(entry.symbol.id)?.file}`,
+          });
+          continue;
+        }
+        imported.set(entry.symbol.id, entry);
+      }
+    }
+
+    const creates: ImportedSymbol[] = [];
+    const overwrites: ImportedSymbol[] = [];
+    for (const entry of imported.values()) {
+      const existing = this.repo.find(entry.symbol.id);
+      if (!existing) {
+        creates.push(entry);
+      } else if (isSameSymbol(existing, entry.symbol)) {
+        result.unchanged.push(entry.symbol.id);
+      } else {
+        result.conflicts.push(entry.symbol.id);
+        if (policy === 'overwrite') {
+          overwrites.push(entry);
+        } else if (policy === 'skip') {
+          result.skipped.push(entry.symbol.id);
+        }
+      }
+    }
+
+    if (policy === 'fail' && result.conflicts.length > 0 && !dryRun) {
+      throw new Error(
+        `Import aborted, ${result.conflicts.length} symbol(s) differ from the registry: ` +
+          result.conflicts.join(', ')
+      );
+    }
+
+    const ordered = orderByExtends(creates, (entry) => entry.symbol);
+    if (dryRun) {
+      result.created.push(...ordered.map((entry) => entry.symbol.id));
+      result.updated.push(...overwrites.map((entry) => entry.symbol.id));
+      return result;
+    }
+
+    this.repo.transaction(() => {
+      for (const { file, symbol } of ordered) {
+        try {
+          this.repo.insert(symbol);
+          result.created.push(symbol.id);
+        } catch (error) {
+          result.errors.push({ file, symbolId: symbol.id, message: extractErrorMessage(error) });
+        }
+      }
+      for (const { file, symbol } of overwrites) {
+        try {
+          this.repo.update(symbol.id, symbol);
+          result.updated.push(symbol.id);
+        } catch (error) {
+          result.errors.push({ file, symbolId: symbol.id, message: extractErrorMessage(error) });
+        }
+      }
+    });
+
+    return result;
+  }
+
+  // ===========================================================================
+  // Internal Helpers
+  // ===========================================================================
+
+  /**
+   * Parse and validate one registry file. An unreadable file, or a symbol
+   * that fails validation, is reported and left out.
+   */
+  private readRegistryFile(
+    filePath: string,
+    file: string,
+    result: RegistryImportResult
+  ): ImportedSymbol[] {
+    let content: Partial<RegistryFile>;
+    try {
+      content = parseRegistryFile(fs.readFileSync(filePath, 'utf-8'), filePath);
+    } catch (error) {
+      result.errors.push({ file, message: extractErrorMessage(error) });
+      return [];
+    }
+
+    if (content.format !== REGISTRY_FILE_FORMAT) {
+      result.errors.push({ file, message: `Not a registry file (format: ${content.format})` });
+      return [];
+    }
+    if (content.formatVersion !== REGISTRY_FORMAT_VERSION) {
+      result.errors.push({
+        file,
+        message: `Unsupported registry format version ${content.formatVersion}`,
+      });
+      return [];
+    }
+
+    const symbols: ImportedSymbol[] = [];
+    for (const raw of content.symbols ?? []) {
+      const symbolId = typeof raw.id === 'string' ? raw.id : '(unknown)';
+      const parseResult = ComponentSymbolSchema.safeParse(reviveDates(raw));
+      if (!parseResult.success) {
+        result.errors.push({
+          file,
+          symbolId,
+          message: `Invalid symbol: ${parseResult.error.errors
+            .map((e) => `${e.path.join('.')}: ${e.message}`)
+            .join(', ')}`,
+        });
+        continue;
+      }
+
+      const symbol = parseResult.data;
+      if (!validateKindLevel(symbol.kind, symbol.level)) {
+        result.errors.push({
+          file,
+          symbolId,
+          message: `Kind '${symbol.kind}' is not valid for level '${symbol.level}'`,
+        });
+      } else if (symbol.namespace !== content.namespace) {
+        result.errors.push({
+          file,
+          symbolId,
+          message: `Namespace '${symbol.namespace}' does not match file namespace '${content.namespace}'`,
+        });
+      } else {
+        symbols.push({ file, symbol });
+      }
+    }
+    return symbols;
+  }
+}
+
+// =============================================================================
+// Canonical Form
+// =============================================================================
+
+/**
+ * Canonical registry entry for a symbol: schema field order, sorted nested
+ * keys, ISO dates, no undefined fields.
+ */
+export function toRegistryEntry(symbol: ComponentSymbol): Record<string, unknown> {
+  const entry: Record<string, unknown> = {};
+  for (const key of SYMBOL_KEY_ORDER) {
+    const value = toCanonicalValue(symbol[key as keyof ComponentSymbol]);
+    if (value !== undefined) {
+      entry[key] = value;
+    }
+  }
+  return entry;
+}
+
+/**
+ * Registry file path for a namespace, relative to the registry root.
+ */
+export function getRegistryFilePath(namespace: string, format: RegistryFormat): string {
+  const segments = namespace === '' ? [] : namespace.split('/');
+  if (segments.some((segment) => segment === '' || segment === '.' || segment === '..')) {
+    throw new Error(`Namespace cannot be mapped to a registry path: '${namespace}'`);
+  }
+  return [...segments, `${REGISTRY_FILE_NAME}${FILE_EXTENSIONS[format]}`].join('/');
+}
+
+function toCanonicalValue(value: unknown): unknown {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(toCanonicalValue);
+  }
+  if (value !== null && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) {
+      const canonical = toCanonicalValue((value as Record<string, unknown>)[key]);
+      if (canonical !== undefined) {
+        result[key] = canonical;
+      }
+    }
+    return result;
+  }
+  return value;
+}
+
+function isSameSymbol(a: ComponentSymbol, b: ComponentSymbol): boolean {
+  return JSON.stringify(toRegistryEntry(a)) === JSON.stringify(toRegistryEntry(b));
+}
+
+/**
+ * Turn the ISO strings of the symbol's date fields back into Dates so the
+ * entry validates against the schema.
+ */
+function reviveDates(raw: Record<string, unknown>): Record<string, unknown> {
+  const symbol = reviveFields(raw, ['createdAt', 'updatedAt']);
+  if (isRecord(symbol.statusInfo)) {
+    const statusInfo = reviveFields(symbol.statusInfo, ['updatedAt']);
+    if (isRecord(statusInfo.executionInfo)) {
+      statusInfo.executionInfo = reviveFields(statusInfo.executionInfo, ['firstSeen', 'lastSeen']);
+    }
+    symbol.statusInfo = statusInfo;
+  }
+  if (isRecord(symbol.generationMeta)) {
+    symbol.generationMeta = reviveFields(symbol.generationMeta, ['generatedAt']);
+  }
+  return symbol;
+}
+
+function reviveFields(record: Record<string, unknown>, keys: string[]): Record<string, unknown> {
+  const result = { ...record };
+  for (const key of keys) {
+    const value = result[key];
+    if (typeof value === 'string') {
+      result[key] = new Date(value);
+    }
+  }
+  return result;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+// =============================================================================
+// Files
+// =============================================================================
+
+function formatRegistryFile(content: RegistryFile, format: RegistryFormat): string {
+  if (format === 'yaml') {
+    return yaml.stringify(content, { lineWidth: 0 });
+  }
+  return `${JSON.stringify(content, null, 2)}\n`;
+}
+
+function parseRegistryFile(text: string, filePath: string): Partial<RegistryFile> {
+  const parsed: unknown = /\.ya?ml$/.test(filePath) ? yaml.parse(text) : JSON.parse(text);
+  if (!isRecord(parsed)) {
+    throw new Error('Registry file is not an object');
+  }
+  return parsed as Partial<RegistryFile>;
+}
+
+/**
+ * Namespace declared by a registry file, or undefined if the file is not one.
+ */
+function readNamespace(filePath: string): string | undefined {
+  try {
+    const content = parseRegistryFile(fs.readFileSync(filePath, 'utf-8'), filePath);
+    return content.format === REGISTRY_FILE_FORMAT && typeof content.namespace === 'string'
+      ? content.namespace
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Registry files under a directory, in path order. Dependencies and hidden
+ * directories are not searched.
+ */
+function findRegistryFiles(dir: string): string[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (entry.name === 'node_modules' || entry.name.startsWith('.')) continue;
+      files.push(...findRegistryFiles(fullPath));
+    } else if (REGISTRY_FILE_PATTERN.test(entry.name)) {
+      files.push(fullPath);
+    }
+  }
+  return files.sort();
+}
+
+function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
@@ -0,0 +1,17 @@
+/**
+ * Source Verification Service
+ *
+ * Detects symbols whose recorded source location moved, changed or
+ * disappeared, and relocates moved declarations by name.
+ */
+
+// Service (primary API)
+export { SourceVerifier, createSourceVerifier, hashSourceSpan } from './service.js';
+
+// Commonly used types
+export type {
+  SourceCheck,
+  SourceState,
+  SourceVerificationOptions,
+  SourceVerificationReport,
+} from './schema.js';
@@ -0,0 +1,70 @@
+/**
+ * Source Verification Schema
+ *
+ * Types for checking recorded source locations against the files on disk.
+ */
+
+import type { SourceLocation } from '../../domain/symbol/index.js';
+
+// =============================================================================
+// Service Interface
+// =============================================================================
+
+/**
+ * Source verifier public API contract.
+ *
+ * Re-hashes the line span of each symbol's `sourceLocation` and reports
+ * symbols whose source moved, changed or disappeared.
+ */
+export interface SourceVerifier {
+  verify(options?: SourceVerificationOptions): SourceVerificationReport;
+}
+
+// =============================================================================
+// Options
+// =============================================================================
+
+export interface SourceVerificationOptions {
+  /** Symbols to check (default: every symbol with a source location) */
+  symbolIds?: string[];
+
+  /** Record the new location of moved declarations (default: false) */
+  relocate?: boolean;
+}
+
+// =============================================================================
+// Verification Result
+// =============================================================================
+
+/**
+ * How a recorded source location compares to the file on disk.
+ *
+ * - current: the line span still hashes to the recorded content hash
+ * - moved: the unchanged declaration was found at another span or file
+ * - changed: the declaration was found but its content differs
+ * - missing: the file or the declaration no longer exists
+ */
+export type SourceState = 'current' | 'moved' | 'changed' | 'missing';
+
+/**
+ * Verification result for one symbol.
+ */
+export interface SourceCheck {
+  symbolId: string;
+  state: SourceState;
+  /** Location recorded on the symbol */
+  recorded: SourceLocation;
+  /** Where the declaration is now, when found away from or different to the recorded span */
+  actual?: SourceLocation;
+  message: string;
+}
+
+/**
+ * Result of verifying source locations.
+ */
+export interface SourceVerificationReport {
+  /** One check per symbol with a source location */
+  checks: SourceCheck[];
+  /** Moved symbols whose source location was updated (with `relocate`) */
+  relocated: string[];
+}
@@ -0,0 +1,146 @@
+/**
+ * Source Verifier Tests
+ *
+ * Integration tests checking recorded source locations against a temporary project.
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  initMemoryDatabase,
+  closeDatabase,
+} from '../../repositories/persistence.js';
+import { SqliteSymbolRepository } from '../../repositories/symbol-repository.js';
+import { createSymbol } from '../../testing/fixtures.js';
+import type { SymbolRepository } from '../../domain/symbol/index.js';
+import { validateSymbolTable } from '../symbol-table/index.js';
+import { createSourceVerifier, hashSourceSpan } from './service.js';
+
+const LOGGER = 'core/Logger@1.0.0';
+const AUTH = 'auth/AuthService@1.0.0';
+
+const LOGGER_SOURCE = ['export class Logger {', '  log(message: string): void {}', '}'].join('\n');
+const AUTH_SOURCE = ['export class AuthService {', '  login(): void {}', '}'].join('\n');
+
+describe('SourceVerifier', () => {
+  let tempDir: string;
+  let repo: SymbolRepository;
+
+  const write = (filePath: string, content: string): void => {
+    fs.mkdirSync(path.dirname(path.join(tempDir, filePath)), { recursive: true });
+    fs.writeFileSync(path.join(tempDir, filePath), content);
+  };
+  const verify = (options = {}) => createSourceVerifier(repo, tempDir).verify(options);
+  const stateOf = (report: ReturnType<typeof verify>, id: string) =>
+    report.checks.find((c) => c.symbolId === id)?.state;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'source-verification-test-'));
+    write('src/logger.ts', LOGGER_SOURCE);
+    write('src/auth.ts', AUTH_SOURCE);
+
+    repo = new SqliteSymbolRepository(initMemoryDatabase());
+    for (const [id, name, filePath, content] of [
+      [LOGGER, 'Logger', 'src/logger.ts', LOGGER_SOURCE],
+      [AUTH, 'AuthService', 'src/auth.ts', AUTH_SOURCE],
+    ] as const) {
+      repo.insert(
+        createSymbol({
+          id,
+          name,
+          namespace: id.split('/')[0]!,
+          sourceLocation: {
+            filePath,
+            startLine: 1,
+            endLine: 3,
+            contentHash: hashSourceSpan(content, 1, 3),
+          },
+        })
+      );
+    }
+    repo.insert(createSymbol({ id: 'core/Unlocated@1.0.0', name: 'Unlocated', namespace: 'core' }));
+  });
+
+  afterEach(() => {
+    closeDatabase();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should report unchanged sources as current', () => {
+    const report = verify();
+
+    assert.deepStrictEqual(
+      report.checks.map((c) => [c.symbolId, c.state]).sort(),
+      [
+        [AUTH, 'current'],
+        [LOGGER, 'current'],
+      ]
+    );
+  });
+
+  it('should find a declaration that moved within its file', () => {
+    write('src/logger.ts', `// Logging\n\n${LOGGER_SOURCE}`);
+
+    const check = verify().checks.find((c) => c.symbolId === LOGGER);
+
+    assert.strictEqual(check?.state, 'moved');
+    assert.strictEqual(check?.actual?.startLine, 3);
+    assert.strictEqual(check?.actual?.endLine, 5);
+    assert.strictEqual(check?.actual?.contentHash, check?.recorded.contentHash);
+  });
+
+  it('should find a declaration that moved to another file', () => {
+    fs.rmSync(path.join(tempDir, 'src/logger.ts'));
+    write('src/logging/logger.ts', LOGGER_SOURCE);
+
+    const check = verify().checks.find((c) => c.symbolId === LOGGER);
+
+    assert.strictEqual(check?.state, 'moved');
+    assert.strictEqual(check?.actual?.filePath, 'src/logging/logger.ts');
+  });
+
+  it('should report changed and missing declarations', () => {
+    write('src/logger.ts', LOGGER_SOURCE.replace('message: string', 'message: unknown'));
+    write('src/auth.ts', 'export class Session {}');
+
+    const report = verify();
+
+    assert.strictEqual(stateOf(report, LOGGER), 'changed');
+    assert.strictEqual(stateOf(report, AUTH), 'missing');
+    assert.match(report.checks.find((c) => c.symbolId === AUTH)!.message, /no longer found/);
+  });
+
+  it('should report deleted files as missing', () => {
+    fs.rmSync(path.join(tempDir, 'src/auth.ts'));
+
+    const check = verify({ symbolIds: [AUTH] }).checks[0];
+
+    assert.strictEqual(check?.state, 'missing');
+    assert.match(check!.message, /no longer exists/);
+  });
+
+  it('should relocate moved declarations when asked', () => {
+    write('src/logger.ts', `\n${LOGGER_SOURCE}`);
+
+    assert.deepStrictEqual(verify().relocated, []);
+    assert.deepStrictEqual(verify({ relocate: true }).relocated, [LOGGER]);
+    assert.strictEqual(repo.find(LOGGER)?.sourceLocation?.startLine, 2);
+    assert.strictEqual(stateOf(verify(), LOGGER), 'current');
+  });
+
+  it('should report stale sources as validation warnings', () => {
+    write('src/logger.ts', `\n${LOGGER_SOURCE}`);
+    fs.rmSync(path.join(tempDir, 'src/auth.ts'));
+
+    const result = validateSymbolTable(repo, createSourceVerifier(repo, tempDir));
+
+    assert.strictEqual(result.valid, true);
+    assert.deepStrictEqual(result.warnings.map((w) => [w.code, w.symbolIds[0]]).sort(), [
+      ['SOURCE_MISSING', AUTH],
+      ['SOURCE_MOVED', LOGGER],
+    ]);
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Source Verifier
+ *
+ * Detects stale source locations. Each symbol's recorded line span is
+ * re-read and re-hashed; when the hash no longer matches, the declaration
+ * is looked up by name through ts-morph, first in the recorded file and then
+ * across the project, to tell a moved declaration from a changed or deleted
+ * one.
+ *
+ * File contents are cached by mtime, so a file shared by many symbols is
+ * read once per check and again only after it changes.
+ */
+
+import { createHash } from 'node:crypto';
+import * as path from 'path';
+import type { SourceFile } from 'ts-morph';
+import type {
+  ComponentSymbol,
+  SourceLocation,
+  SymbolRepository,
+} from '../../domain/symbol/index.js';
+import { readFile } from '../../infrastructure/file-system/index.js';
+import {
+  FileCache,
+  getFileMtime,
+  isTestFile,
+  listSourceFiles,
+  resolveFilePath,
+  SourceFileManager,
+  type SourceFileManager as ISourceFileManager,
+} from '../../infrastructure/typescript-ast/index.js';
+import type {
+  SourceVerifier as ISourceVerifier,
+  SourceCheck,
+  SourceVerificationOptions,
+  SourceVerificationReport,
+} from './schema.js';
+
+/** A named declaration's current span */
+interface FoundDeclaration {
+  filePath: string;
+  startLine: number;
+  endLine: number;
+}
+
+// =============================================================================
+// Service Class
+// =============================================================================
+
+export class SourceVerifier implements ISourceVerifier {
+  private readonly repo: SymbolRepository;
+  private readonly sourceFileManager: ISourceFileManager;
+  private readonly contents = new FileCache<string>();
+
+  constructor(repo: SymbolRepository, sourceFileManager: ISourceFileManager) {
+    this.repo = repo;
+    this.sourceFileManager = sourceFileManager;
+  }
+
+  /**
+   * Check recorded source locations against the files on disk.
+   */
+  verify(options: SourceVerificationOptions = {}): SourceVerificationReport {
+    const symbols = (
+      options.symbolIds
+        ? options.symbolIds.map((id) => this.repo.find(id)).filter((s) => s !== undefined)
+        : this.repo.list()
+    ).filter((s) => s.sourceLocation !== undefined);
+
+    // Built on first use: only stale symbols need the project-wide lookup
+    let projectIndex: Map<string, FoundDeclaration[]> | undefined;
+    const findInProject = (name: string): FoundDeclaration[] => {
+      projectIndex ??= this.indexProject();
+      return projectIndex.get(name) ?? [];
+    };
+
+    const checks: SourceCheck[] = [];
+    const relocated: string[] = [];
+
+    for (const symbol of symbols) {
+      const check = this.check(symbol, findInProject);
+      checks.push(check);
+
+      if (options.relocate && check.state === 'moved' && check.actual) {
+        this.repo.update(symbol.id, { ...symbol, sourceLocation: check.actual });
+        relocated.push(symbol.id);
+      }
+    }
+
+    return { checks, relocated };
+  }
+
+  // ===========================================================================
+  // Internal Helpers
+  // ===========================================================================
+
+  private check(
+    symbol: ComponentSymbol,
+    findInProject: (name: string) => FoundDeclaration[]
+  ): SourceCheck {
+    const recorded = symbol.sourceLocation!;
+    const content = this.readContent(recorded.filePath);
+    const base = { symbolId: symbol.id, recorded };
+
+    const spanHash = content !== null && hashSourceSpan(content, recorded.startLine, recorded.endLine);
+    if (spanHash === recorded.contentHash) {
+      return { ...base, state: 'current', message: 'Source is up to date' };
+    }
+
+    // Prefer the recorded file; fall back to a unique match elsewhere in the project
+    const inFile = content !== null ? this.findInFile(recorded.filePath, symbol.name) : [];
+    const inProject = inFile.length > 0 ? [] : findInProject(symbol.name);
+    const found = inFile[0] ?? (inProject.length === 1 ? inProject[0] : undefined);
+
+    if (!found) {
+      let message = `Declaration '${symbol.name}' no longer found in '${recorded.filePath}'`;
+      if (content === null) {
+        message = `File '${recorded.filePath}' no longer exists`;
+      }
+      if (inProject.length > 1) {
+        message += ` (${inProject.length} declarations named '${symbol.name}' elsewhere)`;
+      }
+      return { ...base, state: 'missing', message };
+    }
+
+    const actual: SourceLocation = {
+      ...found,
+      contentHash: hashSourceSpan(
+        this.readContent(found.filePath) ?? '',
+        found.startLine,
+        found.endLine
+      ),
+    };
+    const where =
+      found.filePath === recorded.filePath
+        ? `lines ${found.startLine}-${found.endLine}`
+        : `'${found.filePath}' lines ${found.startLine}-${found.endLine}`;
+
+    if (actual.contentHash === recorded.contentHash) {
+      return { ...base, state: 'moved', actual, message: `Declaration moved to ${where}` };
+    }
+    return { ...base, state: 'changed', actual, message: `Declaration changed (now at ${where})` };
+  }
+
+  /**
+   * Read a file through the mtime cache.
+   *
+   * @returns File content, or null if the file no longer exists
+   */
+  private readContent(filePath: string): string | null {
+    const absolutePath = this.resolve(filePath);
+    const mtime = getFileMtime(absolutePath);
+    if (mtime === null) {
+      return null;
+    }
+
+    const cached = this.contents.get(absolutePath, mtime);
+    if (cached !== null) {
+      return cached;
+    }
+
+    const content = readFile(absolutePath);
+    this.contents.set(absolutePath, content, mtime);
+    return content;
+  }
+
+  private findInFile(filePath: string, name: string): FoundDeclaration[] {
+    const sourceFile = this.sourceFileManager.getSourceFile(this.resolve(filePath));
+    return sourceFile ? namedDeclarations(sourceFile, this.relative(sourceFile)).get(name) ?? [] : [];
+  }
+
+  /**
+   * Index the declarations of every project source by name.
+   */
+  private indexProject(): Map<string, FoundDeclaration[]> {
+    const index = new Map<string, FoundDeclaration[]>();
+
+    for (const filePath of listSourceFiles(this.sourceFileManager.getProjectRoot())) {
+      if (isTestFile(filePath)) continue;
+      const sourceFile = this.sourceFileManager.getSourceFile(filePath);
+      if (!sourceFile) continue;
+
+      for (const [name, found] of namedDeclarations(sourceFile, this.relative(sourceFile))) {
+        index.set(name, [...(index.get(name) ?? []), ...found]);
+      }
+    }
+
+    return index;
+  }
+
+  private resolve(filePath: string): string {
+    return path.resolve(resolveFilePath(filePath, this.sourceFileManager.getProjectRoot()));
+  }
+
+  private relative(sourceFile: SourceFile): string {
+    const relativePath = path.relative(
+      this.sourceFileManager.getProjectRoot(),
+      sourceFile.getFilePath()
+    );
+    return relativePath.split(path.sep).join('/');
+  }
+}
+
+/**
+ * Create a source verifier for a project root.
+ */
+export function createSourceVerifier(
+  repo: SymbolRepository,
+  projectRoot: string
+): SourceVerifier {
+  return new SourceVerifier(repo, new SourceFileManager(projectRoot));
+}
+
+// =============================================================================
+// Content Hash
+// =============================================================================
+
+/**
+ * Hash the lines `startLine`..`endLine` (1-based, inclusive) of a file.
+ * This is the `contentHash` recorded in a symbol's `sourceLocation`.
+ */
+export function hashSourceSpan(content: string, startLine: number, endLine: number): string {
+  const span = content.split(/\r?\n/).slice(startLine - 1, endLine).join('\n');
+  return createHash('sha256').update(span).digest('hex').slice(0, 16);
+}
+
+// =============================================================================
+// Module Helpers
+// =============================================================================
+
+/**
+ * Top-level named declarations of a file, grouped by name.
+ */
+function namedDeclarations(
+  sourceFile: SourceFile,
+  filePath: string
+): Map<string, FoundDeclaration[]> {
+  const declarations = [
+    ...sourceFile.getClasses(),
+    ...sourceFile.getInterfaces(),
+    ...sourceFile.getEnums(),
+    ...sourceFile.getTypeAliases(),
+    ...sourceFile.getFunctions(),
+  ];
+
+  const byName = new Map<string, FoundDeclaration[]>();
+  for (const declaration of declarations) {
+    const name = declaration.getName();
+    if (!name) continue;
+    byName.set(name, [
+      ...(byName.get(name) ?? []),
+      {
+        filePath,
+        startLine: declaration.getStartLineNumber(),
+        endLine: declaration.getEndLineNumber(),
+      },
+    ]);
+  }
+  return byName;
+}
@@ -0,0 +1,16 @@
+/**
+ * Static Analysis Service
+ *
+ * Scans a project's TypeScript sources and advances symbol status from
+ * `declared` to `referenced` or `tested` (ADR-005).
+ */
+
+// Service (primary API)
+export { StaticAnalyzer, createStaticAnalyzer } from './service.js';
+
+// Commonly used types
+export type {
+  StaticAnalysisOptions,
+  StaticAnalysisResult,
+  SymbolAnalysis,
+} from './schema.js';
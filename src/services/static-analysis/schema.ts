@@ -0,0 +1,63 @@
+/**
+ * Static Analysis Schema
+ *
+ * Types for deriving symbol status from the project's TypeScript sources
+ * (ADR-005 static analyzer).
+ */
+
+import type { SymbolStatus } from '../../domain/symbol/index.js';
+
+// =============================================================================
+// Service Interface
+// =============================================================================
+
+/**
+ * Static analyzer public API contract.
+ *
+ * Scans the project, maps declarations back to symbols through their
+ * source locations, and records who references and tests each symbol.
+ */
+export interface StaticAnalyzer {
+  analyze(options?: StaticAnalysisOptions): StaticAnalysisResult;
+}
+
+// =============================================================================
+// Options
+// =============================================================================
+
+export interface StaticAnalysisOptions {
+  /** Report the statuses without updating the symbol table (default: false) */
+  dryRun?: boolean;
+}
+
+// =============================================================================
+// Analysis Result
+// =============================================================================
+
+/**
+ * What the analyzer found for one symbol.
+ */
+export interface SymbolAnalysis {
+  symbolId: string;
+  /** Status derived from the sources */
+  status: SymbolStatus;
+  /**
+   * Referencing symbols, or project-relative file paths for references
+   * outside any registered symbol (e.g., an entry point script)
+   */
+  referencedBy: string[];
+  /** Project-relative test files that reference the symbol */
+  testedBy: string[];
+}
+
+/**
+ * Result of a static analysis run.
+ */
+export interface StaticAnalysisResult {
+  /** Number of source files scanned */
+  filesScanned: number;
+  /** Symbols whose declaration was found */
+  symbols: SymbolAnalysis[];
+  /** Symbols with a source location in the project whose declaration was not found */
+  unresolved: string[];
+}
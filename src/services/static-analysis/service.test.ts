@@ -0,0 +1,160 @@
+/**
+ * Static Analyzer Tests
+ *
+ * Integration tests scanning a temporary TypeScript project.
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  initMemoryDatabase,
+  closeDatabase,
+} from '../../repositories/persistence.js';
+import { SqliteSymbolRepository } from '../../repositories/symbol-repository.js';
+import { createSymbol } from '../../testing/fixtures.js';
+import type { ComponentSymbol, SymbolRepository } from '../../domain/symbol/index.js';
+import { createStaticAnalyzer } from './service.js';
+
+const LOGGER = 'core/Logger@1.0.0';
+const AUTH = 'auth/AuthService@1.0.0';
+const UNUSED = 'util/Unused@1.0.0';
+
+const FILES: Record<string, string> = {
+  'src/logger.ts': ['export class Logger {', '  log(message: string): void {}', '}'].join('\n'),
+  'src/auth.ts': [
+    "import { Logger } from './logger.js';",
+    '',
+    'export class AuthService {',
+    '  constructor(private logger: Logger) {}',
+    '}',
+  ].join('\n'),
+  'src/unused.ts': 'export function unused(): void {}',
+  'src/index.ts': [
+    "export { Logger } from './logger.js';",
+    "export { unused } from './unused.js';",
+  ].join('\n'),
+  'src/main.ts': [
+    "import { Logger } from './logger.js';",
+    "import { AuthService } from './auth.js';",
+    '',
+    'new AuthService(new Logger());',
+  ].join('\n'),
+  'src/auth.test.ts': [
+    "import { AuthService } from './auth.js';",
+    "import { Logger } from './logger.js';",
+    '',
+    'const service = new AuthService({} as Logger);',
+  ].join('\n'),
+  'node_modules/dep/index.ts': "import { unused } from '../../src/unused.js';\nunused();",
+};
+
+function located(
+  id: string,
+  name: string,
+  filePath: string,
+  lines: [number, number],
+  overrides: Partial<ComponentSymbol> = {}
+): ComponentSymbol {
+  return createSymbol({
+    id,
+    name,
+    namespace: id.split('/')[0]!,
+    sourceLocation: { filePath, startLine: lines[0], endLine: lines[1], contentHash: 'hash' },
+    ...overrides,
+  });
+}
+
+describe('StaticAnalyzer', () => {
+  let tempDir: string;
+  let repo: SymbolRepository;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'static-analysis-test-'));
+    for (const [filePath, content] of Object.entries(FILES)) {
+      fs.mkdirSync(path.dirname(path.join(tempDir, filePath)), { recursive: true });
+      fs.writeFileSync(path.join(tempDir, filePath), content);
+    }
+
+    const db = initMemoryDatabase();
+    repo = new SqliteSymbolRepository(db);
+    repo.insert(located(LOGGER, 'Logger', 'src/logger.ts', [1, 3]));
+    repo.insert(located(AUTH, 'AuthService', 'src/auth.ts', [3, 5]));
+    repo.insert(located(UNUSED, 'unused', 'src/unused.ts', [1, 1], { kind: 'function' }));
+  });
+
+  afterEach(() => {
+    closeDatabase();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should record referencing symbols and files', () => {
+    const result = createStaticAnalyzer(repo, tempDir).analyze();
+    const logger = result.symbols.find((s) => s.symbolId === LOGGER);
+
+    assert.strictEqual(result.filesScanned, 6);
+    assert.deepStrictEqual(logger?.referencedBy, [AUTH, path.join('src', 'main.ts')]);
+  });
+
+  it('should mark symbols referenced from test files as tested', () => {
+    createStaticAnalyzer(repo, tempDir).analyze();
+    const auth = repo.find(AUTH);
+
+    assert.strictEqual(auth?.status, 'tested');
+    assert.strictEqual(auth?.statusInfo?.source, 'static');
+    assert.deepStrictEqual(auth?.statusInfo?.testedBy, [path.join('src', 'auth.test.ts')]);
+    assert.strictEqual(repo.find(LOGGER)?.status, 'tested');
+  });
+
+  it('should ignore re-exports and skipped directories', () => {
+    createStaticAnalyzer(repo, tempDir).analyze();
+
+    assert.strictEqual(repo.find(UNUSED)?.status, 'declared');
+    assert.deepStrictEqual(repo.find(UNUSED)?.statusInfo?.referencedBy, []);
+  });
+
+  it('should demote statuses from earlier static runs', () => {
+    const analyzer = createStaticAnalyzer(repo, tempDir);
+    analyzer.analyze();
+    fs.writeFileSync(path.join(tempDir, 'src/main.ts'), '');
+    fs.rmSync(path.join(tempDir, 'src/auth.test.ts'));
+
+    createStaticAnalyzer(repo, tempDir).analyze();
+
+    assert.strictEqual(repo.find(AUTH)?.status, 'declared');
+    assert.strictEqual(repo.find(LOGGER)?.status, 'referenced');
+  });
+
+  it('should keep higher statuses from runtime tracing', () => {
+    const executed = repo.find(UNUSED)!;
+    repo.update(UNUSED, {
+      ...executed,
+      status: 'executed',
+      statusInfo: { updatedAt: new Date(), source: 'runtime' },
+    });
+
+    createStaticAnalyzer(repo, tempDir).analyze();
+
+    assert.strictEqual(repo.find(UNUSED)?.status, 'executed');
+    assert.strictEqual(repo.find(UNUSED)?.statusInfo?.source, 'runtime');
+  });
+
+  it('should not update symbols on a dry run', () => {
+    const result = createStaticAnalyzer(repo, tempDir).analyze({ dryRun: true });
+
+    assert.strictEqual(result.symbols.find((s) => s.symbolId === AUTH)?.status, 'tested');
+    assert.strictEqual(repo.find(AUTH)?.status, 'declared');
+  });
+
+  it('should report symbols whose declaration is not at their source location', () => {
+    repo.insert(located('core/Moved@1.0.0', 'Moved', 'src/logger.ts', [10, 12]));
+    repo.insert(located('core/Elsewhere@1.0.0', 'Elsewhere', 'lib/other.ts', [1, 1]));
+
+    const result = createStaticAnalyzer(repo, tempDir).analyze();
+
+    assert.deepStrictEqual(result.unresolved, ['core/Moved@1.0.0']);
+    assert.strictEqual(repo.find('core/Elsewhere@1.0.0')?.status, 'declared');
+  });
+});
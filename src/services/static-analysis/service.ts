@@ -0,0 +1,278 @@
+/**
+ * Static Analyzer
+ *
+ * Derives symbol status from the project's TypeScript sources (ADR-005).
+ * Declarations are mapped back to symbols through `sourceLocation`; every
+ * reference to a declaration is attributed to the symbol whose source
+ * location contains it. References from test files mark the symbol as
+ * tested, other references mark it as referenced.
+ */
+
+import * as path from 'path';
+import { Node, SyntaxKind } from 'ts-morph';
+import type {
+  ClassDeclaration,
+  EnumDeclaration,
+  FunctionDeclaration,
+  InterfaceDeclaration,
+  SourceFile,
+  TypeAliasDeclaration,
+  VariableDeclaration,
+} from 'ts-morph';
+import type {
+  ComponentSymbol,
+  SymbolRepository,
+  SymbolStatus,
+} from '../../domain/symbol/index.js';
+import {
+  isTestFile,
+  listSourceFiles,
+  resolveFilePath,
+  SourceFileManager,
+  type SourceFileManager as ISourceFileManager,
+} from '../../infrastructure/typescript-ast/index.js';
+import type {
+  StaticAnalyzer as IStaticAnalyzer,
+  StaticAnalysisOptions,
+  StaticAnalysisResult,
+  SymbolAnalysis,
+} from './schema.js';
+
+type Declaration =
+  | ClassDeclaration
+  | InterfaceDeclaration
+  | FunctionDeclaration
+  | EnumDeclaration
+  | TypeAliasDeclaration
+  | VariableDeclaration;
+
+/** Source span of a registered symbol */
+interface SymbolSpan {
+  symbolId: string;
+  startLine: number;
+  endLine: number;
+}
+
+const STATUS_RANK: Record<SymbolStatus, number> = {
+  declared: 0,
+  referenced: 1,
+  tested: 2,
+  executed: 3,
+};
+
+// =============================================================================
+// Service Class
+// =============================================================================
+
+export class StaticAnalyzer implements IStaticAnalyzer {
+  private readonly repo: SymbolRepository;
+  private readonly sourceFileManager: ISourceFileManager;
+
+  constructor(repo: SymbolRepository, sourceFileManager: ISourceFileManager) {
+    this.repo = repo;
+    this.sourceFileManager = sourceFileManager;
+  }
+
+  /**
+   * Scan the project and update the status of every symbol declared in it.
+   *
+   * Statuses set by registration or an earlier static run are replaced, so
+   * symbols lose `referenced` when their last reference goes away. Higher
+   * statuses from coverage or runtime tracing are kept; only `referencedBy`
+   * is refreshed on them.
+   */
+  analyze(options: StaticAnalysisOptions = {}): StaticAnalysisResult {
+    const root = this.sourceFileManager.getProjectRoot();
+    const sourceFiles = listSourceFiles(root)
+      .map((filePath) => this.sourceFileManager.getSourceFile(filePath))
+      .filter((sf): sf is SourceFile => sf !== null);
+    const scanned = new Set(sourceFiles.map((sf) => path.resolve(sf.getFilePath())));
+
+    const declared = this.repo
+      .list()
+      .filter((s) => s.sourceLocation && scanned.has(this.resolve(s.sourceLocation.filePath)));
+    const spans = indexSpans(declared, (filePath) => this.resolve(filePath));
+
+    const symbols: SymbolAnalysis[] = [];
+    const unresolved: string[] = [];
+    const now = new Date();
+
+    for (const symbol of declared) {
+      const location = symbol.sourceLocation!;
+      const sourceFile = this.sourceFileManager.getSourceFile(this.resolve(location.filePath));
+      const declaration = sourceFile && findDeclaration(sourceFile, symbol);
+      if (!declaration) {
+        unresolved.push(symbol.id);
+        continue;
+      }
+
+      const analysis = this.analyzeReferences(symbol, declaration, spans, root);
+      symbols.push(analysis);
+      if (!options.dryRun) {
+        this.applyStatus(symbol, analysis, now);
+      }
+    }
+
+    return { filesScanned: sourceFiles.length, symbols, unresolved };
+  }
+
+  // ===========================================================================
+  // Internal Helpers
+  // ===========================================================================
+
+  /**
+   * Attribute each reference to a declaration to its referencing symbol or file.
+   */
+  private analyzeReferences(
+    symbol: ComponentSymbol,
+    declaration: Declaration,
+    spans: Map<string, SymbolSpan[]>,
+    root: string
+  ): SymbolAnalysis {
+    const referencedBy = new Set<string>();
+    const testedBy = new Set<string>();
+
+    for (const ref of declaration.findReferencesAsNodes()) {
+      if (isImportOrExport(ref)) continue;
+
+      const filePath = path.resolve(ref.getSourceFile().getFilePath());
+      const relativePath = path.relative(root, filePath);
+      if (isTestFile(filePath)) {
+        testedBy.add(relativePath);
+        continue;
+      }
+
+      const owner = findOwner(spans.get(filePath) ?? [], ref.getStartLineNumber());
+      if (owner === symbol.id) continue;
+      referencedBy.add(owner ?? relativePath);
+    }
+
+    const status: SymbolStatus =
+      testedBy.size > 0 ? 'tested' : referencedBy.size > 0 ? 'referenced' : 'declared';
+
+    return {
+      symbolId: symbol.id,
+      status,
+      referencedBy: Array.from(referencedBy).sort(),
+      testedBy: Array.from(testedBy).sort(),
+    };
+  }
+
+  /**
+   * Record the derived status on the symbol.
+   */
+  private applyStatus(symbol: ComponentSymbol, analysis: SymbolAnalysis, now: Date): void {
+    const info = symbol.statusInfo;
+    const keepStatus =
+      (info?.source === 'coverage' || info?.source === 'runtime') &&
+      STATUS_RANK[symbol.status] > STATUS_RANK[analysis.status];
+
+    const updated: ComponentSymbol = keepStatus
+      ? {
+          ...symbol,
+          statusInfo: { ...info, updatedAt: now, referencedBy: analysis.referencedBy },
+        }
+      : {
+          ...symbol,
+          status: analysis.status,
+          statusInfo: {
+            updatedAt: now,
+            source: 'static',
+            referencedBy: analysis.referencedBy,
+            testedBy: analysis.testedBy,
+          },
+        };
+
+    this.repo.update(symbol.id, updated);
+  }
+
+  private resolve(filePath: string): string {
+    return path.resolve(resolveFilePath(filePath, this.sourceFileManager.getProjectRoot()));
+  }
+}
+
+// =============================================================================
+// Module Helpers
+// =============================================================================
+
+/**
+ * Group symbol spans by absolute file path.
+ */
+function indexSpans(
+  symbols: ComponentSymbol[],
+  resolve: (filePath: string) => string
+): Map<string, SymbolSpan[]> {
+  const spans = new Map<string, SymbolSpan[]>();
+
+  for (const symbol of symbols) {
+    const location = symbol.sourceLocation!;
+    const filePath = resolve(location.filePath);
+    const existing = spans.get(filePath) ?? [];
+    existing.push({
+      symbolId: symbol.id,
+      startLine: location.startLine,
+      endLine: location.endLine,
+    });
+    spans.set(filePath, existing);
+  }
+
+  return spans;
+}
+
+/**
+ * Get the innermost symbol whose span contains a line.
+ */
+function findOwner(spans: SymbolSpan[], line: number): string | undefined {
+  let owner: SymbolSpan | undefined;
+  for (const span of spans) {
+    if (line < span.startLine || line > span.endLine) continue;
+    if (!owner || span.endLine - span.startLine < owner.endLine - owner.startLine) {
+      owner = span;
+    }
+  }
+  return owner?.symbolId;
+}
+
+/**
+ * Find the top-level declaration of a symbol within its source location,
+ * preferring one with the symbol's name.
+ */
+function findDeclaration(sourceFile: SourceFile, symbol: ComponentSymbol): Declaration | undefined {
+  const { startLine, endLine } = symbol.sourceLocation!;
+  const declarations: Declaration[] = [
+    ...sourceFile.getClasses(),
+    ...sourceFile.getInterfaces(),
+    ...sourceFile.getFunctions(),
+    ...sourceFile.getEnums(),
+    ...sourceFile.getTypeAliases(),
+    ...sourceFile.getVariableDeclarations(),
+  ];
+
+  const inSpan = declarations.filter((decl) => {
+    const line = decl.getStartLineNumber();
+    return line >= startLine && line <= endLine;
+  });
+
+  return inSpan.find((decl) => decl.getName() === symbol.name) ?? inSpan[0];
+}
+
+/**
+ * Imports and re-exports (e.g., barrel files) do not use a symbol.
+ */
+function isImportOrExport(node: Node): boolean {
+  return (
+    node.getFirstAncestorByKind(SyntaxKind.ImportDeclaration) !== undefined ||
+    node.getFirstAncestorByKind(SyntaxKind.ExportDeclaration) !== undefined ||
+    Node.isExportAssignment(node.getParent())
+  );
+}
+
+/**
+ * Create a StaticAnalyzer for a project directory.
+ */
+export function createStaticAnalyzer(
+  repo: SymbolRepository,
+  projectRoot: string
+): StaticAnalyzer {
+  return new StaticAnalyzer(repo, new SourceFileManager(projectRoot));
+}
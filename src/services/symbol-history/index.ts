@@ -0,0 +1,12 @@
+/**
+ * Symbol History Service
+ *
+ * Audit log of symbol changes: per-symbol revisions, revision diffs,
+ * restores and point-in-time reconstruction of the registry.
+ */
+
+// Service (primary API)
+export { SymbolHistoryService } from './service.js';
+
+// Commonly used types
+export type { FieldChange, RevisionDiff } from './schema.js';
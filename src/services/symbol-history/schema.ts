@@ -0,0 +1,57 @@
+/**
+ * Symbol History Schema
+ *
+ * Types for the symbol change history: listing, diffing and restoring
+ * revisions, and reconstructing the registry at a past point in time.
+ */
+
+import type {
+  ChangeAttribution,
+  ComponentSymbol,
+  SymbolRevision,
+} from '../../domain/symbol/index.js';
+
+// =============================================================================
+// Service Interface
+// =============================================================================
+
+/**
+ * Symbol history service public API contract.
+ *
+ * Revisions are recorded by the symbol repository on every write; this
+ * service only reads them, except for restore, which writes a new revision.
+ */
+export interface SymbolHistoryService {
+  list(symbolId: string): SymbolRevision[];
+  diff(fromRevision: number, toRevision?: number): RevisionDiff;
+  restore(revision: number, attribution?: ChangeAttribution): SymbolRevision;
+  asOf(timestamp: Date): ComponentSymbol[];
+}
+
+// =============================================================================
+// Diff
+// =============================================================================
+
+/**
+ * A field whose value differs between two states of a symbol.
+ * Values are in registry file form (ISO dates, sorted keys).
+ */
+export interface FieldChange {
+  /** Dotted field path, e.g. "statusInfo.source" */
+  path: string;
+  /** Absent if the field was not set */
+  before?: unknown;
+  /** Absent if the field is no longer set */
+  after?: unknown;
+}
+
+/**
+ * Differences between the symbol states after two revisions.
+ */
+export interface RevisionDiff {
+  symbolId: string;
+  fromRevision: number;
+  /** Absent when compared with the symbol as currently registered */
+  toRevision?: number;
+  changes: FieldChange[];
+}
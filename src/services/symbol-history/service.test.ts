@@ -0,0 +1,138 @@
+/**
+ * Symbol History Service Tests
+ *
+ * Integration tests against the history the SQLite repository records.
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import {
+  initMemoryDatabase,
+  closeDatabase,
+} from '../../repositories/persistence.js';
+import { SqliteSymbolRepository } from '../../repositories/symbol-repository.js';
+import { SqliteSymbolHistoryRepository } from '../../repositories/symbol-history-repository.js';
+import type { SymbolRepository } from '../../domain/symbol/index.js';
+import { createSymbol } from '../../testing/fixtures.js';
+import { SymbolHistoryService } from './service.js';
+
+const LOGGER = 'core/Logger@1.0.0';
+
+/** Wait for the clock to move, so revisions get distinct timestamps */
+function tick(): Date {
+  const start = Date.now();
+  while (Date.now() === start) {
+    // busy wait (at most a millisecond)
+  }
+  return new Date();
+}
+
+describe('SymbolHistoryService', () => {
+  let repo: SymbolRepository;
+  let service: SymbolHistoryService;
+
+  const logger = createSymbol({ id: LOGGER, name: 'Logger', namespace: 'core' });
+
+  beforeEach(() => {
+    const db = initMemoryDatabase();
+    repo = new SqliteSymbolRepository(db);
+    service = new SymbolHistoryService(repo, new SqliteSymbolHistoryRepository(db));
+  });
+
+  afterEach(() => {
+    closeDatabase();
+  });
+
+  it('should record every write with before and after states', () => {
+    repo.insert(logger);
+    repo.withAttribution({ author: 'ana', reason: 'clarify' }, () => {
+      repo.update(LOGGER, { ...logger, description: 'Writes log lines' });
+    });
+    repo.delete(LOGGER);
+
+    const revisions = service.list(LOGGER);
+
+    assert.deepStrictEqual(
+      revisions.map((r) => r.operation),
+      ['insert', 'update', 'delete']
+    );
+    const [insert, update, remove] = revisions;
+    assert.strictEqual(insert?.before, undefined);
+    assert.strictEqual(insert?.after?.description, 'Test component');
+    assert.strictEqual(update?.before?.description, 'Test component');
+    assert.strictEqual(update?.after?.description, 'Writes log lines');
+    assert.strictEqual(update?.author, 'ana');
+    assert.strictEqual(update?.reason, 'clarify');
+    assert.strictEqual(remove?.author, undefined);
+    assert.strictEqual(remove?.after, undefined);
+  });
+
+  it('should record the extends a delete clears on subclasses', () => {
+    repo.insert(logger);
+    repo.insert(createSymbol({ id: 'core/FileLogger@1.0.0', name: 'FileLogger', extends: LOGGER }));
+
+    repo.delete(LOGGER);
+
+    const [, cleared] = service.list('core/FileLogger@1.0.0');
+    assert.strictEqual(cleared?.operation, 'update');
+    assert.strictEqual(cleared?.before?.extends, LOGGER);
+    assert.strictEqual(cleared?.after?.extends, undefined);
+  });
+
+  it('should diff two revisions and a revision against the registry', () => {
+    repo.insert(logger);
+    repo.update(LOGGER, { ...logger, description: 'Writes log lines', tags: ['io'] });
+    repo.update(LOGGER, { ...logger, description: 'Writes log lines', tags: ['io'], status: 'tested' });
+    const [first, second] = service.list(LOGGER);
+
+    const diff = service.diff(first!.revision, second!.revision);
+
+    assert.deepStrictEqual(diff.changes, [
+      { path: 'tags', before: [], after: ['io'] },
+      { path: 'description', before: 'Test component', after: 'Writes log lines' },
+    ]);
+    assert.deepStrictEqual(
+      service.diff(second!.revision).changes.map((c) => c.path),
+      ['status']
+    );
+  });
+
+  it('should restore a revision, also after a delete', () => {
+    repo.insert(logger);
+    repo.update(LOGGER, { ...logger, description: 'Edited' });
+    const [original] = service.list(LOGGER);
+    repo.delete(LOGGER);
+
+    const restored = service.restore(original!.revision, { author: 'ana' });
+
+    assert.strictEqual(restored.operation, 'insert');
+    assert.strictEqual(restored.author, 'ana');
+    assert.strictEqual(restored.reason, `Restore revision ${original!.revision}`);
+    assert.strictEqual(repo.find(LOGGER)?.description, 'Test component');
+    assert.throws(() => service.restore(service.list(LOGGER)[2]!.revision), /deleted/);
+  });
+
+  it('should reconstruct the registry at a point in time', () => {
+    repo.insert(logger);
+    const afterInsert = tick();
+    tick();
+    repo.update(LOGGER, { ...logger, description: 'Edited' });
+    repo.insert(createSymbol({ id: 'core/Clock@1.0.0', name: 'Clock', namespace: 'core' }));
+    const afterEdits = tick();
+    tick();
+    repo.delete(LOGGER);
+
+    assert.deepStrictEqual(
+      service.asOf(afterInsert).map((s) => [s.id, s.description]),
+      [[LOGGER, 'Test component']]
+    );
+    assert.deepStrictEqual(
+      service.asOf(afterEdits).map((s) => s.id),
+      ['core/Clock@1.0.0', LOGGER]
+    );
+    assert.deepStrictEqual(
+      service.asOf(new Date()).map((s) => s.id),
+      ['core/Clock@1.0.0']
+    );
+  });
+});
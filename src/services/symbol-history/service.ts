@@ -0,0 +1,159 @@
+/**
+ * Symbol History Service
+ *
+ * Reads the revisions the symbol repository records on every insert, update
+ * and delete. A revision's state is the symbol as it was right after the
+ * write (none for a delete), so diffs and point-in-time queries compare and
+ * collect those states. Restoring writes a state back as a new revision;
+ * history itself is never rewritten.
+ */
+
+import type {
+  ChangeAttribution,
+  ComponentSymbol,
+  SymbolHistoryRepository,
+  SymbolRepository,
+  SymbolRevision,
+} from '../../domain/symbol/index.js';
+import { toRegistryEntry } from '../registry-io/index.js';
+import type {
+  SymbolHistoryService as ISymbolHistoryService,
+  FieldChange,
+  RevisionDiff,
+} from './schema.js';
+
+// =============================================================================
+// Service Class
+// =============================================================================
+
+export class SymbolHistoryService implements ISymbolHistoryService {
+  private readonly repo: SymbolRepository;
+  private readonly history: SymbolHistoryRepository;
+
+  constructor(repo: SymbolRepository, history: SymbolHistoryRepository) {
+    this.repo = repo;
+    this.history = history;
+  }
+
+  /**
+   * List a symbol's revisions, oldest first. Deleted symbols keep their history.
+   */
+  list(symbolId: string): SymbolRevision[] {
+    return this.history.listForSymbol(symbolId);
+  }
+
+  /**
+   * Compare the symbol after one revision with the symbol after another,
+   * or with the symbol as currently registered.
+   *
+   * @throws Error if a revision does not exist or the two belong to different symbols
+   */
+  diff(fromRevision: number, toRevision?: number): RevisionDiff {
+    const from = this.getRevision(fromRevision);
+    let after: ComponentSymbol | undefined;
+    if (toRevision === undefined) {
+      after = this.repo.find(from.symbolId);
+    } else {
+      const to = this.getRevision(toRevision);
+      if (to.symbolId !== from.symbolId) {
+        throw new Error(
+          `Revisions ${fromRevision} and ${toRevision} belong to different symbols ` +
+            `('${from.symbolId}', '${to.symbolId}')`
+        );
+      }
+      after = to.after;
+    }
+
+    const changes = diffFields(
+      from.after ? toRegistryEntry(from.after) : {},
+      after ? toRegistryEntry(after) : {},
+      ''
+    );
+    return {
+      symbolId: from.symbolId,
+      fromRevision,
+      ...(toRevision !== undefined && { toRevision }),
+      changes,
+    };
+  }
+
+  /**
+   * Put a symbol back in the state it had after a revision, re-registering
+   * it if it was deleted since. The original creation time is kept.
+   *
+   * @returns The revision recording the restore
+   * @throws Error if the revision does not exist or is a delete
+   */
+  restore(revision: number, attribution: ChangeAttribution = {}): SymbolRevision {
+    const target = this.getRevision(revision);
+    if (!target.after) {
+      throw new Error(
+        `Revision ${revision} deleted '${target.symbolId}'; restore an earlier revision`
+      );
+    }
+    const state = target.after;
+
+    this.repo.withAttribution({ reason: `Restore revision ${revision}`, ...attribution }, () => {
+      const current = this.repo.find(state.id);
+      const restored: ComponentSymbol = { ...state, updatedAt: new Date() };
+      if (current) {
+        this.repo.update(state.id, { ...restored, createdAt: current.createdAt });
+      } else {
+        this.repo.insert(restored);
+      }
+    });
+
+    const revisions = this.history.listForSymbol(state.id);
+    return revisions[revisions.length - 1] ?? target;
+  }
+
+  /**
+   * Reconstruct the registry as it was at a point in time.
+   * Symbols registered before history was recorded appear from their baseline revision.
+   */
+  asOf(timestamp: Date): ComponentSymbol[] {
+    return this.history
+      .findLatestAsOf(timestamp)
+      .flatMap((revision) => (revision.after ? [revision.after] : []));
+  }
+
+  // ===========================================================================
+  // Internal Helpers
+  // ===========================================================================
+
+  private getRevision(revision: number): SymbolRevision {
+    const found = this.history.find(revision);
+    if (!found) {
+      throw new Error(`Revision ${revision} not found`);
+    }
+    return found;
+  }
+}
+
+/**
+ * Diff two canonical entries. Nested objects are compared field by field;
+ * arrays and other values as a whole.
+ */
+function diffFields(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  prefix: string
+): FieldChange[] {
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+  return keys.flatMap((key): FieldChange[] => {
+    const path = `${prefix}${key}`;
+    const a = before[key];
+    const b = after[key];
+    if (isObject(a) && isObject(b)) {
+      return diffFields(a, b, `${path}.`);
+    }
+    if (JSON.stringify(a) === JSON.stringify(b)) {
+      return [];
+    }
+    return [{ path, ...(a !== undefined && { before: a }), ...(b !== undefined && { after: b }) }];
+  });
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -12,6 +12,7 @@
 // =============================================================================
 
 export { SymbolTableService } from './service.js';
+export { ReferenceResolver } from './reference-resolver.js';
 export {
   validateSymbolTable,
   validateSymbolById,
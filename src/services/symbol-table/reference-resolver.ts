@@ -0,0 +1,117 @@
+/**
+ * Reference Resolver
+ *
+ * Resolves symbol references to registered symbols.
+ * Pinned IDs ("core/Logger@1.2.0") are looked up directly. Version-range
+ * references ("core/Logger@^1.2.0") resolve to the version recorded in the
+ * project's version locks, or else to the highest registered version that
+ * satisfies the constraint.
+ */
+
+import type {
+  ComponentSymbol,
+  SymbolRepository,
+  VersionLock,
+  VersionLockRepository,
+  VersionReference,
+} from '../../domain/symbol/index.js';
+import {
+  compareSemVer,
+  findBestMatch,
+  parseVersionReference,
+  satisfiesReference,
+} from '../../domain/symbol/index.js';
+
+export class ReferenceResolver {
+  /**
+   * @param repo - Symbol repository to resolve against
+   * @param locks - Version locks; without them every range resolves to the newest match
+   */
+  constructor(
+    private repo: SymbolRepository,
+    private locks?: VersionLockRepository
+  ) {}
+
+  /**
+   * Resolve a reference without changing the locks.
+   */
+  resolve(ref: string): ComponentSymbol | undefined {
+    const range = parseVersionReference(ref);
+    if (!range) return this.repo.find(ref);
+
+    return this.findLocked(ref, range) ?? this.findBestVersion(range);
+  }
+
+  /**
+   * Resolve a reference and lock range references to the result.
+   * Used at generate time, so later runs keep the same versions.
+   */
+  resolveAndLock(ref: string): ComponentSymbol | undefined {
+    const resolved = this.resolve(ref);
+    if (resolved && this.locks && parseVersionReference(ref)) {
+      const existing = this.locks.find(ref);
+      if (existing?.resolvedId !== resolved.id) {
+        this.locks.save(ref, resolved.id);
+      }
+    }
+    return resolved;
+  }
+
+  /**
+   * Re-resolve every locked reference to the newest matching version.
+   * Locks whose reference no longer matches any registered version are removed.
+   *
+   * @returns The locks after updating
+   */
+  updateLocks(): VersionLock[] {
+    if (!this.locks) return [];
+
+    for (const lock of this.locks.list()) {
+      const range = parseVersionReference(lock.reference);
+      const best = range ? this.findBestVersion(range) : undefined;
+      if (!best) {
+        this.locks.delete(lock.reference);
+      } else if (best.id !== lock.resolvedId) {
+        this.locks.save(lock.reference, best.id);
+      }
+    }
+
+    return this.locks.list();
+  }
+
+  /**
+   * List the current version locks.
+   */
+  listLocks(): VersionLock[] {
+    return this.locks?.list() ?? [];
+  }
+
+  /**
+   * Get the locked symbol for a reference, if the lock still satisfies it.
+   */
+  private findLocked(ref: string, range: VersionReference): ComponentSymbol | undefined {
+    const lock = this.locks?.find(ref);
+    if (!lock) return undefined;
+
+    const locked = this.repo.find(lock.resolvedId);
+    if (!locked || !satisfiesReference(locked.version, range)) return undefined;
+    return locked;
+  }
+
+  /**
+   * Get the highest registered version satisfying a range.
+   */
+  private findBestVersion(range: VersionReference): ComponentSymbol | undefined {
+    const candidates = this.repo
+      .findByNamespace(range.namespace)
+      .filter((s) => s.namespace === range.namespace && s.name === range.name);
+
+    const best = findBestMatch(
+      candidates.map((c) => c.version),
+      range.range
+    );
+    if (!best) return undefined;
+
+    return candidates.find((c) => compareSemVer(c.version, best) === 0);
+  }
+}
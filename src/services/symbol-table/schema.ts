@@ -16,6 +16,7 @@ import type {
   Language,
   SymbolStatus,
   SymbolOrigin,
+  SymbolSearchHit,
 } from '../../domain/symbol/index.js';
 
 // ============================================================================
@@ -52,6 +53,7 @@ export interface SymbolTableService {
 
   // Text Search
   search(query: string): ComponentSymbol[];
+  searchRanked(query: string, limit?: number): SymbolSearchHit[];
 
   // Relationship Queries
   findContains(id: string): ComponentSymbol[];
@@ -11,10 +11,16 @@ import {
   closeDatabase,
 } from '../../repositories/persistence.js';
 import { SqliteSymbolRepository } from '../../repositories/symbol-repository.js';
+import { SqliteVersionLockRepository } from '../../repositories/version-lock-repository.js';
 import { SymbolTableService } from './service.js';
-import { validateSymbolTable, checkCircularContainment } from './symbol-validator.js';
+import { ReferenceResolver } from './reference-resolver.js';
+import {
+  validateSymbolTable,
+  validateSymbolById,
+  checkCircularContainment,
+} from './symbol-validator.js';
 import { createSymbol, createDependency } from '../../testing/fixtures.js';
-import type { SymbolRepository } from '../../domain/symbol/index.js';
+import type { SymbolRepository, VersionLockRepository } from '../../domain/symbol/index.js';
 
 describe('SymbolTableService', () => {
   let store: SymbolTableService;
@@ -187,6 +193,75 @@ describe('SymbolTableService', () => {
       assert.strictEqual(byDesc.length, 2);
     });
 
+    it('should rank name and tag matches above description matches', () => {
+      store.register(createSymbol({ id: 'auth/Session@1.0.0', name: 'Session', namespace: 'auth', description: 'Stores a JWT per user' }));
+      store.register(createSymbol({ id: 'auth/JwtService@1.0.0', name: 'JwtService', namespace: 'auth', description: 'Signs tokens' }));
+      store.register(createSymbol({ id: 'auth/Verifier@1.0.0', name: 'Verifier', namespace: 'auth', tags: ['jwt'], description: 'Checks signatures' }));
+
+      const hits = store.searchRanked('jwt');
+
+      assert.deepStrictEqual(
+        hits.map((h) => h.symbol.name),
+        ['JwtService', 'Verifier', 'Session']
+      );
+      assert.ok(hits[0]!.score > hits[2]!.score);
+      assert.deepStrictEqual(hits[2]?.highlights, [
+        {
+          field: 'description',
+          segments: [
+            { text: 'Stores a ', match: false },
+            { text: 'JWT', match: true },
+            { text: ' per user', match: false },
+          ],
+        },
+      ]);
+    });
+
+    it('should apply filters, prefixes and phrases', () => {
+      store.register(createSymbol({ id: 'auth/TokenStore@1.0.0', name: 'TokenStore', namespace: 'auth', kind: 'class', tags: ['auth'], description: 'Caches access tokens' }));
+      store.register(createSymbol({ id: 'auth/TokenService@1.0.0', name: 'TokenService', namespace: 'auth', tags: ['auth'], description: 'Issues access tokens' }));
+      store.register(createSymbol({ id: 'billing/TokenMeter@1.0.0', name: 'TokenMeter', namespace: 'billing', description: 'Counts tokens' }));
+
+      const ids = (query: string): string[] => store.searchRanked(query).map((h) => h.symbol.id);
+
+      assert.deepStrictEqual(ids('kind:service tag:auth tok*'), ['auth/TokenService@1.0.0']);
+      assert.deepStrictEqual(ids('ns:auth "access token"').sort(), [
+        'auth/TokenService@1.0.0',
+        'auth/TokenStore@1.0.0',
+      ]);
+      assert.deepStrictEqual(ids('tok'), []);
+      assert.deepStrictEqual(ids('namespace:billing'), ['billing/TokenMeter@1.0.0']);
+      assert.strictEqual(store.searchRanked('token', 1).length, 1);
+    });
+
+    it('should find nothing for queries without terms or filters', () => {
+      store.register(createSymbol({ id: 'core/Logger@1.0.0', name: 'Logger' }));
+
+      assert.deepStrictEqual(store.search(''), []);
+      assert.deepStrictEqual(store.search('-'), []);
+      assert.deepStrictEqual(store.searchRanked('"'), []);
+    });
+
+    it('should not throw on half-typed filters', () => {
+      store.register(createSymbol({ id: 'auth/JwtService@1.0.0', name: 'JwtService', namespace: 'auth' }));
+
+      assert.deepStrictEqual(store.search('kind:bogus'), []);
+      assert.deepStrictEqual(store.query({ search: 'kind:serv' }), []);
+      assert.strictEqual(store.searchRanked('kind:bogus jwt*').length, 0);
+    });
+
+    it('should keep the search index in sync with updates and removals', () => {
+      store.register(createSymbol({ id: 'core/Logger@1.0.0', name: 'Logger', description: 'Writes lines' }));
+
+      store.update('core/Logger@1.0.0', { description: 'Streams records', tags: ['io'] });
+      assert.deepStrictEqual(store.search('lines'), []);
+      assert.strictEqual(store.search('records').length, 1);
+      assert.strictEqual(store.search('io').length, 1);
+
+      store.remove('core/Logger@1.0.0');
+      assert.deepStrictEqual(store.search('records'), []);
+    });
+
     it('should find unreachable symbols', () => {
       store.register(createSymbol({ id: 'a@1.0.0', status: 'declared' }));
       store.register(createSymbol({ id: 'b@1.0.0', status: 'referenced' }));
@@ -316,6 +391,64 @@ describe('SymbolTableService', () => {
       assert.ok(result.errors.some((e) => e.code === 'INVALID_DEPENDENCY_REFERENCE'));
     });
 
+    it('should accept built-in member types and detect unknown ones', () => {
+      store.register(
+        createSymbol({
+          id: 'auth/Credentials@1.0.0',
+          name: 'Credentials',
+          level: 'L0',
+          kind: 'type',
+          members: [
+            { name: 'username', type: { symbolId: 'core/string@1.0.0' } },
+            { name: 'role', type: { symbolId: 'auth/Role@1.0.0' } },
+          ],
+        })
+      );
+
+      const result = validateSymbolTable(repo);
+      assert.strictEqual(result.valid, false);
+      assert.strictEqual(result.errors.length, 1);
+      assert.strictEqual(result.errors[0]?.code, 'INVALID_TYPE_REFERENCE');
+      assert.ok(result.errors[0]?.message.includes('auth/Role@1.0.0'));
+    });
+
+    it('should detect version bumps smaller than the changes require', () => {
+      const logger = createDependency({
+        symbolId: 'core/Logger@1.0.0',
+        name: 'logger',
+        kind: 'constructor',
+      });
+      store.register(createSymbol({ id: 'core/Logger@1.0.0', name: 'Logger', namespace: 'core' }));
+      store.register(createSymbol({ id: 'test/TestComponent@1.0.0', dependencies: [logger] }));
+      store.register(
+        createSymbol({
+          id: 'test/TestComponent@1.0.1',
+          version: { major: 1, minor: 0, patch: 1 },
+        })
+      );
+      store.register(
+        createSymbol({
+          id: 'test/TestComponent@2.0.0',
+          version: { major: 2, minor: 0, patch: 0 },
+          dependencies: [logger],
+        })
+      );
+
+      const result = validateSymbolTable(repo);
+      assert.strictEqual(result.errors.length, 1);
+      assert.strictEqual(result.errors[0]?.code, 'INSUFFICIENT_VERSION_BUMP');
+      assert.deepStrictEqual(result.errors[0]?.symbolIds, [
+        'test/TestComponent@1.0.0',
+        'test/TestComponent@1.0.1',
+      ]);
+      assert.ok(result.errors[0]?.message.includes("Removed dependency 'logger'"));
+
+      // Adding a required dependency back is breaking too, and 2.0.0 is a major bump
+      const single = validateSymbolById('test/TestComponent@1.0.0', repo);
+      assert.deepStrictEqual(single.errors, result.errors);
+      assert.strictEqual(validateSymbolById('test/TestComponent@2.0.0', repo).valid, true);
+    });
+
     it('should detect circular containment', () => {
       // First register both symbols without contains to avoid FK constraint
       store.register(
@@ -342,3 +475,141 @@ describe('SymbolTableService', () => {
     });
   });
 });
+
+describe('ReferenceResolver', () => {
+  let store: SymbolTableService;
+  let repo: SymbolRepository;
+  let locks: VersionLockRepository;
+  let resolver: ReferenceResolver;
+
+  function registerLogger(patch: number, minor = 2): void {
+    store.register(
+      createSymbol({
+        id: `core/Logger@1.${minor}.${patch}`,
+        name: 'Logger',
+        namespace: 'core',
+        version: { major: 1, minor, patch },
+      })
+    );
+  }
+
+  beforeEach(() => {
+    const db = initMemoryDatabase();
+    repo = new SqliteSymbolRepository(db);
+    locks = new SqliteVersionLockRepository(db);
+    store = new SymbolTableService(repo);
+    resolver = new ReferenceResolver(repo, locks);
+
+    registerLogger(0);
+    registerLogger(3);
+    registerLogger(0, 3);
+    // Same name in a child namespace must not match
+    store.register(
+      createSymbol({
+        id: 'core/legacy/Logger@1.9.0',
+        name: 'Logger',
+        namespace: 'core/legacy',
+        version: { major: 1, minor: 9, patch: 0 },
+      })
+    );
+  });
+
+  afterEach(() => {
+    closeDatabase();
+  });
+
+  it('should resolve pinned IDs directly', () => {
+    assert.strictEqual(resolver.resolve('core/Logger@1.2.0')?.id, 'core/Logger@1.2.0');
+    assert.strictEqual(resolver.resolve('core/Logger@1.2.9'), undefined);
+  });
+
+  it('should resolve ranges to the highest matching version', () => {
+    assert.strictEqual(resolver.resolve('core/Logger@~1.2.0')?.id, 'core/Logger@1.2.3');
+    assert.strictEqual(resolver.resolve('core/Logger@^1.2.0')?.id, 'core/Logger@1.3.0');
+    assert.strictEqual(resolver.resolve('core/Logger@^2.0.0'), undefined);
+  });
+
+  it('should keep using a locked version until locks are updated', () => {
+    assert.strictEqual(resolver.resolveAndLock('core/Logger@~1.2.0')?.id, 'core/Logger@1.2.3');
+    registerLogger(4);
+
+    assert.strictEqual(resolver.resolve('core/Logger@~1.2.0')?.id, 'core/Logger@1.2.3');
+
+    const updated = resolver.updateLocks();
+    assert.deepStrictEqual(
+      updated.map((lock) => [lock.reference, lock.resolvedId]),
+      [['core/Logger@~1.2.0', 'core/Logger@1.2.4']]
+    );
+    assert.strictEqual(resolver.resolve('core/Logger@~1.2.0')?.id, 'core/Logger@1.2.4');
+  });
+
+  it('should not lock pinned IDs', () => {
+    resolver.resolveAndLock('core/Logger@1.2.0');
+    assert.deepStrictEqual(resolver.listLocks(), []);
+  });
+
+  it('should drop locks when the locked symbol is removed', () => {
+    resolver.resolveAndLock('core/Logger@~1.2.0');
+    store.remove('core/Logger@1.2.3');
+
+    assert.deepStrictEqual(resolver.listLocks(), []);
+    assert.strictEqual(resolver.resolve('core/Logger@~1.2.0')?.id, 'core/Logger@1.2.0');
+  });
+
+  it('should validate range references against registered versions', () => {
+    store.register(
+      createSymbol({
+        id: 'app/Service@1.0.0',
+        name: 'Service',
+        namespace: 'app',
+        extends: 'core/Logger@^1.0.0',
+        dependencies: [
+          createDependency({ symbolId: 'core/Logger@~1.2.0', name: 'logger', kind: 'constructor' }),
+          createDependency({ symbolId: 'core/Logger@^2.0.0', name: 'next', kind: 'property' }),
+        ],
+      })
+    );
+
+    const result = validateSymbolTable(repo);
+    assert.strictEqual(result.errors.length, 1);
+    assert.strictEqual(result.errors[0]?.code, 'INVALID_DEPENDENCY_REFERENCE');
+    assert.ok(result.errors[0]?.message.includes('core/Logger@^2.0.0'));
+    assert.deepStrictEqual(validateSymbolById('app/Service@1.0.0', repo).errors, result.errors);
+  });
+
+  it('should validate range references through the version locks', () => {
+    resolver.resolveAndLock('core/Logger@~1.2.0');
+    store.register(
+      createSymbol({
+        id: 'app/Service@1.0.0',
+        name: 'Service',
+        namespace: 'app',
+        dependencies: [
+          createDependency({ symbolId: 'core/Logger@~1.2.0', name: 'logger', kind: 'constructor' }),
+          createDependency({ symbolId: 'core/Logger@^1.3.0', name: 'next', kind: 'property' }),
+        ],
+      })
+    );
+    const before = locks.list();
+
+    assert.deepStrictEqual(validateSymbolTable(repo, undefined, locks).errors, []);
+    assert.deepStrictEqual(
+      validateSymbolById('app/Service@1.0.0', repo, undefined, locks).errors,
+      []
+    );
+    assert.deepStrictEqual(locks.list(), before);
+  });
+
+  it('should persist range extends outside the foreign key column', () => {
+    store.register(
+      createSymbol({
+        id: 'app/Service@1.0.0',
+        name: 'Service',
+        namespace: 'app',
+        extends: 'core/Logger@^1.0.0',
+      })
+    );
+
+    assert.strictEqual(store.get('app/Service@1.0.0')?.extends, 'core/Logger@^1.0.0');
+  });
+});
@@ -5,8 +5,8 @@
  * Composes focused services for each responsibility.
  */
 
-import type { ComponentSymbol, SymbolRepository } from '../../domain/symbol/index.js';
-import { validateKindLevel, ComponentSymbolSchema, buildSymbolId, parseConstraint, findBestMatch, compareSemVer } from '../../domain/symbol/index.js';
+import type { ComponentSymbol, SymbolRepository, SymbolSearchHit } from '../../domain/symbol/index.js';
+import { parseSearchQuery, validateKindLevel, ComponentSymbolSchema, buildSymbolId, parseConstraint, findBestMatch, compareSemVer } from '../../domain/symbol/index.js';
 import type { SymbolTableService as ISymbolTableService, ComponentQuery, ResolveOptions } from './schema.js';
 
 // =============================================================================
@@ -232,6 +232,14 @@ export class SymbolTableService implements ISymbolTableService {
     return this.repo.search(query);
   }
 
+  /**
+   * Search symbols by text, best matches first, with the matched text highlighted.
+   * Supports `field:value` filters, `prefix*` and `"phrases"` (see parseSearchQuery).
+   */
+  searchRanked(query: string, limit?: number): SymbolSearchHit[] {
+    return this.repo.searchRanked(parseSearchQuery(query), limit);
+  }
+
   // ===========================================================================
   // Relationship Queries
   // ===========================================================================
@@ -5,8 +5,21 @@
  * Single Responsibility: Validation logic for UML relationships.
  */
 
-import type { ComponentSymbol, ValidationResult, SymbolRepository } from '../../domain/symbol/index.js';
-import { createValidationResult } from '../../domain/symbol/index.js';
+import type {
+  ComponentSymbol,
+  ValidationResult,
+  SymbolRepository,
+  VersionLockRepository,
+} from '../../domain/symbol/index.js';
+import {
+  createValidationResult,
+  isBuiltinType,
+  parseVersionReference,
+  checkCompatibility,
+  compareSemVer,
+} from '../../domain/symbol/index.js';
+import type { SourceVerifier } from '../source-verification/index.js';
+import { ReferenceResolver } from './reference-resolver.js';
 
 // ===========================================================================
 // Internal Helpers
@@ -17,7 +30,7 @@ import { createValidationResult } from '../../domain/symbol/index.js';
  */
 interface SymbolReference {
   id: string;
-  type: 'extends' | 'implements' | 'dependency' | 'composition' | 'aggregation' | 'containment';
+  type: 'extends' | 'implements' | 'dependency' | 'composition' | 'aggregation' | 'containment' | 'type';
   fieldName?: string;
 }
 
@@ -52,6 +65,21 @@ function extractSymbolReferences(symbol: ComponentSymbol): SymbolReference[] {
     refs.push({ id, type: 'containment' });
   });
 
+  // L0 definitions and operations may use built-in types without registering them
+  const typeRefs = [
+    ...(symbol.members ?? []).map(member => ({ ref: member.type, fieldName: member.name })),
+    ...(symbol.aliasOf ?? []).map(ref => ({ ref, fieldName: undefined })),
+    ...(symbol.constant ? [{ ref: symbol.constant.type, fieldName: undefined }] : []),
+    ...(symbol.operations ?? []).flatMap(op => [
+      ...op.parameters.map(param => ({ ref: param.type, fieldName: `${op.name}.${param.name}` })),
+      ...(op.returnType ? [{ ref: op.returnType, fieldName: op.name }] : []),
+    ]),
+  ];
+  for (const { ref, fieldName } of typeRefs) {
+    if (isBuiltinType(ref.symbolId)) continue;
+    refs.push({ id: ref.symbolId, type: 'type', ...(fieldName ? { fieldName } : {}) });
+  }
+
   return refs;
 }
 
@@ -66,6 +94,7 @@ function getErrorCode(type: SymbolReference['type']): string {
     composition: 'INVALID_COMPOSITION_REFERENCE',
     aggregation: 'INVALID_AGGREGATION_REFERENCE',
     containment: 'INVALID_CONTAINMENT_REFERENCE',
+    type: 'INVALID_TYPE_REFERENCE',
   };
   return codes[type];
 }
@@ -81,6 +110,7 @@ function getErrorMessage(symbolId: string, ref: SymbolReference): string {
     composition: `Symbol '${symbolId}' composes unknown symbol '${ref.id}'`,
     aggregation: `Symbol '${symbolId}' aggregates unknown symbol '${ref.id}'`,
     containment: `Symbol '${symbolId}' contains unknown symbol '${ref.id}'`,
+    type: `Symbol '${symbolId}' uses unknown type '${ref.id}'`,
   };
   return messages[ref.type];
 }
@@ -88,6 +118,7 @@ function getErrorMessage(symbolId: string, ref: SymbolReference): string {
 /**
  * Validate symbol references using a lookup function.
  * Internal helper - works with both Map and repo.find().
+ * Version-range references are valid if any registered version satisfies them.
  */
 function validateReferences(
   symbol: ComponentSymbol,
@@ -108,6 +139,62 @@ function validateReferences(
   }
 }
 
+/**
+ * Check that each version bump is at least as large as its changes require.
+ * Versions of one namespace/name are compared with their predecessor.
+ */
+function validateVersionBumps(
+  versions: ComponentSymbol[],
+  result: ValidationResult,
+  involving?: string
+): void {
+  const sorted = [...versions].sort((a, b) => compareSemVer(a.version, b.version));
+
+  for (let i = 1; i < sorted.length; i++) {
+    const from = sorted[i - 1]!;
+    const to = sorted[i]!;
+    if (involving && from.id !== involving && to.id !== involving) continue;
+    // Same version under different IDs is not a bump
+    if (compareSemVer(from.version, to.version) === 0) continue;
+
+    const report = checkCompatibility(from, to);
+    if (report.compatible) continue;
+
+    const reasons = report.changes
+      .filter((c) => c.severity === report.requiredBump)
+      .map((c) => c.description);
+    result.errors.push({
+      code: 'INSUFFICIENT_VERSION_BUMP',
+      message: `Symbol '${to.id}' needs a ${report.requiredBump} version bump from '${from.id}' but is a ${report.actualBump} bump: ${reasons.join('; ')}`,
+      symbolIds: [from.id, to.id],
+      severity: 'error',
+    });
+  }
+}
+
+/**
+ * Report stale source locations as warnings: the registry is still
+ * consistent, but its view of the code is out of date.
+ */
+function validateSourceLocations(
+  verifier: SourceVerifier,
+  symbolIds: string[] | undefined,
+  result: ValidationResult
+): void {
+  const codes = { moved: 'SOURCE_MOVED', changed: 'SOURCE_CHANGED', missing: 'SOURCE_MISSING' };
+  const { checks } = verifier.verify(symbolIds ? { symbolIds } : {});
+
+  for (const check of checks) {
+    if (check.state === 'current') continue;
+    result.warnings.push({
+      code: codes[check.state],
+      message: `Symbol '${check.symbolId}': ${check.message}`,
+      symbolIds: [check.symbolId],
+      severity: 'warning',
+    });
+  }
+}
+
 // ===========================================================================
 // Pure Validation Functions
 // ===========================================================================
@@ -117,20 +204,41 @@ function validateReferences(
  *
  * Checks:
  * - UML relationship references (extends, implements, dependencies, composes, aggregates)
+ * - Type references in L0 definitions (members, aliasOf, constant) and operations
  * - Containment references (contains[] has valid symbol IDs)
+ * - Version bumps large enough for the changes since the previous version
  * - Circular containment detection
+ * - Source locations that moved, changed or disappeared (warnings, with a verifier)
+ *
+ * Range references resolve through the project's version locks when given,
+ * as they do at generate time. Validation never changes the locks.
  */
 export function validateSymbolTable(
-  repo: SymbolRepository
+  repo: SymbolRepository,
+  sourceVerifier?: SourceVerifier,
+  locks?: VersionLockRepository
 ): ValidationResult {
   const result = createValidationResult();
 
   const allSymbols = repo.list();
   const symbolMap = new Map(allSymbols.map((s) => [s.id, s]));
 
-  // Check each symbol's references using Map for O(1) lookup
+  // Check each symbol's references using Map for O(1) lookup of pinned IDs
+  const resolver = new ReferenceResolver(repo, locks);
+  const exists = (id: string): boolean =>
+    parseVersionReference(id) ? resolver.resolve(id) !== undefined : symbolMap.has(id);
   for (const symbol of allSymbols) {
-    validateReferences(symbol, (id) => symbolMap.has(id), result);
+    validateReferences(symbol, exists, result);
+  }
+
+  // Check SemVer bumps between consecutive versions of each symbol
+  const versionGroups = new Map<string, ComponentSymbol[]>();
+  for (const symbol of allSymbols) {
+    const key = `${symbol.namespace}/${symbol.name}`;
+    versionGroups.set(key, [...(versionGroups.get(key) ?? []), symbol]);
+  }
+  for (const versions of versionGroups.values()) {
+    validateVersionBumps(versions, result);
   }
 
   // Check for circular containment
@@ -144,6 +252,10 @@ export function validateSymbolTable(
     });
   }
 
+  if (sourceVerifier) {
+    validateSourceLocations(sourceVerifier, undefined, result);
+  }
+
   result.valid = result.errors.length === 0;
   return result;
 }
@@ -156,7 +268,9 @@ export function validateSymbolTable(
  */
 export function validateSymbolById(
   id: string,
-  repo: SymbolRepository
+  repo: SymbolRepository,
+  sourceVerifier?: SourceVerifier,
+  locks?: VersionLockRepository
 ): ValidationResult {
   const result = createValidationResult();
 
@@ -172,8 +286,19 @@ export function validateSymbolById(
     return result;
   }
 
-  // Validate all references using repo.find() for lookup
-  validateReferences(symbol, (refId) => repo.find(refId) !== undefined, result);
+  // Validate all references using the resolver (repo.find() for pinned IDs)
+  const resolver = new ReferenceResolver(repo, locks);
+  validateReferences(symbol, (refId) => resolver.resolve(refId) !== undefined, result);
+
+  // Check SemVer bumps against the neighbouring versions
+  const versions = repo
+    .findByNamespace(symbol.namespace)
+    .filter((s) => s.namespace === symbol.namespace && s.name === symbol.name);
+  validateVersionBumps(versions, result, symbol.id);
+
+  if (sourceVerifier) {
+    validateSourceLocations(sourceVerifier, [id], result);
+  }
 
   result.valid = result.errors.length === 0;
   return result;
@@ -0,0 +1,12 @@
+/**
+ * Trace Import Service
+ *
+ * Merges runtime tracer execution counts into symbol status and marks
+ * traced symbols as `executed` (ADR-005).
+ */
+
+// Service (primary API)
+export { TraceImportService } from './service.js';
+
+// Commonly used types
+export type { TraceImportOptions, TraceImportResult } from './schema.js';
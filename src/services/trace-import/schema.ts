@@ -0,0 +1,43 @@
+/**
+ * Trace Import Schema
+ *
+ * Types for merging runtime tracer output into symbol status (ADR-005).
+ */
+
+import type { TraceFile } from '../../infrastructure/runtime-tracer/index.js';
+
+// =============================================================================
+// Service Interface
+// =============================================================================
+
+/**
+ * Trace import service public API contract.
+ *
+ * Merges execution counts into `statusInfo.executionInfo` and marks traced
+ * symbols as `executed`.
+ */
+export interface TraceImportService {
+  importTrace(trace: TraceFile, options?: TraceImportOptions): TraceImportResult;
+  importFile(tracePath: string, options?: TraceImportOptions): TraceImportResult;
+}
+
+// =============================================================================
+// Options and Result
+// =============================================================================
+
+export interface TraceImportOptions {
+  /** Report the matches without updating the symbol table (default: false) */
+  dryRun?: boolean;
+}
+
+/**
+ * Result of importing a trace file.
+ */
+export interface TraceImportResult {
+  /** Number of symbols in the trace */
+  symbolsInTrace: number;
+  /** Symbols whose execution info was updated */
+  executed: string[];
+  /** Traced symbol IDs that are not in the symbol table */
+  unknown: string[];
+}
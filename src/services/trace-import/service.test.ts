@@ -0,0 +1,133 @@
+/**
+ * Trace Import Service Tests
+ *
+ * Integration tests merging runtime traces into an in-memory symbol table.
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  initMemoryDatabase,
+  closeDatabase,
+} from '../../repositories/persistence.js';
+import { SqliteSymbolRepository } from '../../repositories/symbol-repository.js';
+import { createSymbol } from '../../testing/fixtures.js';
+import type { SymbolRepository } from '../../domain/symbol/index.js';
+import type { TraceFile } from '../../infrastructure/runtime-tracer/index.js';
+import { TraceImportService } from './service.js';
+
+const AUTH = 'auth/AuthService@1.0.0';
+const LOGGER = 'core/Logger@1.0.0';
+
+const TRACE: TraceFile = {
+  version: 1,
+  symbols: {
+    [AUTH]: {
+      count: 3,
+      firstSeen: '2026-01-01T00:00:00.000Z',
+      lastSeen: '2026-01-02T00:00:00.000Z',
+      contexts: ['test'],
+    },
+    'gone/Removed@1.0.0': {
+      count: 1,
+      firstSeen: '2026-01-01T00:00:00.000Z',
+      lastSeen: '2026-01-01T00:00:00.000Z',
+      contexts: ['test'],
+    },
+  },
+};
+
+describe('TraceImportService', () => {
+  let repo: SymbolRepository;
+  let service: TraceImportService;
+
+  beforeEach(() => {
+    const db = initMemoryDatabase();
+    repo = new SqliteSymbolRepository(db);
+    service = new TraceImportService(repo);
+
+    repo.insert(createSymbol({ id: AUTH, name: 'AuthService', namespace: 'auth' }));
+    repo.insert(createSymbol({ id: LOGGER, name: 'Logger', namespace: 'core' }));
+  });
+
+  afterEach(() => {
+    closeDatabase();
+  });
+
+  it('should mark traced symbols as executed', () => {
+    const result = service.importTrace(TRACE);
+
+    assert.strictEqual(result.symbolsInTrace, 2);
+    assert.deepStrictEqual(result.executed, [AUTH]);
+    assert.deepStrictEqual(result.unknown, ['gone/Removed@1.0.0']);
+
+    const auth = repo.find(AUTH);
+    assert.strictEqual(auth?.status, 'executed');
+    assert.strictEqual(auth?.statusInfo?.source, 'runtime');
+    assert.deepStrictEqual(auth?.statusInfo?.executionInfo, {
+      count: 3,
+      firstSeen: new Date('2026-01-01T00:00:00.000Z'),
+      lastSeen: new Date('2026-01-02T00:00:00.000Z'),
+      contexts: ['test'],
+    });
+    assert.strictEqual(repo.find(LOGGER)?.status, 'declared');
+  });
+
+  it('should accumulate execution info across imports', () => {
+    service.importTrace(TRACE);
+    service.importTrace({
+      version: 1,
+      symbols: {
+        [AUTH]: {
+          count: 2,
+          firstSeen: '2026-01-05T00:00:00.000Z',
+          lastSeen: '2026-01-06T00:00:00.000Z',
+          contexts: ['development'],
+        },
+      },
+    });
+
+    const info = repo.find(AUTH)?.statusInfo?.executionInfo;
+    assert.strictEqual(info?.count, 5);
+    assert.deepStrictEqual(info?.firstSeen, new Date('2026-01-01T00:00:00.000Z'));
+    assert.deepStrictEqual(info?.lastSeen, new Date('2026-01-06T00:00:00.000Z'));
+    assert.deepStrictEqual(info?.contexts, ['test', 'development']);
+  });
+
+  it('should keep references and tests', () => {
+    const auth = repo.find(AUTH)!;
+    repo.update(AUTH, {
+      ...auth,
+      status: 'tested',
+      statusInfo: { updatedAt: new Date(), source: 'coverage', testedBy: ['lcov.info'] },
+    });
+
+    service.importTrace(TRACE);
+
+    assert.deepStrictEqual(repo.find(AUTH)?.statusInfo?.testedBy, ['lcov.info']);
+  });
+
+  it('should not update symbols on a dry run', () => {
+    const result = service.importTrace(TRACE, { dryRun: true });
+
+    assert.deepStrictEqual(result.executed, [AUTH]);
+    assert.strictEqual(repo.find(AUTH)?.status, 'declared');
+  });
+
+  it('should import a trace file', () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'trace-import-test-'));
+    try {
+      const tracePath = path.join(tempDir, 'trace.json');
+      fs.writeFileSync(tracePath, JSON.stringify(TRACE));
+
+      service.importFile(tracePath);
+
+      assert.strictEqual(repo.find(AUTH)?.statusInfo?.executionInfo?.count, 3);
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Trace Import Service
+ *
+ * Ingests runtime tracer output into the symbol table (ADR-005). Execution
+ * counts are added to each symbol's `statusInfo.executionInfo` and traced
+ * symbols become `executed`, the highest status. All updates are written in
+ * one transaction.
+ *
+ * Counts accumulate across imports, so each trace file should be imported
+ * once (or cleared after importing).
+ */
+
+import * as path from 'path';
+import type {
+  ComponentSymbol,
+  ExecutionInfo,
+  SymbolRepository,
+} from '../../domain/symbol/index.js';
+import {
+  mergeTraceEntries,
+  parseTraceFile,
+  type TraceEntry,
+  type TraceFile,
+} from '../../infrastructure/runtime-tracer/index.js';
+import { readFile } from '../../infrastructure/file-system/index.js';
+import type {
+  TraceImportService as ITraceImportService,
+  TraceImportOptions,
+  TraceImportResult,
+} from './schema.js';
+
+// =============================================================================
+// Service Class
+// =============================================================================
+
+export class TraceImportService implements ITraceImportService {
+  private readonly repo: SymbolRepository;
+
+  constructor(repo: SymbolRepository) {
+    this.repo = repo;
+  }
+
+  /**
+   * Import a trace file written by the runtime tracer.
+   *
+   * @throws Error if the file cannot be read or parsed
+   */
+  importFile(tracePath: string, options: TraceImportOptions = {}): TraceImportResult {
+    const trace = parseTraceFile(readFile(path.resolve(tracePath)));
+    return this.importTrace(trace, options);
+  }
+
+  /**
+   * Merge a trace into the execution info of the traced symbols.
+   */
+  importTrace(trace: TraceFile, options: TraceImportOptions = {}): TraceImportResult {
+    const now = new Date();
+    const result: TraceImportResult = {
+      symbolsInTrace: Object.keys(trace.symbols).length,
+      executed: [],
+      unknown: [],
+    };
+    const updates: ComponentSymbol[] = [];
+
+    for (const [symbolId, entry] of Object.entries(trace.symbols)) {
+      const symbol = this.repo.find(symbolId);
+      if (!symbol) {
+        result.unknown.push(symbolId);
+        continue;
+      }
+
+      result.executed.push(symbolId);
+      updates.push(applyExecution(symbol, entry, now));
+    }
+
+    if (!options.dryRun) {
+      this.repo.transaction(() => {
+        for (const symbol of updates) {
+          this.repo.update(symbol.id, symbol);
+        }
+      });
+    }
+
+    return result;
+  }
+}
+
+// =============================================================================
+// Module Helpers
+// =============================================================================
+
+/**
+ * Merge a trace entry into a symbol's execution info and mark it executed.
+ */
+function applyExecution(symbol: ComponentSymbol, entry: TraceEntry, now: Date): ComponentSymbol {
+  const existing = symbol.statusInfo?.executionInfo;
+  const merged = existing ? mergeTraceEntries(toTraceEntry(existing), entry) : entry;
+  const executionInfo: ExecutionInfo = {
+    count: merged.count,
+    firstSeen: new Date(merged.firstSeen),
+    lastSeen: new Date(merged.lastSeen),
+    contexts: merged.contexts,
+  };
+
+  return {
+    ...symbol,
+    status: 'executed',
+    statusInfo: { ...symbol.statusInfo, updatedAt: now, source: 'runtime', executionInfo },
+  };
+}
+
+function toTraceEntry(info: ExecutionInfo): TraceEntry {
+  return {
+    count: info.count,
+    firstSeen: info.firstSeen.toISOString(),
+    lastSeen: info.lastSeen.toISOString(),
+    contexts: info.contexts,
+  };
+}